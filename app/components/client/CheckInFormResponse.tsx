@@ -1,14 +1,22 @@
 import React, { useState } from "react";
 import Modal from "~/components/ui/Modal";
 import Button from "~/components/ui/Button";
+import CheckInQuestionInput from "./CheckInQuestionInput";
+import {
+  isCheckInResponseEmpty,
+  isQuestionVisible,
+  type QuestionVisibilityRule,
+} from "~/lib/checkInFormUtils";
+import type { CheckInQuestionType } from "~/lib/supabase";
 
 export interface FormQuestion {
   id: string;
   question_text: string;
-  question_type: 'text' | 'textarea' | 'number' | 'select' | 'radio' | 'checkbox';
+  question_type: CheckInQuestionType;
   is_required: boolean;
   options?: string[];
   order_index: number;
+  visibility_rule?: QuestionVisibilityRule | null;
 }
 
 export interface FormInstance {
@@ -43,6 +51,7 @@ export default function CheckInFormResponse({
   const [responses, setResponses] = useState<Record<string, any>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [uploadingPhotos, setUploadingPhotos] = useState<Record<string, boolean>>({});
 
   const handleResponseChange = (questionId: string, value: any) => {
     setResponses(prev => ({
@@ -59,17 +68,18 @@ export default function CheckInFormResponse({
     }
   };
 
+  // Follow-up questions only appear once the answer they depend on matches
+  const allQuestions = formInstance.questions || [];
+  const visibleQuestions = allQuestions.filter(question =>
+    isQuestionVisible(question, allQuestions, responses)
+  );
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
     
-    formInstance.questions?.forEach(question => {
-      if (question.is_required) {
-        const response = responses[question.id];
-        if (!response || 
-            (typeof response === 'string' && !response.trim()) ||
-            (Array.isArray(response) && response.length === 0)) {
-          newErrors[question.id] = 'This question is required';
-        }
+    visibleQuestions.forEach(question => {
+      if (question.is_required && isCheckInResponseEmpty(question.question_type, responses[question.id])) {
+        newErrors[question.id] = 'This question is required';
       }
     });
     
@@ -86,7 +96,14 @@ export default function CheckInFormResponse({
     
     setIsSubmitting(true);
     try {
-      await onSubmit(responses);
+      // Drop answers to questions that were hidden again after being answered
+      await onSubmit(
+        Object.fromEntries(
+          visibleQuestions
+            .filter(question => question.id in responses)
+            .map(question => [question.id, responses[question.id]])
+        )
+      );
       setResponses({});
       setErrors({});
       onClose();
@@ -97,116 +114,35 @@ export default function CheckInFormResponse({
     }
   };
 
-  const renderQuestion = (question: FormQuestion) => {
-    const value = responses[question.id];
-    const error = errors[question.id];
-
-    switch (question.question_type) {
-      case 'text':
-        return (
-          <input
-            type="text"
-            value={value || ''}
-            onChange={(e) => handleResponseChange(question.id, e.target.value)}
-            className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster ${
-              error ? 'border-red-500' : 'border-gray-light dark:border-davyGray'
-            }`}
-            placeholder="Enter your answer..."
-          />
-        );
-
-      case 'textarea':
-        return (
-          <textarea
-            value={value || ''}
-            onChange={(e) => handleResponseChange(question.id, e.target.value)}
-            rows={4}
-            className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster ${
-              error ? 'border-red-500' : 'border-gray-light dark:border-davyGray'
-            }`}
-            placeholder="Enter your answer..."
-          />
-        );
-
-      case 'number':
-        return (
-          <input
-            type="number"
-            value={value || ''}
-            onChange={(e) => handleResponseChange(question.id, e.target.value)}
-            className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster ${
-              error ? 'border-red-500' : 'border-gray-light dark:border-davyGray'
-            }`}
-            placeholder="Enter a number..."
-          />
-        );
-
-      case 'select':
-        return (
-          <select
-            value={value || ''}
-            onChange={(e) => handleResponseChange(question.id, e.target.value)}
-            className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster ${
-              error ? 'border-red-500' : 'border-gray-light dark:border-davyGray'
-            }`}
-          >
-            <option value="">Select an option...</option>
-            {question.options?.map((option, index) => (
-              <option key={index} value={option}>
-                {option}
-              </option>
-            ))}
-          </select>
-        );
-
-      case 'radio':
-        return (
-          <div className="space-y-2">
-            {question.options?.map((option, index) => (
-              <label key={index} className="flex items-center space-x-2">
-                <input
-                  type="radio"
-                  name={question.id}
-                  value={option}
-                  checked={value === option}
-                  onChange={(e) => handleResponseChange(question.id, e.target.value)}
-                  className="h-4 w-4 text-primary focus:ring-primary border-gray-light dark:border-davyGray"
-                />
-                <span className="text-secondary dark:text-alabaster">{option}</span>
-              </label>
-            ))}
-          </div>
-        );
-
-      case 'checkbox':
-        return (
-          <div className="space-y-2">
-            {question.options?.map((option, index) => (
-              <label key={index} className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  value={option}
-                  checked={Array.isArray(value) && value.includes(option)}
-                  onChange={(e) => {
-                    const currentValues = Array.isArray(value) ? value : [];
-                    const newValues = e.target.checked
-                      ? [...currentValues, option]
-                      : currentValues.filter(v => v !== option);
-                    handleResponseChange(question.id, newValues);
-                  }}
-                  className="h-4 w-4 text-primary focus:ring-primary border-gray-light dark:border-davyGray rounded"
-                />
-                <span className="text-secondary dark:text-alabaster">{option}</span>
-              </label>
-            ))}
-          </div>
-        );
-
-      default:
-        return null;
+  // Photo answers go through the progress photo upload, so they show up in the client's photo history too
+  const handlePhotoSelected = async (question: FormQuestion, file: File | undefined) => {
+    if (!file) return;
+    setUploadingPhotos(prev => ({ ...prev, [question.id]: true }));
+    setErrors(prev => ({ ...prev, [question.id]: '' }));
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("clientId", formInstance.client_id);
+      formData.append("notes", `Check-in: ${question.question_text}`);
+      const res = await fetch("/api/upload-progress-photo", { method: "POST", body: formData });
+      const result = await res.json();
+      if (!res.ok || !result.photo?.photo_url) {
+        throw new Error(result.error || "Failed to upload photo");
+      }
+      handleResponseChange(question.id, result.photo.photo_url);
+    } catch (error) {
+      setErrors(prev => ({
+        ...prev,
+        [question.id]: error instanceof Error ? error.message : "Failed to upload photo",
+      }));
+    } finally {
+      setUploadingPhotos(prev => ({ ...prev, [question.id]: false }));
     }
   };
 
+  const isUploading = Object.values(uploadingPhotos).some(Boolean);
+
+
   const isExpired = formInstance.expires_at && new Date(formInstance.expires_at) < new Date();
 
   return (
@@ -246,7 +182,7 @@ export default function CheckInFormResponse({
           )}
 
           <div className="space-y-6">
-            {formInstance.questions?.map((question, index) => {
+            {visibleQuestions.map((question, index) => {
               return (
                 <div key={question.id} className="space-y-2">
                   <label className="block text-sm font-medium text-secondary dark:text-alabaster">
@@ -256,7 +192,14 @@ export default function CheckInFormResponse({
                     )}
                   </label>
                   
-                  {renderQuestion(question)}
+                  <CheckInQuestionInput
+                    question={question}
+                    value={responses[question.id]}
+                    error={errors[question.id]}
+                    onChange={(value) => handleResponseChange(question.id, value)}
+                    onPhotoSelected={(file) => handlePhotoSelected(question, file)}
+                    isUploadingPhoto={uploadingPhotos[question.id]}
+                  />
                   
                   {errors[question.id] && (
                     <p className="text-red-500 text-sm">{errors[question.id]}</p>
@@ -273,9 +216,9 @@ export default function CheckInFormResponse({
             <Button
               type="submit"
               variant="primary"
-              disabled={isSubmitting}
+              disabled={isSubmitting || isUploading}
             >
-              {isSubmitting ? 'Submitting...' : 'Submit Responses'}
+              {isSubmitting ? 'Submitting...' : isUploading ? 'Uploading...' : 'Submit Responses'}
             </Button>
           </div>
         </form>
@@ -0,0 +1,251 @@
+import {
+  BODY_MEASUREMENT_FIELDS,
+  BODY_MEASUREMENT_UNIT,
+  SCALE_MAX,
+  SCALE_MIN,
+} from "~/lib/checkInFormConstants";
+import type { FormQuestion } from "./CheckInFormResponse";
+
+interface CheckInQuestionInputProps {
+  question: FormQuestion;
+  value: any;
+  error?: string;
+  onChange: (value: any) => void;
+  /** Photo questions are only shown when there is somewhere to upload to. */
+  onPhotoSelected?: (file: File | undefined) => void;
+  isUploadingPhoto?: boolean;
+}
+
+/** The answer input for one check-in question, by question type. */
+export default function CheckInQuestionInput({
+  question,
+  value,
+  error,
+  onChange,
+  onPhotoSelected,
+  isUploadingPhoto = false,
+}: CheckInQuestionInputProps) {
+  switch (question.question_type) {
+    case 'text':
+      return (
+        <input
+          type="text"
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster ${
+            error ? 'border-red-500' : 'border-gray-light dark:border-davyGray'
+          }`}
+          placeholder="Enter your answer..."
+        />
+      );
+
+    case 'textarea':
+      return (
+        <textarea
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          rows={4}
+          className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster ${
+            error ? 'border-red-500' : 'border-gray-light dark:border-davyGray'
+          }`}
+          placeholder="Enter your answer..."
+        />
+      );
+
+    case 'number':
+      return (
+        <input
+          type="number"
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster ${
+            error ? 'border-red-500' : 'border-gray-light dark:border-davyGray'
+          }`}
+          placeholder="Enter a number..."
+        />
+      );
+
+    case 'select':
+      return (
+        <select
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster ${
+            error ? 'border-red-500' : 'border-gray-light dark:border-davyGray'
+          }`}
+        >
+          <option value="">Select an option...</option>
+          {question.options?.map((option, index) => (
+            <option key={index} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+
+    case 'radio':
+      return (
+        <div className="space-y-2">
+          {question.options?.map((option, index) => (
+            <label key={index} className="flex items-center space-x-2">
+              <input
+                type="radio"
+                name={question.id}
+                value={option}
+                checked={value === option}
+                onChange={(e) => onChange(e.target.value)}
+                className="h-4 w-4 text-primary focus:ring-primary border-gray-light dark:border-davyGray"
+              />
+              <span className="text-secondary dark:text-alabaster">{option}</span>
+            </label>
+          ))}
+        </div>
+      );
+
+    case 'checkbox':
+      return (
+        <div className="space-y-2">
+          {question.options?.map((option, index) => (
+            <label key={index} className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                value={option}
+                checked={Array.isArray(value) && value.includes(option)}
+                onChange={(e) => {
+                  const currentValues = Array.isArray(value) ? value : [];
+                  const newValues = e.target.checked
+                    ? [...currentValues, option]
+                    : currentValues.filter(v => v !== option);
+                  onChange(newValues);
+                }}
+                className="h-4 w-4 text-primary focus:ring-primary border-gray-light dark:border-davyGray rounded"
+              />
+              <span className="text-secondary dark:text-alabaster">{option}</span>
+            </label>
+          ))}
+        </div>
+      );
+
+    case 'scale':
+      return (
+        <div className="flex flex-wrap gap-2">
+          {Array.from({ length: SCALE_MAX - SCALE_MIN + 1 }, (_, i) => SCALE_MIN + i).map((num) => (
+            <button
+              key={num}
+              type="button"
+              onClick={() => onChange(num)}
+              className={`w-10 h-10 rounded-lg border text-sm font-medium transition-colors ${
+                value === num
+                  ? 'bg-primary border-primary text-white'
+                  : `bg-white dark:bg-night text-secondary dark:text-alabaster ${
+                      error ? 'border-red-500' : 'border-gray-light dark:border-davyGray'
+                    }`
+              }`}
+              aria-pressed={value === num}
+            >
+              {num}
+            </button>
+          ))}
+        </div>
+      );
+
+    case 'yes_no':
+      return (
+        <div className="flex gap-2">
+          {['Yes', 'No'].map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onChange(option)}
+              className={`px-6 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                value === option
+                  ? 'bg-primary border-primary text-white'
+                  : `bg-white dark:bg-night text-secondary dark:text-alabaster ${
+                      error ? 'border-red-500' : 'border-gray-light dark:border-davyGray'
+                    }`
+              }`}
+              aria-pressed={value === option}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      );
+
+    case 'date':
+      return (
+        <input
+          type="date"
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster ${
+            error ? 'border-red-500' : 'border-gray-light dark:border-davyGray'
+          }`}
+        />
+      );
+
+    case 'photo':
+      if (!onPhotoSelected) return null;
+      return (
+        <div className="space-y-2">
+          {value && (
+            <img
+              src={value}
+              alt={question.question_text}
+              className="max-h-48 rounded-lg border border-gray-light dark:border-davyGray"
+            />
+          )}
+          <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            disabled={isUploadingPhoto}
+            onChange={(e) => onPhotoSelected(e.target.files?.[0])}
+            className="block w-full text-sm text-secondary dark:text-alabaster file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-primary file:text-white"
+          />
+          {isUploadingPhoto && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Uploading photo...</p>
+          )}
+        </div>
+      );
+
+    case 'body_measurements': {
+      const measurements: Record<string, string> = value && typeof value === 'object' ? value : {};
+      return (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {BODY_MEASUREMENT_FIELDS.map((field) => (
+            <div key={field.key}>
+              <label
+                htmlFor={`${question.id}-${field.key}`}
+                className="block text-xs text-gray-500 dark:text-gray-400 mb-1"
+              >
+                {field.label} ({BODY_MEASUREMENT_UNIT})
+              </label>
+              <input
+                id={`${question.id}-${field.key}`}
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="0.1"
+                value={measurements[field.key] ?? ''}
+                onChange={(e) =>
+                  onChange({
+                    ...measurements,
+                    [field.key]: e.target.value,
+                    unit: BODY_MEASUREMENT_UNIT,
+                  })
+                }
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster ${
+                  error ? 'border-red-500' : 'border-gray-light dark:border-davyGray'
+                }`}
+              />
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,362 @@
+import { useEffect, useState } from "react";
+import Modal from "~/components/ui/Modal";
+import Button from "~/components/ui/Button";
+import FoodSearchInput from "~/components/coach/FoodSearchInput";
+import {
+  defaultPortion,
+  formatPortion,
+  getPortionUnits,
+  macrosForPortion,
+  roundMacro,
+} from "~/lib/foodLibrary";
+import { scalePortionText } from "~/lib/utils";
+import type { FoodLibraryEntry, FoodLogEntry, FoodLogKind, MacroValues } from "~/types/nutrition";
+
+export interface PlannedFood extends MacroValues {
+  id: string;
+  name: string;
+  portion: string;
+}
+
+/** What the modal is logging: a change to one planned food, or an off-plan extra. */
+export type FoodLogTarget =
+  | { mode: "change"; mealId: string; mealName: string; food: PlannedFood; existing?: FoodLogEntry }
+  | { mode: "extra"; mealId: string | null; mealName: string | null };
+
+export interface FoodLogPayload {
+  kind: FoodLogKind;
+  mealId: string | null;
+  plannedFoodId: string | null;
+  foodLibraryId: string | null;
+  name: string;
+  portion: string;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+interface FoodLogModalProps {
+  target: FoodLogTarget | null;
+  onClose: () => void;
+  onSave: (payload: FoodLogPayload) => void;
+  isSaving?: boolean;
+}
+
+type ChangeMode = "portion" | "swap" | "skip";
+
+const PORTION_FACTORS = [0.5, 0.75, 1.25, 1.5, 2];
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-light dark:border-davyGray rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-white dark:bg-night text-secondary dark:text-alabaster text-sm";
+
+interface PickedFood {
+  name: string;
+  portion: string;
+  protein: string;
+  carbs: string;
+  fat: string;
+  library: FoodLibraryEntry | null;
+  amount: number;
+  unit: string;
+}
+
+const EMPTY_PICK: PickedFood = {
+  name: "",
+  portion: "",
+  protein: "",
+  carbs: "",
+  fat: "",
+  library: null,
+  amount: 1,
+  unit: "serving",
+};
+
+function pickedMacros(pick: PickedFood): MacroValues | null {
+  if (pick.library) return macrosForPortion(pick.library, pick.amount, pick.unit);
+  const protein = Number(pick.protein) || 0;
+  const carbs = Number(pick.carbs) || 0;
+  const fat = Number(pick.fat) || 0;
+  return { calories: protein * 4 + carbs * 4 + fat * 9, protein, carbs, fat };
+}
+
+function FoodPicker({ pick, onChange }: { pick: PickedFood; onChange: (pick: PickedFood) => void }) {
+  const macros = pickedMacros(pick);
+  return (
+    <div className="space-y-3">
+      <div>
+        <label
+          htmlFor="food-log-name"
+          className="block text-xs font-semibold text-secondary dark:text-alabaster mb-1"
+        >
+          What did you eat?
+        </label>
+        <FoodSearchInput
+          id="food-log-name"
+          value={pick.name}
+          linked={pick.library}
+          onChange={(name) => onChange({ ...pick, name })}
+          onSelect={(entry) => {
+            const { amount, unit } = defaultPortion(entry);
+            onChange({ ...pick, name: entry.name, library: entry, amount, unit });
+          }}
+          onUnlink={() => onChange({ ...pick, library: null })}
+        />
+      </div>
+      {pick.library ? (
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={pick.amount}
+            onChange={(e) => onChange({ ...pick, amount: Number(e.target.value) })}
+            className={inputClass}
+            aria-label="Amount"
+          />
+          <select
+            value={pick.unit}
+            onChange={(e) => onChange({ ...pick, unit: e.target.value })}
+            className={inputClass}
+            aria-label="Unit"
+          >
+            {getPortionUnits(pick.library).map((unit) => (
+              <option key={unit.value} value={unit.value}>
+                {unit.value === "serving" && pick.library?.servingLabel
+                  ? `serving (${pick.library.servingLabel})`
+                  : unit.value}
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <div className="grid grid-cols-4 gap-2">
+          <div className="col-span-4">
+            <input
+              type="text"
+              value={pick.portion}
+              onChange={(e) => onChange({ ...pick, portion: e.target.value })}
+              className={inputClass}
+              placeholder="Portion, e.g. 1 slice"
+              aria-label="Portion"
+            />
+          </div>
+          {(["protein", "carbs", "fat"] as const).map((key) => (
+            <input
+              key={key}
+              type="number"
+              min={0}
+              value={pick[key]}
+              onChange={(e) => onChange({ ...pick, [key]: e.target.value })}
+              className={inputClass}
+              placeholder={`${key[0].toUpperCase()}${key.slice(1)} (g)`}
+              aria-label={`${key} grams`}
+            />
+          ))}
+        </div>
+      )}
+      {macros && (
+        <p className="text-xs text-gray-dark dark:text-gray-light">
+          {Math.round(macros.calories)} kcal · {roundMacro(macros.protein)}g protein ·{" "}
+          {roundMacro(macros.carbs)}g carbs · {roundMacro(macros.fat)}g fat
+        </p>
+      )}
+    </div>
+  );
+}
+
+function payloadFromPick(
+  pick: PickedFood,
+  base: Pick<FoodLogPayload, "kind" | "mealId" | "plannedFoodId">
+): FoodLogPayload | null {
+  const macros = pickedMacros(pick);
+  if (!pick.name.trim() || !macros) return null;
+  return {
+    ...base,
+    foodLibraryId: pick.library?.id ?? null,
+    name: pick.name.trim(),
+    portion: pick.library ? formatPortion(pick.amount, pick.unit) : pick.portion.trim(),
+    protein: macros.protein,
+    carbs: macros.carbs,
+    fat: macros.fat,
+  };
+}
+
+export default function FoodLogModal({ target, onClose, onSave, isSaving = false }: FoodLogModalProps) {
+  const [changeMode, setChangeMode] = useState<ChangeMode>("portion");
+  const [factor, setFactor] = useState(1.5);
+  const [pick, setPick] = useState<PickedFood>(EMPTY_PICK);
+
+  // Start from what was logged before, if anything
+  useEffect(() => {
+    if (!target) return;
+    setPick(EMPTY_PICK);
+    setFactor(1.5);
+    if (target.mode === "change" && target.existing) {
+      const existing = target.existing;
+      setChangeMode(existing.kind === "extra" ? "portion" : existing.kind);
+      if (existing.kind === "portion" && target.food.calories > 0) {
+        setFactor(roundMacro(existing.calories / target.food.calories));
+      }
+      if (existing.kind === "swap") {
+        setPick({
+          ...EMPTY_PICK,
+          name: existing.name,
+          portion: existing.portion,
+          protein: String(existing.protein),
+          carbs: String(existing.carbs),
+          fat: String(existing.fat),
+        });
+      }
+    } else {
+      setChangeMode("portion");
+    }
+  }, [target]);
+
+  if (!target) return null;
+
+  const planned = target.mode === "change" ? target.food : null;
+  const scaledPortion = planned
+    ? scalePortionText(planned.portion, factor)?.portion ?? `${factor}× ${planned.portion}`
+    : "";
+
+  let payload: FoodLogPayload | null = null;
+  if (target.mode === "extra") {
+    payload = payloadFromPick(pick, { kind: "extra", mealId: target.mealId, plannedFoodId: null });
+  } else if (planned && changeMode === "portion" && factor > 0) {
+    payload = {
+      kind: "portion",
+      mealId: target.mealId,
+      plannedFoodId: planned.id,
+      foodLibraryId: null,
+      name: planned.name,
+      portion: scaledPortion,
+      protein: roundMacro(planned.protein * factor),
+      carbs: roundMacro(planned.carbs * factor),
+      fat: roundMacro(planned.fat * factor),
+    };
+  } else if (planned && changeMode === "swap") {
+    payload = payloadFromPick(pick, {
+      kind: "swap",
+      mealId: target.mealId,
+      plannedFoodId: planned.id,
+    });
+  } else if (planned && changeMode === "skip") {
+    payload = {
+      kind: "skip",
+      mealId: target.mealId,
+      plannedFoodId: planned.id,
+      foodLibraryId: null,
+      name: planned.name,
+      portion: "",
+      protein: 0,
+      carbs: 0,
+      fat: 0,
+    };
+  }
+
+  const title =
+    target.mode === "extra"
+      ? target.mealName
+        ? `Add food to ${target.mealName}`
+        : "Add off-plan food"
+      : `Log a change to ${target.food.name}`;
+
+  return (
+    <Modal isOpen={!!target} onClose={onClose} title={title} size="md">
+      <div className="space-y-4">
+        {planned && (
+          <>
+            <p className="text-sm text-gray-dark dark:text-gray-light">
+              Planned: {planned.portion} {planned.name} ({Math.round(planned.calories)} kcal)
+            </p>
+            <div className="flex bg-gray-light dark:bg-davyGray rounded-lg p-1">
+              {(
+                [
+                  ["portion", "Different amount"],
+                  ["swap", "Swapped it"],
+                  ["skip", "Skipped it"],
+                ] as const
+              ).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setChangeMode(mode)}
+                  className={`flex-1 px-3 py-1 rounded text-sm font-medium transition-colors ${
+                    changeMode === mode
+                      ? "bg-primary text-white shadow-sm"
+                      : "text-gray-dark dark:text-gray-light hover:text-secondary dark:hover:text-alabaster"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        {planned && changeMode === "portion" && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {PORTION_FACTORS.map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setFactor(value)}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    factor === value
+                      ? "border-primary bg-primary/10 text-primary"
+                      : "border-gray-light dark:border-davyGray text-gray-dark dark:text-gray-light"
+                  }`}
+                >
+                  {value}×
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-dark dark:text-gray-light">
+              Or
+              <input
+                type="number"
+                min={0}
+                step={5}
+                value={Math.round(factor * 100)}
+                onChange={(e) => setFactor((Number(e.target.value) || 0) / 100)}
+                className={`${inputClass} w-24`}
+              />
+              % of the planned amount
+            </label>
+            {payload && (
+              <p className="text-xs text-gray-dark dark:text-gray-light">
+                {scaledPortion}: {Math.round(payload.protein * 4 + payload.carbs * 4 + payload.fat * 9)}{" "}
+                kcal · {payload.protein}g protein · {payload.carbs}g carbs · {payload.fat}g fat
+              </p>
+            )}
+          </div>
+        )}
+
+        {(target.mode === "extra" || changeMode === "swap") && (
+          <FoodPicker pick={pick} onChange={setPick} />
+        )}
+
+        {planned && changeMode === "skip" && (
+          <p className="text-sm text-gray-dark dark:text-gray-light">
+            {planned.name} won&apos;t count toward today&apos;s macros.
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="outline" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            disabled={!payload || isSaving}
+            onClick={() => payload && onSave(payload)}
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useState } from "react";
+import Card from "~/components/ui/Card";
+import Modal from "~/components/ui/Modal";
+import Button from "~/components/ui/Button";
+import { useToast } from "~/context/ToastContext";
+import {
+  buildGroceryList,
+  describeGroceryItem,
+  groceryMealGroupKey,
+} from "~/lib/groceryList";
+import { createGroceryListPdf } from "~/lib/groceryListPdf";
+import {
+  loadGroceryListState,
+  saveGroceryListState,
+  type GroceryListState,
+} from "~/utils/groceryListStorage";
+import type { GroceryOptionChoice } from "~/types/nutrition";
+
+interface GroceryMeal {
+  id: string | number;
+  name: string;
+  time: string;
+  mealOption?: "A" | "B";
+  foods: Array<{ name: string; portion: string }>;
+}
+
+interface GroceryListCardProps {
+  planId: string;
+  planName: string;
+  meals: GroceryMeal[];
+  /** YYYY-MM-DD start of the current week. */
+  weekStart: string;
+  weekLabel: string;
+}
+
+const CHOICE_LABELS: Record<GroceryOptionChoice, string> = {
+  A: "Option A",
+  B: "Option B",
+  both: "Both",
+};
+
+export default function GroceryListCard({
+  planId,
+  planName,
+  meals,
+  weekStart,
+  weekLabel,
+}: GroceryListCardProps) {
+  const toast = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [state, setState] = useState<GroceryListState>({ weekStart, checked: [], choices: {} });
+
+  // localStorage is only readable after hydration
+  useEffect(() => {
+    setState(loadGroceryListState(planId, weekStart));
+  }, [planId, weekStart]);
+
+  const updateState = (update: (prev: GroceryListState) => GroceryListState) => {
+    setState((prev) => {
+      const next = update(prev);
+      saveGroceryListState(planId, next);
+      return next;
+    });
+  };
+
+  // Meal groups that have an A and a B to choose between
+  const optionGroups = useMemo(() => {
+    const groups = new Map<string, { name: string; time: string; options: GroceryMeal[] }>();
+    meals.forEach((meal) => {
+      const key = groceryMealGroupKey(meal);
+      const group = groups.get(key) || { name: meal.name, time: meal.time, options: [] };
+      group.options.push(meal);
+      groups.set(key, group);
+    });
+    return Array.from(groups.entries()).filter(([, group]) => group.options.length > 1);
+  }, [meals]);
+
+  const items = useMemo(() => buildGroceryList(meals, state.choices), [meals, state.choices]);
+  const checked = new Set(state.checked);
+  const remaining = items.filter((item) => !checked.has(item.key)).length;
+
+  const toggleItem = (key: string) => {
+    updateState((prev) => ({
+      ...prev,
+      checked: prev.checked.includes(key)
+        ? prev.checked.filter((k) => k !== key)
+        : [...prev.checked, key],
+    }));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const bytes = await createGroceryListPdf({
+        title: `Grocery List - ${planName}`,
+        subtitle: weekLabel,
+        items,
+      });
+      const blob = new Blob([bytes], { type: "application/pdf" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `grocery-list-${weekStart}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting grocery list:", error);
+      toast.error("Export Failed", "Couldn't create the PDF. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card
+      title="Grocery List"
+      action={
+        <button
+          type="button"
+          className="text-primary text-xs font-medium hover:underline px-1"
+          onClick={() => setIsOpen(true)}
+        >
+          Open
+        </button>
+      }
+    >
+      <p className="text-sm text-gray-dark dark:text-gray-light">
+        {items.length === 0
+          ? "Your meal plan doesn't have any foods yet."
+          : remaining === 0
+          ? `All ${items.length} items checked off for this week.`
+          : `${remaining} of ${items.length} items left to buy this week.`}
+      </p>
+
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title="Grocery List" size="lg">
+        <div className="space-y-5">
+          <p className="text-sm text-gray-dark dark:text-gray-light">{weekLabel}</p>
+
+          {optionGroups.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-secondary dark:text-alabaster">
+                Which options will you eat?
+              </h3>
+              {optionGroups.map(([key, group]) => (
+                <div key={key} className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-sm text-secondary dark:text-alabaster">{group.name}</span>
+                  <div className="flex bg-gray-light dark:bg-davyGray rounded-lg p-1">
+                    {(Object.keys(CHOICE_LABELS) as GroceryOptionChoice[]).map((choice) => (
+                      <button
+                        key={choice}
+                        type="button"
+                        onClick={() =>
+                          updateState((prev) => ({
+                            ...prev,
+                            choices: { ...prev.choices, [key]: choice },
+                          }))
+                        }
+                        className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
+                          (state.choices[key] || "A") === choice
+                            ? "bg-primary text-white shadow-sm"
+                            : "text-gray-dark dark:text-gray-light hover:text-secondary dark:hover:text-alabaster"
+                        }`}
+                      >
+                        {CHOICE_LABELS[choice]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <p className="text-xs text-gray-dark dark:text-gray-light">
+                &quot;Both&quot; plans for option A on 4 days and option B on 3.
+              </p>
+            </div>
+          )}
+
+          <ul className="divide-y divide-gray-light dark:divide-davyGray">
+            {items.map((item) => {
+              const isChecked = checked.has(item.key);
+              return (
+                <li key={item.key} className="flex items-start gap-3 py-3">
+                  <input
+                    id={`grocery-${item.key}`}
+                    type="checkbox"
+                    checked={isChecked}
+                    onChange={() => toggleItem(item.key)}
+                    className="mt-0.5 h-5 w-5 rounded border-gray-light text-primary focus:ring-primary"
+                  />
+                  <label htmlFor={`grocery-${item.key}`} className="flex-1 min-w-0 cursor-pointer">
+                    <span
+                      className={`block text-sm font-medium ${
+                        isChecked
+                          ? "line-through text-gray-dark dark:text-gray-light"
+                          : "text-secondary dark:text-alabaster"
+                      }`}
+                    >
+                      {item.name}
+                    </span>
+                    <span className="block text-xs text-gray-dark dark:text-gray-light">
+                      {describeGroceryItem(item)}
+                    </span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            {state.checked.length > 0 && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => updateState((prev) => ({ ...prev, checked: [] }))}
+              >
+                Uncheck All
+              </Button>
+            )}
+            <Button
+              type="button"
+              size="sm"
+              onClick={handleExport}
+              disabled={isExporting || items.length === 0}
+            >
+              {isExporting ? "Creating PDF..." : "Download PDF"}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </Card>
+  );
+}
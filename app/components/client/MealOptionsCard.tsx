@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from "react";
+import type { FoodLogEntry } from "~/types/nutrition";
 
 interface Food {
+  id?: string | number;
   name: string;
   portion: string;
   calories: number;
@@ -28,6 +30,11 @@ interface MealOptionsCardProps {
   createMealKey: (meal: { id: string | number; name: string; time: string; mealOption?: 'A' | 'B' }) => string;
   checkedMeals?: string[];
   toggleMealCheck: (meal: Meal) => void;
+  /** The day's logged changes; when `onLogFood` is set, foods can be changed and extras added. */
+  foodLogs?: FoodLogEntry[];
+  onLogFood?: (meal: Meal, food: Food) => void;
+  onAddFood?: (meal: Meal) => void;
+  onRemoveLog?: (log: FoodLogEntry) => void;
 }
 
 export default function MealOptionsCard({
@@ -41,6 +48,10 @@ export default function MealOptionsCard({
   createMealKey,
   checkedMeals = [],
   toggleMealCheck,
+  foodLogs = [],
+  onLogFood,
+  onAddFood,
+  onRemoveLog,
 }: MealOptionsCardProps) {
   // Track selection per meal group (keyed by name-time)
   const [selectedOptionsByGroup, setSelectedOptionsByGroup] = useState<Record<string, 'A' | 'B'>>({});
@@ -247,23 +258,94 @@ export default function MealOptionsCard({
                   <div>Calories</div>
                 </div>
                 <div className="space-y-2">
-                  {currentMeal.foods.map((food: Food) => (
-                    <div
-                      key={`${currentMeal.id}-${food.name}-${food.portion}`}
-                      className="grid grid-cols-3 gap-2 sm:gap-4 py-2 text-xs sm:text-sm hover:bg-gray-lightest dark:hover:bg-secondary-light/10 rounded-lg transition-colors duration-200"
-                    >
-                      <div className="font-medium text-secondary dark:text-alabaster">
-                        {food.name}
-                      </div>
-                      <div className="text-gray-dark dark:text-gray-light">
-                        {food.portion}
+                  {currentMeal.foods.map((food: Food) => {
+                    const change = foodLogs.find(
+                      (log) =>
+                        log.kind !== "extra" &&
+                        food.id !== undefined &&
+                        log.plannedFoodId === String(food.id)
+                    );
+                    return (
+                      <div
+                        key={`${currentMeal.id}-${food.name}-${food.portion}`}
+                        className="grid grid-cols-3 gap-2 sm:gap-4 py-2 text-xs sm:text-sm hover:bg-gray-lightest dark:hover:bg-secondary-light/10 rounded-lg transition-colors duration-200"
+                      >
+                        <div className="font-medium text-secondary dark:text-alabaster">
+                          <span className={change ? "line-through opacity-60" : ""}>{food.name}</span>
+                          {change && (
+                            <div className="text-xs font-normal text-primary">
+                              {change.kind === "skip"
+                                ? "Skipped"
+                                : change.kind === "swap"
+                                ? `Swapped for ${change.name}`
+                                : "Different amount"}
+                            </div>
+                          )}
+                        </div>
+                        <div className="text-gray-dark dark:text-gray-light">
+                          {change && change.kind !== "skip" ? change.portion : food.portion}
+                        </div>
+                        <div className="text-gray-dark dark:text-gray-light flex items-start justify-between gap-2">
+                          <span>{change ? Math.round(change.calories) : food.calories}</span>
+                          {onLogFood && food.id !== undefined && (
+                            change && onRemoveLog ? (
+                              <button
+                                type="button"
+                                onClick={() => onRemoveLog(change)}
+                                className="text-xs text-primary hover:underline"
+                              >
+                                Undo
+                              </button>
+                            ) : (
+                              <button
+                                type="button"
+                                onClick={() => onLogFood(currentMeal, food)}
+                                className="text-xs text-primary hover:underline"
+                              >
+                                Change
+                              </button>
+                            )
+                          )}
+                        </div>
                       </div>
-                      <div className="text-gray-dark dark:text-gray-light">
-                        {food.calories}
+                    );
+                  })}
+                  {foodLogs
+                    .filter((log) => log.kind === "extra" && log.mealId === String(currentMeal.id))
+                    .map((log) => (
+                      <div
+                        key={log.id}
+                        className="grid grid-cols-3 gap-2 sm:gap-4 py-2 text-xs sm:text-sm rounded-lg"
+                      >
+                        <div className="font-medium text-secondary dark:text-alabaster">
+                          {log.name}
+                          <div className="text-xs font-normal text-primary">Added</div>
+                        </div>
+                        <div className="text-gray-dark dark:text-gray-light">{log.portion}</div>
+                        <div className="text-gray-dark dark:text-gray-light flex items-start justify-between gap-2">
+                          <span>{Math.round(log.calories)}</span>
+                          {onRemoveLog && (
+                            <button
+                              type="button"
+                              onClick={() => onRemoveLog(log)}
+                              className="text-xs text-red-500 hover:underline"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  ))}
+                    ))}
                 </div>
+                {onAddFood && (
+                  <button
+                    type="button"
+                    onClick={() => onAddFood(currentMeal)}
+                    className="mt-2 text-xs sm:text-sm text-primary hover:underline"
+                  >
+                    + Add something else you ate
+                  </button>
+                )}
               </div>
             </div>
 
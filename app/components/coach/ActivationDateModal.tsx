@@ -11,6 +11,8 @@ interface ActivationDateModalProps {
   isOpen: boolean;
   onClose: () => void;
   onConfirm: (activationDate: string) => void;
+  /** When set, future dates are queued (YYYY-MM-DD) to go live at local midnight instead of activating now. */
+  onSchedule?: (activationDate: string) => void;
   planName: string;
   isLoading?: boolean;
 }
@@ -21,6 +23,7 @@ export default function ActivationDateModal({
   isOpen,
   onClose,
   onConfirm,
+  onSchedule,
   planName,
   isLoading = false,
 }: ActivationDateModalProps) {
@@ -40,6 +43,11 @@ export default function ActivationDateModal({
   }, [isOpen]);
 
   const handleConfirm = () => {
+    if (isScheduled) {
+      onSchedule?.(activationDate);
+      return;
+    }
+
     // Create date in local timezone, then convert to ISO string
     const [year, month, day] = activationDate.split('-').map(Number);
     const [hour, minute] = activationTime.split(':').map(Number);
@@ -54,6 +62,7 @@ export default function ActivationDateModal({
   const today = getTodayString();
   const isToday = activationDate === today;
   const isPast = activationDate < today;
+  const isScheduled = !!onSchedule && activationDate > today;
 
   return (
     <Modal isOpen={isOpen} onClose={isLoading ? () => {} : onClose} title="Set Activation Date" size="md">
@@ -77,41 +86,43 @@ export default function ActivationDateModal({
             />
           </div>
 
-          <div>
-            <label htmlFor="activation-time" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Activation Time
-            </label>
-            <TimePicker
-              id="activation-time"
-              value={activationTime}
-              onChange={setActivationTime}
-            />
+          {!isScheduled && (
+            <div>
+              <label htmlFor="activation-time" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Activation Time
+              </label>
+              <TimePicker
+                id="activation-time"
+                value={activationTime}
+                onChange={setActivationTime}
+              />
             
-            {/* Quick time presets */}
-            <div className="mt-2">
-              <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">Quick presets:</p>
-              <div className="flex flex-wrap gap-2">
-                {["06:00", "08:00", "12:00", "18:00", "20:00"].map((time) => (
-                  <button
-                    key={time}
-                    type="button"
-                    onClick={() => setActivationTime(time)}
-                    className={`px-2 py-1 text-xs rounded border transition-colors ${
-                      activationTime === time
-                        ? "bg-primary text-white border-primary"
-                        : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600"
-                    }`}
-                  >
-                    {time === "06:00" ? "6 AM" : 
-                     time === "08:00" ? "8 AM" : 
-                     time === "12:00" ? "12 PM" : 
-                     time === "18:00" ? "6 PM" : 
-                     time === "20:00" ? "8 PM" : time}
-                  </button>
-                ))}
+              {/* Quick time presets */}
+              <div className="mt-2">
+                <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">Quick presets:</p>
+                <div className="flex flex-wrap gap-2">
+                  {["06:00", "08:00", "12:00", "18:00", "20:00"].map((time) => (
+                    <button
+                      key={time}
+                      type="button"
+                      onClick={() => setActivationTime(time)}
+                      className={`px-2 py-1 text-xs rounded border transition-colors ${
+                        activationTime === time
+                          ? "bg-primary text-white border-primary"
+                          : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600"
+                      }`}
+                    >
+                      {time === "06:00" ? "6 AM" : 
+                       time === "08:00" ? "8 AM" : 
+                       time === "12:00" ? "12 PM" : 
+                       time === "18:00" ? "6 PM" : 
+                       time === "20:00" ? "8 PM" : time}
+                    </button>
+                  ))}
+                </div>
               </div>
             </div>
-          </div>
+          )}
         </div>
 
         {/* Preview of selected date/time */}
@@ -120,7 +131,7 @@ export default function ActivationDateModal({
             <span className="font-medium">Plan will activate:</span>
           </p>
           <p className="text-lg font-semibold text-primary mt-1">
-            {(() => {
+            {isScheduled ? `${dayjs(activationDate).format('dddd, MMMM D, YYYY')} at midnight` : (() => {
               const [year, month, day] = activationDate.split('-').map(Number);
               const [hour, minute] = activationTime.split(':').map(Number);
               const localDateTime = dayjs.tz(`${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}T${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}:00`, USER_TIMEZONE);
@@ -138,6 +149,14 @@ export default function ActivationDateModal({
           </div>
         )}
 
+        {isScheduled && (
+          <div className="p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md">
+            <p className="text-sm text-blue-600 dark:text-blue-400">
+              ℹ️ The current plan stays active until then. We&apos;ll swap plans automatically and let your client know in chat.
+            </p>
+          </div>
+        )}
+
         {isToday && (
           <div className="p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md">
             <p className="text-sm text-blue-600 dark:text-blue-400">
@@ -151,7 +170,7 @@ export default function ActivationDateModal({
             Cancel
           </Button>
           <Button type="button" variant="primary" onClick={handleConfirm} disabled={isLoading}>
-            {isLoading ? "Setting Active..." : "Set Active"}
+            {isLoading ? "Setting Active..." : isScheduled ? "Schedule" : "Set Active"}
           </Button>
         </div>
 
@@ -5,6 +5,7 @@ import VideoRecorder from "~/components/ui/VideoRecorder";
 import MediaPlayerModal from "~/components/ui/MediaPlayerModal";
 import { useToast } from "~/context/ToastContext";
 import { uploadQueue } from "~/utils/uploadQueue";
+import { formatCheckInResponse } from "~/lib/checkInFormUtils";
 
 interface AddCheckInModalProps {
   isOpen: boolean;
@@ -425,7 +426,7 @@ export default function AddCheckInModal({
                                   Q{index + 1}: {response.question?.question_text || `Question ${index + 1}`}
                                 </div>
                                 <div className="text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/30 px-2 py-1 rounded">
-                                  A: {response.response_text || response.response_number || response.response_options?.join(', ') || 'No response'}
+                                  A: {formatCheckInResponse(response, response.question?.question_type)}
                                 </div>
                               </div>
                             ))}
@@ -0,0 +1,288 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import Card from "~/components/ui/Card";
+import Button from "~/components/ui/Button";
+import LineChart from "~/components/ui/LineChart";
+import { useToast } from "~/context/ToastContext";
+import {
+  BODY_METRICS,
+  bodyMetricDefinition,
+  bodyMetricSeries,
+  formatBodyMetricValue,
+} from "~/lib/bodyMeasurements";
+import type { BodyMetric } from "~/lib/supabase";
+import { getCurrentDate } from "~/lib/timezone";
+import type { BodyMeasurementEntry } from "~/types/measurements";
+
+interface BodyMeasurementsCardProps {
+  /** Coaches choose which metrics the client tracks; clients log them. */
+  viewer: "coach" | "client";
+  /** Required when a coach is viewing. */
+  clientId?: string;
+}
+
+type MeasurementsData = {
+  tracked?: BodyMetric[];
+  measurements?: BodyMeasurementEntry[];
+  error?: string;
+};
+
+type SaveResult = {
+  tracked?: BodyMetric[];
+  measurements?: BodyMeasurementEntry[];
+  error?: string;
+};
+
+function formatShortDate(date: string) {
+  const [year, month, day] = date.split("-");
+  return `${Number(month)}/${Number(day)}/${year.slice(-2)}`;
+}
+
+export default function BodyMeasurementsCard({ viewer, clientId }: BodyMeasurementsCardProps) {
+  const dataFetcher = useFetcher<MeasurementsData>();
+  const saveFetcher = useFetcher<SaveResult>();
+  const toast = useToast();
+  const [selectedMetric, setSelectedMetric] = useState<BodyMetric | null>(null);
+  const [mode, setMode] = useState<"view" | "log" | "choose">("view");
+  const [logDate, setLogDate] = useState(() => getCurrentDate().format("YYYY-MM-DD"));
+  const [logValues, setLogValues] = useState<Partial<Record<BodyMetric, string>>>({});
+  const [chosenMetrics, setChosenMetrics] = useState<BodyMetric[]>([]);
+
+  const load = () => {
+    const query = clientId ? `?clientId=${encodeURIComponent(clientId)}` : "";
+    dataFetcher.load(`/api/body-measurements${query}`);
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clientId]);
+
+  useEffect(() => {
+    if (saveFetcher.state !== "idle" || !saveFetcher.data) return;
+    if (saveFetcher.data.error) {
+      toast.error("Failed to Save", saveFetcher.data.error);
+      return;
+    }
+    toast.success(
+      saveFetcher.data.tracked ? "Metrics Updated" : "Measurements Saved",
+      saveFetcher.data.tracked
+        ? "The client will be asked to log these."
+        : "Your trends have been updated."
+    );
+    setMode("view");
+    setLogValues({});
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [saveFetcher.state, saveFetcher.data]);
+
+  const tracked = dataFetcher.data?.tracked || [];
+  const measurements = dataFetcher.data?.measurements || [];
+  // Metrics the coach stopped tracking keep their history on the chart
+  const charted = BODY_METRICS.map((metric) => metric.key).filter(
+    (key) => tracked.includes(key) || measurements.some((entry) => entry.metric === key)
+  );
+  const activeMetric = selectedMetric && charted.includes(selectedMetric) ? selectedMetric : charted[0];
+  const series = activeMetric ? bodyMetricSeries(measurements, activeMetric) : [];
+  const first = series[0];
+  const latest = series[series.length - 1];
+  const isSaving = saveFetcher.state !== "idle";
+
+  const startChoosing = () => {
+    setChosenMetrics(tracked);
+    setMode("choose");
+  };
+
+  const startLogging = () => {
+    setLogDate(getCurrentDate().format("YYYY-MM-DD"));
+    setLogValues({});
+    setMode("log");
+  };
+
+  const toggleChosen = (metric: BodyMetric) => {
+    setChosenMetrics((prev) =>
+      prev.includes(metric) ? prev.filter((key) => key !== metric) : [...prev, metric]
+    );
+  };
+
+  const saveChosen = () => {
+    saveFetcher.submit(
+      { clientId: clientId as string, metrics: chosenMetrics },
+      { method: "POST", action: "/api/body-measurements", encType: "application/json" }
+    );
+  };
+
+  const saveLog = () => {
+    saveFetcher.submit(
+      { date: logDate, values: logValues },
+      { method: "POST", action: "/api/body-measurements", encType: "application/json" }
+    );
+  };
+
+  const headerAction =
+    viewer === "coach" ? (
+      <button onClick={startChoosing} className="text-sm text-primary hover:underline">
+        Choose Metrics
+      </button>
+    ) : tracked.length > 0 ? (
+      <button onClick={startLogging} className="text-sm text-primary hover:underline">
+        Log Measurements
+      </button>
+    ) : null;
+
+  return (
+    <Card
+      title={
+        <div className="flex items-center justify-between w-full">
+          <span>Body Measurements</span>
+          {mode === "view" && headerAction}
+        </div>
+      }
+    >
+      {mode === "choose" ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Pick what this client logs alongside their weight.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {BODY_METRICS.map((metric) => (
+              <label
+                key={metric.key}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-light dark:border-davyGray cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={chosenMetrics.includes(metric.key)}
+                  onChange={() => toggleChosen(metric.key)}
+                  className="h-4 w-4 text-primary focus:ring-primary border-gray-light dark:border-davyGray rounded"
+                />
+                <span className="text-sm text-secondary dark:text-alabaster">
+                  {metric.label} ({metric.unit})
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => setMode("view")} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={saveChosen} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      ) : mode === "log" ? (
+        <div className="space-y-4">
+          <div>
+            <label
+              htmlFor="measurement-date"
+              className="block text-sm font-medium text-secondary dark:text-alabaster mb-1"
+            >
+              Date
+            </label>
+            <input
+              id="measurement-date"
+              type="date"
+              value={logDate}
+              max={getCurrentDate().format("YYYY-MM-DD")}
+              onChange={(e) => setLogDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-light dark:border-davyGray rounded-md bg-white dark:bg-night text-secondary dark:text-alabaster focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {tracked.map((metric) => {
+              const { label, unit } = bodyMetricDefinition(metric);
+              return (
+                <div key={metric}>
+                  <label
+                    htmlFor={`measurement-${metric}`}
+                    className="block text-sm font-medium text-secondary dark:text-alabaster mb-1"
+                  >
+                    {label} ({unit})
+                  </label>
+                  <input
+                    id={`measurement-${metric}`}
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={logValues[metric] ?? ""}
+                    onChange={(e) => setLogValues((prev) => ({ ...prev, [metric]: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-light dark:border-davyGray rounded-md bg-white dark:bg-night text-secondary dark:text-alabaster focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Leave a field blank to skip it. Logging a metric again for the same day replaces it.
+          </p>
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => setMode("view")} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={saveLog}
+              disabled={isSaving || !Object.values(logValues).some((value) => value)}
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      ) : !dataFetcher.data && dataFetcher.state === "loading" ? (
+        <div className="text-gray-500 text-sm">Loading measurements...</div>
+      ) : dataFetcher.data?.error ? (
+        <div className="text-sm text-red-500">{dataFetcher.data.error}</div>
+      ) : charted.length === 0 ? (
+        <p className="text-sm text-gray-dark dark:text-gray-light">
+          {viewer === "coach"
+            ? "This client isn't tracking any measurements yet. Choose the metrics they should log."
+            : "Your coach hasn't asked you to track any measurements yet."}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {charted.map((metric) => (
+              <button
+                key={metric}
+                onClick={() => setSelectedMetric(metric)}
+                className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
+                  metric === activeMetric
+                    ? "bg-primary border-primary text-white"
+                    : "border-gray-light dark:border-davyGray text-secondary dark:text-alabaster"
+                }`}
+              >
+                {bodyMetricDefinition(metric).label}
+              </button>
+            ))}
+          </div>
+          {activeMetric && latest ? (
+            <>
+              <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1">
+                <span className="text-2xl font-semibold text-secondary dark:text-alabaster">
+                  {formatBodyMetricValue(activeMetric, latest.weight)}
+                </span>
+                {series.length > 1 && (
+                  <span className="text-sm text-gray-600 dark:text-gray-300">
+                    {latest.weight - first.weight > 0 ? "+" : ""}
+                    {formatBodyMetricValue(activeMetric, latest.weight - first.weight)} since{" "}
+                    {formatShortDate(first.date)}
+                  </span>
+                )}
+              </div>
+              <LineChart
+                data={series}
+                height={220}
+                tickStep={bodyMetricDefinition(activeMetric).tickStep}
+              />
+            </>
+          ) : (
+            <p className="text-sm text-gray-dark dark:text-gray-light">
+              No {bodyMetricDefinition(activeMetric).label.toLowerCase()} logged yet.
+            </p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
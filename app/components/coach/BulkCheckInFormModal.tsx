@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useState } from "react";
+import Modal from "~/components/ui/Modal";
+import Button from "~/components/ui/Button";
+import SendCheckInFormModal, {
+  appendRecurringSchedule,
+  type RecurringScheduleConfig,
+} from "./SendCheckInFormModal";
+
+type Segment = "active" | "group" | "clients";
+
+interface SegmentClient {
+  id: string;
+  name: string;
+}
+
+interface SegmentGroup {
+  id: string;
+  name: string;
+  clientIds: string[];
+}
+
+interface BulkResult {
+  clientId: string;
+  clientName: string;
+  status: "sent" | "scheduled" | "skipped" | "failed";
+  reason?: string;
+}
+
+interface BulkReport {
+  results: BulkResult[];
+  sent: number;
+  scheduled: number;
+  skipped: number;
+  failed: number;
+  recurring: boolean;
+}
+
+interface BulkCheckInFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BulkResult["status"], { label: string; className: string }> = {
+  sent: { label: "Sent", className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300" },
+  scheduled: { label: "Scheduled", className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300" },
+  skipped: { label: "Skipped", className: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300" },
+};
+
+/**
+ * Sends a check-in form, or sets up a recurring schedule, for a segment of
+ * clients at once, then shows what happened for each client.
+ */
+export default function BulkCheckInFormModal({ isOpen, onClose }: BulkCheckInFormModalProps) {
+  const [clients, setClients] = useState<SegmentClient[]>([]);
+  const [groups, setGroups] = useState<SegmentGroup[]>([]);
+  const [segment, setSegment] = useState<Segment>("active");
+  const [groupId, setGroupId] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [report, setReport] = useState<BulkReport | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSegment("active");
+    setGroupId("");
+    setSelectedIds(new Set());
+    fetch("/api/bulk-check-in-forms")
+      .then((res) => res.json())
+      .then((data) => {
+        setClients(data.clients || []);
+        setGroups(data.groups || []);
+      })
+      .catch((error) => console.error("Error fetching client segments:", error));
+  }, [isOpen]);
+
+  const recipientCount = useMemo(() => {
+    if (segment === "active") return clients.length;
+    if (segment === "group") return groups.find((group) => group.id === groupId)?.clientIds.length ?? 0;
+    return selectedIds.size;
+  }, [segment, clients, groups, groupId, selectedIds]);
+
+  const toggleClient = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleContinue = async (
+    formId: string,
+    expiresInDays: number,
+    recurring: RecurringScheduleConfig | undefined,
+    reminderOffsetsHours: number[]
+  ) => {
+    const formData = new FormData();
+    formData.append("formId", formId);
+    formData.append("mode", recurring ? "schedule" : "send");
+    formData.append("segment", segment);
+    if (segment === "group") {
+      formData.append("groupId", groupId);
+    }
+    if (segment === "clients") {
+      formData.append("clientIds", JSON.stringify(Array.from(selectedIds)));
+    }
+    formData.append("expiresInDays", expiresInDays.toString());
+    formData.append("reminderOffsetsHours", JSON.stringify(reminderOffsetsHours));
+    if (recurring) {
+      appendRecurringSchedule(formData, recurring);
+    }
+
+    const response = await fetch("/api/bulk-check-in-forms", {
+      method: "POST",
+      body: formData,
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || "Failed to send forms");
+    }
+    setReport({ ...result, recurring: !!recurring });
+  };
+
+  const segmentOptionClassName = (value: Segment) =>
+    `flex-1 px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+      segment === value
+        ? "bg-primary border-primary text-white"
+        : "bg-white dark:bg-night text-secondary dark:text-alabaster border-gray-light dark:border-davyGray"
+    }`;
+
+  const recipients = (
+    <div className="space-y-3">
+      <span className="block text-sm font-medium text-secondary dark:text-alabaster">
+        Send To
+      </span>
+      <div className="flex gap-2">
+        <button type="button" className={segmentOptionClassName("active")} onClick={() => setSegment("active")}>
+          All active clients
+        </button>
+        <button type="button" className={segmentOptionClassName("group")} onClick={() => setSegment("group")}>
+          Chat group
+        </button>
+        <button type="button" className={segmentOptionClassName("clients")} onClick={() => setSegment("clients")}>
+          Pick clients
+        </button>
+      </div>
+
+      {segment === "group" &&
+        (groups.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">You don&apos;t have any chat groups yet.</p>
+        ) : (
+          <select
+            aria-label="Chat group"
+            value={groupId}
+            onChange={(e) => setGroupId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-light dark:border-davyGray rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster"
+          >
+            <option value="">Choose a group...</option>
+            {groups.map((group) => (
+              <option key={group.id} value={group.id}>
+                {group.name} ({group.clientIds.length} clients)
+              </option>
+            ))}
+          </select>
+        ))}
+
+      {segment === "clients" && (
+        <div className="max-h-48 overflow-y-auto border border-gray-light dark:border-davyGray rounded-lg divide-y divide-gray-light dark:divide-davyGray">
+          {clients.map((client) => (
+            <label
+              key={client.id}
+              className="flex items-center gap-2 px-3 py-2 hover:bg-gray-50 dark:hover:bg-davyGray/30 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={selectedIds.has(client.id)}
+                onChange={() => toggleClient(client.id)}
+                className="h-4 w-4 text-primary focus:ring-primary border-gray-light dark:border-davyGray rounded"
+              />
+              <span className="text-sm text-secondary dark:text-alabaster">{client.name}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {recipientCount} client{recipientCount !== 1 ? "s" : ""}. Clients who still have this form
+        open are skipped when sending now.
+      </p>
+    </div>
+  );
+
+  return (
+    <>
+      <SendCheckInFormModal
+        isOpen={isOpen}
+        onClose={onClose}
+        title="Send Check-In Form to Multiple Clients"
+        recipients={recipients}
+        hasRecipients={recipientCount > 0}
+        submitLabel={`Send to ${recipientCount}`}
+        onContinue={handleContinue}
+      />
+
+      <Modal
+        isOpen={!!report}
+        onClose={() => setReport(null)}
+        title={report?.recurring ? "Schedules Created" : "Forms Sent"}
+        size="md"
+      >
+        {report && (
+          <div className="space-y-4">
+            <p className="text-sm text-secondary dark:text-alabaster">
+              {report.recurring
+                ? `${report.scheduled} scheduled`
+                : `${report.sent} sent, ${report.skipped} skipped`}
+              {report.failed > 0 ? `, ${report.failed} failed` : ""}.
+            </p>
+            <ul className="max-h-80 overflow-y-auto divide-y divide-gray-light dark:divide-davyGray border border-gray-light dark:border-davyGray rounded-lg">
+              {report.results.map((result) => (
+                <li key={result.clientId} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <div>
+                    <p className="text-sm text-secondary dark:text-alabaster">{result.clientName}</p>
+                    {result.reason && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{result.reason}</p>
+                    )}
+                  </div>
+                  <span
+                    className={`inline-block px-2 py-1 rounded text-xs font-medium ${STATUS_LABELS[result.status].className}`}
+                  >
+                    {STATUS_LABELS[result.status].label}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end">
+              <Button variant="primary" onClick={() => setReport(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </>
+  );
+}
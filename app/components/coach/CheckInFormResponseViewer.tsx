@@ -1,5 +1,7 @@
 import React from "react";
 import Modal from "~/components/ui/Modal";
+import { BODY_MEASUREMENT_FIELDS, BODY_MEASUREMENT_UNIT } from "~/lib/checkInFormConstants";
+import { formatCheckInResponse, parseBodyMeasurements } from "~/lib/checkInFormUtils";
 
 export interface FormResponse {
   id: string;
@@ -43,20 +45,45 @@ export default function CheckInFormResponseViewer({
   onClose,
   formInstance,
 }: CheckInFormResponseViewerProps) {
-  const formatResponse = (response: FormResponse) => {
-    if (response.response_text) {
-      return response.response_text;
-    }
-    if (response.response_number !== undefined && response.response_number !== null) {
-      return response.response_number.toString();
+  const renderResponse = (response: FormResponse) => {
+    const questionType = response.question?.question_type;
+
+    if (questionType === 'photo' && response.response_text) {
+      return (
+        <a href={response.response_text} target="_blank" rel="noopener noreferrer">
+          <img
+            src={response.response_text}
+            alt={response.question?.question_text || 'Check-in photo'}
+            className="max-h-64 rounded-lg"
+          />
+        </a>
+      );
     }
-    if (response.response_options) {
-      if (Array.isArray(response.response_options)) {
-        return response.response_options.join(', ');
-      }
-      return JSON.stringify(response.response_options);
+
+    const measurements =
+      questionType === 'body_measurements' ? parseBodyMeasurements(response.response_options) : null;
+    if (measurements) {
+      return (
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+          {BODY_MEASUREMENT_FIELDS.map((field) => (
+            <div key={field.key}>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{field.label}</div>
+              <div className="font-medium text-gray-900 dark:text-gray-100">
+                {measurements[field.key] !== undefined
+                  ? `${measurements[field.key]} ${measurements.unit || BODY_MEASUREMENT_UNIT}`
+                  : '—'}
+              </div>
+            </div>
+          ))}
+        </div>
+      );
     }
-    return 'No response';
+
+    return (
+      <p className="text-gray-900 dark:text-gray-100 whitespace-pre-wrap">
+        {formatCheckInResponse(response, questionType)}
+      </p>
+    );
   };
 
 
@@ -126,9 +153,7 @@ export default function CheckInFormResponseViewer({
                       </h4>
                     </div>
                     <div className="bg-gray-50 dark:bg-gray-800 rounded p-3">
-                      <p className="text-gray-900 dark:text-gray-100 whitespace-pre-wrap">
-                        {formatResponse(response)}
-                      </p>
+                      {renderResponse(response)}
                     </div>
                   </div>
                 ))}
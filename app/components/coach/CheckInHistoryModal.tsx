@@ -2,6 +2,8 @@ import Modal from "~/components/ui/Modal";
 import Button from "~/components/ui/Button";
 import MediaPlayer from "~/components/ui/MediaPlayer";
 import { useState, useEffect, useRef } from "react";
+import { useFetcher } from "@remix-run/react";
+import type { CheckInSearchResult } from "~/types/checkIns";
 
 interface CheckInNote {
   id: string;
@@ -23,6 +25,47 @@ interface CheckInHistoryModalProps {
   onLoadMore: () => void;
   hasMore: boolean;
   emptyMessage?: string;
+  /** Shows a search box over this client's notes and transcripts. */
+  clientId?: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const EXCERPT_RADIUS = 80;
+
+function formatDate(date: string) {
+  const d = new Date(date);
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${mm}/${dd}/${d.getFullYear()}`;
+}
+
+/** 83.4 -> "1:23" */
+function formatTimestamp(seconds: number) {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+/** The text around the first match, for transcripts without timings. */
+function excerpt(text: string, query: string) {
+  const index = text.toLowerCase().indexOf(query.toLowerCase());
+  if (index === -1) return null;
+  const start = Math.max(0, index - EXCERPT_RADIUS);
+  const end = Math.min(text.length, index + query.length + EXCERPT_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  const index = text.toLowerCase().indexOf(query.toLowerCase());
+  if (!query || index === -1) return <>{text}</>;
+  return (
+    <>
+      {text.slice(0, index)}
+      <mark className="bg-primary/20 text-inherit rounded px-0.5">
+        {text.slice(index, index + query.length)}
+      </mark>
+      {text.slice(index + query.length)}
+    </>
+  );
 }
 
 export default function CheckInHistoryModal({
@@ -32,11 +75,32 @@ export default function CheckInHistoryModal({
   onLoadMore,
   hasMore,
   emptyMessage,
+  clientId,
 }: CheckInHistoryModalProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
   const [showTopFade, setShowTopFade] = useState(false);
   const [showBottomFade, setShowBottomFade] = useState(false);
   const [playingMediaId, setPlayingMediaId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const searchFetcher = useFetcher<{ results?: CheckInSearchResult[]; error?: string }>();
+  const query = search.trim();
+  const isSearching = !!clientId && query.length >= 2;
+
+  useEffect(() => {
+    if (!isSearching) return;
+    const timeout = setTimeout(() => {
+      const params = new URLSearchParams({ clientId: clientId as string, q: query });
+      searchFetcher.load(`/api/search-check-ins?${params.toString()}`);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clientId, query, isSearching]);
+
+  useEffect(() => {
+    if (!isOpen) setSearch("");
+  }, [isOpen]);
+
+  const searchResults = searchFetcher.data?.results || [];
 
   const handleScroll = () => {
     if (!scrollRef.current) return;
@@ -56,10 +120,20 @@ export default function CheckInHistoryModal({
     scrollElement.addEventListener('scroll', handleScroll);
     
     return () => scrollElement.removeEventListener('scroll', handleScroll);
-  }, [checkIns]);
+  }, [checkIns, searchFetcher.data]);
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="Check In History" size="lg">
+      {clientId && (
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search notes and transcripts..."
+          aria-label="Search check-ins"
+          className="w-full mb-4 px-3 py-2 border border-gray-light dark:border-davyGray rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster text-sm"
+        />
+      )}
       <div className="relative">
         {/* Top fade */}
         {showTopFade && (
@@ -71,50 +145,114 @@ export default function CheckInHistoryModal({
           ref={scrollRef}
           className="max-h-96 overflow-y-auto scrollbar-thin scrollbar-track-gray-100 scrollbar-thumb-gray-300 dark:scrollbar-track-gray-700 dark:scrollbar-thumb-gray-500"
         >
-          <div className="space-y-4">
-            {checkIns.length === 0 ? (
-              <div className="text-center text-gray-500 text-sm">
-                {emptyMessage || "No history yet."}
-              </div>
-            ) : (
-              checkIns.map((checkIn) => (
-                <div
-                  key={checkIn.id}
-                  className="border-b border-gray-light dark:border-davyGray pb-3 last:border-0 last:pb-0"
-                >
-                  <div className="text-xs text-gray-dark dark:text-gray-light mb-1">
-                    {checkIn.formattedDate ? checkIn.formattedDate : (() => { const d = new Date(checkIn.date); const mm = String(d.getMonth() + 1).padStart(2, '0'); const dd = String(d.getDate()).padStart(2, '0'); const yyyy = d.getFullYear(); return `${mm}/${dd}/${yyyy}`; })()}
-                  </div>
-                  
-                  {/* Media Player */}
-                  {checkIn.recording_type && checkIn.recording_type !== 'text' && (
-                    <div className="mb-3">
-                      <MediaPlayer
-                        videoUrl={checkIn.video_url}
-                        audioUrl={checkIn.audio_url}
-                        recordingType={checkIn.recording_type}
-                        duration={checkIn.recording_duration}
-                        thumbnailUrl={checkIn.recording_thumbnail_url}
-                        onClose={() => setPlayingMediaId(null)}
-                      />
+          {isSearching ? (
+            <div className="space-y-4">
+              {searchFetcher.state === "loading" && searchResults.length === 0 ? (
+                <div className="text-center text-gray-500 text-sm">Searching...</div>
+              ) : searchFetcher.data?.error ? (
+                <div className="text-center text-red-500 text-sm">{searchFetcher.data.error}</div>
+              ) : searchResults.length === 0 ? (
+                <div className="text-center text-gray-500 text-sm">No check-ins mention &quot;{query}&quot;.</div>
+              ) : (
+                searchResults.map((result) => {
+                  const transcriptExcerpt =
+                    result.matchingSegments.length === 0 && result.transcript
+                      ? excerpt(result.transcript, query)
+                      : null;
+                  return (
+                    <div
+                      key={result.id}
+                      className="border-b border-gray-light dark:border-davyGray pb-3 last:border-0 last:pb-0"
+                    >
+                      <div className="text-xs text-gray-dark dark:text-gray-light mb-1">
+                        {formatDate(result.created_at)}
+                      </div>
+                      {result.recording_type && result.recording_type !== 'text' && (
+                        <div className="mb-3">
+                          <MediaPlayer
+                            videoUrl={result.video_url || undefined}
+                            audioUrl={result.audio_url || undefined}
+                            recordingType={result.recording_type}
+                            duration={result.recording_duration || undefined}
+                            onClose={() => setPlayingMediaId(null)}
+                          />
+                        </div>
+                      )}
+                      {result.notes && (
+                        <p className="text-sm text-secondary dark:text-alabaster">
+                          <Highlighted text={result.notes} query={query} />
+                        </p>
+                      )}
+                      {result.matchingSegments.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {result.matchingSegments.map((segment) => (
+                            <li key={segment.start} className="flex gap-2 text-sm text-gray-600 dark:text-gray-300">
+                              <span className="shrink-0 font-mono text-xs text-primary mt-0.5">
+                                {formatTimestamp(segment.start)}
+                              </span>
+                              <span>
+                                <Highlighted text={segment.text} query={query} />
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {transcriptExcerpt && (
+                        <p className="mt-2 text-sm italic text-gray-600 dark:text-gray-300">
+                          <Highlighted text={transcriptExcerpt} query={query} />
+                        </p>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {checkIns.length === 0 ? (
+                <div className="text-center text-gray-500 text-sm">
+                  {emptyMessage || "No history yet."}
+                </div>
+              ) : (
+                checkIns.map((checkIn) => (
+                  <div
+                    key={checkIn.id}
+                    className="border-b border-gray-light dark:border-davyGray pb-3 last:border-0 last:pb-0"
+                  >
+                    <div className="text-xs text-gray-dark dark:text-gray-light mb-1">
+                      {checkIn.formattedDate || formatDate(checkIn.date)}
                     </div>
-                  )}
-                  
-                  <p className="text-sm text-secondary dark:text-alabaster">
-                    {checkIn.notes}
-                  </p>
+                    
+                    {/* Media Player */}
+                    {checkIn.recording_type && checkIn.recording_type !== 'text' && (
+                      <div className="mb-3">
+                        <MediaPlayer
+                          videoUrl={checkIn.video_url}
+                          audioUrl={checkIn.audio_url}
+                          recordingType={checkIn.recording_type}
+                          duration={checkIn.recording_duration}
+                          thumbnailUrl={checkIn.recording_thumbnail_url}
+                          onClose={() => setPlayingMediaId(null)}
+                        />
+                      </div>
+                    )}
+                    
+                    <p className="text-sm text-secondary dark:text-alabaster">
+                      {checkIn.notes}
+                    </p>
+                  </div>
+                ))
+              )}
+
+              {hasMore && (
+                <div className="flex justify-center mt-4">
+                  <Button variant="outline" onClick={onLoadMore} className="text-sm">
+                    ...Load More
+                  </Button>
                 </div>
-              ))
-            )}
-
-            {hasMore && (
-              <div className="flex justify-center mt-4">
-                <Button variant="outline" onClick={onLoadMore} className="text-sm">
-                  ...Load More
-                </Button>
-              </div>
-            )}
-          </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Bottom fade */}
@@ -0,0 +1,76 @@
+import { useEffect } from "react";
+import { useFetcher } from "@remix-run/react";
+import dayjs from "dayjs";
+import Card from "~/components/ui/Card";
+import type { CheckInSummary } from "~/types/checkIns";
+
+interface CheckInSummaryCardProps {
+  clientId: string;
+}
+
+export default function CheckInSummaryCard({ clientId }: CheckInSummaryCardProps) {
+  const fetcher = useFetcher<{ summary?: CheckInSummary; error?: string }>();
+
+  const load = (refresh = false) => {
+    const params = new URLSearchParams({ clientId });
+    if (refresh) params.set("refresh", "1");
+    fetcher.load(`/api/check-in-summary?${params.toString()}`);
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clientId]);
+
+  const summary = fetcher.data?.summary;
+  const isLoading = fetcher.state === "loading";
+
+  return (
+    <Card
+      title={
+        <div className="flex items-center justify-between w-full">
+          <span>Weekly Summary</span>
+          <button
+            onClick={() => load(true)}
+            disabled={isLoading}
+            className="text-xs text-primary hover:underline disabled:opacity-50"
+          >
+            {isLoading ? "Summarizing..." : "Refresh"}
+          </button>
+        </div>
+      }
+    >
+      {!summary && isLoading ? (
+        <div className="text-gray-500 text-sm">Summarizing this week&apos;s check-ins...</div>
+      ) : fetcher.data?.error ? (
+        <div className="text-sm text-red-500">{fetcher.data.error}</div>
+      ) : summary ? (
+        <div className="space-y-4">
+          <p className="text-sm text-secondary dark:text-alabaster">{summary.summary}</p>
+          {summary.concerns.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-secondary dark:text-alabaster mb-2">
+                Flagged concerns
+              </h4>
+              <ul className="space-y-1.5">
+                {summary.concerns.map((concern) => (
+                  <li
+                    key={concern}
+                    className="text-sm rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300 px-3 py-2"
+                  >
+                    {concern}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {dayjs(summary.periodStart).format("MMM D")} - {dayjs(summary.periodEnd).format("MMM D")}
+            {" · "}Generated {dayjs(summary.generatedAt).format("MMM D, h:mm A")}
+            {summary.provider === "stub" ? " · rule-based" : " · AI"}
+          </p>
+        </div>
+      ) : null}
+    </Card>
+  );
+}
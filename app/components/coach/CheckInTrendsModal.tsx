@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import dayjs from "dayjs";
+import { ReferenceDot } from "recharts";
+import Modal from "~/components/ui/Modal";
+import LineChart, { chartTime } from "~/components/ui/LineChart";
+import { CHECK_IN_QUESTION_TYPES } from "~/lib/checkInFormConstants";
+import { describeTrendChange, latestLargeChange } from "~/lib/checkInTrends";
+import type { CheckInTrendSeries } from "~/types/checkIns";
+
+interface CheckInTrendsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clientId: string;
+  clientName: string;
+}
+
+const RANGE_OPTIONS = [
+  { weeks: 12, label: "12 weeks" },
+  { weeks: 26, label: "6 months" },
+  { weeks: 52, label: "1 year" },
+];
+
+// Whole steps for ratings and choices; a handful of ticks for free numbers
+function chartTickStep(series: CheckInTrendSeries) {
+  if (series.questionType !== "number") return 1;
+  const values = series.points.map((point) => point.value);
+  const range = Math.max(...values) - Math.min(...values);
+  return [1, 2, 5, 10, 25, 50, 100].find((step) => range / step <= 6) ?? 100;
+}
+
+export default function CheckInTrendsModal({
+  isOpen,
+  onClose,
+  clientId,
+  clientName,
+}: CheckInTrendsModalProps) {
+  const fetcher = useFetcher<{ series?: CheckInTrendSeries[]; error?: string }>();
+  const [weeks, setWeeks] = useState(26);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const params = new URLSearchParams({ clientId, weeks: String(weeks) });
+    fetcher.load(`/api/check-in-trends?${params.toString()}`);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, clientId, weeks]);
+
+  const series = fetcher.data?.series || [];
+  const flagged = series.flatMap((entry) => {
+    const change = latestLargeChange(entry);
+    return change ? [{ entry, change }] : [];
+  });
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Check-In Trends - ${clientName}`} size="xl">
+      <div className="space-y-6">
+        <div className="flex gap-2">
+          {RANGE_OPTIONS.map((option) => (
+            <button
+              key={option.weeks}
+              type="button"
+              onClick={() => setWeeks(option.weeks)}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                weeks === option.weeks
+                  ? "bg-primary text-white"
+                  : "bg-gray-100 dark:bg-gray-700 text-gray-dark dark:text-gray-light"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {fetcher.state === "loading" && !fetcher.data ? (
+          <div className="text-center py-8 text-sm text-gray-dark dark:text-gray-light">
+            Loading trends...
+          </div>
+        ) : fetcher.data?.error ? (
+          <div className="text-center py-8 text-sm text-red-500">{fetcher.data.error}</div>
+        ) : series.length === 0 ? (
+          <div className="text-center py-8 text-gray-dark dark:text-gray-light">
+            No number, scale or choice answers in completed check-in forms yet.
+          </div>
+        ) : (
+          <>
+            {flagged.length > 0 && (
+              <div className="rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-4">
+                <h4 className="text-sm font-semibold text-amber-800 dark:text-amber-200 mb-2">
+                  Big changes since the previous week
+                </h4>
+                <ul className="space-y-1 text-sm text-amber-700 dark:text-amber-300">
+                  {flagged.map(({ entry, change }) => (
+                    <li key={entry.key}>
+                      {describeTrendChange(entry, change)}{" "}
+                      <span className="text-xs">
+                        (week of {dayjs(change.weekStart).format("MMM D")})
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="space-y-6">
+              {series.map((entry) => {
+                const typeLabel =
+                  CHECK_IN_QUESTION_TYPES.find((type) => type.value === entry.questionType)?.label ??
+                  entry.questionType;
+                const largeChanges = entry.changes.filter((change) => change.isLarge);
+                return (
+                  <div
+                    key={entry.key}
+                    className="rounded-lg border border-gray-light dark:border-davyGray p-4"
+                  >
+                    <div className="flex items-start justify-between gap-3 mb-3">
+                      <h4 className="text-sm font-medium text-secondary dark:text-alabaster">
+                        {entry.questionText}
+                      </h4>
+                      <span className="shrink-0 rounded-full bg-blue-50 dark:bg-blue-900/30 px-2 py-1 text-xs text-blue-600 dark:text-blue-200">
+                        {typeLabel}
+                      </span>
+                    </div>
+                    {entry.points.length > 1 ? (
+                      <LineChart
+                        data={entry.points.map((point) => ({ date: point.date, weight: point.value }))}
+                        height={180}
+                        tickStep={chartTickStep(entry)}
+                      >
+                        {largeChanges.map((change) => (
+                          <ReferenceDot
+                            key={change.current.instanceId}
+                            x={chartTime(change.current.date)}
+                            y={change.current.value}
+                            r={7}
+                            fill="none"
+                            stroke="#F59E0B"
+                            strokeWidth={2}
+                          />
+                        ))}
+                      </LineChart>
+                    ) : (
+                      <p className="text-sm text-gray-dark dark:text-gray-light">
+                        Answered once ({entry.points[0].label} on{" "}
+                        {dayjs(entry.points[0].date).format("MMM D")}). Another answer is needed to
+                        show a trend.
+                      </p>
+                    )}
+                    {entry.options.length > 0 && entry.points.length > 1 && (
+                      <p className="mt-2 text-xs text-gray-dark dark:text-gray-light">
+                        {entry.options.map((option, index) => `${index + 1} = ${option}`).join(" · ")}
+                      </p>
+                    )}
+                    {largeChanges.length > 0 && (
+                      <p className="mt-2 text-xs text-amber-700 dark:text-amber-300">
+                        Circled points changed a lot from the week before.
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
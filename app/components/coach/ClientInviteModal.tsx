@@ -9,6 +9,12 @@ interface ClientInviteModalProps {
   coachId?: string | null;
 }
 
+interface IntakeFormOption {
+  id: string;
+  title: string;
+  question_count: number;
+}
+
 // Define the shape of the response data
 interface InviteClientResponse {
   success?: boolean;
@@ -24,6 +30,25 @@ export default function ClientInviteModal({
   const fetcher = useFetcher<InviteClientResponse>();
   const [email, setEmail] = useState("");
   const [name, setName] = useState("");
+  const [intakeFormId, setIntakeFormId] = useState("");
+  const [intakeForms, setIntakeForms] = useState<IntakeFormOption[]>([]);
+
+  // The coach's forms, any of which can be sent as the intake questionnaire
+  React.useEffect(() => {
+    if (!isOpen) return;
+    const loadForms = async () => {
+      try {
+        const response = await fetch("/api/get-check-in-forms");
+        if (response.ok) {
+          const data = await response.json();
+          setIntakeForms(data.forms || []);
+        }
+      } catch (error) {
+        console.error("Error fetching forms:", error);
+      }
+    };
+    loadForms();
+  }, [isOpen]);
 
   // Close modal and reload route on successful invite
   React.useEffect(() => {
@@ -31,6 +56,7 @@ export default function ClientInviteModal({
       setTimeout(() => {
         setEmail("");
         setName("");
+        setIntakeFormId("");
         onClose();
         // Reload the route to refresh loader data
         window.location.reload();
@@ -106,6 +132,35 @@ export default function ClientInviteModal({
               </p>
             </div>
 
+            {intakeForms.length > 0 && (
+              <div>
+                <label
+                  htmlFor="intake_form_id"
+                  className="block text-sm font-medium text-secondary dark:text-alabaster mb-1"
+                >
+                  Intake Questionnaire (optional)
+                </label>
+                <select
+                  id="intake_form_id"
+                  name="intake_form_id"
+                  className="w-full px-3 py-2 border border-gray-light dark:border-davyGray rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster"
+                  value={intakeFormId}
+                  onChange={(e) => setIntakeFormId(e.target.value)}
+                  disabled={isSubmitting}
+                >
+                  <option value="">No intake questionnaire</option>
+                  {intakeForms.map((form) => (
+                    <option key={form.id} value={form.id}>
+                      {form.title} ({form.question_count} questions)
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-dark dark:text-gray-light mt-1">
+                  Your client answers it as the last step of signing up. Answers to questions set to fill in the profile are saved there; photo questions are skipped.
+                </p>
+              </div>
+            )}
+
             {/* FYI Box */}
             <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
               <p className="text-sm text-blue-800 dark:text-blue-200">
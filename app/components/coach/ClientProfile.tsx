@@ -11,6 +11,8 @@ interface Client {
   workoutSplit: string;
   supplementCount: number;
   goal?: string;
+  allergies?: string | null;
+  equipmentAvailable?: string | null;
 }
 
 interface ClientProfileProps {
@@ -97,6 +99,31 @@ export default function ClientProfile({
           </p>
         </div>
       </div>
+
+      {(client.allergies || client.equipmentAvailable) && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-6 pt-4 border-t border-gray-light dark:border-davyGray">
+          {client.allergies && (
+            <div>
+              <p className="text-gray-dark dark:text-gray-light text-sm mb-1">
+                Allergies &amp; Dietary Restrictions
+              </p>
+              <p className="text-secondary dark:text-alabaster">
+                {client.allergies}
+              </p>
+            </div>
+          )}
+          {client.equipmentAvailable && (
+            <div>
+              <p className="text-gray-dark dark:text-gray-light text-sm mb-1">
+                Equipment Available
+              </p>
+              <p className="text-secondary dark:text-alabaster">
+                {client.equipmentAvailable}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
     </Card>
   );
 }
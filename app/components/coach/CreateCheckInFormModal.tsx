@@ -1,15 +1,35 @@
 import React, { useEffect, useState } from "react";
 import Modal from "~/components/ui/Modal";
 import Button from "~/components/ui/Button";
+import {
+  BODY_MEASUREMENT_FIELDS,
+  BODY_MEASUREMENT_UNIT,
+  CHECK_IN_QUESTION_TYPES,
+  OPTION_QUESTION_TYPES,
+  SCALE_MAX,
+  SCALE_MIN,
+  VISIBILITY_OPERATOR_LABELS,
+} from "~/lib/checkInFormConstants";
+import {
+  parseProfileField,
+  profileFieldsFor,
+  remapVisibilityRules,
+  visibilityOperatorsFor,
+  type QuestionVisibilityRule,
+} from "~/lib/checkInFormUtils";
+import type { CheckInQuestionType, ClientProfileField } from "~/lib/supabase";
 
 export interface FormQuestion {
   id: string;
   question_text: string;
-  question_type: "text" | "textarea" | "number" | "select" | "radio" | "checkbox";
+  question_type: CheckInQuestionType;
   is_required: boolean;
   options?: string[];
   order_index: number;
-  persistedId?: number;
+  persistedId?: string;
+  visibility_rule?: QuestionVisibilityRule | null;
+  /** Where the answer goes on the client's profile when the form is used for intake. */
+  profile_field?: ClientProfileField | null;
 }
 
 export interface FormTemplate {
@@ -19,6 +39,15 @@ export interface FormTemplate {
   questions: FormQuestion[];
 }
 
+/** Puts questions in order and points their rules at positions 0..n-1. */
+function normalizeQuestions(questions: FormQuestion[]): FormQuestion[] {
+  const sorted = [...questions].sort((a, b) => a.order_index - b.order_index);
+  return remapVisibilityRules(
+    sorted,
+    sorted.map((q) => q.order_index)
+  ).map((q, index) => ({ ...q, order_index: index }));
+}
+
 interface CreateCheckInFormModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -40,14 +69,16 @@ export default function CreateCheckInFormModal({
 }: CreateCheckInFormModalProps) {
   const [title, setTitle] = useState(initialForm?.title ?? "");
   const [description, setDescription] = useState(initialForm?.description ?? "");
-  const [questions, setQuestions] = useState<FormQuestion[]>(initialForm?.questions ?? []);
+  const [questions, setQuestions] = useState<FormQuestion[]>(
+    normalizeQuestions(initialForm?.questions ?? [])
+  );
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
       setTitle(initialForm?.title ?? "");
       setDescription(initialForm?.description ?? "");
-      setQuestions(initialForm?.questions ?? []);
+      setQuestions(normalizeQuestions(initialForm?.questions ?? []));
     } else if (mode === "create") {
       // Reset state when closing in create mode
       setTitle("");
@@ -69,18 +100,59 @@ export default function CreateCheckInFormModal({
   };
 
   const updateQuestion = (index: number, field: keyof FormQuestion, value: string | boolean) => {
-    const updatedQuestions = [...questions];
+    let updatedQuestions = [...questions];
     updatedQuestions[index] = { ...updatedQuestions[index], [field]: value };
+    if (field === 'question_type') {
+      updatedQuestions[index].profile_field = parseProfileField(
+        updatedQuestions[index].profile_field,
+        String(value)
+      );
+      // Rules that depend on this question may no longer fit its answers
+      const operators = visibilityOperatorsFor(String(value));
+      updatedQuestions = updatedQuestions.map((q) =>
+        q.visibility_rule?.question_index === index
+          ? {
+              ...q,
+              visibility_rule: operators.includes(q.visibility_rule.operator)
+                ? { ...q.visibility_rule, value: "" }
+                : { question_index: index, operator: operators[0], value: "" },
+            }
+          : q
+      );
+    }
+    setQuestions(updatedQuestions);
+  };
+
+  const updateProfileField = (index: number, profileField: ClientProfileField | null) => {
+    const updatedQuestions = [...questions];
+    updatedQuestions[index] = { ...updatedQuestions[index], profile_field: profileField };
+    setQuestions(updatedQuestions);
+  };
+
+  const updateVisibilityRule = (index: number, rule: QuestionVisibilityRule | null) => {
+    const updatedQuestions = [...questions];
+    updatedQuestions[index] = { ...updatedQuestions[index], visibility_rule: rule };
     setQuestions(updatedQuestions);
   };
 
   const removeQuestion = (index: number) => {
     const updatedQuestions = questions.filter((_, i) => i !== index);
-    // Reorder the remaining questions
-    const reorderedQuestions = updatedQuestions.map((q, i) => ({
-      ...q,
-      order_index: i,
-    }));
+    // Reorder the remaining questions; rules on the removed one are dropped
+    const reorderedQuestions = updatedQuestions.map((q, i) => {
+      const rule = q.visibility_rule;
+      return {
+        ...q,
+        order_index: i,
+        visibility_rule:
+          rule && rule.question_index !== index
+            ? {
+                ...rule,
+                question_index:
+                  rule.question_index > index ? rule.question_index - 1 : rule.question_index,
+              }
+            : null,
+      };
+    });
     setQuestions(reorderedQuestions);
   };
 
@@ -122,16 +194,20 @@ export default function CreateCheckInFormModal({
 
     setIsSubmitting(true);
     try {
+      const keptIndexes = questions
+        .map((q, index) => (q.question_text.trim() ? index : -1))
+        .filter((index) => index >= 0);
       await onSubmit({
         id: initialForm?.id,
         title: title.trim(),
         description: description.trim(),
-        questions: questions
-          .filter((q) => q.question_text.trim())
-          .map((q, index) => ({
-            ...q,
-            order_index: index,
-          })),
+        questions: remapVisibilityRules(
+          questions.filter((q) => q.question_text.trim()),
+          keptIndexes
+        ).map((q, index) => ({
+          ...q,
+          order_index: index,
+        })),
       });
       if (mode === "create") {
         setTitle("");
@@ -146,14 +222,13 @@ export default function CreateCheckInFormModal({
     }
   };
 
-  const questionTypes = [
-    { value: 'text', label: 'Short Text' },
-    { value: 'textarea', label: 'Long Text' },
-    { value: 'number', label: 'Number' },
-    { value: 'select', label: 'Dropdown' },
-    { value: 'radio', label: 'Single Choice' },
-    { value: 'checkbox', label: 'Multiple Choice' },
-  ];
+  const typeHints: Partial<Record<CheckInQuestionType, string>> = {
+    scale: `Clients pick a number from ${SCALE_MIN} to ${SCALE_MAX}.`,
+    yes_no: "Clients answer Yes or No.",
+    date: "Clients pick a date.",
+    photo: "Clients upload a photo. It's also saved to their progress photos.",
+    body_measurements: `Clients enter ${BODY_MEASUREMENT_FIELDS.map((f) => f.label.toLowerCase()).join(", ")} in ${BODY_MEASUREMENT_UNIT}. A required block needs at least one.`,
+  };
 
   return (
     <Modal
@@ -267,7 +342,7 @@ export default function CreateCheckInFormModal({
                     onChange={(e) => updateQuestion(index, 'question_type', e.target.value)}
                     className="w-full px-3 py-2 border border-gray-light dark:border-davyGray rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster"
                   >
-                    {questionTypes.map(type => (
+                    {CHECK_IN_QUESTION_TYPES.map(type => (
                       <option key={type.value} value={type.value}>
                         {type.label}
                       </option>
@@ -289,8 +364,77 @@ export default function CreateCheckInFormModal({
                 </label>
               </div>
 
+              {mode !== "send" && profileFieldsFor(question.question_type).length > 0 && (
+                <div>
+                  <label htmlFor={`profile-field-${index}`} className="block text-sm font-medium text-secondary dark:text-alabaster mb-1">
+                    Fill in client profile
+                  </label>
+                  <select
+                    id={`profile-field-${index}`}
+                    value={question.profile_field ?? ""}
+                    onChange={(e) =>
+                      updateProfileField(index, parseProfileField(e.target.value, question.question_type))
+                    }
+                    className="w-full px-3 py-2 border border-gray-light dark:border-davyGray rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster"
+                  >
+                    <option value="">Don&apos;t save to profile</option>
+                    {profileFieldsFor(question.question_type).map((field) => (
+                      <option key={field.value} value={field.value}>
+                        {field.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    When this form is a new client&apos;s intake questionnaire, their answer is saved to this profile field.
+                  </p>
+                </div>
+              )}
+
+              {index > 0 && (
+                <div className="space-y-3">
+                  <div className="flex items-center">
+                    <input
+                      id={`conditional-${index}`}
+                      type="checkbox"
+                      checked={!!question.visibility_rule}
+                      onChange={(e) =>
+                        updateVisibilityRule(
+                          index,
+                          e.target.checked
+                            ? {
+                                question_index: index - 1,
+                                operator: visibilityOperatorsFor(questions[index - 1].question_type)[0],
+                                value: "",
+                              }
+                            : null
+                        )
+                      }
+                      className="h-4 w-4 text-primary focus:ring-primary border-gray-light dark:border-davyGray rounded"
+                    />
+                    <label htmlFor={`conditional-${index}`} className="ml-2 text-sm text-secondary dark:text-alabaster">
+                      Only show this question based on an earlier answer
+                    </label>
+                  </div>
+
+                  {question.visibility_rule && (
+                    <VisibilityRuleEditor
+                      index={index}
+                      rule={question.visibility_rule}
+                      earlierQuestions={questions.slice(0, index)}
+                      onChange={(rule) => updateVisibilityRule(index, rule)}
+                    />
+                  )}
+                </div>
+              )}
+
+              {typeHints[question.question_type] && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {typeHints[question.question_type]}
+                </p>
+              )}
+
               {/* Options for select, radio, checkbox */}
-              {['select', 'radio', 'checkbox'].includes(question.question_type) && (
+              {OPTION_QUESTION_TYPES.includes(question.question_type) && (
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
                     <span className="block text-sm font-medium text-secondary dark:text-alabaster">
@@ -377,4 +521,109 @@ export default function CreateCheckInFormModal({
       </form>
     </Modal>
   );
-} 
\ No newline at end of file
+}
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-light dark:border-davyGray rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary bg-white dark:bg-night text-secondary dark:text-alabaster";
+
+function VisibilityRuleEditor({
+  index,
+  rule,
+  earlierQuestions,
+  onChange,
+}: {
+  index: number;
+  rule: QuestionVisibilityRule;
+  earlierQuestions: FormQuestion[];
+  onChange: (rule: QuestionVisibilityRule) => void;
+}) {
+  const source = earlierQuestions[rule.question_index];
+  const operators = visibilityOperatorsFor(source?.question_type ?? "text");
+  const options =
+    source?.question_type === "yes_no"
+      ? ["Yes", "No"]
+      : (source?.options || []).filter((option) => option.trim());
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 pl-6">
+      <div>
+        <label htmlFor={`rule-source-${index}`} className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+          When
+        </label>
+        <select
+          id={`rule-source-${index}`}
+          value={rule.question_index}
+          onChange={(e) => {
+            const questionIndex = Number(e.target.value);
+            const sourceType = earlierQuestions[questionIndex].question_type;
+            onChange({
+              question_index: questionIndex,
+              operator: visibilityOperatorsFor(sourceType)[0],
+              value: "",
+            });
+          }}
+          className={inputClassName}
+        >
+          {earlierQuestions.map((q, i) => (
+            <option key={q.id} value={i}>
+              {`Q${i + 1}: ${q.question_text.trim() || "Untitled question"}`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor={`rule-operator-${index}`} className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+          Condition
+        </label>
+        <select
+          id={`rule-operator-${index}`}
+          value={rule.operator}
+          onChange={(e) =>
+            onChange({ ...rule, operator: e.target.value as QuestionVisibilityRule["operator"] })
+          }
+          className={inputClassName}
+        >
+          {operators.map((operator) => (
+            <option key={operator} value={operator}>
+              {VISIBILITY_OPERATOR_LABELS[operator]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {rule.operator !== "answered" && (
+        <div>
+          <label htmlFor={`rule-value-${index}`} className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+            Answer
+          </label>
+          {options.length > 0 ? (
+            <select
+              id={`rule-value-${index}`}
+              value={rule.value ?? ""}
+              onChange={(e) => onChange({ ...rule, value: e.target.value })}
+              className={inputClassName}
+              required
+            >
+              <option value="">Select an answer...</option>
+              {options.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              id={`rule-value-${index}`}
+              type={source?.question_type === "number" || source?.question_type === "scale" ? "number" : "text"}
+              value={rule.value ?? ""}
+              onChange={(e) => onChange({ ...rule, value: e.target.value })}
+              className={inputClassName}
+              required
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,25 @@
 import React, { useState, useEffect, useRef } from "react";
+import { useFetcher } from "@remix-run/react";
+import { LockClosedIcon, LockOpenIcon } from "@heroicons/react/24/outline";
 import Button from "~/components/ui/Button";
+import FoodSearchInput from "~/components/coach/FoodSearchInput";
+import {
+  defaultPortion,
+  formatPortion,
+  getPortionUnits,
+  macrosForPortion,
+  parsePortion,
+  roundMacro,
+} from "~/lib/foodLibrary";
+import {
+  compareMacrosToTargets,
+  divideMacroTargets,
+  roundPortionAmount,
+  scaleFactorForTargets,
+  scalePortionText,
+  type MacroTargetProgress,
+} from "~/lib/utils";
+import type { FoodLibraryEntry, MacroTargets, MacroValues } from "~/types/nutrition";
 import type { CoachDraftEnvelope, MealPlanDraftPayload } from "~/utils/coachDraftStorage";
 import {
   clearMealDraft,
@@ -17,6 +37,11 @@ interface Food {
   carbs: number | string;
   fat: number | string;
   foodOption?: "A" | "B";
+  foodLibraryId?: string | null;
+  /** Library entry the macros were scaled from, kept so portion changes can rescale them. */
+  library?: FoodLibraryEntry | null;
+  /** Locked foods keep their portion when the plan is scaled to the client's targets. */
+  locked?: boolean;
 }
 
 interface Meal {
@@ -41,6 +66,8 @@ interface CreateMealPlanFormProps {
   /** When set, drafts are keyed by client + plan (null plan id = new plan). */
   draftClientId?: string | null;
   draftPlanId?: string | null;
+  /** The client's daily targets; enables the remaining-vs-target bars and portion scaling. */
+  macroTargets?: MacroTargets | null;
 }
 
 function defaultEmptyMealPlan(): MealPlanFormData {
@@ -86,6 +113,9 @@ function buildInitialMealForm(initialData?: MealPlanFormData): MealPlanFormData
         carbs: typeof food.carbs === "number" ? food.carbs : food.carbs ?? 0,
         fat: typeof food.fat === "number" ? food.fat : food.fat ?? 0,
         foodOption: food.foodOption || "A",
+        foodLibraryId: food.foodLibraryId ?? null,
+        library: food.library ?? null,
+        locked: food.locked ?? false,
       })),
     })),
   };
@@ -107,6 +137,9 @@ function normalizeMealsFromDraft(raw: unknown): Meal[] {
           carbs: food?.carbs ?? 0,
           fat: food?.fat ?? 0,
           foodOption: food?.foodOption === "B" ? "B" : "A",
+          foodLibraryId: typeof food?.foodLibraryId === "string" ? food.foodLibraryId : null,
+          library: food?.library && typeof food.library === "object" ? food.library : null,
+          locked: food?.locked === true,
         }))
       : defaultEmptyMealPlan().meals[0].foods,
   }));
@@ -143,6 +176,12 @@ interface FoodItemProps {
     isBlur?: boolean
   ) => void;
   removeFood: (mealIndex: number, foodIndex: number) => void;
+  selectLibraryFood: (mealIndex: number, foodIndex: number, entry: FoodLibraryEntry) => void;
+  updatePortion: (mealIndex: number, foodIndex: number, amount: number, unit: string) => void;
+  unlinkLibraryFood: (mealIndex: number, foodIndex: number) => void;
+  saveFoodToLibrary: (mealIndex: number, foodIndex: number) => void;
+  isSavingToLibrary: boolean;
+  toggleFoodLock: (mealIndex: number, foodIndex: number) => void;
 }
 
 function FoodItem({
@@ -152,7 +191,15 @@ function FoodItem({
   foodsLength,
   updateFood,
   removeFood,
+  selectLibraryFood,
+  updatePortion,
+  unlinkLibraryFood,
+  saveFoodToLibrary,
+  isSavingToLibrary,
+  toggleFoodLock,
 }: FoodItemProps) {
+  const library = food.library ?? null;
+  const portion = library ? parsePortion(food.portion, library) ?? defaultPortion(library) : null;
   return (
     <div className="p-5 bg-white dark:bg-night border border-gray-light/50 dark:border-davyGray/30 rounded-xl shadow-soft">
       <div className="flex justify-between items-center mb-4">
@@ -163,7 +210,29 @@ function FoodItem({
             </h5>
           </div>
         </div>
-        <div className="flex items-center space-x-2">
+        <div className="flex items-center space-x-3">
+          <button
+            type="button"
+            onClick={() => toggleFoodLock(activeMealIndex, foodIndex)}
+            className={`flex items-center gap-1 text-sm font-medium transition-colors duration-200 ${
+              food.locked
+                ? "text-primary"
+                : "text-gray-dark dark:text-gray-light hover:text-secondary dark:hover:text-alabaster"
+            }`}
+            title={
+              food.locked
+                ? "Locked: keeps this portion when scaling to targets"
+                : "Lock this portion when scaling to targets"
+            }
+            aria-pressed={food.locked === true}
+          >
+            {food.locked ? (
+              <LockClosedIcon className="h-4 w-4" />
+            ) : (
+              <LockOpenIcon className="h-4 w-4" />
+            )}
+            {food.locked ? "Locked" : "Lock"}
+          </button>
           <button
             type="button"
             onClick={() => removeFood(activeMealIndex, foodIndex)}
@@ -183,20 +252,15 @@ function FoodItem({
           >
             Food Name
           </label>
-          <input
-            type="text"
+          <FoodSearchInput
             id={`food-name-${activeMealIndex}-${foodIndex}`}
             value={food.name}
-            onChange={(e) =>
-              updateFood(
-                activeMealIndex,
-                foodIndex,
-                "name",
-                e.target.value
-              )
-            }
-            className="w-full px-3 py-2.5 border border-gray-light dark:border-davyGray rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-white dark:bg-night text-secondary dark:text-alabaster text-sm shadow-soft transition-all duration-200 placeholder:text-gray-400 dark:placeholder:text-gray-500"
-            placeholder="e.g., Chicken Breast"
+            linked={library}
+            onChange={(name) => updateFood(activeMealIndex, foodIndex, "name", name)}
+            onSelect={(entry) => selectLibraryFood(activeMealIndex, foodIndex, entry)}
+            onUnlink={() => unlinkLibraryFood(activeMealIndex, foodIndex)}
+            onSaveToLibrary={() => saveFoodToLibrary(activeMealIndex, foodIndex)}
+            isSaving={isSavingToLibrary}
           />
         </div>
         <div>
@@ -206,21 +270,53 @@ function FoodItem({
           >
             Portion
           </label>
-          <input
-            type="text"
-            id={`food-portion-${activeMealIndex}-${foodIndex}`}
-            value={food.portion}
-            onChange={(e) =>
-              updateFood(
-                activeMealIndex,
-                foodIndex,
-                "portion",
-                e.target.value
-              )
-            }
-            className="w-full px-3 py-2.5 border border-gray-light dark:border-davyGray rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-white dark:bg-night text-secondary dark:text-alabaster text-sm shadow-soft transition-all duration-200 placeholder:text-gray-400 dark:placeholder:text-gray-500"
-            placeholder="e.g., 6 oz"
-          />
+          {library && portion ? (
+            <div className="flex gap-2">
+              <input
+                type="number"
+                id={`food-portion-${activeMealIndex}-${foodIndex}`}
+                min={0}
+                step="any"
+                value={portion.amount}
+                onChange={(e) =>
+                  updatePortion(activeMealIndex, foodIndex, Number(e.target.value), portion.unit)
+                }
+                className="w-full px-3 py-2.5 border border-gray-light dark:border-davyGray rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-white dark:bg-night text-secondary dark:text-alabaster text-sm shadow-soft transition-all duration-200"
+              />
+              <select
+                value={portion.unit}
+                onChange={(e) =>
+                  updatePortion(activeMealIndex, foodIndex, portion.amount, e.target.value)
+                }
+                className="px-2 py-2.5 border border-gray-light dark:border-davyGray rounded-lg bg-white dark:bg-night text-secondary dark:text-alabaster text-sm shadow-soft"
+                aria-label="Portion unit"
+              >
+                {getPortionUnits(library).map((unit) => (
+                  <option key={unit.value} value={unit.value}>
+                    {unit.value === "serving" && library.servingLabel
+                      ? `serving (${library.servingLabel})`
+                      : unit.value}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : (
+            <input
+              type="text"
+              id={`food-portion-${activeMealIndex}-${foodIndex}`}
+              value={food.portion}
+              onChange={(e) =>
+                updateFood(
+                  activeMealIndex,
+                  foodIndex,
+                  "portion",
+                  e.target.value
+                )
+              }
+              className="w-full px-3 py-2.5 border border-gray-light dark:border-davyGray rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-white dark:bg-night text-secondary dark:text-alabaster text-sm shadow-soft transition-all duration-200 placeholder:text-gray-400 dark:placeholder:text-gray-500"
+              placeholder="e.g., 6 oz"
+            />
+          )}
         </div>
       </div>
 
@@ -342,6 +438,114 @@ function FoodItem({
 }
 
 
+const MACRO_LABELS: Record<MacroTargetProgress["key"], { label: string; unit: string }> = {
+  calories: { label: "Calories", unit: " kcal" },
+  protein: { label: "Protein", unit: "g" },
+  carbs: { label: "Carbs", unit: "g" },
+  fat: { label: "Fat", unit: "g" },
+};
+
+// Within this share of the target counts as on target
+const TARGET_TOLERANCE = 0.05;
+
+function MacroTargetBars({ progress }: { progress: MacroTargetProgress[] }) {
+  return (
+    <div className="space-y-2">
+      {progress.map((item) => {
+        const { label, unit } = MACRO_LABELS[item.key];
+        const onTarget = Math.abs(item.ratio - 1) <= TARGET_TOLERANCE;
+        const over = !onTarget && item.remaining < 0;
+        const barColor = onTarget ? "bg-green-500" : over ? "bg-red-500" : "bg-primary";
+        return (
+          <div key={item.key}>
+            <div className="flex items-center justify-between text-xs mb-1">
+              <span className="font-medium text-secondary dark:text-alabaster">{label}</span>
+              <span className="text-gray-dark dark:text-gray-light">
+                {item.actual} / {item.target}
+                {unit}
+                <span
+                  className={`ml-2 font-medium ${
+                    onTarget ? "text-green-600 dark:text-green-400" : over ? "text-red-500" : ""
+                  }`}
+                >
+                  {over
+                    ? `${Math.abs(item.remaining)}${unit} over`
+                    : `${Math.max(0, item.remaining)}${unit} left`}
+                </span>
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-gray-light/60 dark:bg-davyGray/40 overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-all duration-300 ${barColor}`}
+                style={{ width: `${Math.min(100, Math.round(item.ratio * 100))}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function foodMacros(food: Food): MacroValues {
+  const protein = Number(food.protein) || 0;
+  const carbs = Number(food.carbs) || 0;
+  const fat = Number(food.fat) || 0;
+  return { calories: protein * 4 + carbs * 4 + fat * 9, protein, carbs, fat };
+}
+
+function sumFoodMacros(foods: Food[]): MacroValues {
+  return foods.reduce(
+    (sum, food) => {
+      const macros = foodMacros(food);
+      return {
+        calories: sum.calories + macros.calories,
+        protein: sum.protein + macros.protein,
+        carbs: sum.carbs + macros.carbs,
+        fat: sum.fat + macros.fat,
+      };
+    },
+    { calories: 0, protein: 0, carbs: 0, fat: 0 }
+  );
+}
+
+/**
+ * The food with its portion multiplied by `factor` and macros to match, or
+ * null when it can't be scaled: it's locked, or its portion has no amount.
+ */
+function scaleFood(food: Food, factor: number): Food | null {
+  if (food.locked) return null;
+  if (food.library) {
+    const parsed = parsePortion(food.portion, food.library);
+    const amount = parsed ? roundPortionAmount(parsed.amount * factor) : 0;
+    const macros = parsed ? macrosForPortion(food.library, amount, parsed.unit) : null;
+    if (parsed && macros) {
+      return {
+        ...food,
+        portion: formatPortion(amount, parsed.unit),
+        protein: macros.protein,
+        carbs: macros.carbs,
+        fat: macros.fat,
+        calories: macros.protein * 4 + macros.carbs * 4 + macros.fat * 9,
+      };
+    }
+  }
+  const scaled = scalePortionText(food.portion, factor);
+  if (!scaled) return null;
+  const { protein, carbs, fat } = foodMacros(food);
+  const next = {
+    protein: roundMacro(protein * scaled.factor),
+    carbs: roundMacro(carbs * scaled.factor),
+    fat: roundMacro(fat * scaled.factor),
+  };
+  return {
+    ...food,
+    portion: scaled.portion,
+    ...next,
+    calories: next.protein * 4 + next.carbs * 4 + next.fat * 9,
+  };
+}
+
 export default function CreateMealPlanForm({
   onSubmit,
   onCancel,
@@ -349,12 +553,14 @@ export default function CreateMealPlanForm({
   isLoading = false,
   draftClientId = null,
   draftPlanId = null,
+  macroTargets = null,
 }: CreateMealPlanFormProps) {
   const [formData, setFormData] = useState<MealPlanFormData>(() =>
     buildInitialMealForm(initialData)
   );
 
   const [activeMealIndex, setActiveMealIndex] = useState(0);
+  const [scaleMessage, setScaleMessage] = useState<string | null>(null);
   const [draftReady, setDraftReady] = useState(!draftClientId);
   const [showDraftPrompt, setShowDraftPrompt] = useState(false);
   const [pendingDraftEnvelope, setPendingDraftEnvelope] =
@@ -677,6 +883,97 @@ export default function CreateMealPlanForm({
     });
   };
 
+  const setFoodAt = (
+    mealIndex: number,
+    foodIndex: number,
+    update: (food: Food) => Food
+  ) => {
+    setFormData((prev) => {
+      const targetMeal = prev.meals[mealIndex];
+      if (!targetMeal || !targetMeal.foods[foodIndex]) return prev;
+      return {
+        ...prev,
+        meals: prev.meals.map((meal, i) =>
+          i === mealIndex
+            ? { ...meal, foods: meal.foods.map((food, fi) => (fi === foodIndex ? update(food) : food)) }
+            : meal
+        ),
+      };
+    });
+  };
+
+  // Picking a library food fills in its name, a starting portion and the macros for it
+  const selectLibraryFood = (mealIndex: number, foodIndex: number, entry: FoodLibraryEntry) => {
+    const { amount, unit } = defaultPortion(entry);
+    const macros = macrosForPortion(entry, amount, unit) ?? entry.perServing;
+    setFoodAt(mealIndex, foodIndex, (food) => ({
+      ...food,
+      name: entry.name,
+      portion: formatPortion(amount, unit),
+      protein: macros.protein,
+      carbs: macros.carbs,
+      fat: macros.fat,
+      calories: macros.protein * 4 + macros.carbs * 4 + macros.fat * 9,
+      foodLibraryId: entry.id,
+      library: entry,
+    }));
+  };
+
+  const updatePortion = (mealIndex: number, foodIndex: number, amount: number, unit: string) => {
+    setFoodAt(mealIndex, foodIndex, (food) => {
+      if (!food.library) return food;
+      const macros = macrosForPortion(food.library, amount, unit);
+      if (!macros) return { ...food, portion: formatPortion(amount, unit) };
+      return {
+        ...food,
+        portion: formatPortion(amount, unit),
+        protein: macros.protein,
+        carbs: macros.carbs,
+        fat: macros.fat,
+        calories: macros.protein * 4 + macros.carbs * 4 + macros.fat * 9,
+      };
+    });
+  };
+
+  const unlinkLibraryFood = (mealIndex: number, foodIndex: number) => {
+    setFoodAt(mealIndex, foodIndex, (food) => ({ ...food, foodLibraryId: null, library: null }));
+  };
+
+  // Custom foods are saved with the macros typed for the current portion as one serving
+  const libraryFetcher = useFetcher<{ food?: FoodLibraryEntry; error?: string }>();
+  const pendingLibraryFoodRef = useRef<{ mealIndex: number; foodIndex: number } | null>(null);
+
+  const saveFoodToLibrary = (mealIndex: number, foodIndex: number) => {
+    const food = formData.meals[mealIndex]?.foods[foodIndex];
+    if (!food || !food.name.trim()) return;
+    pendingLibraryFoodRef.current = { mealIndex, foodIndex };
+    libraryFetcher.submit(
+      {
+        name: food.name.trim(),
+        servingLabel: food.portion.trim(),
+        protein: Number(food.protein) || 0,
+        carbs: Number(food.carbs) || 0,
+        fat: Number(food.fat) || 0,
+      },
+      { method: "POST", action: "/api/food-library", encType: "application/json" }
+    );
+  };
+
+  useEffect(() => {
+    if (libraryFetcher.state !== "idle" || !libraryFetcher.data?.food) return;
+    const target = pendingLibraryFoodRef.current;
+    pendingLibraryFoodRef.current = null;
+    if (!target) return;
+    const entry = libraryFetcher.data.food;
+    setFoodAt(target.mealIndex, target.foodIndex, (food) => ({
+      ...food,
+      portion: formatPortion(1, "serving"),
+      foodLibraryId: entry.id,
+      library: entry,
+    }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [libraryFetcher.state, libraryFetcher.data]);
+
   const removeMeal = (index: number) => {
     setFormData((prev) => {
       if (prev.meals.length <= 1 || !prev.meals[index]) {
@@ -695,11 +992,9 @@ export default function CreateMealPlanForm({
   };
 
   // Calculate total macros dynamically based on currently selected meal options
-  const calculateTotalMacros = () => {
-    let totalCalories = 0;
-    let totalProtein = 0;
-    let totalCarbs = 0;
-    let totalFat = 0;
+  // One meal per name/time group: the option being viewed, otherwise Meal A
+  const getCountedMeals = (): Meal[] => {
+    const counted: Meal[] = [];
 
     // Group meals by name and time
     const mealGroups = formData.meals.reduce((groups, meal) => {
@@ -715,13 +1010,7 @@ export default function CreateMealPlanForm({
     Object.values(mealGroups).forEach((groupMeals) => {
       if (groupMeals.length === 1) {
         // Only one meal option, count it
-        const meal = groupMeals[0];
-        meal.foods.forEach((food) => {
-          totalCalories += Number(food.calories);
-          totalProtein += Number(food.protein);
-          totalCarbs += Number(food.carbs);
-          totalFat += Number(food.fat);
-        });
+        counted.push(groupMeals[0]);
       } else if (groupMeals.length > 1) {
         // Multiple meal options (A/B), determine which one to count
         const mealA = groupMeals.find(m => m.mealOption === 'A');
@@ -748,16 +1037,29 @@ export default function CreateMealPlanForm({
         }
         
         if (mealToCount) {
-          mealToCount.foods.forEach((food) => {
-            totalCalories += Number(food.calories);
-            totalProtein += Number(food.protein);
-            totalCarbs += Number(food.carbs);
-            totalFat += Number(food.fat);
-          });
+          counted.push(mealToCount);
         }
       }
     });
 
+    return counted;
+  };
+
+  const calculateTotalMacros = () => {
+    let totalCalories = 0;
+    let totalProtein = 0;
+    let totalCarbs = 0;
+    let totalFat = 0;
+
+    getCountedMeals().forEach((meal) => {
+      meal.foods.forEach((food) => {
+        totalCalories += Number(food.calories);
+        totalProtein += Number(food.protein);
+        totalCarbs += Number(food.carbs);
+        totalFat += Number(food.fat);
+      });
+    });
+
     return {
       calories: Math.round(totalCalories),
       protein: Math.round(totalProtein),
@@ -785,6 +1087,67 @@ export default function CreateMealPlanForm({
     return groups;
   }, {} as Record<string, Meal[]>);
 
+  const dayTargetProgress = macroTargets ? compareMacrosToTargets(macros, macroTargets) : [];
+  const activeMeal = formData.meals[activeMealIndex];
+  // Each meal is measured against an even share of the day
+  const mealTargetProgress =
+    macroTargets && activeMeal
+      ? compareMacrosToTargets(
+          sumFoodMacros(activeMeal.foods),
+          divideMacroTargets(macroTargets, Object.keys(groupedMeals).length)
+        )
+      : [];
+
+  // Scales every unlocked portion by one factor, chosen from the day's counted meals.
+  // A/B alternatives get the same factor so they stay interchangeable.
+  const scalePortionsToTargets = () => {
+    if (!macroTargets) return;
+    const locked: MacroValues = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+    const scalable: MacroValues = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+    getCountedMeals().forEach((meal) => {
+      const canScale = meal.foods.map((food) => scaleFood(food, 1) !== null);
+      const lockedSum = sumFoodMacros(meal.foods.filter((_, i) => !canScale[i]));
+      const scalableSum = sumFoodMacros(meal.foods.filter((_, i) => canScale[i]));
+      (Object.keys(locked) as Array<keyof MacroValues>).forEach((key) => {
+        locked[key] += lockedSum[key];
+        scalable[key] += scalableSum[key];
+      });
+    });
+
+    const factor = scaleFactorForTargets(locked, scalable, macroTargets);
+    if (factor === null) {
+      setScaleMessage(
+        'Nothing to scale. Unlock some foods or start their portions with an amount, like "150 g".'
+      );
+      return;
+    }
+
+    let scaledCount = 0;
+    let skippedCount = 0;
+    const meals = formData.meals.map((meal) => ({
+      ...meal,
+      foods: meal.foods.map((food) => {
+        const next = scaleFood(food, factor);
+        if (next) scaledCount += 1;
+        else if (!food.locked) skippedCount += 1;
+        return next ?? food;
+      }),
+    }));
+    setFormData((prev) => ({ ...prev, meals }));
+    setScaleMessage(
+      `Scaled ${scaledCount} ${scaledCount === 1 ? "portion" : "portions"} to ${Math.round(
+        factor * 100
+      )}%.` +
+        (skippedCount > 0
+          ? ` ${skippedCount} without an amount ${skippedCount === 1 ? "was" : "were"} left as is.`
+          : "")
+    );
+  };
+
+  const toggleFoodLock = (mealIndex: number, foodIndex: number) => {
+    setFoodAt(mealIndex, foodIndex, (food) => ({ ...food, locked: !food.locked }));
+  };
+
   useEffect(() => {
     if (!formData) return;
     let changed = false;
@@ -924,6 +1287,25 @@ export default function CreateMealPlanForm({
             </div>
           </div>
           
+          {dayTargetProgress.length > 0 && (
+            <div className="bg-white/60 dark:bg-night/60 rounded-lg p-4 border border-primary/20 dark:border-primary/30 mb-6">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-3">
+                <h5 className="text-sm font-semibold text-secondary dark:text-alabaster">
+                  Daily Targets
+                </h5>
+                <Button type="button" size="sm" variant="outline" onClick={scalePortionsToTargets}>
+                  Scale portions to hit targets
+                </Button>
+              </div>
+              <MacroTargetBars progress={dayTargetProgress} />
+              {scaleMessage && (
+                <p className="mt-3 text-xs text-gray-dark dark:text-gray-light" role="status">
+                  {scaleMessage}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Meal Option Breakdown */}
           <div className="bg-white/40 dark:bg-night/40 rounded-lg p-4 border border-primary/20 dark:border-primary/30">
             <h5 className="text-sm font-semibold text-secondary dark:text-alabaster mb-3 text-center">
@@ -1186,6 +1568,15 @@ export default function CreateMealPlanForm({
               </div>
             </div>
 
+            {mealTargetProgress.length > 0 && (
+              <div className="p-4 rounded-xl border border-gray-light/50 dark:border-davyGray/30 bg-gray-lightest/60 dark:bg-night/60">
+                <h5 className="text-sm font-semibold text-secondary dark:text-alabaster mb-3">
+                  This meal vs. its share of the daily targets
+                </h5>
+                <MacroTargetBars progress={mealTargetProgress} />
+              </div>
+            )}
+
             <div className="space-y-4">
               {formData.meals[activeMealIndex]?.foods.map((food, foodIndex) => (
                 <FoodItem
@@ -1196,6 +1587,12 @@ export default function CreateMealPlanForm({
                   foodsLength={formData.meals[activeMealIndex]?.foods.length || 0}
                   updateFood={updateFood}
                   removeFood={removeFood}
+                  selectLibraryFood={selectLibraryFood}
+                  updatePortion={updatePortion}
+                  unlinkLibraryFood={unlinkLibraryFood}
+                  saveFoodToLibrary={saveFoodToLibrary}
+                  isSavingToLibrary={libraryFetcher.state !== "idle"}
+                  toggleFoodLock={toggleFoodLock}
                 />
               ))}
             </div>
@@ -2,6 +2,7 @@ import Modal from "~/components/ui/Modal";
 import CreateMealPlanForm, {
   MealPlanFormData,
 } from "~/components/coach/CreateMealPlanForm";
+import type { MacroTargets } from "~/types/nutrition";
 
 interface CreateMealPlanModalProps {
   isOpen: boolean;
@@ -11,6 +12,7 @@ interface CreateMealPlanModalProps {
   isLoading?: boolean;
   draftClientId?: string | null;
   draftPlanId?: string | null;
+  macroTargets?: MacroTargets | null;
 }
 
 export default function CreateMealPlanModal({
@@ -21,6 +23,7 @@ export default function CreateMealPlanModal({
   isLoading = false,
   draftClientId = null,
   draftPlanId = null,
+  macroTargets = null,
 }: CreateMealPlanModalProps) {
   const handleSubmit = (data: MealPlanFormData) => {
     if (!isLoading) {
@@ -43,6 +46,7 @@ export default function CreateMealPlanModal({
           isLoading={isLoading}
           draftClientId={draftClientId}
           draftPlanId={draftPlanId}
+          macroTargets={macroTargets}
         />
         {isLoading && (
           <div className="absolute inset-0 bg-white/80 dark:bg-night/80 flex items-center justify-center rounded-b-xl">
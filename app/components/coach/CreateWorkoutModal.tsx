@@ -9,6 +9,10 @@ import {
 } from "react";
 import Modal from "~/components/ui/Modal";
 import Button from "~/components/ui/Button";
+import ExerciseNameInput from "~/components/coach/ExerciseNameInput";
+import { useToast } from "~/context/ToastContext";
+import WorkoutProgramEditor from "~/components/coach/WorkoutProgramEditor";
+import type { ExerciseLibraryEntry, WorkoutProgram } from "~/types/workout";
 import type { CoachDraftEnvelope, WorkoutDraftPayload } from "~/utils/coachDraftStorage";
 import {
   clearWorkoutDraft,
@@ -22,10 +26,14 @@ export type WorkoutType = "Single" | "Super Set" | "Giant Set";
 
 interface WorkoutSection {
   name: string;
+  /** exercise_library entry this exercise was picked from */
+  exerciseId?: string;
   videoUrl?: string;
   videoFile?: File;
   sets: string;
   reps: string;
+  /** Working load in lbs; the starting point for a program's load progression */
+  weight?: string;
   notes?: string;
 }
 
@@ -44,6 +52,7 @@ interface CreateWorkoutModalProps {
     builderMode: 'week' | 'day';
     workoutDaysPerWeek?: number;
     week: { [day: string]: DayPlan };
+    program: WorkoutProgram | null;
   }) => void;
   initialValues?: {
     planName: string;
@@ -51,6 +60,7 @@ interface CreateWorkoutModalProps {
     builderMode?: 'week' | 'day';
     workoutDaysPerWeek?: number;
     week: { [day: string]: DayPlan };
+    program?: WorkoutProgram | null;
   };
   title?: string;
   submitLabel?: string;
@@ -361,6 +371,9 @@ export default function CreateWorkoutModal({
     currentDayIndex
   });
   const [workoutDaysPerWeek, setWorkoutDaysPerWeek] = useState(4);
+  const [program, setProgram] = useState<WorkoutProgram | null>(null);
+  const [exerciseLibrary, setExerciseLibrary] = useState<ExerciseLibraryEntry[]>([]);
+  const toast = useToast();
   const [weekPlans, setWeekPlans] = useState<{ [day: string]: DayPlan }>(() =>
     daysOfWeek.reduce((acc, day) => ({ ...acc, [day]: { mode: "rest" } }), {})
   );
@@ -399,6 +412,7 @@ export default function CreateWorkoutModal({
       setInstructions(iv.instructions || "");
       setBuilderMode(iv.builderMode || "week");
       setWorkoutDaysPerWeek(iv.workoutDaysPerWeek || 4);
+      setProgram(iv.program || null);
 
       if (iv.week) {
         setWeekPlans(iv.week);
@@ -446,6 +460,7 @@ export default function CreateWorkoutModal({
       setInstructions("");
       setBuilderMode("week");
       setWorkoutDaysPerWeek(4);
+      setProgram(null);
       setWeekPlans(
         daysOfWeek.reduce(
           (acc, day) => ({ ...acc, [day]: { mode: "rest" } }),
@@ -468,6 +483,7 @@ export default function CreateWorkoutModal({
       instructions,
       builderMode,
       workoutDaysPerWeek,
+      program,
       weekPlans: stripVideoFilesFromWeekPlans(weekPlans),
       workoutTemplates: stripVideoFilesFromTemplates(workoutTemplates),
       savedDays,
@@ -479,6 +495,7 @@ export default function CreateWorkoutModal({
     instructions,
     builderMode,
     workoutDaysPerWeek,
+    program,
     weekPlans,
     workoutTemplates,
     savedDays,
@@ -555,6 +572,7 @@ export default function CreateWorkoutModal({
     setInstructions(p.instructions);
     setBuilderMode(p.builderMode);
     setWorkoutDaysPerWeek(p.workoutDaysPerWeek);
+    setProgram((p.program as WorkoutProgram | null | undefined) || null);
     setWeekPlans(p.weekPlans as { [day: string]: DayPlan });
     setWorkoutTemplates((p.workoutTemplates || []) as DayPlan[]);
     setSavedDays(
@@ -670,6 +688,60 @@ export default function CreateWorkoutModal({
   const currentDay = useMemo(() => daysOfWeek[currentDayIndex], [currentDayIndex]);
   const currentPlan = useMemo(() => weekPlans[currentDay] || { mode: "rest" }, [weekPlans, currentDay]);
 
+  // Exercise library for name autocomplete
+  useEffect(() => {
+    if (!isOpen) return;
+    fetch("/api/exercise-library")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.exercises) setExerciseLibrary(data.exercises);
+      })
+      .catch((error) => console.error("Error loading exercise library:", error));
+  }, [isOpen]);
+
+  // Picking a library entry fills in its default video and cues unless the coach already set their own
+  const applyLibraryEntry = (
+    exercise: WorkoutSection,
+    entry: ExerciseLibraryEntry,
+    setField: (field: keyof WorkoutSection, value: string | undefined) => void
+  ) => {
+    const previous = exerciseLibrary.find((e) => e.id === exercise.exerciseId);
+    setField("name", entry.name);
+    setField("exerciseId", entry.id);
+    if (!exercise.videoFile && (!exercise.videoUrl || exercise.videoUrl === previous?.videoUrl)) {
+      setField("videoUrl", entry.videoUrl || undefined);
+    }
+    if (entry.cues && (!exercise.notes || exercise.notes === previous?.cues)) {
+      setField("notes", entry.cues);
+    }
+  };
+
+  const saveExerciseToLibrary = async (
+    name: string,
+    setField: (field: keyof WorkoutSection, value: string | undefined) => void
+  ) => {
+    try {
+      const res = await fetch("/api/exercise-library", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.exercise) {
+        toast.error("Couldn't save exercise", data.error);
+        return;
+      }
+      setExerciseLibrary((prev) =>
+        [...prev, data.exercise as ExerciseLibraryEntry].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setField("exerciseId", data.exercise.id);
+      toast.success("Saved to exercise library", name);
+    } catch (error) {
+      console.error("Error saving exercise to library:", error);
+      toast.error("Couldn't save exercise");
+    }
+  };
+
   const handleModeChange = (mode: "workout" | "rest") => {
     setWeekPlans((prev) => ({
       ...prev,
@@ -1009,7 +1081,7 @@ export default function CreateWorkoutModal({
     
     if (builderMode === 'week') {
       // Submit the week object as-is for Fixed Schedule
-      onSubmit({ planName, instructions, builderMode, week: weekPlans });
+      onSubmit({ planName, instructions, builderMode, week: weekPlans, program });
     } else {
       // For Flexible Schedule, flatten the workout templates into a week structure
       const weekData: { [day: string]: DayPlan } = {};
@@ -1037,7 +1109,8 @@ export default function CreateWorkoutModal({
         instructions, 
         builderMode, 
         workoutDaysPerWeek, 
-        week: weekData 
+        week: weekData,
+        program
       });
     }
     
@@ -1046,6 +1119,7 @@ export default function CreateWorkoutModal({
       setInstructions("");
       setBuilderMode('week');
       setWorkoutDaysPerWeek(7);
+      setProgram(null);
       setWeekPlans(
         daysOfWeek.reduce(
           (acc, day) => ({ ...acc, [day]: { mode: "rest" } }),
@@ -1183,6 +1257,9 @@ export default function CreateWorkoutModal({
             </div>
           )}
 
+          {/* Multi-week program */}
+          <WorkoutProgramEditor program={program} onChange={setProgram} />
+
           {/* Fixed Schedule UI */}
           {builderMode === "week" && (
             <>
@@ -1352,14 +1429,25 @@ export default function CreateWorkoutModal({
                                         >
                                           Exercise Name
                                         </label>
-                                        <input
+                                        <ExerciseNameInput
                                           id={`exerciseName-${groupIdx}-${exIdx}`}
-                                          type="text"
                                           value={exercise.name}
-                                          onChange={(e) => handleExerciseChange(groupIdx, exIdx, "name", e.target.value)}
-                                          placeholder="e.g., Bench Press, Lateral Raises"
-                                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary"
-                                          required
+                                          exerciseId={exercise.exerciseId}
+                                          library={exerciseLibrary}
+                                          onChange={(name, exerciseId) => {
+                                            handleExerciseChange(groupIdx, exIdx, "name", name);
+                                            handleExerciseChange(groupIdx, exIdx, "exerciseId", exerciseId);
+                                          }}
+                                          onSelect={(entry) =>
+                                            applyLibraryEntry(exercise, entry, (field, value) =>
+                                              handleExerciseChange(groupIdx, exIdx, field, value)
+                                            )
+                                          }
+                                          onSaveToLibrary={(name) =>
+                                            saveExerciseToLibrary(name, (field, value) =>
+                                              handleExerciseChange(groupIdx, exIdx, field, value)
+                                            )
+                                          }
                                         />
                                       </div>
                                       
@@ -1399,6 +1487,24 @@ export default function CreateWorkoutModal({
                                             required
                                           />
                                         </div>
+                                        <div className="flex-1">
+                                          <label
+                                            htmlFor={`weight-${groupIdx}-${exIdx}`}
+                                            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                                          >
+                                            Load (lbs)
+                                          </label>
+                                          <input
+                                            id={`weight-${groupIdx}-${exIdx}`}
+                                            type="number"
+                                            min={0}
+                                            step="0.5"
+                                            value={exercise.weight || ""}
+                                            onChange={(e) => handleExerciseChange(groupIdx, exIdx, "weight", e.target.value)}
+                                            placeholder="Optional"
+                                            className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary"
+                                          />
+                                        </div>
                                       </div>
                                       
                                       {/* Notes */}
@@ -1594,14 +1700,25 @@ export default function CreateWorkoutModal({
                                       >
                                         Exercise Name
                                       </label>
-                                      <input
+                                      <ExerciseNameInput
                                         id={`exerciseName-${groupIdx}-${exIdx}`}
-                                        type="text"
                                         value={exercise.name}
-                                        onChange={(e) => handleExerciseChangeForTemplate(currentWorkoutIndex, groupIdx, exIdx, "name", e.target.value)}
-                                        placeholder="e.g., Bench Press, Lateral Raises"
-                                        className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary"
-                                        required
+                                        exerciseId={exercise.exerciseId}
+                                        library={exerciseLibrary}
+                                        onChange={(name, exerciseId) => {
+                                          handleExerciseChangeForTemplate(currentWorkoutIndex, groupIdx, exIdx, "name", name);
+                                          handleExerciseChangeForTemplate(currentWorkoutIndex, groupIdx, exIdx, "exerciseId", exerciseId);
+                                        }}
+                                        onSelect={(entry) =>
+                                          applyLibraryEntry(exercise, entry, (field, value) =>
+                                            handleExerciseChangeForTemplate(currentWorkoutIndex, groupIdx, exIdx, field, value)
+                                          )
+                                        }
+                                        onSaveToLibrary={(name) =>
+                                          saveExerciseToLibrary(name, (field, value) =>
+                                            handleExerciseChangeForTemplate(currentWorkoutIndex, groupIdx, exIdx, field, value)
+                                          )
+                                        }
                                       />
                                     </div>
                                     
@@ -1641,6 +1758,24 @@ export default function CreateWorkoutModal({
                                           required
                                         />
                                       </div>
+                                      <div className="flex-1">
+                                        <label
+                                          htmlFor={`weight-${groupIdx}-${exIdx}`}
+                                          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                                        >
+                                          Load (lbs)
+                                        </label>
+                                        <input
+                                          id={`weight-${groupIdx}-${exIdx}`}
+                                          type="number"
+                                          min={0}
+                                          step="0.5"
+                                          value={exercise.weight || ""}
+                                          onChange={(e) => handleExerciseChangeForTemplate(currentWorkoutIndex, groupIdx, exIdx, "weight", e.target.value)}
+                                          placeholder="Optional"
+                                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary"
+                                        />
+                                      </div>
                                     </div>
                                     
                                     {/* Notes */}
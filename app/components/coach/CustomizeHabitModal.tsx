@@ -2,6 +2,7 @@ import { Dialog } from "@headlessui/react";
 import { useState, useEffect, useRef, useLayoutEffect } from "react";
 import Button from "~/components/ui/Button";
 import { XMarkIcon } from "@heroicons/react/24/outline";
+import { parseHabitTarget } from "~/lib/habitTargets";
 import type {
   CoachDraftEnvelope,
   HabitCustomizeDraftPayload,
@@ -293,12 +294,14 @@ export default function CustomizeHabitModal({
     e.preventDefault();
     if (!preset || isLoading || !canSubmitSchedule) return;
     const trimmed = goalTarget.trim();
+    // "8 hours" is stored as 8 + "hours" so the client can log against it
+    const target = parseHabitTarget(trimmed);
     onAssign({
       habitPresetId: preset.id,
       customName: habitName.trim() || preset.name,
       customDescription: notesForClient.trim(),
-      targetValue: null,
-      targetUnit: trimmed || null,
+      targetValue: target ? target.value : null,
+      targetUnit: target ? target.unit || null : trimmed || null,
       frequency: cadence,
       timesPerWeek: cadence === "times_per_week" ? timesPerWeek : null,
       scheduleDays:
@@ -409,6 +412,9 @@ export default function CustomizeHabitModal({
                     placeholder="e.g. 100 oz, 10 min, 8 hours, 10000 steps"
                     className="w-full px-4 py-2 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-secondary dark:text-alabaster"
                   />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Start with a number and the client logs their amount each day; falling short earns partial credit.
+                  </p>
                 </div>
                 <div>
                   <label htmlFor="customize-habit-cadence" className="block text-sm font-medium text-secondary dark:text-alabaster mb-1">
@@ -0,0 +1,283 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import { PencilIcon, TrashIcon } from "@heroicons/react/24/outline";
+import Modal from "~/components/ui/Modal";
+import Button from "~/components/ui/Button";
+import { searchExerciseLibrary } from "~/lib/exerciseLibrary";
+import type { ExerciseLibraryEntry } from "~/types/workout";
+
+type ExerciseLibraryModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+type EntryForm = {
+  id?: string;
+  name: string;
+  aliases: string;
+  muscleGroups: string;
+  equipment: string;
+  videoUrl: string;
+  cues: string;
+};
+
+const emptyForm: EntryForm = {
+  name: "",
+  aliases: "",
+  muscleGroups: "",
+  equipment: "",
+  videoUrl: "",
+  cues: "",
+};
+
+const inputClassName =
+  "w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary";
+
+function formFromEntry(entry: ExerciseLibraryEntry): EntryForm {
+  return {
+    id: entry.id,
+    name: entry.name,
+    aliases: entry.aliases.join(", "),
+    muscleGroups: entry.muscleGroups.join(", "),
+    equipment: entry.equipment.join(", "),
+    videoUrl: entry.videoUrl || "",
+    cues: entry.cues || "",
+  };
+}
+
+export default function ExerciseLibraryModal({ isOpen, onClose }: ExerciseLibraryModalProps) {
+  const listFetcher = useFetcher<{ exercises?: ExerciseLibraryEntry[]; error?: string }>();
+  const saveFetcher = useFetcher<{
+    exercise?: ExerciseLibraryEntry;
+    deletedId?: string;
+    error?: string;
+  }>();
+  const [exercises, setExercises] = useState<ExerciseLibraryEntry[]>([]);
+  const [query, setQuery] = useState("");
+  const [form, setForm] = useState<EntryForm | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      listFetcher.load("/api/exercise-library");
+    } else {
+      setForm(null);
+      setQuery("");
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (listFetcher.data?.exercises) setExercises(listFetcher.data.exercises);
+  }, [listFetcher.data]);
+
+  // Apply saves and deletes locally instead of reloading the whole list
+  useEffect(() => {
+    if (saveFetcher.state !== "idle" || !saveFetcher.data) return;
+    const { exercise, deletedId } = saveFetcher.data;
+    if (exercise) {
+      setExercises((prev) =>
+        [...prev.filter((e) => e.id !== exercise.id), exercise].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      setForm(null);
+    } else if (deletedId) {
+      setExercises((prev) => prev.filter((e) => e.id !== deletedId));
+    }
+  }, [saveFetcher.state, saveFetcher.data]);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    saveFetcher.submit(form, {
+      method: form.id ? "PATCH" : "POST",
+      action: "/api/exercise-library",
+      encType: "application/json",
+    });
+  };
+
+  const handleDelete = (entry: ExerciseLibraryEntry) => {
+    if (
+      !confirm(
+        `Remove "${entry.name}" from your library? Existing workouts keep the exercise, just without the link.`
+      )
+    ) {
+      return;
+    }
+    saveFetcher.submit(
+      { id: entry.id },
+      { method: "DELETE", action: "/api/exercise-library", encType: "application/json" }
+    );
+  };
+
+  const visible = query.trim() ? searchExerciseLibrary(exercises, query, exercises.length) : exercises;
+  const isSaving = saveFetcher.state !== "idle";
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Exercise Library" size="lg">
+      {form ? (
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <label htmlFor="library-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Name
+            </label>
+            <input
+              id="library-name"
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClassName}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="library-aliases" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Aliases (comma separated)
+            </label>
+            <input
+              id="library-aliases"
+              type="text"
+              value={form.aliases}
+              onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+              placeholder="e.g., Flat Bench, BB Bench"
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label htmlFor="library-muscles" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Muscle groups
+              </label>
+              <input
+                id="library-muscles"
+                type="text"
+                value={form.muscleGroups}
+                onChange={(e) => setForm({ ...form, muscleGroups: e.target.value })}
+                placeholder="e.g., Chest, Triceps"
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="library-equipment" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Equipment
+              </label>
+              <input
+                id="library-equipment"
+                type="text"
+                value={form.equipment}
+                onChange={(e) => setForm({ ...form, equipment: e.target.value })}
+                placeholder="e.g., Barbell, Bench"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="library-video" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Default video URL
+            </label>
+            <input
+              id="library-video"
+              type="url"
+              value={form.videoUrl}
+              onChange={(e) => setForm({ ...form, videoUrl: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="library-cues" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Coaching cues
+            </label>
+            <textarea
+              id="library-cues"
+              value={form.cues}
+              onChange={(e) => setForm({ ...form, cues: e.target.value })}
+              rows={3}
+              className={inputClassName}
+            />
+          </div>
+          {saveFetcher.data?.error && (
+            <p className="text-sm text-red-500">{saveFetcher.data.error}</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setForm(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : form.id ? "Save Changes" : "Add Exercise"}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name, alias, muscle or equipment"
+              className={inputClassName}
+            />
+            <Button onClick={() => setForm({ ...emptyForm, name: query.trim() })}>+ Add</Button>
+          </div>
+          {listFetcher.state === "loading" && exercises.length === 0 ? (
+            <div className="text-center py-6 text-sm text-gray-dark dark:text-gray-light">
+              Loading exercises...
+            </div>
+          ) : visible.length === 0 ? (
+            <div className="text-center py-6 text-gray-dark dark:text-gray-light">
+              {exercises.length === 0
+                ? "Your library is empty. Add exercises here or save them while building a workout."
+                : "No exercises match your search."}
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-light dark:divide-davyGray">
+              {visible.map((entry) => (
+                <li key={entry.id} className="flex items-start justify-between gap-3 py-3">
+                  <div className="min-w-0">
+                    <div className="font-medium text-secondary dark:text-alabaster">{entry.name}</div>
+                    {entry.aliases.length > 0 && (
+                      <div className="text-xs text-gray-dark dark:text-gray-light truncate">
+                        Also: {entry.aliases.join(", ")}
+                      </div>
+                    )}
+                    {(entry.muscleGroups.length > 0 || entry.equipment.length > 0) && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {[...entry.muscleGroups, ...entry.equipment].map((tag) => (
+                          <span
+                            key={tag}
+                            className="text-xs px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-dark dark:text-gray-light"
+                          >
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => setForm(formFromEntry(entry))}
+                      className="text-gray-dark hover:text-primary dark:text-gray-light"
+                      aria-label={`Edit ${entry.name}`}
+                    >
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(entry)}
+                      disabled={isSaving}
+                      className="text-gray-dark hover:text-red-500 dark:text-gray-light"
+                      aria-label={`Delete ${entry.name}`}
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
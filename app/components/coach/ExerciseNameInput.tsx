@@ -0,0 +1,108 @@
+import { useMemo, useState } from "react";
+import { findLibraryMatch, searchExerciseLibrary } from "~/lib/exerciseLibrary";
+import type { ExerciseLibraryEntry } from "~/types/workout";
+
+interface ExerciseNameInputProps {
+  id: string;
+  value: string;
+  exerciseId?: string;
+  library: ExerciseLibraryEntry[];
+  /** Called on typing; `exerciseId` stays set only while the text still names the linked entry. */
+  onChange: (name: string, exerciseId: string | undefined) => void;
+  onSelect: (entry: ExerciseLibraryEntry) => void;
+  onSaveToLibrary?: (name: string) => void;
+}
+
+export default function ExerciseNameInput({
+  id,
+  value,
+  exerciseId,
+  library,
+  onChange,
+  onSelect,
+  onSaveToLibrary,
+}: ExerciseNameInputProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const suggestions = useMemo(
+    () => (value.trim() ? searchExerciseLibrary(library, value) : []),
+    [library, value]
+  );
+  const linked = exerciseId ? library.find((entry) => entry.id === exerciseId) : undefined;
+  const canSave =
+    !!onSaveToLibrary && !exerciseId && value.trim() !== "" && !findLibraryMatch(library, value);
+
+  const handleChange = (name: string) => {
+    const stillLinked =
+      linked && findLibraryMatch([linked], name) ? linked.id : undefined;
+    onChange(name, stillLinked);
+    setIsOpen(true);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        id={id}
+        type="text"
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        onFocus={() => setIsOpen(true)}
+        // Delay so a click on a suggestion lands before the list closes
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        placeholder="e.g., Bench Press, Lateral Raises"
+        autoComplete="off"
+        className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary"
+        required
+      />
+      {linked && (
+        <div className="mt-1 text-xs text-primary">
+          Linked to library: {linked.name}
+          {linked.muscleGroups.length > 0 && (
+            <span className="text-gray-500 dark:text-gray-400">
+              {" "}
+              · {linked.muscleGroups.join(", ")}
+            </span>
+          )}
+        </div>
+      )}
+      {isOpen && (suggestions.length > 0 || canSave) && (
+        <ul className="absolute z-20 mt-1 w-full max-h-60 overflow-y-auto rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 shadow-lg">
+          {suggestions.map((entry) => (
+            <li key={entry.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => {
+                  onSelect(entry);
+                  setIsOpen(false);
+                }}
+                className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600"
+              >
+                <div className="text-sm text-gray-900 dark:text-gray-100">{entry.name}</div>
+                {(entry.muscleGroups.length > 0 || entry.equipment.length > 0) && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {[...entry.muscleGroups, ...entry.equipment].join(" · ")}
+                  </div>
+                )}
+              </button>
+            </li>
+          ))}
+          {canSave && (
+            <li className="border-t border-gray-200 dark:border-gray-600">
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => {
+                  onSaveToLibrary?.(value.trim());
+                  setIsOpen(false);
+                }}
+                className="w-full text-left px-3 py-2 text-sm text-primary hover:bg-gray-100 dark:hover:bg-gray-600"
+              >
+                + Save &quot;{value.trim()}&quot; to exercise library
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
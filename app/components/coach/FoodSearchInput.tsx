@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import { looksLikeBarcode } from "~/lib/foodLibrary";
+import type { FoodLibraryEntry } from "~/types/nutrition";
+
+interface FoodSearchInputProps {
+  id: string;
+  value: string;
+  /** Set while the food is linked to a library entry. */
+  linked: FoodLibraryEntry | null;
+  onChange: (name: string) => void;
+  onSelect: (entry: FoodLibraryEntry) => void;
+  /** Drops the link and goes back to typing the portion and macros by hand. */
+  onUnlink?: () => void;
+  /** Offered when nothing matches; saves what the coach typed as a custom food. */
+  onSaveToLibrary?: () => void;
+  isSaving?: boolean;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+function describeEntry(entry: FoodLibraryEntry): string {
+  const basis = entry.per100g
+    ? `${Math.round(entry.per100g.calories)} kcal / 100 g`
+    : `${Math.round(entry.perServing.calories)} kcal / ${entry.servingLabel || "serving"}`;
+  return [entry.brand, basis].filter(Boolean).join(" · ");
+}
+
+export default function FoodSearchInput({
+  id,
+  value,
+  linked,
+  onChange,
+  onSelect,
+  onUnlink,
+  onSaveToLibrary,
+  isSaving = false,
+}: FoodSearchInputProps) {
+  const fetcher = useFetcher<{ foods?: FoodLibraryEntry[]; error?: string }>();
+  const [isOpen, setIsOpen] = useState(false);
+  const query = value.trim();
+
+  // Only search while the coach is typing, not for names restored from a saved plan
+  useEffect(() => {
+    if (!isOpen || query.length < 2 || linked?.name === value) return;
+    const timeout = setTimeout(() => {
+      fetcher.load(`/api/food-library?q=${encodeURIComponent(query)}`);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query, isOpen]);
+
+  const suggestions = query.length >= 2 ? fetcher.data?.foods || [] : [];
+  const isSearching = fetcher.state === "loading";
+  const canSave =
+    !!onSaveToLibrary && !linked && query !== "" && !isSearching && suggestions.length === 0;
+
+  return (
+    <div className="relative">
+      <input
+        id={id}
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        // Delay so a click on a suggestion lands before the list closes
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        autoComplete="off"
+        className="w-full px-3 py-2.5 border border-gray-light dark:border-davyGray rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-white dark:bg-night text-secondary dark:text-alabaster text-sm shadow-soft transition-all duration-200 placeholder:text-gray-400 dark:placeholder:text-gray-500"
+        placeholder="Search foods or scan a barcode number"
+      />
+      {linked && (
+        <div className="mt-1 flex items-center justify-between gap-2 text-xs">
+          <span className="text-primary truncate">
+            From food library{linked.brand ? ` · ${linked.brand}` : ""}
+          </span>
+          {onUnlink && (
+            <button
+              type="button"
+              onClick={onUnlink}
+              className="shrink-0 text-gray-dark dark:text-gray-light hover:underline"
+            >
+              Enter manually
+            </button>
+          )}
+        </div>
+      )}
+      {isOpen && query.length >= 2 && (suggestions.length > 0 || isSearching || canSave) && (
+        <ul className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto rounded-lg border border-gray-light dark:border-davyGray bg-white dark:bg-night shadow-lg">
+          {isSearching && suggestions.length === 0 && (
+            <li className="px-3 py-2 text-xs text-gray-dark dark:text-gray-light">
+              {looksLikeBarcode(query) ? "Looking up barcode..." : "Searching..."}
+            </li>
+          )}
+          {suggestions.map((entry) => (
+            <li key={entry.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => {
+                  onSelect(entry);
+                  setIsOpen(false);
+                }}
+                className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-secondary-light/20"
+              >
+                <div className="text-sm text-secondary dark:text-alabaster">{entry.name}</div>
+                <div className="text-xs text-gray-dark dark:text-gray-light">{describeEntry(entry)}</div>
+              </button>
+            </li>
+          ))}
+          {canSave && (
+            <li className="border-t border-gray-light dark:border-davyGray">
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => {
+                  onSaveToLibrary?.();
+                  setIsOpen(false);
+                }}
+                disabled={isSaving}
+                className="w-full text-left px-3 py-2 text-sm text-primary hover:bg-gray-100 dark:hover:bg-secondary-light/20"
+              >
+                {isSaving ? "Saving..." : `+ Save "${query}" to food library with these macros`}
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
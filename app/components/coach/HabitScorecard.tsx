@@ -0,0 +1,69 @@
+import { FireIcon, TrophyIcon } from "@heroicons/react/24/solid";
+import { formatHabitStreak } from "~/lib/habitScoring";
+import type { HabitScore } from "~/types/habits";
+
+interface HabitScorecardProps {
+  score: HabitScore | undefined;
+  /** "this week", or "that week" when a coach is browsing back. */
+  weekLabel: string;
+}
+
+function percent(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+/** Partial days make credit fractional: 2.5 rather than 2.4999. */
+function formatCredit(credit: number) {
+  return Number.isInteger(credit) ? String(credit) : credit.toFixed(1);
+}
+
+function rateTone(rate: number) {
+  if (rate >= 0.8) return "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300";
+  if (rate >= 0.5) return "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300";
+  return "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300";
+}
+
+/** Streaks, hit rate and milestone badges for one assigned habit. */
+export default function HabitScorecard({ score, weekLabel }: HabitScorecardProps) {
+  if (!score) return null;
+  const unitLabel = score.unit === "day" ? "scheduled days" : "times";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 flex-wrap text-sm">
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300">
+          <FireIcon className="w-4 h-4" />
+          {formatHabitStreak(score.currentStreak, score.unit)}
+        </span>
+        <span className="text-gray-500 dark:text-gray-400">
+          Best: {formatHabitStreak(score.bestStreak, score.unit)}
+        </span>
+        {score.weekTarget > 0 && (
+          <span className={`px-2 py-0.5 rounded-full ${rateTone(score.weeklyHitRate)}`}>
+            {formatCredit(Math.min(score.weekHits, score.weekTarget))}/{score.weekTarget} {unitLabel} {weekLabel}
+          </span>
+        )}
+        <span className="text-gray-500 dark:text-gray-400">4-week hit rate: {percent(score.fourWeekHitRate)}</span>
+      </div>
+      {(score.badges.length > 0 || score.nextBadge) && (
+        <div className="flex items-center gap-2 flex-wrap text-xs">
+          {score.badges.map((badge) => (
+            <span
+              key={badge.key}
+              title={badge.description}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300"
+            >
+              <TrophyIcon className="w-3.5 h-3.5" />
+              {badge.label}
+            </span>
+          ))}
+          {score.nextBadge && (
+            <span className="text-gray-500 dark:text-gray-400" title={score.nextBadge.badge.description}>
+              Next: {score.nextBadge.badge.label} ({score.nextBadge.remaining} to go)
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import Card from "~/components/ui/Card";
+import Button from "~/components/ui/Button";
+import { useToast } from "~/context/ToastContext";
+import { MACRO_KEYS, type MacroKey } from "~/lib/utils";
+import type { MacroTargets } from "~/types/nutrition";
+
+interface MacroTargetsCardProps {
+  clientId: string;
+  targets: MacroTargets | null;
+  onSaved: (targets: MacroTargets) => void;
+}
+
+const FIELD_LABELS: Record<MacroKey, string> = {
+  calories: "Calories (kcal)",
+  protein: "Protein (g)",
+  carbs: "Carbs (g)",
+  fat: "Fat (g)",
+};
+
+type TargetInputs = Record<MacroKey, string>;
+
+function toInputs(targets: MacroTargets | null): TargetInputs {
+  return {
+    calories: targets?.calories ? String(targets.calories) : "",
+    protein: targets?.protein ? String(targets.protein) : "",
+    carbs: targets?.carbs ? String(targets.carbs) : "",
+    fat: targets?.fat ? String(targets.fat) : "",
+  };
+}
+
+export default function MacroTargetsCard({ clientId, targets, onSaved }: MacroTargetsCardProps) {
+  const fetcher = useFetcher<{ targets?: MacroTargets; error?: string }>();
+  const toast = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [inputs, setInputs] = useState<TargetInputs>(() => toInputs(targets));
+  const hasTargets = !!targets && MACRO_KEYS.some((key) => targets[key] > 0);
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+    if (fetcher.data.targets) {
+      onSaved(fetcher.data.targets);
+      setIsEditing(false);
+      toast.success("Targets Saved", "The meal plan builder will measure plans against them.");
+    } else if (fetcher.data.error) {
+      toast.error("Failed to Save Targets", fetcher.data.error);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fetcher.state, fetcher.data]);
+
+  const macroCalories =
+    (Number(inputs.protein) || 0) * 4 + (Number(inputs.carbs) || 0) * 4 + (Number(inputs.fat) || 0) * 9;
+
+  const handleSave = () => {
+    fetcher.submit(
+      { clientId, ...inputs },
+      { method: "POST", action: "/api/client-macro-targets", encType: "application/json" }
+    );
+  };
+
+  return (
+    <Card
+      title="Daily Macro Targets"
+      action={
+        !isEditing && (
+          <button
+            type="button"
+            className="text-primary text-xs font-medium hover:underline px-1"
+            onClick={() => {
+              setInputs(toInputs(targets));
+              setIsEditing(true);
+            }}
+          >
+            {hasTargets ? "Edit" : "Set Targets"}
+          </button>
+        )
+      }
+    >
+      {isEditing ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {MACRO_KEYS.map((key) => (
+              <div key={key}>
+                <label
+                  htmlFor={`macro-target-${key}`}
+                  className="block text-xs font-semibold text-secondary dark:text-alabaster mb-1"
+                >
+                  {FIELD_LABELS[key]}
+                </label>
+                <input
+                  id={`macro-target-${key}`}
+                  type="number"
+                  min={0}
+                  value={inputs[key]}
+                  onChange={(e) => setInputs((prev) => ({ ...prev, [key]: e.target.value }))}
+                  placeholder={key === "calories" && macroCalories > 0 ? String(macroCalories) : "0"}
+                  className="w-full px-3 py-2 border border-gray-light dark:border-davyGray rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-white dark:bg-night text-secondary dark:text-alabaster text-sm"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-dark dark:text-gray-light">
+            Leave calories blank to use the macros ({macroCalories} kcal). Leave any value blank to
+            skip that target.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button type="button" size="sm" variant="outline" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              onClick={handleSave}
+              disabled={fetcher.state !== "idle"}
+            >
+              {fetcher.state !== "idle" ? "Saving..." : "Save Targets"}
+            </Button>
+          </div>
+        </div>
+      ) : hasTargets && targets ? (
+        <div className="grid grid-cols-4 gap-3 text-center">
+          {MACRO_KEYS.map((key) => (
+            <div key={key}>
+              <div className="text-xs text-gray-dark dark:text-gray-light">
+                {FIELD_LABELS[key].split(" ")[0]}
+              </div>
+              <div className="font-semibold text-secondary dark:text-alabaster">
+                {targets[key] > 0 ? `${targets[key]}${key === "calories" ? "" : "g"}` : "—"}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-dark dark:text-gray-light">
+          No targets set. Set daily calories and macros to see what each meal plan has left to hit.
+        </p>
+      )}
+    </Card>
+  );
+}
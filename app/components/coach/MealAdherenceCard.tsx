@@ -0,0 +1,178 @@
+import { useEffect } from "react";
+import { useFetcher } from "@remix-run/react";
+import Card from "~/components/ui/Card";
+import { calculateMacrosWithCompleted } from "~/lib/utils";
+import type { FoodLogEntry, MacroValues } from "~/types/nutrition";
+
+interface AdherenceMeal {
+  id: string | number;
+  name: string;
+  time: string;
+  mealOption?: "A" | "B";
+  foods: Array<MacroValues & { id?: string | number; name: string; portion: string }>;
+}
+
+interface MealAdherenceCardProps {
+  clientId: string;
+  meals: AdherenceMeal[];
+  completions: Array<{ meal_id: string | null; completed_at: string }>;
+  weekStart: Date;
+}
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function dateKey(date: Date) {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * The option counted for each meal group on a day: the one the client
+ * completed, otherwise option A.
+ */
+function mealsForDay(meals: AdherenceMeal[], completedIds: Set<string>) {
+  const groups = new Map<string, AdherenceMeal[]>();
+  meals.forEach((meal) => {
+    const key = `${meal.name}-${meal.time}`;
+    groups.set(key, [...(groups.get(key) || []), meal]);
+  });
+  return Array.from(groups.values()).map(
+    (options) =>
+      options.find((meal) => completedIds.has(String(meal.id))) ||
+      options.find((meal) => (meal.mealOption || "A") === "A") ||
+      options[0]
+  );
+}
+
+function describeLog(log: FoodLogEntry, plannedName: string | undefined, mealName: string | undefined) {
+  const where = mealName ? ` (${mealName})` : "";
+  switch (log.kind) {
+    case "skip":
+      return `Skipped ${log.name}${where}`;
+    case "swap":
+      return `Swapped ${plannedName || "a food"} for ${log.portion ? `${log.portion} ` : ""}${log.name}${where}`;
+    case "portion":
+      return `Had ${log.portion || "a different amount"} of ${log.name}${where}`;
+    default:
+      return `Added ${log.portion ? `${log.portion} ` : ""}${log.name}${mealName ? where : " (off-plan)"}`;
+  }
+}
+
+export default function MealAdherenceCard({
+  clientId,
+  meals,
+  completions,
+  weekStart,
+}: MealAdherenceCardProps) {
+  const fetcher = useFetcher<{ logs?: FoodLogEntry[]; error?: string }>();
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekStart.getDate() + 6);
+  const start = dateKey(weekStart);
+  const end = dateKey(weekEnd);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ clientId, start, end });
+    fetcher.load(`/api/meal-food-logs?${params.toString()}`);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clientId, start, end]);
+
+  const logs = fetcher.data?.logs || [];
+  const mealNames = new Map(meals.map((meal) => [String(meal.id), meal.name]));
+  const foodNames = new Map(
+    meals.flatMap((meal) => meal.foods.map((food) => [String(food.id), food.name] as const))
+  );
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const days = DAY_NAMES.map((day, index) => {
+    const date = new Date(weekStart);
+    date.setDate(weekStart.getDate() + index);
+    const key = dateKey(date);
+    const completedIds = new Set(
+      completions
+        .filter((completion) => completion.meal_id && completion.completed_at.slice(0, 10) === key)
+        .map((completion) => String(completion.meal_id))
+    );
+    const dayLogs = logs.filter((log) => log.date === key);
+    const counted = mealsForDay(meals, completedIds);
+    const macros = calculateMacrosWithCompleted(
+      counted.map((meal) => ({ id: meal.id, foods: meal.foods })),
+      Array.from(completedIds),
+      dayLogs
+    );
+    return {
+      day,
+      date,
+      key,
+      macros,
+      dayLogs,
+      isFuture: date > today,
+      hasActivity: completedIds.size > 0 || dayLogs.length > 0,
+    };
+  });
+
+  return (
+    <Card title="Planned vs. Actual">
+      {fetcher.data?.error ? (
+        <p className="text-sm text-red-500">{fetcher.data.error}</p>
+      ) : (
+        <div className="space-y-3">
+          {days
+            .filter((entry) => !entry.isFuture)
+            .map(({ day, date, key, macros, dayLogs, hasActivity }) => {
+              const calorieDiff = macros.actual.calories - macros.total.calories;
+              return (
+                <div
+                  key={key}
+                  className="rounded-xl border border-gray-light dark:border-davyGray p-3"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="font-semibold text-secondary dark:text-alabaster">
+                      {day}{" "}
+                      <span className="text-xs font-normal text-gray-dark dark:text-gray-light">
+                        {date.toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+                      </span>
+                    </div>
+                    {hasActivity ? (
+                      <div className="text-sm text-gray-dark dark:text-gray-light">
+                        {macros.actual.calories} / {macros.total.calories} kcal ·{" "}
+                        {macros.actual.protein} / {macros.total.protein}g protein
+                        <span
+                          className={`ml-2 font-medium ${
+                            Math.abs(calorieDiff) <= macros.total.calories * 0.1
+                              ? "text-green-600 dark:text-green-400"
+                              : "text-amber-600 dark:text-amber-400"
+                          }`}
+                        >
+                          {calorieDiff > 0 ? "+" : ""}
+                          {calorieDiff} kcal
+                        </span>
+                      </div>
+                    ) : (
+                      <div className="text-sm text-gray-dark dark:text-gray-light">Nothing logged</div>
+                    )}
+                  </div>
+                  {dayLogs.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-xs text-gray-dark dark:text-gray-light">
+                      {dayLogs.map((log) => (
+                        <li key={log.id}>
+                          {describeLog(
+                            log,
+                            log.plannedFoodId ? foodNames.get(log.plannedFoodId) : undefined,
+                            log.mealId ? mealNames.get(log.mealId) : undefined
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          {days.every((entry) => entry.isFuture) && (
+            <p className="text-sm text-gray-dark dark:text-gray-light">This week hasn&apos;t started yet.</p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import dayjs from "dayjs";
+import Card from "~/components/ui/Card";
+import ExerciseHistoryModal from "~/components/workout/ExerciseHistoryModal";
+import type { PersonalBestSummary } from "~/types/workout";
+
+interface PersonalBestsCardProps {
+  clientId: string;
+}
+
+export default function PersonalBestsCard({ clientId }: PersonalBestsCardProps) {
+  const fetcher = useFetcher<{ personalBests?: PersonalBestSummary[]; error?: string }>();
+  const [historyExercise, setHistoryExercise] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetcher.load(`/api/personal-best?clientId=${clientId}`);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clientId]);
+
+  const personalBests = fetcher.data?.personalBests || [];
+  const isLoading = fetcher.state === "loading" && !fetcher.data;
+
+  return (
+    <Card title="Personal Bests">
+      {isLoading ? (
+        <div className="text-center py-6 text-sm text-gray-dark dark:text-gray-light">
+          Loading personal bests...
+        </div>
+      ) : fetcher.data?.error ? (
+        <div className="text-center py-6 text-sm text-red-500">{fetcher.data.error}</div>
+      ) : personalBests.length === 0 ? (
+        <div className="text-center py-6">
+          <p className="text-gray-dark dark:text-gray-light">
+            No PBs yet. They&apos;re detected automatically from the client&apos;s logged sets.
+          </p>
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-dark dark:text-gray-light">
+              <th className="text-left font-medium py-1">Exercise</th>
+              <th className="text-right font-medium py-1">Heaviest</th>
+              <th className="text-right font-medium py-1">Est. 1RM</th>
+              <th className="text-right font-medium py-1">Last PB</th>
+            </tr>
+          </thead>
+          <tbody>
+            {personalBests.map((pb) => (
+              <tr
+                key={pb.exerciseKey}
+                className="border-t border-gray-100 dark:border-gray-700"
+              >
+                <td className="py-1.5">
+                  <button
+                    type="button"
+                    onClick={() => setHistoryExercise(pb.exerciseName)}
+                    className="text-left text-primary hover:underline"
+                  >
+                    {pb.exerciseName}
+                  </button>
+                </td>
+                <td className="py-1.5 text-right">
+                  {pb.heaviestLoad !== null ? `${pb.heaviestLoad} lbs` : "-"}
+                </td>
+                <td className="py-1.5 text-right">
+                  {pb.estimatedOneRepMax !== null ? `${pb.estimatedOneRepMax} lbs` : "-"}
+                </td>
+                <td className="py-1.5 text-right text-xs text-gray-dark dark:text-gray-light">
+                  {dayjs(pb.lastAchievedAt).format("MMM D")}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <ExerciseHistoryModal
+        isOpen={historyExercise !== null}
+        onClose={() => setHistoryExercise(null)}
+        exerciseName={historyExercise}
+        clientId={clientId}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,340 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import Modal from "~/components/ui/Modal";
+import Button from "~/components/ui/Button";
+import { useToast } from "~/context/ToastContext";
+import { PROGRESS_PHOTO_POSES, progressPhotoPoseLabel } from "~/lib/progressPhotos";
+import type { ProgressPhotoPose, ProgressPhotoSet } from "~/types/progressPhotos";
+
+interface ProgressPhotoCompareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clientId: string;
+  clientName?: string;
+}
+
+type CompareView = "side" | "overlay" | "slider";
+
+const VIEWS: { key: CompareView; label: string }[] = [
+  { key: "side", label: "Side by Side" },
+  { key: "overlay", label: "Overlay" },
+  { key: "slider", label: "Slider" },
+];
+
+// Size of each photo cell in the exported image
+const EXPORT_CELL_WIDTH = 600;
+const EXPORT_CELL_HEIGHT = 800;
+const EXPORT_HEADER_HEIGHT = 64;
+const EXPORT_GAP = 8;
+
+function formatSetDate(date: string) {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = url;
+  });
+}
+
+/** Draws `img` centered in the cell, scaled to fit without cropping. */
+function drawContained(
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  const scale = Math.min(width / img.naturalWidth, height / img.naturalHeight);
+  const drawWidth = img.naturalWidth * scale;
+  const drawHeight = img.naturalHeight * scale;
+  ctx.drawImage(img, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+export default function ProgressPhotoCompareModal({
+  isOpen,
+  onClose,
+  clientId,
+  clientName,
+}: ProgressPhotoCompareModalProps) {
+  const fetcher = useFetcher<{ sets?: ProgressPhotoSet[]; error?: string }>();
+  const toast = useToast();
+  const [beforeDate, setBeforeDate] = useState<string | null>(null);
+  const [afterDate, setAfterDate] = useState<string | null>(null);
+  const [selectedPose, setSelectedPose] = useState<ProgressPhotoPose | null>(null);
+  const [view, setView] = useState<CompareView>("side");
+  const [blend, setBlend] = useState(50);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setBeforeDate(null);
+      setAfterDate(null);
+      setSelectedPose(null);
+      setBlend(50);
+      fetcher.load(`/api/progress-photo-sets?clientId=${encodeURIComponent(clientId)}`);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, clientId]);
+
+  // Only sets with at least one tagged pose can be compared pose for pose
+  const sets = (fetcher.data?.sets || []).filter((set) => Object.keys(set.poses).length > 0);
+  // Default to the first set against the latest one
+  const before = sets.find((set) => set.date === beforeDate) || sets[sets.length - 1];
+  const after = sets.find((set) => set.date === afterDate) || sets[0];
+  const poses = PROGRESS_PHOTO_POSES.map((pose) => pose.key).filter(
+    (pose) => before?.poses[pose] || after?.poses[pose]
+  );
+  const activePose = selectedPose && poses.includes(selectedPose) ? selectedPose : poses[0];
+  const beforePhoto = before && activePose ? before.poses[activePose] : undefined;
+  const afterPhoto = after && activePose ? after.poses[activePose] : undefined;
+
+  const handleExport = async () => {
+    if (!before || !after) return;
+    setIsExporting(true);
+    try {
+      const rows = await Promise.all(
+        poses.map(async (pose) => {
+          const [left, right] = await Promise.all(
+            [before.poses[pose], after.poses[pose]].map((photo) =>
+              photo ? loadImage(photo.photo_url) : Promise.resolve(null)
+            )
+          );
+          return { pose, left, right };
+        })
+      );
+
+      const canvas = document.createElement("canvas");
+      canvas.width = EXPORT_CELL_WIDTH * 2 + EXPORT_GAP;
+      canvas.height = EXPORT_HEADER_HEIGHT + rows.length * (EXPORT_CELL_HEIGHT + EXPORT_GAP);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Canvas is not supported");
+
+      ctx.fillStyle = "#000";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.fillStyle = "#fff";
+      ctx.font = "600 28px system-ui, sans-serif";
+      ctx.textBaseline = "middle";
+      ctx.fillText(formatSetDate(before.date), 16, EXPORT_HEADER_HEIGHT / 2);
+      ctx.fillText(formatSetDate(after.date), EXPORT_CELL_WIDTH + EXPORT_GAP + 16, EXPORT_HEADER_HEIGHT / 2);
+
+      rows.forEach(({ pose, left, right }, index) => {
+        const y = EXPORT_HEADER_HEIGHT + index * (EXPORT_CELL_HEIGHT + EXPORT_GAP);
+        [left, right].forEach((img, column) => {
+          const x = column * (EXPORT_CELL_WIDTH + EXPORT_GAP);
+          if (img) {
+            drawContained(ctx, img, x, y, EXPORT_CELL_WIDTH, EXPORT_CELL_HEIGHT);
+          } else {
+            ctx.fillStyle = "#9ca3af";
+            ctx.font = "24px system-ui, sans-serif";
+            ctx.fillText("No photo", x + 16, y + EXPORT_CELL_HEIGHT / 2);
+          }
+        });
+        ctx.fillStyle = "rgba(0,0,0,0.6)";
+        ctx.fillRect(0, y, 120, 40);
+        ctx.fillStyle = "#fff";
+        ctx.font = "600 22px system-ui, sans-serif";
+        ctx.fillText(progressPhotoPoseLabel(pose), 12, y + 20);
+      });
+
+      const blob = await new Promise<Blob | null>((resolve) =>
+        canvas.toBlob(resolve, "image/jpeg", 0.92)
+      );
+      if (!blob) throw new Error("Failed to create image");
+
+      const filename = `progress-comparison-${before.date}-vs-${after.date}.jpg`;
+      const file = new File([blob], filename, { type: "image/jpeg" });
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: "Progress comparison" }).catch(() => undefined);
+      } else {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+    } catch (error) {
+      console.error("Comparison export failed:", error);
+      toast.error("Export Failed", "The comparison image couldn't be created. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderPhoto = (url: string | undefined, date: string | undefined) =>
+    url ? (
+      <img src={url} alt={`${activePose} pose on ${date}`} className="w-full h-[28rem] object-contain" />
+    ) : (
+      <div className="w-full h-[28rem] flex items-center justify-center text-sm text-gray-400">
+        No {activePose} photo
+      </div>
+    );
+
+  const selectClassName =
+    "w-full px-3 py-2 border border-gray-light dark:border-davyGray rounded-md bg-white dark:bg-night text-secondary dark:text-alabaster focus:outline-none focus:ring-2 focus:ring-primary";
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Compare Progress${clientName ? ` - ${clientName}` : ""}`}
+      size="xl"
+    >
+      {!fetcher.data && fetcher.state === "loading" ? (
+        <div className="text-gray-500 text-sm">Loading photos...</div>
+      ) : fetcher.data?.error ? (
+        <div className="text-sm text-red-500">{fetcher.data.error}</div>
+      ) : sets.length < 2 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Comparisons need photos tagged with a pose on at least two different dates.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label
+                htmlFor="compare-before"
+                className="block text-sm font-medium text-secondary dark:text-alabaster mb-1"
+              >
+                Before
+              </label>
+              <select
+                id="compare-before"
+                value={before?.date}
+                onChange={(e) => setBeforeDate(e.target.value)}
+                className={selectClassName}
+              >
+                {sets.map((set) => (
+                  <option key={set.date} value={set.date}>
+                    {formatSetDate(set.date)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor="compare-after"
+                className="block text-sm font-medium text-secondary dark:text-alabaster mb-1"
+              >
+                After
+              </label>
+              <select
+                id="compare-after"
+                value={after?.date}
+                onChange={(e) => setAfterDate(e.target.value)}
+                className={selectClassName}
+              >
+                {sets.map((set) => (
+                  <option key={set.date} value={set.date}>
+                    {formatSetDate(set.date)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap gap-2">
+              {poses.map((pose) => (
+                <button
+                  key={pose}
+                  onClick={() => setSelectedPose(pose)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
+                    pose === activePose
+                      ? "bg-primary border-primary text-white"
+                      : "border-gray-light dark:border-davyGray text-secondary dark:text-alabaster"
+                  }`}
+                >
+                  {progressPhotoPoseLabel(pose)}
+                </button>
+              ))}
+            </div>
+            <div className="flex rounded-lg border border-gray-light dark:border-davyGray overflow-hidden">
+              {VIEWS.map(({ key, label }) => (
+                <button
+                  key={key}
+                  onClick={() => setView(key)}
+                  className={`px-3 py-1.5 text-xs font-medium transition-colors ${
+                    view === key ? "bg-primary text-white" : "text-secondary dark:text-alabaster"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {view === "side" || !beforePhoto || !afterPhoto ? (
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                { set: before, photo: beforePhoto },
+                { set: after, photo: afterPhoto },
+              ].map(({ set, photo }, index) => (
+                <div key={index} className="bg-black rounded-lg overflow-hidden">
+                  {renderPhoto(photo?.photo_url, set?.date)}
+                  <div className="px-3 py-2 text-xs text-white bg-black/70">
+                    {set && formatSetDate(set.date)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="relative bg-black rounded-lg overflow-hidden">
+                {renderPhoto(beforePhoto.photo_url, before?.date)}
+                <img
+                  src={afterPhoto.photo_url}
+                  alt={`${activePose} pose on ${after?.date}`}
+                  className="absolute inset-0 w-full h-[28rem] object-contain"
+                  style={
+                    view === "overlay"
+                      ? { opacity: blend / 100 }
+                      : { clipPath: `inset(0 0 0 ${blend}%)` }
+                  }
+                />
+                {view === "slider" && (
+                  <div
+                    className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none"
+                    style={{ left: `${blend}%` }}
+                  />
+                )}
+              </div>
+              <div className="flex items-center gap-3 text-xs text-gray-600 dark:text-gray-400">
+                <span>{before && formatSetDate(before.date)}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={blend}
+                  onChange={(e) => setBlend(Number(e.target.value))}
+                  className="flex-1 accent-primary"
+                  aria-label={view === "overlay" ? "Overlay opacity" : "Slider position"}
+                />
+                <span>{after && formatSetDate(after.date)}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <Button variant="primary" onClick={handleExport} disabled={isExporting}>
+              {isExporting ? "Preparing..." : "Export Image"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
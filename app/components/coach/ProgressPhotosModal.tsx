@@ -3,6 +3,9 @@ import Modal from "~/components/ui/Modal";
 import Button from "~/components/ui/Button";
 import FullScreenImageModal from "~/components/ui/FullScreenImageModal";
 import DeleteConfirmationModal from "~/components/ui/DeleteConfirmationModal";
+import ProgressPhotoCompareModal from "~/components/coach/ProgressPhotoCompareModal";
+import { progressPhotoPoseLabel } from "~/lib/progressPhotos";
+import type { ProgressPhotoPose } from "~/types/progressPhotos";
 import { useFetcher } from "@remix-run/react";
 import { useToast } from "~/context/ToastContext";
 
@@ -18,6 +21,7 @@ interface ProgressPhoto {
   photo_url: string;
   notes?: string;
   created_at: string;
+  pose?: ProgressPhotoPose | null;
 }
 
 interface ProgressPhotosModalProps {
@@ -38,6 +42,7 @@ export default function ProgressPhotosModal({
   const [fullScreenPhoto, setFullScreenPhoto] = useState<ProgressPhoto | null>(null);
   const [comparisonPhotos, setComparisonPhotos] = useState<[ProgressPhoto, ProgressPhoto] | null>(null);
   const [isCompareMode, setIsCompareMode] = useState(false);
+  const [showSetComparison, setShowSetComparison] = useState(false);
   const [selectedPhotos, setSelectedPhotos] = useState<Set<string>>(new Set());
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
   const [photos, setPhotos] = useState<ProgressPhoto[]>([]);
@@ -89,6 +94,7 @@ export default function ProgressPhotosModal({
       setFullScreenPhoto(null);
       setComparisonPhotos(null);
       setIsCompareMode(false);
+      setShowSetComparison(false);
       setSelectedPhotos(new Set());
     }
   }, [isOpen]);
@@ -289,13 +295,20 @@ export default function ProgressPhotosModal({
         {/* Compare Mode Controls */}
         {photos.length > 1 && (
           <div className="flex items-center justify-between">
-            <Button
-              variant={isCompareMode ? "primary" : "secondary"}
-              onClick={toggleCompareMode}
-              size="sm"
-            >
-              {isCompareMode ? "Cancel Compare" : "Compare Photos"}
-            </Button>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant={isCompareMode ? "primary" : "secondary"}
+                onClick={toggleCompareMode}
+                size="sm"
+              >
+                {isCompareMode ? "Cancel Compare" : "Compare Photos"}
+              </Button>
+              {!isCompareMode && (
+                <Button variant="secondary" onClick={() => setShowSetComparison(true)} size="sm">
+                  Compare by Pose
+                </Button>
+              )}
+            </div>
             
             {isCompareMode && (
               <div className="flex items-center space-x-2">
@@ -364,6 +377,11 @@ export default function ProgressPhotosModal({
                     alt=""
                     className="w-full h-32 object-cover rounded-lg border border-gray-200 dark:border-gray-700"
                   />
+                  {photo.pose && (
+                    <span className="absolute bottom-2 left-2 bg-black/70 text-white text-xs px-2 py-0.5 rounded">
+                      {progressPhotoPoseLabel(photo.pose)}
+                    </span>
+                  )}
                   <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-30 transition-all duration-200 rounded-lg flex items-center justify-center">
                     {isCompareMode ? (
                       <div className={`absolute top-2 left-2 w-6 h-6 rounded-full border-2 flex items-center justify-center ${
@@ -438,6 +456,14 @@ export default function ProgressPhotosModal({
           comparisonPhotos={comparisonPhotos}
         />
 
+        {/* Pose-by-pose comparison of two dated sets */}
+        <ProgressPhotoCompareModal
+          isOpen={showSetComparison}
+          onClose={() => setShowSetComparison(false)}
+          clientId={clientId}
+          clientName={clientName}
+        />
+
         {/* Delete Confirmation Modal */}
         <DeleteConfirmationModal
           isOpen={deleteConfirmation.isOpen}
@@ -1,7 +1,15 @@
 import React, { useState, useEffect } from "react";
 import Modal from "~/components/ui/Modal";
 import Button from "~/components/ui/Button";
-import { DAY_NAMES } from "~/lib/checkInFormConstants";
+import {
+  DAY_NAMES,
+  DEFAULT_REMINDER_OFFSETS_HOURS,
+  LAST_DAY_OF_MONTH,
+  MAX_DAYS_AFTER_ACTIVATION,
+  MAX_SCHEDULE_INTERVAL_WEEKS,
+  REMINDER_OFFSET_OPTIONS,
+} from "~/lib/checkInFormConstants";
+import type { ScheduleFrequency } from "~/lib/checkInFormUtils";
 
 interface CheckInForm {
   id: string;
@@ -11,21 +19,52 @@ interface CheckInForm {
 }
 
 export type RecurringScheduleConfig = {
-  frequency: "daily" | "weekly" | "monthly";
-  dayOfWeek?: number;
+  frequency: ScheduleFrequency;
+  /** 0 = Monday */
+  daysOfWeek?: number[];
+  intervalWeeks?: number;
+  /** 1–28, or LAST_DAY_OF_MONTH */
   dayOfMonth?: number;
+  daysAfterActivation?: number;
   timeOfDay: string;
 };
 
+/** Adds a schedule's fields to a create-schedule request. */
+export function appendRecurringSchedule(formData: FormData, recurring: RecurringScheduleConfig) {
+  formData.append("frequency", recurring.frequency);
+  formData.append("timeOfDay", recurring.timeOfDay);
+  if (recurring.daysOfWeek !== undefined) {
+    formData.append("daysOfWeek", JSON.stringify(recurring.daysOfWeek));
+  }
+  if (recurring.intervalWeeks !== undefined) {
+    formData.append("intervalWeeks", recurring.intervalWeeks.toString());
+  }
+  if (recurring.dayOfMonth !== undefined) {
+    formData.append("dayOfMonth", recurring.dayOfMonth.toString());
+  }
+  if (recurring.daysAfterActivation !== undefined) {
+    formData.append("daysAfterActivation", recurring.daysAfterActivation.toString());
+  }
+}
+
 interface SendCheckInFormModalProps {
   isOpen: boolean;
   onClose: () => void;
-  clientId: string;
-  clientName: string;
+  clientId?: string;
+  clientName?: string;
+  /** Overrides "Send Check-In Form to {clientName}". */
+  title?: string;
+  /** Recipient picker shown above the form choice, for sending to several clients. */
+  recipients?: React.ReactNode;
+  /** False while the recipient picker has nobody selected. */
+  hasRecipients?: boolean;
+  /** Label of the submit button. */
+  submitLabel?: string;
   onContinue: (
     formId: string,
     expiresInDays: number,
-    recurring?: RecurringScheduleConfig
+    recurring: RecurringScheduleConfig | undefined,
+    reminderOffsetsHours: number[]
   ) => void;
 }
 
@@ -33,16 +72,25 @@ export default function SendCheckInFormModal({
   isOpen,
   onClose,
   clientName,
+  title,
+  recipients,
+  hasRecipients = true,
+  submitLabel = "Continue",
   onContinue,
 }: SendCheckInFormModalProps) {
   const [forms, setForms] = useState<CheckInForm[]>([]);
   const [selectedFormId, setSelectedFormId] = useState("");
   const [expiresInDays, setExpiresInDays] = useState(7);
   const [isRecurring, setIsRecurring] = useState(false);
-  const [frequency, setFrequency] = useState<"daily" | "weekly" | "monthly">("weekly");
-  const [dayOfWeek, setDayOfWeek] = useState(4);
+  const [frequency, setFrequency] = useState<ScheduleFrequency>("weekly");
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([4]);
+  const [intervalWeeks, setIntervalWeeks] = useState(1);
   const [dayOfMonth, setDayOfMonth] = useState(1);
+  const [daysAfterActivation, setDaysAfterActivation] = useState(7);
   const [timeOfDay, setTimeOfDay] = useState("09:00");
+  const [reminderOffsetsHours, setReminderOffsetsHours] = useState<number[]>(
+    DEFAULT_REMINDER_OFFSETS_HOURS
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -51,11 +99,33 @@ export default function SendCheckInFormModal({
     setExpiresInDays(7);
     setIsRecurring(false);
     setFrequency("weekly");
-    setDayOfWeek(4);
+    setDaysOfWeek([4]);
+    setIntervalWeeks(1);
     setDayOfMonth(1);
+    setDaysAfterActivation(7);
     setTimeOfDay("09:00");
+    setReminderOffsetsHours(DEFAULT_REMINDER_OFFSETS_HOURS);
+  };
+
+  // Reminders can't go out before the form does
+  const reminderOptions = REMINDER_OFFSET_OPTIONS.filter(
+    (option) => option.hours < expiresInDays * 24
+  );
+
+  const toggleReminder = (hours: number) => {
+    setReminderOffsetsHours((prev) =>
+      prev.includes(hours) ? prev.filter((h) => h !== hours) : [...prev, hours]
+    );
+  };
+
+  const toggleDayOfWeek = (day: number) => {
+    setDaysOfWeek((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
   };
 
+  const isScheduleIncomplete = isRecurring && frequency === "weekly" && daysOfWeek.length === 0;
+
   useEffect(() => {
     if (isOpen) {
       fetchForms();
@@ -96,12 +166,18 @@ export default function SendCheckInFormModal({
         ? {
             frequency,
             timeOfDay,
-            ...(frequency === "weekly" ? { dayOfWeek } : {}),
+            ...(frequency === "weekly" ? { daysOfWeek, intervalWeeks } : {}),
             ...(frequency === "monthly" ? { dayOfMonth } : {}),
+            ...(frequency === "after_activation" ? { daysAfterActivation } : {}),
           }
         : undefined;
 
-      await onContinue(selectedFormId, expiresInDays, recurring);
+      await onContinue(
+        selectedFormId,
+        expiresInDays,
+        recurring,
+        reminderOffsetsHours.filter((hours) => hours < expiresInDays * 24)
+      );
       resetForm();
       onClose();
     } catch (submitError) {
@@ -123,10 +199,12 @@ export default function SendCheckInFormModal({
     <Modal
       isOpen={isOpen}
       onClose={onClose}
-      title={`Send Check-In Form to ${clientName}`}
+      title={title ?? `Send Check-In Form to ${clientName}`}
       size="md"
     >
       <form onSubmit={handleSubmit} className="space-y-6">
+        {recipients}
+
         <div>
           <label htmlFor="form-select" className={labelClassName}>
             Select Form
@@ -178,6 +256,29 @@ export default function SendCheckInFormModal({
           </div>
         )}
 
+        {selectedFormId && (
+          <fieldset>
+            <legend className={labelClassName}>Remind Client</legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {reminderOptions.map((option) => (
+                <label key={option.hours} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={reminderOffsetsHours.includes(option.hours)}
+                    onChange={() => toggleReminder(option.hours)}
+                    className="h-4 w-4 rounded border-gray-light text-primary focus:ring-primary"
+                  />
+                  <span className="text-sm text-secondary dark:text-alabaster">{option.label}</span>
+                </label>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Unanswered forms get a chat message and email before they expire. You&apos;ll get a
+              summary of any that are missed.
+            </p>
+          </fieldset>
+        )}
+
         {selectedFormId && (
           <label className="flex items-center gap-2 cursor-pointer">
             <input
@@ -201,35 +302,61 @@ export default function SendCheckInFormModal({
               <select
                 id="frequency-select"
                 value={frequency}
-                onChange={(e) =>
-                  setFrequency(e.target.value as "daily" | "weekly" | "monthly")
-                }
+                onChange={(e) => setFrequency(e.target.value as ScheduleFrequency)}
                 className={selectClassName}
               >
                 <option value="daily">Daily</option>
                 <option value="weekly">Weekly</option>
                 <option value="monthly">Monthly</option>
+                <option value="after_activation">After each new workout plan starts</option>
               </select>
             </div>
 
             {frequency === "weekly" && (
-              <div>
-                <label htmlFor="day-of-week-select" className={labelClassName}>
-                  Day of Week
-                </label>
-                <select
-                  id="day-of-week-select"
-                  value={dayOfWeek}
-                  onChange={(e) => setDayOfWeek(parseInt(e.target.value))}
-                  className={selectClassName}
-                >
-                  {DAY_NAMES.map((name, index) => (
-                    <option key={name} value={index}>
-                      {name}
-                    </option>
-                  ))}
-                </select>
-              </div>
+              <>
+                <fieldset>
+                  <legend className={labelClassName}>Days of Week</legend>
+                  <div className="flex flex-wrap gap-2">
+                    {DAY_NAMES.map((name, index) => (
+                      <button
+                        key={name}
+                        type="button"
+                        onClick={() => toggleDayOfWeek(index)}
+                        aria-pressed={daysOfWeek.includes(index)}
+                        className={`px-3 py-1.5 text-xs font-medium rounded-md border transition-colors ${
+                          daysOfWeek.includes(index)
+                            ? "bg-primary border-primary text-white"
+                            : "border-gray-light dark:border-davyGray text-secondary dark:text-alabaster"
+                        }`}
+                      >
+                        {name.slice(0, 3)}
+                      </button>
+                    ))}
+                  </div>
+                  {daysOfWeek.length === 0 && (
+                    <p className="mt-2 text-xs text-red-500">Pick at least one day.</p>
+                  )}
+                </fieldset>
+                <div>
+                  <label htmlFor="interval-weeks-select" className={labelClassName}>
+                    Repeat
+                  </label>
+                  <select
+                    id="interval-weeks-select"
+                    value={intervalWeeks}
+                    onChange={(e) => setIntervalWeeks(parseInt(e.target.value))}
+                    className={selectClassName}
+                  >
+                    {Array.from({ length: MAX_SCHEDULE_INTERVAL_WEEKS }, (_, i) => i + 1).map(
+                      (weeks) => (
+                        <option key={weeks} value={weeks}>
+                          {weeks === 1 ? "Every week" : `Every ${weeks} weeks`}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </div>
+              </>
             )}
 
             {frequency === "monthly" && (
@@ -248,10 +375,35 @@ export default function SendCheckInFormModal({
                       {day}
                     </option>
                   ))}
+                  <option value={LAST_DAY_OF_MONTH}>Last day of the month</option>
                 </select>
               </div>
             )}
 
+            {frequency === "after_activation" && (
+              <div>
+                <label htmlFor="days-after-activation" className={labelClassName}>
+                  Days After Plan Starts
+                </label>
+                <input
+                  id="days-after-activation"
+                  type="number"
+                  min={0}
+                  max={MAX_DAYS_AFTER_ACTIVATION}
+                  value={daysAfterActivation}
+                  onChange={(e) =>
+                    setDaysAfterActivation(
+                      Math.min(MAX_DAYS_AFTER_ACTIVATION, Math.max(0, parseInt(e.target.value) || 0))
+                    )
+                  }
+                  className={selectClassName}
+                />
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  Sent once each time {clientName} starts a new workout plan.
+                </p>
+              </div>
+            )}
+
             <div>
               <label htmlFor="time-of-day" className={labelClassName}>
                 Time of Day
@@ -294,7 +446,7 @@ export default function SendCheckInFormModal({
           <Button
             type="submit"
             variant="primary"
-            disabled={!selectedFormId || isSubmitting}
+            disabled={!selectedFormId || !hasRecipients || isSubmitting || isScheduleIncomplete}
             className="mobile-touch-target"
             style={{
               minHeight: "44px",
@@ -302,7 +454,7 @@ export default function SendCheckInFormModal({
               touchAction: "manipulation",
             }}
           >
-            {isSubmitting ? "Loading..." : "Continue"}
+            {isSubmitting ? "Loading..." : submitLabel}
           </Button>
         </div>
       </form>
@@ -1,6 +1,10 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
 import Modal from "~/components/ui/Modal";
 import PhotoCapture from "~/components/ui/PhotoCapture";
+import { nextProgressPhotoPose, progressPhotoPoseLabel } from "~/lib/progressPhotos";
+import { getCurrentDate } from "~/lib/timezone";
+import type { ProgressPhotoPose, ProgressPhotoSet } from "~/types/progressPhotos";
 
 interface TakeProgressPhotoModalProps {
   isOpen: boolean;
@@ -18,15 +22,40 @@ export default function TakeProgressPhotoModal({
   clientName,
 }: TakeProgressPhotoModalProps) {
   const [isUploading, setIsUploading] = useState(false);
+  // Photos taken in one sitting form a set for a single date
+  const [takenOn, setTakenOn] = useState(() => getCurrentDate().format("YYYY-MM-DD"));
+  const [takenPoses, setTakenPoses] = useState<ProgressPhotoPose[]>([]);
+  const [uploadedCount, setUploadedCount] = useState(0);
+  const setsFetcher = useFetcher<{ sets?: ProgressPhotoSet[] }>();
 
-  const handlePhotoCaptured = async (blob: Blob, notes?: string) => {
-    console.log('handlePhotoCaptured called', { blobSize: blob.size, notes });
-    
-    // Upload immediately for single photo mode
-    await uploadPhoto(blob, notes);
+  useEffect(() => {
+    if (isOpen) {
+      setTakenOn(getCurrentDate().format("YYYY-MM-DD"));
+      setTakenPoses([]);
+      setUploadedCount(0);
+      setsFetcher.load(`/api/progress-photo-sets?clientId=${encodeURIComponent(clientId)}`);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, clientId]);
+
+  const nextPose = nextProgressPhotoPose(takenPoses);
+  // The most recent earlier photo of the same pose, to line the new one up with
+  const guidePhoto = nextPose
+    ? setsFetcher.data?.sets?.find((set) => set.date !== takenOn && set.poses[nextPose])?.poses[nextPose]
+    : undefined;
+
+  const handlePhotoCaptured = async (blob: Blob, notes?: string, pose?: ProgressPhotoPose | null) => {
+    await uploadPhoto(blob, notes, pose);
+  };
+
+  const finish = (uploaded: number) => {
+    if (uploaded > 0) {
+      onPhotoUploaded();
+    }
+    onClose();
   };
 
-  const uploadPhoto = async (blob: Blob, notes?: string) => {
+  const uploadPhoto = async (blob: Blob, notes?: string, pose?: ProgressPhotoPose | null) => {
     setIsUploading(true);
     
     try {
@@ -41,6 +70,10 @@ export default function TakeProgressPhotoModal({
       if (notes) {
         formData.append('notes', notes);
       }
+      if (pose) {
+        formData.append('pose', pose);
+      }
+      formData.append('takenOn', takenOn);
       
       const response = await fetch('/api/upload-progress-photo', {
         method: 'POST',
@@ -72,9 +105,14 @@ export default function TakeProgressPhotoModal({
 
       const result = await response.json();
       console.log('Progress photo uploaded successfully:', result);
-      
-      onPhotoUploaded();
-      onClose();
+
+      const poses = pose && !takenPoses.includes(pose) ? [...takenPoses, pose] : takenPoses;
+      setTakenPoses(poses);
+      setUploadedCount(uploadedCount + 1);
+      // Untagged photos are one-offs; tagged ones continue the set until every pose is in
+      if (!pose || !nextProgressPhotoPose(poses)) {
+        finish(uploadedCount + 1);
+      }
     } catch (error) {
       console.error('Error uploading progress photo:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to upload progress photo. Please try again.';
@@ -86,7 +124,7 @@ export default function TakeProgressPhotoModal({
 
   const handleCancel = () => {
     if (!isUploading) {
-      onClose();
+      finish(uploadedCount);
     }
   };
 
@@ -103,11 +141,48 @@ export default function TakeProgressPhotoModal({
           <p className="text-secondary dark:text-alabaster">Uploading photo...</p>
         </div>
       ) : (
-        <PhotoCapture
-          onPhotoCaptured={handlePhotoCaptured}
-          onCancel={handleCancel}
-          clientName={clientName}
-        />
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <div>
+              <label
+                htmlFor="progress-photo-date"
+                className="block text-sm font-medium text-secondary dark:text-alabaster mb-1"
+              >
+                Set date
+              </label>
+              <input
+                id="progress-photo-date"
+                type="date"
+                value={takenOn}
+                max={getCurrentDate().format("YYYY-MM-DD")}
+                disabled={uploadedCount > 0}
+                onChange={(e) => setTakenOn(e.target.value)}
+                className="px-3 py-2 border border-gray-light dark:border-davyGray rounded-md bg-white dark:bg-night text-secondary dark:text-alabaster focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-60"
+              />
+            </div>
+            {takenPoses.length > 0 && (
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  Saved: {takenPoses.map(progressPhotoPoseLabel).join(", ")}
+                </span>
+                <button
+                  onClick={() => finish(uploadedCount)}
+                  className="text-sm text-primary hover:underline"
+                >
+                  Done
+                </button>
+              </div>
+            )}
+          </div>
+          <PhotoCapture
+            key={`${takenPoses.length}-${nextPose}`}
+            onPhotoCaptured={handlePhotoCaptured}
+            onCancel={handleCancel}
+            clientName={clientName}
+            defaultPose={nextPose}
+            guideUrl={guidePhoto?.photo_url}
+          />
+        </div>
       )}
     </Modal>
   );
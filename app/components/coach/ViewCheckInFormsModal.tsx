@@ -1,9 +1,19 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import dayjs from "dayjs";
 import Modal from "~/components/ui/Modal";
 import Button from "~/components/ui/Button";
 import { useToast } from "~/context/ToastContext";
 import type { FormQuestion, FormTemplate } from "./CreateCheckInFormModal";
+import { CHECK_IN_QUESTION_TYPES, CLIENT_PROFILE_FIELDS } from "~/lib/checkInFormConstants";
+import {
+  describeVisibilityRule,
+  parseProfileField,
+  parseVisibilityRule,
+} from "~/lib/checkInFormUtils";
+import {
+  buildCheckInFormExport,
+  checkInFormExportFilename,
+} from "~/lib/checkInFormTemplates";
 
 interface CoachFormSummary {
   id: string;
@@ -15,15 +25,24 @@ interface CoachFormSummary {
 
 interface CoachFormDetail extends CoachFormSummary {
   questions: Array<{
-    id: number;
+    id: string;
     question_text: string;
     question_type: string;
     is_required: boolean;
     options: string[];
     order_index: number;
+    visibility_rule?: unknown;
+    profile_field?: string | null;
   }>;
 }
 
+interface StarterTemplate {
+  id: string;
+  title: string;
+  description?: string | null;
+  questions: Array<{ id: string; question_text: string }>;
+}
+
 interface ViewCheckInFormsModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -50,18 +69,90 @@ export default function ViewCheckInFormsModal({
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<StarterTemplate[]>([]);
+  const [previewTemplateId, setPreviewTemplateId] = useState<string | null>(null);
+  const [importingId, setImportingId] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (isOpen) {
       fetchForms();
+      fetchTemplates();
     } else {
       setSelectedFormId(null);
       setSelectedForm(null);
       setShowDeleteConfirmation(false);
       setDeleteError(null);
+      setPreviewTemplateId(null);
+      setImportErrors([]);
     }
   }, [isOpen, refreshToken]);
 
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch("/api/get-check-in-form-templates");
+      if (response.ok) {
+        const data = await response.json();
+        setTemplates(Array.isArray(data.templates) ? data.templates : []);
+      }
+    } catch (error) {
+      console.error("Error loading form templates:", error);
+    }
+  };
+
+  // `source` is a starter template id, or "file" for an uploaded export
+  const importForm = async (source: string, body: FormData) => {
+    setImportingId(source);
+    setImportErrors([]);
+    try {
+      const response = await fetch("/api/import-check-in-form", { method: "POST", body });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setImportErrors(Array.isArray(data.details) ? data.details : []);
+        throw new Error(data.error || "Failed to import form");
+      }
+      toast.success("Form Added", `"${data.form.title}" is now in your forms.`);
+      await fetchForms();
+    } catch (error) {
+      console.error("Error importing form:", error);
+      toast.error(
+        "Failed to Add Form",
+        error instanceof Error ? error.message : "An unexpected error occurred"
+      );
+    } finally {
+      setImportingId(null);
+    }
+  };
+
+  const handleUseTemplate = (templateId: string) => {
+    const body = new FormData();
+    body.append("templateId", templateId);
+    importForm(templateId, body);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const body = new FormData();
+    body.append("file", await file.text());
+    importForm("file", body);
+  };
+
+  const handleExport = () => {
+    if (!selectedForm) return;
+    const blob = new Blob([JSON.stringify(buildCheckInFormExport(selectedForm), null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = checkInFormExportFilename(selectedForm.title);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const fetchForms = async () => {
     setLoadingForms(true);
     setFormsError(null);
@@ -176,13 +267,15 @@ export default function ViewCheckInFormsModal({
         .slice()
         .sort((a, b) => a.order_index - b.order_index)
         .map((question) => ({
-          id: `${question.id}`,
+          id: question.id,
           question_text: question.question_text,
           question_type: (question.question_type || "text") as FormQuestion["question_type"],
           is_required: question.is_required,
           options: question.options || [],
           order_index: question.order_index,
           persistedId: question.id,
+          visibility_rule: parseVisibilityRule(question.visibility_rule),
+          profile_field: parseProfileField(question.profile_field, question.question_type),
         })),
     };
     onEdit(template);
@@ -209,10 +302,37 @@ export default function ViewCheckInFormsModal({
               <h3 className="text-lg font-medium text-secondary dark:text-alabaster">
                 Your Created Forms
               </h3>
-              <Button variant="outline" size="sm" onClick={fetchForms} disabled={loadingForms}>
-                {loadingForms ? "Refreshing..." : "Refresh"}
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={importingId !== null}
+                >
+                  {importingId === "file" ? "Importing..." : "Import"}
+                </Button>
+                <Button variant="outline" size="sm" onClick={fetchForms} disabled={loadingForms}>
+                  {loadingForms ? "Refreshing..." : "Refresh"}
+                </Button>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImportFile}
+                className="hidden"
+              />
             </div>
+            {importErrors.length > 0 && (
+              <div className="rounded-lg border border-red-200 dark:border-red-700 bg-red-50 dark:bg-red-900/20 px-4 py-3 text-sm text-red-600 dark:text-red-300">
+                <p className="font-medium">That file couldn&apos;t be imported:</p>
+                <ul className="mt-1 list-disc pl-5">
+                  {importErrors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
             {formsError && (
               <div className="rounded-lg border border-red-200 dark:border-red-700 bg-red-50 dark:bg-red-900/20 px-4 py-3 text-sm text-red-600 dark:text-red-300">
                 {formsError}
@@ -262,6 +382,64 @@ export default function ViewCheckInFormsModal({
                 ))}
               </div>
             )}
+
+            {templates.length > 0 && (
+              <div className="space-y-3 border-t border-gray-light dark:border-davyGray pt-4">
+                <div>
+                  <h3 className="text-lg font-medium text-secondary dark:text-alabaster">
+                    Starter Templates
+                  </h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Add a copy to your forms, then edit it to suit your clients.
+                  </p>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {templates.map((template) => (
+                    <div
+                      key={template.id}
+                      className="flex flex-col rounded-lg border border-gray-light dark:border-davyGray bg-white dark:bg-night px-4 py-3"
+                    >
+                      <h4 className="text-sm font-semibold text-secondary dark:text-alabaster">
+                        {template.title}
+                      </h4>
+                      {template.description && (
+                        <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                          {template.description}
+                        </p>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setPreviewTemplateId((prev) => (prev === template.id ? null : template.id))
+                        }
+                        className="mt-2 self-start text-xs text-primary hover:underline"
+                      >
+                        {previewTemplateId === template.id ? "Hide" : "Show"}{" "}
+                        {template.questions.length}{" "}
+                        {template.questions.length === 1 ? "question" : "questions"}
+                      </button>
+                      {previewTemplateId === template.id && (
+                        <ol className="mt-2 list-decimal pl-4 space-y-0.5 text-xs text-gray-600 dark:text-gray-300">
+                          {template.questions.map((question) => (
+                            <li key={question.id}>{question.question_text}</li>
+                          ))}
+                        </ol>
+                      )}
+                      <div className="mt-auto pt-3">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleUseTemplate(template.id)}
+                          disabled={importingId !== null}
+                        >
+                          {importingId === template.id ? "Adding..." : "Add to My Forms"}
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -309,40 +487,60 @@ export default function ViewCheckInFormsModal({
                       {selectedForm.questions
                         .slice()
                         .sort((a, b) => a.order_index - b.order_index)
-                        .map((question, index) => (
-                          <li
-                            key={question.id}
-                            className="rounded-lg border border-gray-light dark:border-davyGray bg-white dark:bg-night px-4 py-3 shadow-sm"
-                          >
-                            <div className="flex items-start justify-between">
-                              <div>
-                                <p className="text-sm font-medium text-secondary dark:text-alabaster">
-                                  {index + 1}. {question.question_text}
-                                </p>
-                                <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
-                                  <span className="inline-flex items-center gap-1 rounded-full bg-blue-50 dark:bg-blue-900/30 px-2 py-1 text-blue-600 dark:text-blue-200">
-                                    {question.question_type}
-                                  </span>
-                                  {question.is_required && (
-                                    <span className="inline-flex items-center gap-1 rounded-full bg-red-50 dark:bg-red-900/30 px-2 py-1 text-red-600 dark:text-red-200">
-                                      Required
+                        .map((question, index) => {
+                          const rule = parseVisibilityRule(question.visibility_rule, question.order_index);
+                          const ruleSource = rule
+                            ? selectedForm.questions.find((q) => q.order_index === rule.question_index)
+                            : undefined;
+                          const profileField = CLIENT_PROFILE_FIELDS.find(
+                            (field) => field.value === parseProfileField(question.profile_field, question.question_type)
+                          );
+                          return (
+                            <li
+                              key={question.id}
+                              className="rounded-lg border border-gray-light dark:border-davyGray bg-white dark:bg-night px-4 py-3 shadow-sm"
+                            >
+                              <div className="flex items-start justify-between">
+                                <div>
+                                  <p className="text-sm font-medium text-secondary dark:text-alabaster">
+                                    {index + 1}. {question.question_text}
+                                  </p>
+                                  <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+                                    <span className="inline-flex items-center gap-1 rounded-full bg-blue-50 dark:bg-blue-900/30 px-2 py-1 text-blue-600 dark:text-blue-200">
+                                      {CHECK_IN_QUESTION_TYPES.find((type) => type.value === question.question_type)?.label ??
+                                        question.question_type}
                                     </span>
+                                    {question.is_required && (
+                                      <span className="inline-flex items-center gap-1 rounded-full bg-red-50 dark:bg-red-900/30 px-2 py-1 text-red-600 dark:text-red-200">
+                                        Required
+                                      </span>
+                                    )}
+                                    {rule && (
+                                      <span className="inline-flex items-center gap-1 rounded-full bg-amber-50 dark:bg-amber-900/30 px-2 py-1 text-amber-700 dark:text-amber-200">
+                                        {describeVisibilityRule(rule, ruleSource?.question_text)}
+                                      </span>
+                                    )}
+                                    {profileField && (
+                                      <span className="inline-flex items-center gap-1 rounded-full bg-green-50 dark:bg-green-900/30 px-2 py-1 text-green-700 dark:text-green-200">
+                                        Fills in profile: {profileField.label}
+                                      </span>
+                                    )}
+                                  </div>
+                                  {question.options && question.options.length > 0 && (
+                                    <ul className="mt-3 space-y-1 text-sm text-gray-600 dark:text-gray-300">
+                                      {question.options.map((option, optionIndex) => (
+                                        <li key={`${question.id}-option-${optionIndex}`} className="flex items-center gap-2">
+                                          <span className="h-1.5 w-1.5 rounded-full bg-primary"></span>
+                                          {option}
+                                        </li>
+                                      ))}
+                                    </ul>
                                   )}
                                 </div>
-                                {question.options && question.options.length > 0 && (
-                                  <ul className="mt-3 space-y-1 text-sm text-gray-600 dark:text-gray-300">
-                                    {question.options.map((option, optionIndex) => (
-                                      <li key={`${question.id}-option-${optionIndex}`} className="flex items-center gap-2">
-                                        <span className="h-1.5 w-1.5 rounded-full bg-primary"></span>
-                                        {option}
-                                      </li>
-                                    ))}
-                                  </ul>
-                                )}
                               </div>
-                            </div>
-                          </li>
-                        ))}
+                            </li>
+                          );
+                        })}
                     </ol>
                   )}
                 </div>
@@ -356,6 +554,9 @@ export default function ViewCheckInFormsModal({
                       <Button variant="primary" onClick={handleEdit}>
                         Edit Form
                       </Button>
+                      <Button variant="outline" onClick={handleExport}>
+                        Export
+                      </Button>
                     </div>
                     <Button
                       variant="outline"
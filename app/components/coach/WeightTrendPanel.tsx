@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import Button from "~/components/ui/Button";
+import { useToast } from "~/context/ToastContext";
+import { getCurrentDate } from "~/lib/timezone";
+import { formatWeeklyRate, weightGoalDirection } from "~/lib/weightTrend";
+import type { WeightGoal, WeightTrendSummary } from "~/types/measurements";
+
+interface WeightTrendPanelProps {
+  summary: WeightTrendSummary | null;
+  /** The client's free-text goal, e.g. "Lose 20 lbs". */
+  goalText?: string;
+  /** Coaches can set the target; clients only see it. */
+  viewer: "coach" | "client";
+  /** Required when a coach is viewing. */
+  clientId?: string;
+  onGoalChange?: (goal: WeightGoal | null) => void;
+}
+
+type GoalResult = { weightGoal?: WeightGoal | null; error?: string };
+
+function formatGoalDate(date: string) {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+const PACE_STYLES = {
+  ahead: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  on_pace: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  behind: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
+  reached: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+};
+
+const LEGEND = [
+  { label: "Scale", className: "border-t-2 border-[#00CC03]" },
+  { label: "Trend", className: "border-t-2 border-[#2563EB]" },
+  { label: "Goal pace", className: "border-t-2 border-dashed border-[#9CA3AF]" },
+  { label: "Projected", className: "border-t-2 border-dotted border-[#2563EB]" },
+];
+
+export default function WeightTrendPanel({
+  summary,
+  goalText,
+  viewer,
+  clientId,
+  onGoalChange,
+}: WeightTrendPanelProps) {
+  const fetcher = useFetcher<GoalResult>();
+  const toast = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [targetWeight, setTargetWeight] = useState("");
+  const [targetDate, setTargetDate] = useState("");
+  const goal = summary?.goal ?? null;
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+    if (fetcher.data.error) {
+      toast.error("Failed to Save Target", fetcher.data.error);
+      return;
+    }
+    const saved = fetcher.data.weightGoal ?? null;
+    toast.success(saved ? "Target Saved" : "Target Cleared", saved ? "The pace line starts from today's trend." : undefined);
+    onGoalChange?.(saved);
+    setIsEditing(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fetcher.state, fetcher.data]);
+
+  if (!summary) return null;
+
+  const direction = weightGoalDirection(goalText, goal);
+  const rateTone =
+    summary.weeklyRate === null || direction === 0 || summary.weeklyRate === 0
+      ? "text-secondary dark:text-alabaster"
+      : Math.sign(summary.weeklyRate) === direction
+        ? "text-green-600 dark:text-green-400"
+        : "text-amber-600 dark:text-amber-400";
+
+  const startEditing = () => {
+    setTargetWeight(goal ? String(goal.targetWeight) : "");
+    setTargetDate(goal?.targetDate || "");
+    setIsEditing(true);
+  };
+
+  const saveTarget = () => {
+    fetcher.submit(
+      { clientId: clientId as string, targetWeight: Number(targetWeight), targetDate },
+      { method: "POST", action: "/api/weight-goal", encType: "application/json" }
+    );
+  };
+
+  const clearTarget = () => {
+    fetcher.submit(
+      { clientId: clientId as string },
+      { method: "DELETE", action: "/api/weight-goal", encType: "application/json" }
+    );
+  };
+
+  const isSaving = fetcher.state !== "idle";
+  const inputClassName =
+    "w-full px-3 py-2 border border-gray-light dark:border-davyGray rounded-md bg-white dark:bg-night text-secondary dark:text-alabaster focus:outline-none focus:ring-2 focus:ring-primary";
+
+  return (
+    <div className="space-y-3 mb-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        <div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">Trend weight</div>
+          <div className="text-lg font-semibold text-secondary dark:text-alabaster">
+            {summary.trendWeight.toFixed(1)} lbs
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">Weekly rate</div>
+          <div className={`text-lg font-semibold ${rateTone}`}>
+            {summary.weeklyRate === null ? "—" : formatWeeklyRate(summary.weeklyRate)}
+          </div>
+        </div>
+        <div className="col-span-2 sm:col-span-1">
+          <div className="text-xs text-gray-500 dark:text-gray-400">Target</div>
+          <div className="text-lg font-semibold text-secondary dark:text-alabaster">
+            {goal ? `${goal.targetWeight} lbs by ${formatGoalDate(goal.targetDate)}` : "None set"}
+          </div>
+        </div>
+      </div>
+
+      {goal && summary.pace && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-600 dark:text-gray-300">
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${PACE_STYLES[summary.pace]}`}>
+            {summary.pace === "reached"
+              ? "Target reached"
+              : summary.pace === "on_pace"
+                ? "On pace"
+                : `${summary.pace === "ahead" ? "Ahead" : "Behind"} by ${Math.abs(summary.paceDifference ?? 0).toFixed(1)} lbs`}
+          </span>
+          {summary.pace !== "reached" && (
+            <span>
+              {summary.projectedDate
+                ? `At this rate: ${formatGoalDate(summary.projectedDate)}`
+                : "Not trending toward the target yet"}
+            </span>
+          )}
+          {summary.requiredWeeklyRate !== null && (
+            <span>Needs {formatWeeklyRate(summary.requiredWeeklyRate)}</span>
+          )}
+        </div>
+      )}
+
+      {viewer === "coach" &&
+        (isEditing ? (
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+            <div>
+              <label htmlFor="target-weight" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                Target weight (lbs)
+              </label>
+              <input
+                id="target-weight"
+                type="number"
+                step="0.1"
+                min="0"
+                value={targetWeight}
+                onChange={(e) => setTargetWeight(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="target-date" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                Target date
+              </label>
+              <input
+                id="target-date"
+                type="date"
+                value={targetDate}
+                min={getCurrentDate().add(1, "day").format("YYYY-MM-DD")}
+                onChange={(e) => setTargetDate(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button variant="primary" onClick={saveTarget} disabled={isSaving || !targetWeight || !targetDate}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-4">
+            <button onClick={startEditing} className="text-sm text-primary hover:underline">
+              {goal ? "Edit Target" : "Set Target"}
+            </button>
+            {goal && (
+              <button onClick={clearTarget} disabled={isSaving} className="text-sm text-gray-500 hover:underline">
+                Clear Target
+              </button>
+            )}
+          </div>
+        ))}
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+        {LEGEND.filter(({ label }) => goal || (label !== "Goal pace" && label !== "Projected")).map(
+          ({ label, className }) => (
+            <span key={label} className="flex items-center gap-1.5">
+              <span className={`inline-block w-4 ${className}`} />
+              {label}
+            </span>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { TrashIcon } from "@heroicons/react/24/outline";
+import Button from "~/components/ui/Button";
+import { getTotalWeeks } from "~/lib/workoutProgram";
+import type { LoadIncrementUnit, ProgramBlock, ProgressionRules, WorkoutProgram } from "~/types/workout";
+
+interface WorkoutProgramEditorProps {
+  program: WorkoutProgram | null;
+  onChange: (program: WorkoutProgram | null) => void;
+}
+
+const inputClassName =
+  "w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary";
+
+const labelClassName = "block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+function newBlock(index: number): ProgramBlock {
+  return {
+    name: `Block ${index + 1}`,
+    weeks: 4,
+    rules: { loadIncrement: 5, loadIncrementUnit: "lbs", deloadEvery: 4 },
+  };
+}
+
+/** Empty inputs clear the rule rather than storing 0. */
+function numberOrUndefined(value: string): number | undefined {
+  if (value.trim() === "") return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+}
+
+export default function WorkoutProgramEditor({ program, onChange }: WorkoutProgramEditorProps) {
+  const updateBlock = (index: number, patch: Partial<ProgramBlock>) => {
+    if (!program) return;
+    onChange({
+      ...program,
+      blocks: program.blocks.map((block, i) => (i === index ? { ...block, ...patch } : block)),
+    });
+  };
+
+  const updateRules = (index: number, patch: Partial<ProgressionRules>) => {
+    if (!program) return;
+    updateBlock(index, { rules: { ...program.blocks[index].rules, ...patch } });
+  };
+
+  const removeBlock = (index: number) => {
+    if (!program) return;
+    const blocks = program.blocks.filter((_, i) => i !== index);
+    onChange(blocks.length > 0 ? { ...program, blocks } : null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={!!program}
+          onChange={(e) => onChange(e.target.checked ? { blocks: [newBlock(0)], repeat: false } : null)}
+        />
+        Multi-week program
+      </label>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {program
+          ? `The week you build below is week 1. Later weeks apply each block's progression, counted from the day the plan is activated (${getTotalWeeks(program)} weeks total).`
+          : "Off: the same week repeats until you change the plan."}
+      </p>
+
+      {program && (
+        <>
+          {program.blocks.map((block, index) => (
+            <div
+              key={index}
+              className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 space-y-3"
+            >
+              <div className="flex items-end gap-3">
+                <div className="flex-1">
+                  <label htmlFor={`program-block-name-${index}`} className={labelClassName}>
+                    Block name
+                  </label>
+                  <input
+                    id={`program-block-name-${index}`}
+                    type="text"
+                    value={block.name}
+                    onChange={(e) => updateBlock(index, { name: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="w-24">
+                  <label htmlFor={`program-block-weeks-${index}`} className={labelClassName}>
+                    Weeks
+                  </label>
+                  <input
+                    id={`program-block-weeks-${index}`}
+                    type="number"
+                    min={1}
+                    value={block.weeks}
+                    onChange={(e) => updateBlock(index, { weeks: Math.max(1, Number(e.target.value) || 1) })}
+                    className={inputClassName}
+                  />
+                </div>
+                {program.blocks.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => removeBlock(index)}
+                    className="mb-2 text-gray-dark hover:text-red-500 dark:text-gray-light"
+                    aria-label={`Remove ${block.name}`}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div>
+                  <label htmlFor={`program-block-load-${index}`} className={labelClassName}>
+                    Load / week
+                  </label>
+                  <div className="flex gap-1">
+                    <input
+                      id={`program-block-load-${index}`}
+                      type="number"
+                      step="0.5"
+                      value={block.rules.loadIncrement ?? ""}
+                      onChange={(e) => updateRules(index, { loadIncrement: numberOrUndefined(e.target.value) })}
+                      className={inputClassName}
+                    />
+                    <select
+                      value={block.rules.loadIncrementUnit || "lbs"}
+                      onChange={(e) =>
+                        updateRules(index, { loadIncrementUnit: e.target.value as LoadIncrementUnit })
+                      }
+                      className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-1 text-sm text-gray-900 dark:text-gray-100"
+                      aria-label="Load increment unit"
+                    >
+                      <option value="lbs">lbs</option>
+                      <option value="kg">kg</option>
+                      <option value="percent">%</option>
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor={`program-block-reps-${index}`} className={labelClassName}>
+                    Reps / week
+                  </label>
+                  <input
+                    id={`program-block-reps-${index}`}
+                    type="number"
+                    step="1"
+                    value={block.rules.repsIncrement ?? ""}
+                    onChange={(e) => updateRules(index, { repsIncrement: numberOrUndefined(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor={`program-block-sets-${index}`} className={labelClassName}>
+                    Sets / week
+                  </label>
+                  <input
+                    id={`program-block-sets-${index}`}
+                    type="number"
+                    step="1"
+                    value={block.rules.setsIncrement ?? ""}
+                    onChange={(e) => updateRules(index, { setsIncrement: numberOrUndefined(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor={`program-block-deload-${index}`} className={labelClassName}>
+                    Deload every
+                  </label>
+                  <input
+                    id={`program-block-deload-${index}`}
+                    type="number"
+                    min={2}
+                    placeholder="Never"
+                    value={block.rules.deloadEvery ?? ""}
+                    onChange={(e) => updateRules(index, { deloadEvery: numberOrUndefined(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              {block.rules.deloadEvery ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Every {block.rules.deloadEvery}th week keeps {block.rules.deloadLoadPercent ?? 90}% of the
+                  load and {block.rules.deloadSetsPercent ?? 50}% of the sets.
+                </p>
+              ) : null}
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={!!program.repeat}
+                onChange={(e) => onChange({ ...program, repeat: e.target.checked })}
+              />
+              Start over after the last week
+            </label>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                onChange({ ...program, blocks: [...program.blocks, newBlock(program.blocks.length)] })
+              }
+            >
+              + Add Block
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import dayjs from "dayjs";
+import Card from "~/components/ui/Card";
+import type { WorkoutSessionLog, WorkoutSetLog } from "~/types/workout";
+
+interface WorkoutSessionLogsCardProps {
+  clientId: string;
+}
+
+function groupByExercise(sets: WorkoutSetLog[]) {
+  const groups: { key: string; name: string; sets: WorkoutSetLog[] }[] = [];
+  for (const set of sets) {
+    const key = set.workoutExerciseId || set.exerciseName;
+    let group = groups.find((g) => g.key === key);
+    if (!group) {
+      group = { key, name: set.exerciseName, sets: [] };
+      groups.push(group);
+    }
+    group.sets.push(set);
+  }
+  groups.forEach((g) => g.sets.sort((a, b) => a.setNumber - b.setNumber));
+  return groups;
+}
+
+function formatValue(value: number | null | undefined, suffix = "") {
+  return value === null || value === undefined ? "-" : `${value}${suffix}`;
+}
+
+export default function WorkoutSessionLogsCard({ clientId }: WorkoutSessionLogsCardProps) {
+  const fetcher = useFetcher<{ sessions?: WorkoutSessionLog[]; error?: string }>();
+  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null);
+
+  // Load on mount and refresh whenever a workout completion is submitted
+  useEffect(() => {
+    const loadSessions = () => {
+      fetcher.load(`/api/get-workout-session-logs?clientId=${clientId}&limit=10`);
+    };
+    loadSessions();
+    window.addEventListener("workouts:completed", loadSessions);
+    return () => window.removeEventListener("workouts:completed", loadSessions);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clientId]);
+
+  const sessions = fetcher.data?.sessions || [];
+  const isLoading = fetcher.state === "loading" && !fetcher.data;
+
+  return (
+    <Card title="Logged Sessions">
+      {isLoading ? (
+        <div className="text-center py-6 text-sm text-gray-dark dark:text-gray-light">
+          Loading logged sessions...
+        </div>
+      ) : fetcher.data?.error ? (
+        <div className="text-center py-6 text-sm text-red-500">{fetcher.data.error}</div>
+      ) : sessions.length === 0 ? (
+        <div className="text-center py-6">
+          <p className="text-gray-dark dark:text-gray-light">
+            No sets logged yet. Weights, reps and RPE appear here once the client submits a workout.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {sessions.map((session) => {
+            const isExpanded = expandedSessionId === session.id;
+            const exercises = groupByExercise(session.sets);
+            return (
+              <div
+                key={session.id}
+                className="border border-gray-light dark:border-davyGray rounded-lg"
+              >
+                <button
+                  type="button"
+                  className="w-full flex justify-between items-center p-3 text-left"
+                  onClick={() => setExpandedSessionId(isExpanded ? null : session.id)}
+                  aria-expanded={isExpanded}
+                >
+                  <div>
+                    <div className="font-medium text-secondary dark:text-alabaster">
+                      {dayjs(session.performedAt).format("ddd, MMM D")}
+                    </div>
+                    <div className="text-xs text-gray-dark dark:text-gray-light">
+                      {exercises.length} exercise{exercises.length === 1 ? "" : "s"} ·{" "}
+                      {session.sets.length} set{session.sets.length === 1 ? "" : "s"} logged
+                    </div>
+                  </div>
+                  <span className="text-primary text-xs font-medium">
+                    {isExpanded ? "Hide" : "View"}
+                  </span>
+                </button>
+                {isExpanded && (
+                  <div className="px-3 pb-3 space-y-4">
+                    {exercises.map((exercise) => (
+                      <div key={exercise.key}>
+                        <h4 className="text-sm font-semibold text-secondary dark:text-alabaster mb-2">
+                          {exercise.name}
+                        </h4>
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="text-gray-dark dark:text-gray-light">
+                              <th className="text-left font-medium py-1">Set</th>
+                              <th className="text-right font-medium py-1">Target</th>
+                              <th className="text-right font-medium py-1">Weight</th>
+                              <th className="text-right font-medium py-1">Reps</th>
+                              <th className="text-right font-medium py-1">RPE</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {exercise.sets.map((set) => {
+                              const missedTarget =
+                                set.actualReps !== null &&
+                                set.actualReps !== undefined &&
+                                set.prescribedReps !== null &&
+                                set.prescribedReps !== undefined &&
+                                set.actualReps < set.prescribedReps;
+                              return (
+                                <tr
+                                  key={set.setNumber}
+                                  className="border-t border-gray-100 dark:border-gray-700"
+                                >
+                                  <td className="py-1">{set.setNumber}</td>
+                                  <td className="py-1 text-right">
+                                    {formatValue(set.prescribedReps)}
+                                  </td>
+                                  <td className="py-1 text-right">
+                                    {formatValue(set.actualWeight, " lbs")}
+                                  </td>
+                                  <td
+                                    className={`py-1 text-right ${
+                                      missedTarget ? "text-orange-500 font-semibold" : ""
+                                    }`}
+                                  >
+                                    {formatValue(set.actualReps)}
+                                  </td>
+                                  <td className="py-1 text-right">{formatValue(set.rpe)}</td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
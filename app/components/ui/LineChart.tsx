@@ -11,13 +11,35 @@ import {
 
 export type WeightChartPoint = {
   date: string;
-  weight: number;
+  /** null on points that only carry a projection, e.g. a future target date. */
+  weight: number | null;
   id?: string;
+  /** Smoothed weight, drawn as a second line when present. */
+  trend?: number;
+  /** Where a goal's pace line sits on this date. */
+  pace?: number;
+  /** The current trend rate carried forward. */
+  projected?: number;
 };
 
+/**
+ * X position of a point. The axis is scaled by time, so a far-off target date
+ * sits as far out as it really is; use this for reference marks too.
+ */
+export function chartTime(date: string) {
+  return new Date(date).getTime();
+}
+
+function formatChartDate(time: number) {
+  const date = new Date(time);
+  return `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear().toString().slice(-2)}`;
+}
+
 interface LineChartProps {
   data: WeightChartPoint[];
   height?: number;
+  /** Y axis tick spacing; defaults to 2 for body weight. */
+  tickStep?: number;
   children?: React.ReactNode;
   /** When set, data points with `id` become clickable (e.g. client editing a log). */
   onDataPointClick?: (entry: {
@@ -30,43 +52,47 @@ interface LineChartProps {
 const LineChart: React.FC<LineChartProps> = ({
   data,
   height = 200,
+  tickStep = 2,
   children,
   onDataPointClick,
 }) => {
   if (!data || data.length === 0) {
     return <div className="text-gray-400">No data to display.</div>;
   }
-  // Calculate min and max for Y axis, rounded to nearest 2
-  const weights = data.map(d => d.weight);
-  const minWeight = Math.floor(Math.min(...weights) / 2) * 2;
-  const maxWeight = Math.ceil(Math.max(...weights) / 2) * 2;
+  // Calculate min and max for Y axis, rounded to nearest tick step
+  const weights = data
+    .flatMap(d => [d.weight, d.trend, d.pace, d.projected])
+    .filter((value): value is number => typeof value === "number");
+  const hasTrend = data.some(d => d.trend !== undefined);
+  const hasPace = data.some(d => d.pace !== undefined);
+  const hasProjection = data.some(d => d.projected !== undefined);
+  const minWeight = Math.floor(Math.min(...weights) / tickStep) * tickStep;
+  const maxWeight = Math.ceil(Math.max(...weights) / tickStep) * tickStep;
+  const points = data.map(d => ({ ...d, time: chartTime(d.date) }));
   return (
     <ResponsiveContainer width="100%" height={height}>
       <RechartsLineChart
-        data={data}
+        data={points}
         margin={{ top: 16, right: 24, left: 0, bottom: 0 }}
       >
         <CartesianGrid strokeDasharray="3 3" />
         <XAxis
-          dataKey="date"
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
           tick={{ fontSize: 12 }}
-          tickFormatter={d => {
-            const date = new Date(d);
-            return `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear().toString().slice(-2)}`;
-          }}
+          tickFormatter={formatChartDate}
         />
         <YAxis
           tick={{ fontSize: 12 }}
           domain={[minWeight, maxWeight]}
           tickFormatter={v => `${v}`}
           interval={0}
-          ticks={Array.from({ length: Math.floor((maxWeight - minWeight) / 2) + 1 }, (_, i) => minWeight + i * 2)}
+          ticks={Array.from({ length: Math.floor((maxWeight - minWeight) / tickStep) + 1 }, (_, i) => minWeight + i * tickStep)}
         />
         <Tooltip
-          labelFormatter={d => {
-            const date = new Date(d as string);
-            return `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear().toString().slice(-2)}`;
-          }}
+          labelFormatter={t => formatChartDate(t as number)}
         />
         <Line
           type="monotone"
@@ -81,6 +107,9 @@ const LineChart: React.FC<LineChartProps> = ({
                   payload?: WeightChartPoint;
                 }) => {
                   const { cx, cy, payload } = props;
+                  if (payload?.weight == null) {
+                    return <g />;
+                  }
                   if (cx == null || cy == null || !payload?.id) {
                     return (
                       <circle
@@ -98,7 +127,7 @@ const LineChart: React.FC<LineChartProps> = ({
                     onDataPointClick({
                       id: payload.id!,
                       date: payload.date,
-                      weight: payload.weight,
+                      weight: payload.weight!,
                     });
                   };
                   // Large invisible target (~48px) for tap/click; visible dot stays small.
@@ -134,6 +163,41 @@ const LineChart: React.FC<LineChartProps> = ({
                 }
           }
         />
+        {hasTrend && (
+          <Line
+            type="monotone"
+            dataKey="trend"
+            name="Trend"
+            stroke="#2563EB"
+            strokeWidth={2}
+            dot={false}
+            connectNulls
+          />
+        )}
+        {hasPace && (
+          <Line
+            type="linear"
+            dataKey="pace"
+            name="Goal pace"
+            stroke="#9CA3AF"
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            dot={false}
+            connectNulls
+          />
+        )}
+        {hasProjection && (
+          <Line
+            type="linear"
+            dataKey="projected"
+            name="Projected"
+            stroke="#2563EB"
+            strokeWidth={2}
+            strokeDasharray="2 4"
+            dot={false}
+            connectNulls
+          />
+        )}
         {children}
       </RechartsLineChart>
     </ResponsiveContainer>
@@ -1,20 +1,30 @@
 import React, { useState, useRef, useCallback } from 'react';
 import Button from './Button';
+import { PROGRESS_PHOTO_POSES } from '~/lib/progressPhotos';
+import type { ProgressPhotoPose } from '~/types/progressPhotos';
 
 interface PhotoCaptureProps {
-  onPhotoCaptured: (blob: Blob, notes?: string) => void;
+  onPhotoCaptured: (blob: Blob, notes?: string, pose?: ProgressPhotoPose | null) => void;
   onCancel: () => void;
   clientName?: string;
+  /** Pose preselected for this photo; the user can change it while reviewing. */
+  defaultPose?: ProgressPhotoPose | null;
+  /** Previous photo of the same pose, shown faintly over the camera to line up with. */
+  guideUrl?: string;
 }
 
 export default function PhotoCapture({ 
   onPhotoCaptured, 
   onCancel, 
-  clientName
+  clientName,
+  defaultPose = null,
+  guideUrl,
 }: PhotoCaptureProps) {
 
   const [capturedPhoto, setCapturedPhoto] = useState<string | null>(null);
   const [notes, setNotes] = useState('');
+  const [pose, setPose] = useState<ProgressPhotoPose | null>(defaultPose);
+  const [showGuide, setShowGuide] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [mode, setMode] = useState<'capture' | 'upload' | 'review'>('capture');
   const [selectedFileName, setSelectedFileName] = useState<string | null>(null);
@@ -130,13 +140,13 @@ export default function PhotoCapture({
     fetch(capturedPhoto)
       .then(res => res.blob())
       .then(blob => {
-        onPhotoCaptured(blob, notes.trim() || undefined);
+        onPhotoCaptured(blob, notes.trim() || undefined, pose);
       })
       .catch(err => {
         console.error('Error saving photo:', err);
         setError('Failed to save photo. Please try again.');
       });
-  }, [capturedPhoto, notes, onPhotoCaptured]);
+  }, [capturedPhoto, notes, pose, onPhotoCaptured]);
 
   const handleCancel = useCallback(() => {
     if (capturedPhoto) {
@@ -218,6 +228,28 @@ export default function PhotoCapture({
           )}
         </div>
 
+        <div>
+          <span className="block text-sm font-medium text-secondary dark:text-alabaster mb-2">
+            Pose
+          </span>
+          <div className="flex flex-wrap gap-2">
+            {PROGRESS_PHOTO_POSES.map(({ key, label }) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setPose(pose === key ? null : key)}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                  pose === key
+                    ? 'bg-primary border-primary text-white'
+                    : 'border-gray-light dark:border-davyGray text-secondary dark:text-alabaster'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
         <div>
           <label htmlFor="photo-notes" className="block text-sm font-medium text-secondary dark:text-alabaster mb-2">
             Notes (Optional)
@@ -314,6 +346,24 @@ export default function PhotoCapture({
           className="w-full h-96 object-cover"
           style={{ transform: 'scaleX(-1)' }}
         />
+
+        {/* Last photo of this pose, mirrored like the preview, to line up against */}
+        {guideUrl && showGuide && (
+          <img
+            src={guideUrl}
+            alt=""
+            className="absolute inset-0 w-full h-96 object-cover opacity-30 pointer-events-none"
+            style={{ transform: 'scaleX(-1)' }}
+          />
+        )}
+        {guideUrl && (
+          <button
+            onClick={() => setShowGuide(!showGuide)}
+            className="absolute top-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded"
+          >
+            {showGuide ? 'Hide guide' : 'Show guide'}
+          </button>
+        )}
         
         {/* Hidden canvas for photo capture */}
         <canvas
@@ -1,5 +1,6 @@
 import React, { useState, useRef, useCallback } from 'react';
 import Button from './Button';
+import { formatCheckInResponse } from '~/lib/checkInFormUtils';
 
 // TypeScript declarations for Web Speech API
 interface SpeechRecognition extends EventTarget {
@@ -578,7 +579,7 @@ export default function VideoRecorder({
                                 Q{index + 1}: {response.question?.question_text || `Question ${index + 1}`}
                               </div>
                               <div className="text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/30 px-2 py-1 rounded">
-                                A: {response.response_text || response.response_number || response.response_options?.join(', ') || 'No response'}
+                                A: {formatCheckInResponse(response, response.question?.question_type)}
                               </div>
                             </div>
                           ))}
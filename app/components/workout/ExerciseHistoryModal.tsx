@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import dayjs from "dayjs";
+import Modal from "~/components/ui/Modal";
+import LineChart from "~/components/ui/LineChart";
+import {
+  PERSONAL_BEST_LABELS,
+  formatPersonalBest,
+  formatPersonalBestGain,
+} from "~/lib/personalBests";
+import type { ExerciseHistoryPoint, PersonalBestRecord } from "~/types/workout";
+
+interface ExerciseHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  exerciseName: string | null;
+  /** Set when a coach is viewing a client's history. */
+  clientId?: string;
+}
+
+type ChartMetric = "topWeight" | "estimatedOneRepMax";
+
+// Keeps the Y axis to a handful of ticks whatever the load range
+function chartTickStep(values: number[]) {
+  const range = Math.max(...values) - Math.min(...values);
+  return [5, 10, 25, 50, 100].find((step) => range / step <= 6) ?? 100;
+}
+
+export default function ExerciseHistoryModal({
+  isOpen,
+  onClose,
+  exerciseName,
+  clientId,
+}: ExerciseHistoryModalProps) {
+  const fetcher = useFetcher<{
+    history?: ExerciseHistoryPoint[];
+    records?: PersonalBestRecord[];
+    error?: string;
+  }>();
+  const shareFetcher = useFetcher<{ success?: boolean; error?: string }>();
+  const [metric, setMetric] = useState<ChartMetric>("topWeight");
+
+  useEffect(() => {
+    if (!isOpen || !exerciseName) return;
+    const params = new URLSearchParams({ exercise: exerciseName });
+    if (clientId) params.set("clientId", clientId);
+    fetcher.load(`/api/personal-best?${params.toString()}`);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, exerciseName, clientId]);
+
+  const history = fetcher.data?.history || [];
+  const records = fetcher.data?.records || [];
+  const isLoading = fetcher.state === "loading";
+
+  const chartData = history
+    .filter((point) => point[metric] !== null)
+    .map((point) => ({ date: point.date, weight: point[metric] as number }));
+
+  const handleShare = (recordId: string) => {
+    shareFetcher.submit(
+      { recordIds: [recordId] },
+      { method: "POST", action: "/api/personal-best", encType: "application/json" }
+    );
+  };
+
+  // Refresh so the shared record loses its button
+  useEffect(() => {
+    if (shareFetcher.state === "idle" && shareFetcher.data?.success && exerciseName) {
+      fetcher.load(`/api/personal-best?${new URLSearchParams({ exercise: exerciseName })}`);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shareFetcher.state, shareFetcher.data]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={exerciseName ? `${exerciseName} History` : "Exercise History"}
+      size="lg"
+    >
+      {isLoading && !fetcher.data ? (
+        <div className="text-center py-8 text-sm text-gray-dark dark:text-gray-light">
+          Loading history...
+        </div>
+      ) : fetcher.data?.error ? (
+        <div className="text-center py-8 text-sm text-red-500">{fetcher.data.error}</div>
+      ) : history.length === 0 && records.length === 0 ? (
+        <div className="text-center py-8 text-gray-dark dark:text-gray-light">
+          No logged sets for this exercise yet.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div>
+            <div className="flex gap-2 mb-3">
+              {(
+                [
+                  ["topWeight", "Top set"],
+                  ["estimatedOneRepMax", "Est. 1RM"],
+                ] as const
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMetric(value)}
+                  className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                    metric === value
+                      ? "bg-primary text-white"
+                      : "bg-gray-100 dark:bg-gray-700 text-gray-dark dark:text-gray-light"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {chartData.length > 0 ? (
+              <LineChart
+                data={chartData}
+                height={220}
+                tickStep={chartTickStep(chartData.map((d) => d.weight))}
+              />
+            ) : (
+              <div className="text-sm text-gray-dark dark:text-gray-light">
+                Not enough logged sets to chart yet.
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-secondary dark:text-alabaster mb-2">
+              Personal Bests
+            </h4>
+            {records.length === 0 ? (
+              <p className="text-sm text-gray-dark dark:text-gray-light">No PBs recorded yet.</p>
+            ) : (
+              <ol className="relative border-l border-gray-light dark:border-davyGray ml-2 space-y-3">
+                {records.map((record) => {
+                  const gain = formatPersonalBestGain(record);
+                  return (
+                    <li key={record.id} className="ml-4">
+                      <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary" />
+                      <div className="flex items-start justify-between gap-3">
+                        <div>
+                          <div className="text-xs text-gray-dark dark:text-gray-light">
+                            {dayjs(record.achievedAt).format("MMM D, YYYY")} ·{" "}
+                            {PERSONAL_BEST_LABELS[record.recordType]}
+                          </div>
+                          <div className="text-sm font-medium text-secondary dark:text-alabaster">
+                            {formatPersonalBest(record)}
+                            {gain ? (
+                              <span className="ml-2 text-xs text-green-600 dark:text-green-400">
+                                {gain}
+                              </span>
+                            ) : (
+                              <span className="ml-2 text-xs text-gray-dark dark:text-gray-light">
+                                Baseline
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        {!clientId && gain && !record.sharedAt && (
+                          <button
+                            type="button"
+                            onClick={() => handleShare(record.id)}
+                            disabled={shareFetcher.state !== "idle"}
+                            className="text-xs text-primary font-medium whitespace-nowrap disabled:opacity-50"
+                          >
+                            Share with coach
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+            {shareFetcher.data?.error && (
+              <p className="text-xs text-red-500 mt-2">{shareFetcher.data.error}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
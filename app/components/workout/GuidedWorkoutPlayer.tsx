@@ -0,0 +1,317 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ChevronLeftIcon, ClockIcon } from "@heroicons/react/24/outline";
+import Modal from "~/components/ui/Modal";
+import Button from "~/components/ui/Button";
+import MediaPlayer from "~/components/ui/MediaPlayer";
+import {
+  buildGuidedSteps,
+  formatRestTime,
+  guidedEntryKey,
+  initialGuidedEntry,
+  restSecondsFor,
+} from "~/lib/guidedWorkout";
+import type { GuidedWorkoutGroup, RestKind } from "~/lib/guidedWorkout";
+import { loadRestSettings, saveRestSettings } from "~/utils/guidedWorkoutStorage";
+import type { GuidedSetEntry, GuidedWorkoutSession, RestTimerSettings } from "~/types/workout";
+
+interface GuidedWorkoutPlayerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  groups: GuidedWorkoutGroup[];
+  session: GuidedWorkoutSession;
+  onSessionChange: (session: GuidedWorkoutSession) => void;
+}
+
+const inputClassName =
+  "w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-600 dark:border-gray-500 text-secondary dark:text-alabaster focus:ring-2 focus:ring-primary focus:border-primary text-lg text-center";
+
+const restLabels: Record<RestKind, string> = {
+  betweenSets: "Between sets",
+  betweenExercises: "Between exercises in a round",
+  betweenRounds: "Between rounds & groups",
+};
+
+const groupTypeLabels = {
+  Single: "Single",
+  SuperSet: "Super Set",
+  GiantSet: "Giant Set",
+} as const;
+
+export default function GuidedWorkoutPlayer({
+  isOpen,
+  onClose,
+  title,
+  groups,
+  session,
+  onSessionChange,
+}: GuidedWorkoutPlayerProps) {
+  const steps = useMemo(() => buildGuidedSteps(groups), [groups]);
+  const [restSettings, setRestSettings] = useState<RestTimerSettings>(loadRestSettings);
+  const [showRestSettings, setShowRestSettings] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [entry, setEntry] = useState<GuidedSetEntry>({ weight: "", reps: "", rpe: "" });
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+
+  const stepIndex = Math.min(session.stepIndex, steps.length);
+  const step = steps[stepIndex];
+  const isFinished = !!session.finishedAt || stepIndex >= steps.length;
+  const restRemaining = session.restEndsAt ? Math.max(0, (session.restEndsAt - now) / 1000) : 0;
+  const isResting = !!session.restEndsAt && restRemaining > 0;
+
+  // Load the current set's inputs whenever the player moves
+  useEffect(() => {
+    if (step) setEntry(initialGuidedEntry(step, sessionRef.current.entries));
+  }, [step]);
+
+  // Timers run off restEndsAt, so a locked phone catches up as soon as it wakes
+  useEffect(() => {
+    if (!isOpen || !session.restEndsAt) return;
+    const tick = () => setNow(Date.now());
+    tick();
+    const interval = setInterval(tick, 250);
+    document.addEventListener("visibilitychange", tick);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", tick);
+    };
+  }, [isOpen, session.restEndsAt]);
+
+  useEffect(() => {
+    if (!session.restEndsAt || restRemaining > 0) return;
+    if (typeof navigator !== "undefined" && "vibrate" in navigator) {
+      navigator.vibrate?.([200, 100, 200]);
+    }
+    onSessionChange({ ...sessionRef.current, restEndsAt: null });
+  }, [session.restEndsAt, restRemaining, onSessionChange]);
+
+  const updateRestSetting = (kind: RestKind, value: string) => {
+    const seconds = Math.max(0, Math.min(3600, Math.round(Number(value) || 0)));
+    const next = { ...restSettings, [kind]: seconds };
+    setRestSettings(next);
+    saveRestSettings(next);
+  };
+
+  const handleLogSet = () => {
+    if (!step) return;
+    const key = guidedEntryKey(step.exercise.id, step.set.setNumber);
+    const isLastStep = stepIndex === steps.length - 1;
+    const restSeconds = restSecondsFor(step.restAfter, restSettings);
+    onSessionChange({
+      ...session,
+      entries: { ...session.entries, [key]: entry },
+      stepIndex: stepIndex + 1,
+      completedGroupIds:
+        step.isLastInGroup && !session.completedGroupIds.includes(step.groupId)
+          ? [...session.completedGroupIds, step.groupId]
+          : session.completedGroupIds,
+      restEndsAt: restSeconds > 0 ? Date.now() + restSeconds * 1000 : null,
+      finishedAt: isLastStep ? new Date().toISOString() : null,
+    });
+  };
+
+  const handleBack = () => {
+    if (stepIndex === 0) return;
+    onSessionChange({ ...session, stepIndex: stepIndex - 1, restEndsAt: null, finishedAt: null });
+  };
+
+  const addRest = (seconds: number) => {
+    onSessionChange({
+      ...session,
+      restEndsAt: Math.max(Date.now(), session.restEndsAt ?? Date.now()) + seconds * 1000,
+    });
+  };
+
+  const loggedCount = Object.keys(session.entries).length;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title} size="lg">
+      <div className="space-y-5">
+        {/* Progress */}
+        <div>
+          <div className="flex items-center justify-between text-xs text-gray-dark dark:text-gray-light mb-1">
+            <span>
+              {isFinished ? "All sets done" : `Set ${stepIndex + 1} of ${steps.length}`}
+            </span>
+            <button
+              type="button"
+              onClick={() => setShowRestSettings((prev) => !prev)}
+              className="flex items-center gap-1 text-primary hover:text-primary/80"
+            >
+              <ClockIcon className="w-4 h-4" />
+              Rest timers
+            </button>
+          </div>
+          <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all duration-300"
+              style={{ width: `${steps.length > 0 ? (Math.min(stepIndex, steps.length) / steps.length) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+
+        {showRestSettings && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg p-3">
+            {(Object.keys(restLabels) as RestKind[]).map((kind) => (
+              <div key={kind}>
+                <label
+                  htmlFor={`rest-${kind}`}
+                  className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1"
+                >
+                  {restLabels[kind]} (sec)
+                </label>
+                <input
+                  id={`rest-${kind}`}
+                  type="number"
+                  min={0}
+                  step={15}
+                  value={restSettings[kind]}
+                  onChange={(e) => updateRestSetting(kind, e.target.value)}
+                  className="w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-600 dark:border-gray-500 text-secondary dark:text-alabaster text-sm"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isFinished ? (
+          <div className="text-center py-6 space-y-3">
+            <div className="text-4xl">🎉</div>
+            <h3 className="text-lg font-semibold text-secondary dark:text-alabaster">
+              Workout complete
+            </h3>
+            <p className="text-sm text-gray-dark dark:text-gray-light">
+              You logged {loggedCount} {loggedCount === 1 ? "set" : "sets"}. Review them on the
+              workout page and submit when you&apos;re ready.
+            </p>
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" onClick={handleBack} disabled={steps.length === 0}>
+                Back to last set
+              </Button>
+              <Button onClick={onClose}>Review &amp; Submit</Button>
+            </div>
+          </div>
+        ) : isResting ? (
+          <div className="text-center py-6 space-y-4">
+            <p className="text-sm font-medium text-gray-dark dark:text-gray-light uppercase tracking-wide">
+              Rest
+            </p>
+            <div className="text-6xl font-bold tabular-nums text-secondary dark:text-alabaster">
+              {formatRestTime(restRemaining)}
+            </div>
+            {step && (
+              <p className="text-sm text-gray-dark dark:text-gray-light">
+                Up next: <span className="font-medium">{step.exercise.name}</span> · set{" "}
+                {step.set.setNumber}
+              </p>
+            )}
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => addRest(15)}>
+                +15s
+              </Button>
+              <Button size="sm" onClick={() => onSessionChange({ ...session, restEndsAt: null })}>
+                Skip rest
+              </Button>
+            </div>
+          </div>
+        ) : step ? (
+          <div className="space-y-4">
+            <div>
+              <p className="text-xs font-medium text-primary uppercase tracking-wide">
+                {groupTypeLabels[step.groupType]}
+                {step.groupType !== "Single" && ` · Round ${step.round} of ${step.totalRounds}`}
+                {` · Group ${step.groupIndex + 1} of ${groups.length}`}
+              </p>
+              <h3 className="text-xl font-semibold text-secondary dark:text-alabaster">
+                {step.exercise.name}
+              </h3>
+              <p className="text-sm text-gray-dark dark:text-gray-light">
+                Set {step.set.setNumber} of {step.exercise.sets.length} · Target {step.set.reps} reps
+                {step.set.weight ? ` @ ${step.set.weight} lbs` : ""}
+              </p>
+              {step.exercise.description && (
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                  {step.exercise.description}
+                </p>
+              )}
+            </div>
+
+            {step.exercise.videoUrl && (
+              <MediaPlayer
+                key={step.exercise.id}
+                videoUrl={step.exercise.videoUrl}
+                recordingType="video"
+              />
+            )}
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label htmlFor="guided-weight" className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  Weight (lbs)
+                </label>
+                <input
+                  id="guided-weight"
+                  type="number"
+                  inputMode="decimal"
+                  value={entry.weight}
+                  onChange={(e) => setEntry({ ...entry, weight: e.target.value })}
+                  className={inputClassName}
+                  placeholder="0"
+                />
+              </div>
+              <div>
+                <label htmlFor="guided-reps" className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  Reps
+                </label>
+                <input
+                  id="guided-reps"
+                  type="number"
+                  inputMode="numeric"
+                  min={0}
+                  value={entry.reps}
+                  onChange={(e) => setEntry({ ...entry, reps: e.target.value })}
+                  className={inputClassName}
+                  placeholder={step.set.reps?.toString() || "0"}
+                />
+              </div>
+              <div>
+                <label htmlFor="guided-rpe" className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  RPE
+                </label>
+                <input
+                  id="guided-rpe"
+                  type="number"
+                  inputMode="decimal"
+                  min={1}
+                  max={10}
+                  step={0.5}
+                  value={entry.rpe}
+                  onChange={(e) => setEntry({ ...entry, rpe: e.target.value })}
+                  className={inputClassName}
+                  placeholder="1-10"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <Button variant="ghost" onClick={handleBack} disabled={stepIndex === 0}>
+                <span className="flex items-center gap-1">
+                  <ChevronLeftIcon className="w-4 h-4" />
+                  Back
+                </span>
+              </Button>
+              <Button onClick={handleLogSet}>
+                {stepIndex === steps.length - 1 ? "Log Set & Finish" : "Log Set"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-center py-6 text-sm text-gray-dark dark:text-gray-light">
+            This workout has no sets to step through.
+          </p>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -1,13 +1,24 @@
-import type { Exercise } from "~/types/workout";
-import { useUser } from "~/context/UserContext";
+import type { Exercise, GuidedSetEntry, WorkoutSetLog } from "~/types/workout";
 import { useState, useEffect, useRef } from "react";
+import ExerciseHistoryModal from "~/components/workout/ExerciseHistoryModal";
+import { normalizeExerciseKey } from "~/lib/personalBests";
 
 interface WorkoutCardProps {
   exercises: Exercise[];
   type: "Single" | "Super" | "Giant";
   isSubmitted?: boolean;
   dayOffset: number;
-  onWeightSubmit?: (updateFn: (weights: Record<string, string>) => void) => void;
+  onSetLogsChange?: (logs: WorkoutSetLog[]) => void;
+  /** Heaviest load per exercise, keyed by normalized exercise name */
+  personalBests?: Record<string, number>;
+  /** Sets logged in the guided player, keyed by `${exerciseId}-${setNumber}` */
+  loggedEntries?: Record<string, GuidedSetEntry>;
+}
+
+function parseLoggedNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
 }
 
 export default function WorkoutCard({
@@ -15,48 +26,61 @@ export default function WorkoutCard({
   type,
   isSubmitted = false,
   dayOffset,
-  onWeightSubmit,
+  onSetLogsChange,
+  personalBests = {},
+  loggedEntries,
 }: WorkoutCardProps) {
   const [weights, setWeights] = useState<Record<string, string>>({});
-  const [personalBests, setPersonalBests] = useState<Record<string, number>>({});
-  const weightsRef = useRef<Record<string, string>>({});
-  // Fetch PBs for each exercise on mount
+  const [reps, setReps] = useState<Record<string, string>>({});
+  const [rpes, setRpes] = useState<Record<string, string>>({});
+  const [historyExercise, setHistoryExercise] = useState<string | null>(null);
+  const onSetLogsChangeRef = useRef(onSetLogsChange);
+  onSetLogsChangeRef.current = onSetLogsChange;
+  // Reset state when the day or its exercises change. The prescribed load is
+  // only a placeholder, so untouched sets aren't logged as lifted.
   useEffect(() => {
-    async function fetchPBs() {
-      const pbMap: Record<string, number> = {};
-      await Promise.all(
-        exercises.map(async (exercise) => {
-          const res = await fetch(`/api/personal-best?exerciseId=${exercise.id}`);
-          if (res.ok) {
-            const data = await res.json();
-            if (data && typeof data.weight === "number") {
-              pbMap[exercise.id] = data.weight;
-            }
-          }
-        })
-      );
-      setPersonalBests(pbMap);
-    }
-    fetchPBs();
-  }, [exercises]);
+    setWeights({});
+    setReps({});
+    setRpes({});
+  }, [dayOffset, exercises]);
 
-  // Reset state when day changes
+  // Fill in whatever the guided player logged for this group's sets
   useEffect(() => {
-    setWeights({});
-  }, [dayOffset]);
+    if (!loggedEntries) return;
+    const keys = exercises.flatMap((exercise) =>
+      exercise.sets.map((set) => `${exercise.id}-${set.setNumber}`)
+    );
+    const pick = (field: keyof GuidedSetEntry) =>
+      Object.fromEntries(
+        keys
+          .filter((key) => loggedEntries[key]?.[field])
+          .map((key) => [key, loggedEntries[key][field]])
+      );
+    setWeights((prev) => ({ ...prev, ...pick("weight") }));
+    setReps((prev) => ({ ...prev, ...pick("reps") }));
+    setRpes((prev) => ({ ...prev, ...pick("rpe") }));
+  }, [exercises, loggedEntries]);
 
+  // Report what has been logged so the page can submit it with the completion
   useEffect(() => {
-    // Initialize weights state only on the client side
-    const initialWeights: Record<string, string> = {};
-    exercises.forEach((exercise) => {
-      exercise.sets.forEach((set) => {
+    if (!onSetLogsChangeRef.current) return;
+    const logs: WorkoutSetLog[] = exercises.flatMap((exercise) =>
+      exercise.sets.map((set) => {
         const key = `${exercise.id}-${set.setNumber}`;
-        initialWeights[key] = set.weight?.toString() || "";
-      });
-    });
-    setWeights(initialWeights);
-    weightsRef.current = initialWeights; // Initialize ref
-  }, [exercises]);
+        return {
+          workoutExerciseId: exercise.id,
+          exerciseName: exercise.name,
+          setNumber: set.setNumber,
+          prescribedReps: parseLoggedNumber(set.reps?.toString()),
+          prescribedWeight: set.weight ?? null,
+          actualWeight: parseLoggedNumber(weights[key]),
+          actualReps: parseLoggedNumber(reps[key]),
+          rpe: parseLoggedNumber(rpes[key]),
+        };
+      })
+    );
+    onSetLogsChangeRef.current(logs);
+  }, [exercises, weights, reps, rpes]);
 
   const handleWeightChange = (
     exerciseId: string,
@@ -64,93 +88,23 @@ export default function WorkoutCard({
     value: string
   ) => {
     if (isSubmitted) return; // Prevent changes if submitted
-    const newWeights = {
-      ...weights,
-      [`${exerciseId}-${setNumber}`]: value,
-    };
-    setWeights(newWeights);
-    weightsRef.current = newWeights; // Keep ref in sync
+    setWeights((prev) => ({ ...prev, [`${exerciseId}-${setNumber}`]: value }));
   };
 
-
-
-  // Calculate current highest weight for each exercise
-  const getCurrentHighestWeight = (exerciseId: string) => {
-    const exercise = exercises.find(ex => ex.id === exerciseId);
-    if (!exercise) return 0;
-    
-    let highestWeight = 0;
-    exercise.sets.forEach(set => {
-      const weightKey = `${exerciseId}-${set.setNumber}`;
-      const weightValue = weights[weightKey];
-      if (weightValue && !isNaN(Number(weightValue))) {
-        const weight = Number(weightValue);
-        if (weight > highestWeight) {
-          highestWeight = weight;
-        }
-      }
-    });
-    return highestWeight;
+  const handleRepsChange = (exerciseId: string, setNumber: number, value: string) => {
+    if (isSubmitted) return;
+    setReps((prev) => ({ ...prev, [`${exerciseId}-${setNumber}`]: value }));
   };
 
-  // Get the PB to display (only stored PB, not current weights)
-  const getDisplayPB = (exerciseId: string) => {
-    return personalBests[exerciseId] || 0;
+  const handleRpeChange = (exerciseId: string, setNumber: number, value: string) => {
+    if (isSubmitted) return;
+    setRpes((prev) => ({ ...prev, [`${exerciseId}-${setNumber}`]: value }));
   };
 
-  // Update PBs when weights are submitted
-  const updatePersonalBests = async (submittedWeights: Record<string, string>) => {
-    const updatedPBs: Record<string, number> = {};
-    
-    // Calculate new PBs for each exercise
-    exercises.forEach(exercise => {
-      let highestWeight = 0;
-      exercise.sets.forEach(set => {
-        const weightKey = `${exercise.id}-${set.setNumber}`;
-        const weightValue = submittedWeights[weightKey];
-        if (weightValue && !isNaN(Number(weightValue))) {
-          const weight = Number(weightValue);
-          if (weight > highestWeight) {
-            highestWeight = weight;
-          }
-        }
-      });
-      
-      // Only update PB if the new weight is higher than the stored PB
-      const storedPB = personalBests[exercise.id] || 0;
-      if (highestWeight > storedPB) {
-        updatedPBs[exercise.id] = highestWeight;
-        
-        // Update PB in Supabase
-        fetch("/api/personal-best", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ exerciseId: exercise.id, weight: highestWeight }),
-        });
-      }
-    });
-    
-    // Update local state
-    if (Object.keys(updatedPBs).length > 0) {
-      setPersonalBests(prev => ({ ...prev, ...updatedPBs }));
-    }
+  const getDisplayPB = (exerciseName: string) => {
+    return personalBests[normalizeExerciseKey(exerciseName)] || 0;
   };
 
-  // Expose the update function to parent component
-  useEffect(() => {
-    if (onWeightSubmit) {
-      onWeightSubmit(updatePersonalBests);
-    }
-  }, [onWeightSubmit]);
-
-  // Auto-update PBs when workout is submitted
-  useEffect(() => {
-    if (isSubmitted) {
-      // Use ref to get weights at submission time (not reactive to weight changes)
-      updatePersonalBests(weightsRef.current);
-    }
-  }, [isSubmitted]); // Only trigger on submission, not on weight changes
-
   const getSetLabel = (
     type: "Super" | "Giant" | "Single",
     setNumber: number
@@ -181,9 +135,14 @@ export default function WorkoutCard({
                   className="bg-gray-50 dark:bg-gray-800/50 rounded-lg p-6 border border-gray-200 dark:border-gray-700"
                 >
                   <div className="flex items-center justify-end mb-4">
-                    <div className="text-xs text-green-600 dark:text-green-400 font-semibold bg-green-50 dark:bg-green-900/30 px-3 py-1.5 rounded-md">
-                      PB: {getDisplayPB(exercise.id) > 0 ? `${getDisplayPB(exercise.id)} lbs` : "-"}
-                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setHistoryExercise(exercise.name)}
+                      className="text-xs text-green-600 dark:text-green-400 font-semibold bg-green-50 dark:bg-green-900/30 px-3 py-1.5 rounded-md hover:bg-green-100 dark:hover:bg-green-900/50 transition-colors"
+                      title="View history"
+                    >
+                      PB: {getDisplayPB(exercise.name) > 0 ? `${getDisplayPB(exercise.name)} lbs` : "-"}
+                    </button>
                   </div>
                   
                   <div className="space-y-3">
@@ -195,7 +154,7 @@ export default function WorkoutCard({
                           </h5>
                         </div>
                         
-                        <div className="grid grid-cols-2 gap-4">
+                        <div className="grid grid-cols-3 gap-4">
                           {/* Weight Input */}
                           <div className="space-y-2">
                             <label htmlFor={`weight-${exercise.id}-${set.setNumber}`} className="text-sm font-medium text-gray-600 dark:text-gray-400">
@@ -216,18 +175,52 @@ export default function WorkoutCard({
                               className={`w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-600 dark:border-gray-500 text-secondary dark:text-alabaster focus:ring-2 focus:ring-primary focus:border-primary dark:focus:border-primary dark:focus:ring-primary-light text-sm ${
                                 isSubmitted ? "cursor-not-allowed opacity-50" : ""
                               }`}
-                              placeholder="0"
+                              placeholder={set.weight?.toString() || "0"}
                             />
                           </div>
                           
-                          {/* Reps Display */}
+                          {/* Reps Input - prescribed reps shown as the target */}
                           <div className="space-y-2">
                             <label htmlFor={`reps-${exercise.id}-${set.setNumber}`} className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                              Reps
+                              Reps <span className="text-green-600 dark:text-green-400 font-bold">/ {set.reps}</span>
                             </label>
-                                                                                <div id={`reps-${exercise.id}-${set.setNumber}`} className="px-3 py-2 bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300 text-lg font-bold rounded-md text-center">
-                              {set.reps}
-                            </div>
+                            <input
+                              id={`reps-${exercise.id}-${set.setNumber}`}
+                              type="number"
+                              min={0}
+                              value={reps[`${exercise.id}-${set.setNumber}`] || ""}
+                              onChange={(e) =>
+                                handleRepsChange(exercise.id, set.setNumber, e.target.value)
+                              }
+                              disabled={isSubmitted}
+                              className={`w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-600 dark:border-gray-500 text-secondary dark:text-alabaster focus:ring-2 focus:ring-primary focus:border-primary dark:focus:border-primary dark:focus:ring-primary-light text-sm ${
+                                isSubmitted ? "cursor-not-allowed opacity-50" : ""
+                              }`}
+                              placeholder={set.reps?.toString() || "0"}
+                            />
+                          </div>
+
+                          {/* RPE Input */}
+                          <div className="space-y-2">
+                            <label htmlFor={`rpe-${exercise.id}-${set.setNumber}`} className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                              RPE
+                            </label>
+                            <input
+                              id={`rpe-${exercise.id}-${set.setNumber}`}
+                              type="number"
+                              min={1}
+                              max={10}
+                              step={0.5}
+                              value={rpes[`${exercise.id}-${set.setNumber}`] || ""}
+                              onChange={(e) =>
+                                handleRpeChange(exercise.id, set.setNumber, e.target.value)
+                              }
+                              disabled={isSubmitted}
+                              className={`w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-600 dark:border-gray-500 text-secondary dark:text-alabaster focus:ring-2 focus:ring-primary focus:border-primary dark:focus:border-primary dark:focus:ring-primary-light text-sm ${
+                                isSubmitted ? "cursor-not-allowed opacity-50" : ""
+                              }`}
+                              placeholder="1-10"
+                            />
                           </div>
                         </div>
                       </div>
@@ -295,7 +288,11 @@ export default function WorkoutCard({
         </div>
       </div>
 
-
+      <ExerciseHistoryModal
+        isOpen={historyExercise !== null}
+        onClose={() => setHistoryExercise(null)}
+        exerciseName={historyExercise}
+      />
     </div>
   );
 }
@@ -0,0 +1,184 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { BODY_METRICS, bodyMetricDefinition, isBodyMetric } from "~/lib/bodyMeasurements";
+import type { BodyMetric, Database } from "~/lib/supabase";
+import type { BodyMeasurementEntry } from "~/types/measurements";
+
+type ServiceClient = SupabaseClient<Database>;
+
+type BodyMeasurementRow = Database["public"]["Tables"]["body_measurements"]["Row"];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function entryFromRow(row: BodyMeasurementRow): BodyMeasurementEntry {
+  return {
+    id: row.id,
+    metric: row.metric,
+    value: Number(row.value),
+    date: row.measured_on,
+  };
+}
+
+/** The metrics a client's coach has asked them to track, in display order. */
+export async function getTrackedMetrics({
+  supabase,
+  clientId,
+}: {
+  supabase: ServiceClient;
+  clientId: string;
+}): Promise<BodyMetric[]> {
+  const { data, error } = await supabase
+    .from("client_measurement_settings")
+    .select("metrics")
+    .eq("client_id", clientId)
+    .maybeSingle();
+  if (error) {
+    console.error("Error fetching tracked measurements:", error);
+    throw new Error("Failed to fetch tracked measurements");
+  }
+  const tracked = new Set(data?.metrics || []);
+  return BODY_METRICS.map((metric) => metric.key).filter((key) => tracked.has(key));
+}
+
+/** Validates the metric list a coach posts. Unknown metrics are an error, duplicates are dropped. */
+export function parseTrackedMetrics(value: unknown): BodyMetric[] {
+  if (!Array.isArray(value)) {
+    throw new Error("metrics must be a list");
+  }
+  const invalid = value.filter((metric) => !isBodyMetric(metric));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown metric: ${invalid.map(String).join(", ")}`);
+  }
+  return BODY_METRICS.map((metric) => metric.key).filter((key) => value.includes(key));
+}
+
+export async function saveTrackedMetrics({
+  supabase,
+  coachId,
+  clientId,
+  metrics,
+}: {
+  supabase: ServiceClient;
+  coachId: string;
+  clientId: string;
+  metrics: BodyMetric[];
+}): Promise<BodyMetric[]> {
+  const { error } = await supabase.from("client_measurement_settings").upsert(
+    {
+      client_id: clientId,
+      coach_id: coachId,
+      metrics,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "client_id" }
+  );
+  if (error) {
+    console.error("Error saving tracked measurements:", error);
+    throw new Error("Failed to save tracked measurements");
+  }
+  return metrics;
+}
+
+/** Every measurement a client has logged, oldest first. */
+export async function listBodyMeasurements({
+  supabase,
+  userId,
+}: {
+  supabase: ServiceClient;
+  userId: string;
+}): Promise<BodyMeasurementEntry[]> {
+  const { data, error } = await supabase
+    .from("body_measurements")
+    .select("*")
+    .eq("user_id", userId)
+    .order("measured_on", { ascending: true });
+  if (error) {
+    console.error("Error fetching body measurements:", error);
+    throw new Error("Failed to fetch body measurements");
+  }
+  return (data || []).map(entryFromRow);
+}
+
+/**
+ * Validates measurements posted by a client: { date, values: { waist: 32.5, ... } }.
+ * Blank values are skipped; anything outside a metric's range is an error.
+ */
+export function parseBodyMeasurementsInput(body: Record<string, unknown>): {
+  date: string;
+  values: Partial<Record<BodyMetric, number>>;
+} {
+  const date = typeof body.date === "string" ? body.date : "";
+  if (!DATE_PATTERN.test(date)) {
+    throw new Error("date must be YYYY-MM-DD");
+  }
+  const raw = body.values;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("values must map metrics to numbers");
+  }
+
+  const values: Partial<Record<BodyMetric, number>> = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([metric, value]) => {
+    if (value === undefined || value === null || value === "") return;
+    if (!isBodyMetric(metric)) {
+      throw new Error(`Unknown metric: ${metric}`);
+    }
+    const { label, min, max } = bodyMetricDefinition(metric);
+    const num = Number(value);
+    if (!Number.isFinite(num) || num < min || num > max) {
+      throw new Error(`${label} must be between ${min} and ${max}`);
+    }
+    values[metric] = Math.round(num * 10) / 10;
+  });
+  if (Object.keys(values).length === 0) {
+    throw new Error("Enter at least one measurement");
+  }
+  return { date, values };
+}
+
+/** Saves a day's measurements. Logging a metric again on the same day replaces it. */
+export async function saveBodyMeasurements({
+  supabase,
+  userId,
+  date,
+  values,
+}: {
+  supabase: ServiceClient;
+  userId: string;
+  date: string;
+  values: Partial<Record<BodyMetric, number>>;
+}): Promise<BodyMeasurementEntry[]> {
+  const rows = (Object.entries(values) as [BodyMetric, number][]).map(([metric, value]) => ({
+    user_id: userId,
+    metric,
+    value,
+    measured_on: date,
+  }));
+  const { data, error } = await supabase
+    .from("body_measurements")
+    .upsert(rows, { onConflict: "user_id,metric,measured_on" })
+    .select("*");
+  if (error) {
+    console.error("Error saving body measurements:", error);
+    throw new Error("Failed to save body measurements");
+  }
+  return (data || []).map(entryFromRow);
+}
+
+export async function deleteBodyMeasurement({
+  supabase,
+  userId,
+  measurementId,
+}: {
+  supabase: ServiceClient;
+  userId: string;
+  measurementId: string;
+}) {
+  const { error } = await supabase
+    .from("body_measurements")
+    .delete()
+    .eq("id", measurementId)
+    .eq("user_id", userId);
+  if (error) {
+    console.error("Error deleting body measurement:", error);
+    throw new Error("Failed to delete body measurement");
+  }
+}
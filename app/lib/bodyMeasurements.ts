@@ -0,0 +1,38 @@
+import { BODY_MEASUREMENT_FIELDS, BODY_MEASUREMENT_UNIT } from "~/lib/checkInFormConstants";
+import type { BodyMetric } from "~/lib/supabase";
+import type { BodyMeasurementEntry, BodyMetricDefinition } from "~/types/measurements";
+
+/** Every metric a coach can pick, in display order. Circumferences match the check-in form's body measurement block. */
+export const BODY_METRICS: BodyMetricDefinition[] = [
+  ...BODY_MEASUREMENT_FIELDS.map(({ key, label }) => ({
+    key,
+    label,
+    unit: BODY_MEASUREMENT_UNIT,
+    min: 1,
+    max: 120,
+    tickStep: 1,
+  })),
+  { key: "body_fat", label: "Body Fat", unit: "%", min: 1, max: 75, tickStep: 1 },
+  { key: "resting_heart_rate", label: "Resting Heart Rate", unit: "bpm", min: 20, max: 220, tickStep: 5 },
+];
+
+export function isBodyMetric(value: unknown): value is BodyMetric {
+  return BODY_METRICS.some((metric) => metric.key === value);
+}
+
+export function bodyMetricDefinition(metric: BodyMetric): BodyMetricDefinition {
+  return BODY_METRICS.find((definition) => definition.key === metric) as BodyMetricDefinition;
+}
+
+/** "32.5 in", "18 %", "58 bpm" */
+export function formatBodyMetricValue(metric: BodyMetric, value: number): string {
+  return `${Math.round(value * 10) / 10} ${bodyMetricDefinition(metric).unit}`;
+}
+
+/** A metric's entries as LineChart points, oldest first. LineChart plots the `weight` key. */
+export function bodyMetricSeries(entries: BodyMeasurementEntry[], metric: BodyMetric) {
+  return entries
+    .filter((entry) => entry.metric === metric)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((entry) => ({ id: entry.id, date: entry.date, weight: entry.value }));
+}
@@ -1,3 +1,5 @@
+import type { CheckInQuestionType, ClientProfileField } from "~/lib/supabase";
+
 export const DAY_NAMES = [
   "Monday",
   "Tuesday",
@@ -7,3 +9,86 @@ export const DAY_NAMES = [
   "Saturday",
   "Sunday",
 ];
+
+export const CHECK_IN_QUESTION_TYPES: { value: CheckInQuestionType; label: string }[] = [
+  { value: "text", label: "Short Text" },
+  { value: "textarea", label: "Long Text" },
+  { value: "number", label: "Number" },
+  { value: "select", label: "Dropdown" },
+  { value: "radio", label: "Single Choice" },
+  { value: "checkbox", label: "Multiple Choice" },
+  { value: "scale", label: "Scale (1-10)" },
+  { value: "yes_no", label: "Yes / No" },
+  { value: "date", label: "Date" },
+  { value: "photo", label: "Photo Upload" },
+  { value: "body_measurements", label: "Body Measurements" },
+];
+
+/** Types whose answers are picked from the coach's options. */
+export const OPTION_QUESTION_TYPES: CheckInQuestionType[] = ["select", "radio", "checkbox"];
+
+export const SCALE_MIN = 1;
+export const SCALE_MAX = 10;
+
+export const BODY_MEASUREMENT_FIELDS = [
+  { key: "waist", label: "Waist" },
+  { key: "hips", label: "Hips" },
+  { key: "chest", label: "Chest" },
+  { key: "arms", label: "Arms" },
+  { key: "thighs", label: "Thighs" },
+] as const;
+
+export type BodyMeasurementKey = (typeof BODY_MEASUREMENT_FIELDS)[number]["key"];
+
+export const BODY_MEASUREMENT_UNIT = "in";
+
+export const VISIBILITY_OPERATOR_LABELS = {
+  equals: "is",
+  not_equals: "is not",
+  includes: "includes",
+  answered: "is answered",
+  greater_than: "is more than",
+  less_than: "is less than",
+} as const;
+
+export type VisibilityOperator = keyof typeof VISIBILITY_OPERATOR_LABELS;
+
+/** When a client can be reminded about an unanswered form, in hours before it expires. */
+export const REMINDER_OFFSET_OPTIONS = [
+  { hours: 72, label: "3 days before" },
+  { hours: 48, label: "2 days before" },
+  { hours: 24, label: "1 day before" },
+  { hours: 6, label: "6 hours before" },
+  { hours: 2, label: "2 hours before" },
+];
+
+export const DEFAULT_REMINDER_OFFSETS_HOURS = [24];
+
+/** day_of_month value for schedules that send on the last day of each month. */
+export const LAST_DAY_OF_MONTH = -1;
+
+export const MAX_SCHEDULE_INTERVAL_WEEKS = 12;
+
+export const MAX_DAYS_AFTER_ACTIVATION = 365;
+
+/** Longest pause window a schedule accepts, in days. */
+export const MAX_SCHEDULE_PAUSE_DAYS = 365;
+
+/**
+ * Profile fields an intake answer can fill in, and the question types whose
+ * answers fit each one.
+ */
+export const CLIENT_PROFILE_FIELDS: {
+  value: ClientProfileField;
+  label: string;
+  questionTypes: CheckInQuestionType[];
+}[] = [
+  { value: "goal", label: "Goal", questionTypes: ["text", "textarea", "select", "radio"] },
+  { value: "starting_weight", label: "Starting weight (lbs)", questionTypes: ["number"] },
+  { value: "allergies", label: "Allergies & dietary restrictions", questionTypes: ["text", "textarea", "checkbox"] },
+  {
+    value: "equipment_available",
+    label: "Equipment available",
+    questionTypes: ["text", "textarea", "select", "radio", "checkbox"],
+  },
+];
@@ -0,0 +1,177 @@
+import { CHECK_IN_QUESTION_TYPES, OPTION_QUESTION_TYPES } from "~/lib/checkInFormConstants";
+import {
+  parseProfileField,
+  parseVisibilityRule,
+  remapVisibilityRules,
+  type QuestionVisibilityRule,
+} from "~/lib/checkInFormUtils";
+import type { CheckInQuestionType, ClientProfileField } from "~/lib/supabase";
+
+/** Identifies an exported check-in form file. */
+export const CHECK_IN_FORM_EXPORT_FORMAT = "kava-check-in-form";
+
+/**
+ * Bump when the file layout changes, and keep reading the older versions in
+ * parseCheckInFormExport so files coaches already have still import.
+ */
+export const CHECK_IN_FORM_EXPORT_VERSION = 1;
+
+export const MAX_IMPORTED_QUESTIONS = 100;
+const MAX_TITLE_LENGTH = 200;
+
+export interface CheckInFormExportQuestion {
+  question_text: string;
+  question_type: CheckInQuestionType;
+  is_required: boolean;
+  options: string[];
+  /** Points at another question by its position in `questions`. */
+  visibility_rule: QuestionVisibilityRule | null;
+  /** Left out of files exported before intake forms could fill in the profile. */
+  profile_field?: ClientProfileField | null;
+}
+
+export interface CheckInFormDefinition {
+  title: string;
+  description: string | null;
+  questions: CheckInFormExportQuestion[];
+}
+
+export interface CheckInFormExport {
+  format: typeof CHECK_IN_FORM_EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  form: CheckInFormDefinition;
+}
+
+/** The file contents for a saved form. Ids are left out; questions are numbered by position. */
+export function buildCheckInFormExport(form: {
+  title: string;
+  description?: string | null;
+  questions: Array<{
+    question_text: string;
+    question_type: string;
+    is_required?: boolean | null;
+    options?: string[] | null;
+    order_index: number;
+    visibility_rule?: unknown;
+    profile_field?: unknown;
+  }>;
+}): CheckInFormExport {
+  const sorted = [...form.questions].sort((a, b) => a.order_index - b.order_index);
+  const questions = remapVisibilityRules(
+    sorted.map((question) => ({
+      question_text: question.question_text,
+      question_type: question.question_type as CheckInQuestionType,
+      is_required: !!question.is_required,
+      options: question.options || [],
+      visibility_rule: parseVisibilityRule(question.visibility_rule),
+      profile_field: parseProfileField(question.profile_field, question.question_type),
+    })),
+    sorted.map((question) => question.order_index)
+  );
+  return {
+    format: CHECK_IN_FORM_EXPORT_FORMAT,
+    version: CHECK_IN_FORM_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    form: {
+      title: form.title,
+      description: form.description || null,
+      questions,
+    },
+  };
+}
+
+/** "weekly-check-in.check-in-form.json" */
+export function checkInFormExportFilename(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "check-in-form"}.check-in-form.json`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Validates an uploaded export. Returns the form to create, or every problem
+ * found so the coach can see what's wrong with the file in one go.
+ */
+export function parseCheckInFormExport(
+  raw: unknown
+): { form: CheckInFormDefinition; errors?: undefined } | { form?: undefined; errors: string[] } {
+  if (!isRecord(raw) || raw.format !== CHECK_IN_FORM_EXPORT_FORMAT || !isRecord(raw.form)) {
+    return { errors: ["This file isn't an exported check-in form."] };
+  }
+  const version = Number(raw.version);
+  if (!Number.isInteger(version) || version < 1) {
+    return { errors: ["The file is missing its format version."] };
+  }
+  if (version > CHECK_IN_FORM_EXPORT_VERSION) {
+    return {
+      errors: [`The file was exported by a newer version of the app (format v${version}).`],
+    };
+  }
+
+  const errors: string[] = [];
+  const title = typeof raw.form.title === "string" ? raw.form.title.trim() : "";
+  if (!title) {
+    errors.push("The form needs a title.");
+  } else if (title.length > MAX_TITLE_LENGTH) {
+    errors.push(`The title is longer than ${MAX_TITLE_LENGTH} characters.`);
+  }
+  const description =
+    typeof raw.form.description === "string" && raw.form.description.trim()
+      ? raw.form.description.trim()
+      : null;
+
+  const rawQuestions = raw.form.questions;
+  if (!Array.isArray(rawQuestions)) {
+    return { errors: [...errors, "The form has no question list."] };
+  }
+  if (rawQuestions.length > MAX_IMPORTED_QUESTIONS) {
+    return { errors: [...errors, `Forms can have at most ${MAX_IMPORTED_QUESTIONS} questions.`] };
+  }
+
+  const questions: CheckInFormExportQuestion[] = [];
+  rawQuestions.forEach((question, index) => {
+    const label = `Question ${index + 1}`;
+    if (!isRecord(question)) {
+      errors.push(`${label} isn't a valid question.`);
+      return;
+    }
+    const text = typeof question.question_text === "string" ? question.question_text.trim() : "";
+    if (!text) {
+      errors.push(`${label} has no text.`);
+    }
+    const type = question.question_type as CheckInQuestionType;
+    if (!CHECK_IN_QUESTION_TYPES.some((option) => option.value === type)) {
+      errors.push(`${label} has an unknown type "${String(question.question_type)}".`);
+    }
+    const options = Array.isArray(question.options)
+      ? question.options.filter((option): option is string => typeof option === "string" && !!option.trim())
+      : [];
+    if (OPTION_QUESTION_TYPES.includes(type) && options.length === 0) {
+      errors.push(`${label} needs at least one option.`);
+    }
+    const rule = parseVisibilityRule(question.visibility_rule, index);
+    if (question.visibility_rule && !rule) {
+      errors.push(`${label} has a rule for when to show it that isn't valid.`);
+    }
+    const profileField = parseProfileField(question.profile_field, type);
+    if (question.profile_field && !profileField) {
+      errors.push(`${label} fills in a client profile field that doesn't fit its type.`);
+    }
+    questions.push({
+      question_text: text,
+      question_type: type,
+      is_required: question.is_required === true,
+      options: OPTION_QUESTION_TYPES.includes(type) ? options.map((option) => option.trim()) : [],
+      visibility_rule: rule,
+      profile_field: profileField,
+    });
+  });
+
+  return errors.length > 0 ? { errors } : { form: { title, description, questions } };
+}
@@ -1,14 +1,59 @@
 import dayjs from "dayjs";
-import { DAY_NAMES } from "~/lib/checkInFormConstants";
+import {
+  BODY_MEASUREMENT_FIELDS,
+  BODY_MEASUREMENT_UNIT,
+  CLIENT_PROFILE_FIELDS,
+  DAY_NAMES,
+  DEFAULT_REMINDER_OFFSETS_HOURS,
+  LAST_DAY_OF_MONTH,
+  SCALE_MAX,
+  SCALE_MIN,
+  VISIBILITY_OPERATOR_LABELS,
+  type BodyMeasurementKey,
+  type VisibilityOperator,
+} from "~/lib/checkInFormConstants";
+import type { CheckInQuestionType, ClientProfileField } from "~/lib/supabase";
 
-export type ScheduleFrequency = "daily" | "weekly" | "monthly";
+export type ScheduleFrequency = "daily" | "weekly" | "monthly" | "after_activation";
+
+/** A weekly schedule's send days (0 = Monday), sorted. Older schedules only have day_of_week. */
+export function scheduleWeekdays(schedule: {
+  days_of_week?: number[] | null;
+  day_of_week?: number | null;
+}): number[] {
+  const days = (schedule.days_of_week?.length ? schedule.days_of_week : [schedule.day_of_week ?? 0])
+    .map(Number)
+    .filter((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+  const sorted = Array.from(new Set(days)).sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted : [0];
+}
+
+/** Whether a YYYY-MM-DD date falls inside a pause window (both ends included). */
+export function isDateInPauseWindow(
+  date: string,
+  pausedFrom?: string | null,
+  pausedUntil?: string | null
+): boolean {
+  return !!pausedFrom && !!pausedUntil && date >= pausedFrom && date <= pausedUntil;
+}
+
+/** "Monday", "Monday and Thursday", "Monday, Wednesday and Friday" */
+function joinWithAnd(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
 
 export function formatScheduleSummary(schedule: {
   frequency: ScheduleFrequency;
   day_of_week?: number | null;
+  days_of_week?: number[] | null;
+  interval_weeks?: number | null;
   day_of_month?: number | null;
+  days_after_activation?: number | null;
   time_of_day: string;
-  next_send_at: string;
+  next_send_at: string | null;
+  paused_from?: string | null;
+  paused_until?: string | null;
   title: string;
 }): string {
   const [hours, minutes] = schedule.time_of_day.split(":").map(Number);
@@ -21,12 +66,369 @@ export function formatScheduleSummary(schedule: {
   if (schedule.frequency === "daily") {
     cadence = `Daily at ${timeLabel}`;
   } else if (schedule.frequency === "weekly") {
-    const dayName = DAY_NAMES[schedule.day_of_week ?? 0];
-    cadence = `Weekly on ${dayName} at ${timeLabel}`;
+    const dayNames = scheduleWeekdays(schedule).map((day) => DAY_NAMES[day]);
+    const interval = schedule.interval_weeks ?? 1;
+    const every = interval > 1 ? `Every ${interval} weeks` : "Weekly";
+    cadence = `${every} on ${joinWithAnd(dayNames)} at ${timeLabel}`;
+  } else if (schedule.frequency === "monthly") {
+    cadence =
+      schedule.day_of_month === LAST_DAY_OF_MONTH
+        ? `Monthly on the last day at ${timeLabel}`
+        : `Monthly on day ${schedule.day_of_month} at ${timeLabel}`;
   } else {
-    cadence = `Monthly on day ${schedule.day_of_month} at ${timeLabel}`;
+    const days = schedule.days_after_activation ?? 0;
+    cadence =
+      days === 0
+        ? `On the day each new workout plan starts, at ${timeLabel}`
+        : `${days} ${days === 1 ? "day" : "days"} after each new workout plan starts, at ${timeLabel}`;
+  }
+
+  let pause = "";
+  const today = dayjs().format("YYYY-MM-DD");
+  if (schedule.paused_from && schedule.paused_until && schedule.paused_until >= today) {
+    const until = dayjs(schedule.paused_until).format("MMM D");
+    pause =
+      schedule.paused_from <= today
+        ? ` — paused until ${until}`
+        : ` — paused ${dayjs(schedule.paused_from).format("MMM D")}–${until}`;
+  }
+
+  const nextSend = schedule.next_send_at
+    ? `next send ${dayjs(schedule.next_send_at).format("MMM D, YYYY")}`
+    : schedule.frequency === "after_activation"
+    ? "waiting for the next plan to start"
+    : "no upcoming send";
+  return `${schedule.title}: ${cadence}${pause} — ${nextSend}`;
+}
+
+/** Longest reminder lead time accepted, in hours (30 days). */
+export const MAX_REMINDER_OFFSET_HOURS = 720;
+
+/**
+ * Reminder offsets from a request: a JSON array (or comma list) of whole
+ * hours before expiry. Missing means the default; an empty list turns
+ * reminders off.
+ */
+export function parseReminderOffsets(raw: unknown): number[] {
+  if (raw === undefined || raw === null) return [...DEFAULT_REMINDER_OFFSETS_HOURS];
+  let values: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      values = raw.trim().startsWith("[") ? JSON.parse(raw) : raw.split(",").filter((v) => v.trim());
+    } catch {
+      return [...DEFAULT_REMINDER_OFFSETS_HOURS];
+    }
+  }
+  if (!Array.isArray(values)) return [...DEFAULT_REMINDER_OFFSETS_HOURS];
+  const hours = values
+    .map(Number)
+    .filter((h) => Number.isInteger(h) && h > 0 && h <= MAX_REMINDER_OFFSET_HOURS);
+  return Array.from(new Set(hours)).sort((a, b) => b - a);
+}
+
+export type BodyMeasurements = Partial<Record<BodyMeasurementKey, number>> & { unit?: string };
+
+/** Reads a body-measurement answer, keeping only known fields with a usable number. */
+export function parseBodyMeasurements(value: unknown): BodyMeasurements | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+  const measurements: BodyMeasurements = {};
+  BODY_MEASUREMENT_FIELDS.forEach(({ key }) => {
+    if (raw[key] === undefined || raw[key] === null || raw[key] === "") return;
+    const num = Number(raw[key]);
+    if (Number.isFinite(num) && num > 0) measurements[key] = Math.round(num * 10) / 10;
+  });
+  if (!BODY_MEASUREMENT_FIELDS.some(({ key }) => measurements[key] !== undefined)) return null;
+  measurements.unit = typeof raw.unit === "string" && raw.unit ? raw.unit : BODY_MEASUREMENT_UNIT;
+  return measurements;
+}
+
+/** Whether a client's answer counts as unanswered for a required question. */
+export function isCheckInResponseEmpty(questionType: string, value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === "string") return !value.trim();
+  if (Array.isArray(value)) return value.length === 0;
+  if (questionType === "body_measurements") return parseBodyMeasurements(value) === null;
+  return false;
+}
+
+export type CheckInResponseColumns = {
+  response_text?: string;
+  response_number?: number;
+  response_options?: unknown;
+};
+
+/**
+ * Maps an answer to the check_in_form_responses column its type is stored in.
+ * Returns null when the answer isn't valid for the question type.
+ */
+export function checkInResponseColumns(
+  questionType: string,
+  value: unknown
+): CheckInResponseColumns | null {
+  switch (questionType) {
+    case "number": {
+      const num = parseFloat(String(value));
+      return Number.isNaN(num) ? null : { response_number: num };
+    }
+    case "scale": {
+      const num = Number(value);
+      return Number.isInteger(num) && num >= SCALE_MIN && num <= SCALE_MAX
+        ? { response_number: num }
+        : null;
+    }
+    case "checkbox":
+      return Array.isArray(value) ? { response_options: value.map(String) } : null;
+    case "body_measurements": {
+      const measurements = parseBodyMeasurements(value);
+      return measurements ? { response_options: measurements } : null;
+    }
+    case "date":
+      return typeof value === "string" &&
+        /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+        dayjs(value).format("YYYY-MM-DD") === value
+        ? { response_text: value }
+        : null;
+    case "yes_no":
+      return value === "Yes" || value === "No" ? { response_text: value } : null;
+    case "photo":
+      return typeof value === "string" && /^https?:\/\//.test(value) ? { response_text: value } : null;
+    default:
+      return typeof value === "string" ? { response_text: value } : null;
+  }
+}
+
+/**
+ * Checks answers to the questions a client was shown: required ones must be
+ * answered and answers must fit their type (e.g. a scale of 1-10, a real
+ * date). Returns the message to show, or null when the answers can be saved.
+ */
+export function findCheckInResponseError(
+  visibleQuestions: Array<{ id: string; question_text: string; question_type: string; is_required: boolean }>,
+  responses: Record<string, unknown>
+): string | null {
+  for (const question of visibleQuestions) {
+    if (question.is_required && isCheckInResponseEmpty(question.question_type, responses[question.id])) {
+      return `Required question "${question.question_text}" is not answered`;
+    }
+  }
+  for (const question of visibleQuestions) {
+    const response = responses[question.id];
+    if (
+      !isCheckInResponseEmpty(question.question_type, response) &&
+      question.question_type !== "number" &&
+      !checkInResponseColumns(question.question_type, response)
+    ) {
+      return `Answer to "${question.question_text}" is not valid`;
+    }
+  }
+  return null;
+}
+
+export function formatBodyMeasurements(measurements: BodyMeasurements): string {
+  const unit = measurements.unit || BODY_MEASUREMENT_UNIT;
+  return BODY_MEASUREMENT_FIELDS.filter(({ key }) => measurements[key] !== undefined)
+    .map(({ key, label }) => `${label}: ${measurements[key]} ${unit}`)
+    .join(", ");
+}
+
+/** A one-line, human-readable version of a stored answer. */
+export function formatCheckInResponse(
+  response: {
+    response_text?: string | null;
+    response_number?: number | null;
+    response_options?: unknown;
+  },
+  questionType?: string
+): string {
+  if (questionType === "body_measurements") {
+    const measurements = parseBodyMeasurements(response.response_options);
+    return measurements ? formatBodyMeasurements(measurements) : "No response";
+  }
+  if (questionType === "date" && response.response_text) {
+    return dayjs(response.response_text).format("MMM D, YYYY");
   }
+  if (questionType === "photo" && response.response_text) {
+    return "Photo uploaded";
+  }
+  if (response.response_text) {
+    return response.response_text;
+  }
+  if (response.response_number !== undefined && response.response_number !== null) {
+    return questionType === "scale"
+      ? `${response.response_number} / ${SCALE_MAX}`
+      : response.response_number.toString();
+  }
+  if (response.response_options) {
+    if (Array.isArray(response.response_options)) {
+      return response.response_options.join(", ");
+    }
+    return JSON.stringify(response.response_options);
+  }
+  return "No response";
+}
+
+/**
+ * Shows a question only when an earlier question's answer matches. Questions
+ * are referenced by order_index, since question ids change when a form is
+ * edited and again when it's snapshotted into an instance.
+ */
+export interface QuestionVisibilityRule {
+  question_index: number;
+  operator: VisibilityOperator;
+  value?: string | number | null;
+}
+
+/** Operators that make sense for the answers a question type collects. */
+export function visibilityOperatorsFor(questionType: string): VisibilityOperator[] {
+  switch (questionType) {
+    case "number":
+    case "scale":
+      return ["equals", "not_equals", "greater_than", "less_than", "answered"];
+    case "checkbox":
+      return ["includes", "answered"];
+    case "select":
+    case "radio":
+    case "yes_no":
+      return ["equals", "not_equals", "answered"];
+    default:
+      return ["answered"];
+  }
+}
+
+/**
+ * Validates a stored or submitted rule. It must point at an earlier question
+ * (when `ownIndex` is known) and carry a value unless it only checks for an
+ * answer. Returns null for anything else, which means "always shown".
+ */
+export function parseVisibilityRule(raw: unknown, ownIndex?: number): QuestionVisibilityRule | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const rule = raw as Record<string, unknown>;
+  const questionIndex = Number(rule.question_index);
+  if (!Number.isInteger(questionIndex) || questionIndex < 0) return null;
+  if (ownIndex !== undefined && questionIndex >= ownIndex) return null;
+  const operator = rule.operator as VisibilityOperator;
+  if (!(operator in VISIBILITY_OPERATOR_LABELS)) return null;
+  if (operator === "answered") {
+    return { question_index: questionIndex, operator, value: null };
+  }
+  const value = rule.value;
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return { question_index: questionIndex, operator, value };
+  }
+  if (typeof value === "string" && value.trim()) {
+    return { question_index: questionIndex, operator, value: value.trim() };
+  }
+  return null;
+}
+
+/**
+ * Renumbers rules after questions were dropped or re-indexed.
+ * `originalIndexes[i]` is the index question i had before; rules pointing at
+ * a question that is gone are removed.
+ */
+export function remapVisibilityRules<T extends { visibility_rule?: QuestionVisibilityRule | null }>(
+  questions: T[],
+  originalIndexes: number[]
+): T[] {
+  const newIndexFor = new Map(originalIndexes.map((original, index) => [original, index]));
+  return questions.map((question, index) => {
+    const rule = parseVisibilityRule(question.visibility_rule);
+    if (!rule) return { ...question, visibility_rule: null };
+    const target = newIndexFor.get(rule.question_index);
+    return {
+      ...question,
+      visibility_rule:
+        target !== undefined && target < index ? { ...rule, question_index: target } : null,
+    };
+  });
+}
+
+function ruleMatches(rule: QuestionVisibilityRule, questionType: string, response: unknown): boolean {
+  if (isCheckInResponseEmpty(questionType, response)) return false;
+  if (rule.operator === "answered") return true;
+  const expected = rule.value ?? "";
+  if (rule.operator === "includes") {
+    return Array.isArray(response) && response.map(String).includes(String(expected));
+  }
+  if (rule.operator === "greater_than") return Number(response) > Number(expected);
+  if (rule.operator === "less_than") return Number(response) < Number(expected);
+  const matches =
+    questionType === "number" || questionType === "scale"
+      ? Number(response) === Number(expected)
+      : String(response) === String(expected);
+  return rule.operator === "not_equals" ? !matches : matches;
+}
+
+/**
+ * Whether a question is shown given the answers so far. A question whose
+ * controlling question is itself hidden is hidden too.
+ */
+export function isQuestionVisible<
+  Q extends {
+    id: string;
+    question_type: string;
+    order_index: number;
+    visibility_rule?: unknown;
+  }
+>(question: Q, questions: Q[], responses: Record<string, unknown>, depth = 0): boolean {
+  const rule = parseVisibilityRule(question.visibility_rule, question.order_index);
+  if (!rule) return true;
+  const source = questions.find((q) => q.order_index === rule.question_index);
+  if (!source || depth > questions.length) return true;
+  if (!isQuestionVisible(source, questions, responses, depth + 1)) return false;
+  return ruleMatches(rule, source.question_type, responses[source.id]);
+}
+
+/** "Only if "Any pain?" is Yes" for the form builder and coach views. */
+export function describeVisibilityRule(
+  rule: QuestionVisibilityRule,
+  sourceQuestionText: string | undefined
+): string {
+  const source = sourceQuestionText ? `"${sourceQuestionText}"` : `question ${rule.question_index + 1}`;
+  const operator = VISIBILITY_OPERATOR_LABELS[rule.operator];
+  return rule.operator === "answered"
+    ? `Only if ${source} ${operator}`
+    : `Only if ${source} ${operator} ${rule.value}`;
+}
+
+/** Profile fields a question's answers can fill in, for the form builder. */
+export function profileFieldsFor(questionType: string) {
+  return CLIENT_PROFILE_FIELDS.filter((field) =>
+    field.questionTypes.includes(questionType as CheckInQuestionType)
+  );
+}
+
+/** A question's profile field, or null when it's unknown or doesn't fit the question type. */
+export function parseProfileField(raw: unknown, questionType: string): ClientProfileField | null {
+  return profileFieldsFor(questionType).find((field) => field.value === raw)?.value ?? null;
+}
+
+/**
+ * What an intake answer writes to its profile field: a weight in lbs for
+ * starting_weight, otherwise text with multiple choices joined. Null when the
+ * answer has nothing usable.
+ */
+export function clientProfileValue(
+  field: ClientProfileField,
+  questionType: string,
+  value: unknown
+): string | number | null {
+  if (!parseProfileField(field, questionType) || isCheckInResponseEmpty(questionType, value)) {
+    return null;
+  }
+  if (field === "starting_weight") {
+    const weight = parseFloat(String(value));
+    return Number.isFinite(weight) && weight > 0 ? Math.round(weight * 10) / 10 : null;
+  }
+  if (Array.isArray(value)) return value.map(String).join(", ");
+  return typeof value === "string" ? value.trim() : null;
+}
 
-  const nextSend = dayjs(schedule.next_send_at).format("MMM D, YYYY");
-  return `${schedule.title}: ${cadence} — next send ${nextSend}`;
+/**
+ * Whether an intake form asks this question during registration. Photo
+ * questions are skipped: the client has no account to upload to yet.
+ */
+export function isIntakeQuestion(question: { question_type: string }): boolean {
+  return question.question_type !== "photo";
 }
@@ -1,5 +1,21 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
-import type { Database } from "~/lib/supabase";
+import type { CheckInQuestionType, Database } from "~/lib/supabase";
+import {
+  CHECK_IN_QUESTION_TYPES,
+  DEFAULT_REMINDER_OFFSETS_HOURS,
+  LAST_DAY_OF_MONTH,
+  MAX_DAYS_AFTER_ACTIVATION,
+  MAX_SCHEDULE_INTERVAL_WEEKS,
+  OPTION_QUESTION_TYPES,
+} from "~/lib/checkInFormConstants";
+import {
+  isDateInPauseWindow,
+  parseProfileField,
+  parseVisibilityRule,
+  remapVisibilityRules,
+  scheduleWeekdays,
+  type QuestionVisibilityRule,
+} from "~/lib/checkInFormUtils";
 import { Resend } from "resend";
 import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc";
@@ -11,15 +27,16 @@ dayjs.extend(timezone);
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
-export type ScheduleFrequency = "daily" | "weekly" | "monthly";
+export type ScheduleFrequency = "daily" | "weekly" | "monthly" | "after_activation";
 
 export type SnapshotQuestion = {
   question_text: string;
-  question_type: string;
+  question_type: CheckInQuestionType;
   is_required: boolean;
   options?: string[] | null;
   order_index: number;
   source_question_id?: string | null;
+  visibility_rule?: QuestionVisibilityRule | null;
 };
 
 export type SnapshotQuestionInput = {
@@ -29,14 +46,18 @@ export type SnapshotQuestionInput = {
   is_required: boolean;
   options?: string[];
   order_index: number;
+  visibility_rule?: unknown;
 };
 
 const UUID_PATTERN =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-/** habits convention: 0=Mon … 6=Sun → JS day(): 0=Sun, 1=Mon … */
-function habitsDayToJsDay(habitsDay: number): number {
-  return habitsDay === 6 ? 0 : habitsDay + 1;
+function toQuestionType(value: string): CheckInQuestionType {
+  const match = CHECK_IN_QUESTION_TYPES.find((type) => type.value === value);
+  if (!match) {
+    throw new Error(`Unsupported question type "${value}"`);
+  }
+  return match.value;
 }
 
 export function parseSnapshotQuestions(
@@ -53,26 +74,39 @@ export async function parseSnapshotQuestions(
   supabase?: SupabaseClient<Database>
 ): Promise<SnapshotQuestion[]> {
   if (Array.isArray(questionsOrJson)) {
-    return questionsOrJson
-      .filter((q) => q.question_text?.trim())
-      .map((q, index) => ({
-        question_text: q.question_text.trim(),
-        question_type: q.question_type,
-        is_required: q.is_required ?? false,
-        options: q.options ?? null,
-        order_index: index,
-        source_question_id:
-          q.id && UUID_PATTERN.test(q.id) ? q.id : null,
-      }));
+    const kept = questionsOrJson
+      .map((q, position) => ({ q, originalIndex: typeof q.order_index === "number" ? q.order_index : position }))
+      .filter(({ q }) => q.question_text?.trim());
+    const snapshot = kept
+      .map(({ q }, index) => {
+        const questionType = toQuestionType(q.question_type || "text");
+        return {
+          question_text: q.question_text.trim(),
+          question_type: questionType,
+          is_required: q.is_required ?? false,
+          // Only choice questions carry options; other types ignore leftovers
+          options: OPTION_QUESTION_TYPES.includes(questionType) ? q.options ?? null : null,
+          order_index: index,
+          source_question_id:
+            q.id && UUID_PATTERN.test(q.id) ? q.id : null,
+          visibility_rule: parseVisibilityRule(q.visibility_rule),
+        };
+      });
+    // Dropped blank questions shift the indexes rules point at
+    return remapVisibilityRules(
+      snapshot,
+      kept.map(({ originalIndex }) => originalIndex)
+    );
   }
 
   if (questionsOrJson) {
+    let parsed: SnapshotQuestionInput[];
     try {
-      const parsed = JSON.parse(questionsOrJson) as SnapshotQuestionInput[];
-      return parseSnapshotQuestions(parsed);
+      parsed = JSON.parse(questionsOrJson) as SnapshotQuestionInput[];
     } catch {
       throw new Error("Invalid questions format");
     }
+    return parseSnapshotQuestions(parsed);
   }
 
   if (!formId || !supabase) {
@@ -81,7 +115,7 @@ export async function parseSnapshotQuestions(
 
   const { data: masterQuestions, error } = await supabase
     .from("check_in_form_questions")
-    .select("id, question_text, question_type, is_required, options, order_index")
+    .select("id, question_text, question_type, is_required, options, order_index, visibility_rule")
     .eq("form_id", formId)
     .order("order_index");
 
@@ -89,69 +123,387 @@ export async function parseSnapshotQuestions(
     throw new Error("Failed to load form questions");
   }
 
-  return (masterQuestions || []).map((q) => ({
+  const questions = (masterQuestions || []).map((q, index) => ({
     question_text: q.question_text,
     question_type: q.question_type,
     is_required: q.is_required,
     options: q.options,
-    order_index: q.order_index,
+    order_index: index,
     source_question_id: q.id,
+    visibility_rule: parseVisibilityRule(q.visibility_rule),
   }));
+  return remapVisibilityRules(
+    questions,
+    (masterQuestions || []).map((q) => q.order_index)
+  );
 }
 
-export function computeNextSendAt({
-  frequency,
-  timeOfDay,
-  timezone: tz = USER_TIMEZONE,
-  fromDate,
-  dayOfWeek,
-  dayOfMonth,
-}: {
+export type ScheduleRecurrence = {
   frequency: ScheduleFrequency;
   timeOfDay: string;
   timezone?: string;
-  fromDate?: dayjs.Dayjs | string;
+  /** Weekly send days, habits convention (0 = Monday). */
+  daysOfWeek?: number[] | null;
+  /** Single weekly day, for schedules created before daysOfWeek. */
   dayOfWeek?: number | null;
+  intervalWeeks?: number | null;
+  /** 1–28, or LAST_DAY_OF_MONTH. */
   dayOfMonth?: number | null;
-}): string {
-  const [hours, minutes] = timeOfDay.split(":").map(Number);
-  const now = fromDate ? dayjs(fromDate).tz(tz) : dayjs().tz(tz);
-  let candidate = now
-    .tz(tz)
-    .hour(hours)
-    .minute(minutes)
-    .second(0)
-    .millisecond(0);
-
-  if (frequency === "daily") {
-    if (!candidate.isAfter(now)) {
-      candidate = candidate.add(1, "day");
-    }
-    return candidate.toISOString();
+  daysAfterActivation?: number | null;
+  /** When the client's current workout plan started; after_activation only. */
+  activatedAt?: string | null;
+  pausedFrom?: string | null;
+  pausedUntil?: string | null;
+};
+
+type ScheduleRow = Database["public"]["Tables"]["check_in_form_schedules"]["Row"];
+
+// A pause window is at most a year, so even a daily schedule steps past it
+const MAX_RECURRENCE_STEPS = 1000;
+
+// Day arithmetic is done on calendar dates in UTC, which has no DST, and the
+// local send time is applied last so it doesn't drift when clocks change
+function localDate(date: dayjs.Dayjs | string, tz: string) {
+  return dayjs.utc(dayjs(date).tz(tz).format("YYYY-MM-DD"));
+}
+
+function sendTimeOn(date: dayjs.Dayjs, timeOfDay: string, tz: string) {
+  return dayjs.tz(`${date.format("YYYY-MM-DD")} ${timeOfDay}`, tz);
+}
+
+/**
+ * The first send strictly after `after`, ignoring pause windows. `afterSend`
+ * says `after` is a send, so an every-N-weeks schedule skips ahead N weeks;
+ * a schedule that hasn't sent yet starts on the next matching weekday.
+ */
+function nextOccurrence(
+  rule: ScheduleRecurrence,
+  after: dayjs.Dayjs,
+  tz: string,
+  afterSend: boolean
+): dayjs.Dayjs | null {
+  const atSendTime = (date: dayjs.Dayjs) => sendTimeOn(date, rule.timeOfDay, tz);
+  const day = localDate(after, tz);
+
+  if (rule.frequency === "daily") {
+    const candidate = atSendTime(day);
+    return candidate.isAfter(after) ? candidate : atSendTime(day.add(1, "day"));
   }
 
-  if (frequency === "weekly") {
-    const targetJsDay = habitsDayToJsDay(dayOfWeek ?? 0);
-    let daysToAdd = (targetJsDay - candidate.day() + 7) % 7;
-    if (daysToAdd === 0 && !candidate.isAfter(now)) {
-      daysToAdd = 7;
-    }
-    candidate = candidate.add(daysToAdd, "day");
-    return candidate.toISOString();
+  if (rule.frequency === "weekly") {
+    const days = scheduleWeekdays({ days_of_week: rule.daysOfWeek, day_of_week: rule.dayOfWeek });
+    // Monday of the week `after` falls in (day() counts from Sunday). Later
+    // days this week come first, then the first day `intervalWeeks` weeks on
+    const weekStart = day.subtract((day.day() + 6) % 7, "day");
+    const thisWeek = days
+      .map((weekday) => atSendTime(weekStart.add(weekday, "day")))
+      .find((candidate) => candidate.isAfter(after));
+    const weeksOn = afterSend ? Math.max(1, rule.intervalWeeks ?? 1) : 1;
+    return thisWeek ?? atSendTime(weekStart.add(weeksOn, "week").add(days[0], "day"));
   }
 
-  if (frequency === "monthly") {
-    const dom = dayOfMonth ?? 1;
-    candidate = candidate.date(dom);
-    if (!candidate.isAfter(now)) {
-      candidate = candidate.add(1, "month").date(dom);
-    }
-    return candidate.toISOString();
+  if (rule.frequency === "monthly") {
+    const dom = rule.dayOfMonth ?? 1;
+    const inMonth = (month: dayjs.Dayjs) =>
+      atSendTime(dom === LAST_DAY_OF_MONTH ? month.endOf("month") : month.date(dom));
+    const candidate = inMonth(day);
+    return candidate.isAfter(after) ? candidate : inMonth(day.startOf("month").add(1, "month"));
+  }
+
+  if (rule.frequency === "after_activation") {
+    if (!rule.activatedAt) return null;
+    const candidate = atSendTime(
+      localDate(rule.activatedAt, tz).add(rule.daysAfterActivation ?? 0, "day")
+    );
+    return candidate.isAfter(after) ? candidate : null;
   }
 
   throw new Error("Invalid frequency");
 }
 
+/**
+ * The next send after `fromDate` (default now) and after `notBefore`, if
+ * given. Pass `afterSend` when `fromDate` is a due send, so the interval
+ * between weeks applies. Recurring sends that land in the pause window are
+ * skipped, keeping the cadence; a send after plan activation waits until the
+ * day after the pause instead. Null when there is nothing to send until a
+ * new plan starts.
+ */
+export function computeNextSendAt({
+  fromDate,
+  notBefore,
+  afterSend = false,
+  ...rule
+}: ScheduleRecurrence & {
+  fromDate?: dayjs.Dayjs | string;
+  notBefore?: dayjs.Dayjs | string;
+  afterSend?: boolean;
+}): string | null {
+  const tz = rule.timezone ?? USER_TIMEZONE;
+  const from = fromDate ? dayjs(fromDate).tz(tz) : dayjs().tz(tz);
+  const floor = notBefore ? dayjs(notBefore).tz(tz) : from;
+
+  let candidate = nextOccurrence(rule, from, tz, afterSend);
+  for (let step = 0; candidate && step < MAX_RECURRENCE_STEPS; step++) {
+    const isAfterFloor = candidate.isAfter(floor);
+    if (
+      isAfterFloor &&
+      !isDateInPauseWindow(candidate.format("YYYY-MM-DD"), rule.pausedFrom, rule.pausedUntil)
+    ) {
+      return candidate.toISOString();
+    }
+    candidate =
+      rule.frequency === "after_activation" && isAfterFloor
+        ? sendTimeOn(localDate(candidate, tz).add(1, "day"), rule.timeOfDay, tz)
+        : nextOccurrence(rule, candidate, tz, true);
+  }
+  return null;
+}
+
+/** The recurrence stored on a schedule row. */
+export function scheduleRecurrence(
+  schedule: Pick<
+    ScheduleRow,
+    | "frequency"
+    | "time_of_day"
+    | "timezone"
+    | "day_of_week"
+    | "days_of_week"
+    | "interval_weeks"
+    | "day_of_month"
+    | "days_after_activation"
+    | "paused_from"
+    | "paused_until"
+  >,
+  activatedAt?: string | null
+): ScheduleRecurrence {
+  return {
+    frequency: schedule.frequency,
+    timeOfDay: schedule.time_of_day,
+    timezone: schedule.timezone,
+    dayOfWeek: schedule.day_of_week,
+    daysOfWeek: schedule.days_of_week,
+    intervalWeeks: schedule.interval_weeks,
+    dayOfMonth: schedule.day_of_month,
+    daysAfterActivation: schedule.days_after_activation,
+    activatedAt,
+    pausedFrom: schedule.paused_from,
+    pausedUntil: schedule.paused_until,
+  };
+}
+
+/**
+ * Works next_send_at out again from the last send (or from when the
+ * schedule was created), after its pause window changed or the client
+ * started a new plan. Recurring sends pick up from now; a send after plan
+ * activation that came due but hasn't gone out yet is kept.
+ */
+export function recomputeNextSendAt(
+  schedule: Parameters<typeof scheduleRecurrence>[0] &
+    Pick<ScheduleRow, "last_sent_at" | "created_at">,
+  activatedAt?: string | null
+): string | null {
+  return computeNextSendAt({
+    ...scheduleRecurrence(schedule, activatedAt),
+    fromDate: schedule.last_sent_at ?? schedule.created_at,
+    afterSend: schedule.last_sent_at !== null,
+    notBefore: schedule.frequency === "after_activation" ? undefined : dayjs(),
+  });
+}
+
+/** When each client's active workout plan started, keyed by client id. */
+export async function getPlanActivationDates(
+  supabase: SupabaseClient<Database>,
+  clientIds: string[]
+): Promise<Map<string, string>> {
+  if (clientIds.length === 0) return new Map();
+  const { data, error } = await supabase
+    .from("workout_plans")
+    .select("user_id, activated_at")
+    .in("user_id", clientIds)
+    .eq("is_active", true)
+    .eq("is_template", false);
+  if (error) {
+    console.error("Error fetching workout plan activations:", error);
+    throw new Error("Failed to fetch workout plan activations");
+  }
+  const activations = new Map<string, string>();
+  (data || []).forEach((plan) => {
+    if (plan.activated_at) activations.set(plan.user_id, plan.activated_at);
+  });
+  return activations;
+}
+
+/**
+ * Reads a schedule's recurrence from a create request and checks it fits the
+ * frequency. Returns the message to show when it doesn't.
+ */
+export function parseScheduleRequest(
+  formData: FormData
+): { recurrence: ScheduleRecurrence; error?: undefined } | { recurrence?: undefined; error: string } {
+  const frequency = formData.get("frequency")?.toString() as ScheduleFrequency | undefined;
+  const dayOfWeekRaw = formData.get("dayOfWeek")?.toString();
+  const daysOfWeekRaw = formData.get("daysOfWeek")?.toString();
+  const intervalWeeks = parseInt(formData.get("intervalWeeks")?.toString() || "1", 10);
+  const daysAfterActivationRaw = formData.get("daysAfterActivation")?.toString();
+  const dayOfMonthRaw = formData.get("dayOfMonth")?.toString();
+  const timeOfDay = formData.get("timeOfDay")?.toString();
+
+  if (!frequency || !timeOfDay) {
+    return { error: "Frequency and time are required" };
+  }
+
+  if (!["daily", "weekly", "monthly", "after_activation"].includes(frequency)) {
+    return { error: "Invalid frequency" };
+  }
+
+  // Older clients send a single dayOfWeek; newer ones a JSON list of days
+  let daysOfWeek: number[] = [];
+  try {
+    const rawDays: unknown = daysOfWeekRaw
+      ? JSON.parse(daysOfWeekRaw)
+      : dayOfWeekRaw !== undefined && dayOfWeekRaw !== ""
+      ? [dayOfWeekRaw]
+      : [];
+    daysOfWeek = Array.isArray(rawDays) ? rawDays.map(Number) : [NaN];
+  } catch {
+    daysOfWeek = [NaN];
+  }
+  daysOfWeek = Array.from(new Set(daysOfWeek)).sort((a, b) => a - b);
+  const dayOfMonth =
+    dayOfMonthRaw !== undefined && dayOfMonthRaw !== ""
+      ? parseInt(dayOfMonthRaw, 10)
+      : null;
+  const daysAfterActivation =
+    daysAfterActivationRaw !== undefined && daysAfterActivationRaw !== ""
+      ? parseInt(daysAfterActivationRaw, 10)
+      : null;
+
+  if (
+    frequency === "weekly" &&
+    (daysOfWeek.length === 0 ||
+      daysOfWeek.some((day) => !Number.isInteger(day) || day < 0 || day > 6))
+  ) {
+    return { error: "At least one day of the week is required for weekly schedules" };
+  }
+
+  if (
+    frequency === "weekly" &&
+    (!Number.isInteger(intervalWeeks) || intervalWeeks < 1 || intervalWeeks > MAX_SCHEDULE_INTERVAL_WEEKS)
+  ) {
+    return { error: `Weekly schedules can repeat every 1–${MAX_SCHEDULE_INTERVAL_WEEKS} weeks` };
+  }
+
+  if (
+    frequency === "monthly" &&
+    (dayOfMonth === null ||
+      (dayOfMonth !== LAST_DAY_OF_MONTH && (dayOfMonth < 1 || dayOfMonth > 28)))
+  ) {
+    return { error: "Day of month (1–28 or the last day) is required for monthly schedules" };
+  }
+
+  if (
+    frequency === "after_activation" &&
+    (daysAfterActivation === null ||
+      !Number.isInteger(daysAfterActivation) ||
+      daysAfterActivation < 0 ||
+      daysAfterActivation > MAX_DAYS_AFTER_ACTIVATION)
+  ) {
+    return { error: `Days after plan activation (0–${MAX_DAYS_AFTER_ACTIVATION}) is required` };
+  }
+
+  return {
+    recurrence: {
+      frequency,
+      timeOfDay: timeOfDay.length === 5 ? `${timeOfDay}:00` : timeOfDay,
+      daysOfWeek: frequency === "weekly" ? daysOfWeek : null,
+      intervalWeeks: frequency === "weekly" ? intervalWeeks : 1,
+      dayOfMonth: frequency === "monthly" ? dayOfMonth : null,
+      daysAfterActivation: frequency === "after_activation" ? daysAfterActivation : null,
+    },
+  };
+}
+
+/**
+ * Starts a recurring schedule for a client, replacing any active schedule
+ * they already have for the same form.
+ */
+export async function createCheckInFormSchedule({
+  supabase,
+  coachId,
+  clientId,
+  formId,
+  recurrence,
+  expiresInDays,
+  title,
+  description,
+  questions,
+  reminderOffsetsHours,
+}: {
+  supabase: SupabaseClient<Database>;
+  coachId: string;
+  clientId: string;
+  formId: string;
+  recurrence: ScheduleRecurrence;
+  expiresInDays: number;
+  title: string;
+  description?: string | null;
+  questions: SnapshotQuestion[];
+  reminderOffsetsHours: number[];
+}) {
+  // The current plan counts while its send date is still ahead; otherwise
+  // the schedule waits for the next plan to start
+  const activatedAt =
+    recurrence.frequency === "after_activation"
+      ? (await getPlanActivationDates(supabase, [clientId])).get(clientId)
+      : null;
+
+  const nextSendAt = computeNextSendAt({
+    ...recurrence,
+    timezone: USER_TIMEZONE,
+    activatedAt,
+  });
+
+  await supabase
+    .from("check_in_form_schedules")
+    .update({ is_active: false, updated_at: new Date().toISOString() })
+    .eq("client_id", clientId)
+    .eq("form_id", formId)
+    .eq("is_active", true);
+
+  const { data: schedule, error: scheduleError } = await supabase
+    .from("check_in_form_schedules")
+    .insert({
+      coach_id: coachId,
+      client_id: clientId,
+      form_id: formId,
+      frequency: recurrence.frequency,
+      day_of_week: recurrence.daysOfWeek?.[0] ?? null,
+      days_of_week: recurrence.daysOfWeek ?? null,
+      interval_weeks: recurrence.intervalWeeks ?? 1,
+      day_of_month: recurrence.dayOfMonth ?? null,
+      days_after_activation: recurrence.daysAfterActivation ?? null,
+      time_of_day: recurrence.timeOfDay,
+      timezone: USER_TIMEZONE,
+      expires_in_days: expiresInDays,
+      title,
+      description: description || null,
+      questions_snapshot: questions,
+      reminder_offsets_hours: reminderOffsetsHours,
+      is_active: true,
+      next_send_at: nextSendAt,
+    })
+    .select()
+    .single();
+
+  if (scheduleError || !schedule) {
+    console.error("Error creating schedule:", scheduleError);
+    throw new Error("Failed to create schedule");
+  }
+
+  return schedule;
+}
+
 export async function sendCheckInFormInstance({
   supabase,
   coachId,
@@ -161,6 +513,7 @@ export async function sendCheckInFormInstance({
   description,
   questions,
   expiresInDays = 7,
+  reminderOffsetsHours = DEFAULT_REMINDER_OFFSETS_HOURS,
   sendEmail = true,
 }: {
   supabase: SupabaseClient<Database>;
@@ -171,6 +524,8 @@ export async function sendCheckInFormInstance({
   description?: string | null;
   questions: SnapshotQuestion[];
   expiresInDays?: number;
+  /** Hours before expiry to remind the client; see api.cron.check-in-form-reminders. */
+  reminderOffsetsHours?: number[];
   sendEmail?: boolean;
 }) {
   const { data: coachUser, error: coachError } = await supabase
@@ -207,6 +562,7 @@ export async function sendCheckInFormInstance({
       expires_at: expiresAt,
       title,
       description: description || null,
+      reminder_offsets_hours: reminderOffsetsHours,
     })
     .select()
     .single();
@@ -225,6 +581,7 @@ export async function sendCheckInFormInstance({
       options: q.options,
       order_index: q.order_index,
       source_question_id: q.source_question_id,
+      visibility_rule: q.visibility_rule ?? null,
     }));
 
     const { error: snapshotError } = await supabase
@@ -297,3 +654,68 @@ export async function hasPendingFormInstance(
 
   return (data?.length ?? 0) > 0;
 }
+
+/**
+ * Saves a form and its questions for a coach, numbering the questions in the
+ * order given. The form is removed again if its questions can't be saved.
+ */
+export async function createCheckInForm({
+  supabase,
+  coachId,
+  title,
+  description,
+  questions,
+}: {
+  supabase: SupabaseClient<Database>;
+  coachId: string;
+  title: string;
+  description?: string | null;
+  questions: Array<{
+    question_text: string;
+    question_type: string;
+    is_required?: boolean;
+    options?: string[] | null;
+    visibility_rule?: unknown;
+    profile_field?: unknown;
+  }>;
+}) {
+  // Checked before anything is saved, so an unknown type fails cleanly
+  const questionRows = questions.map((q, index) => ({
+    question_text: q.question_text,
+    question_type: toQuestionType(q.question_type),
+    is_required: !!q.is_required,
+    options: q.options && q.options.length > 0 ? q.options : null,
+    order_index: index,
+    visibility_rule: parseVisibilityRule(q.visibility_rule, index),
+    profile_field: parseProfileField(q.profile_field, q.question_type),
+  }));
+
+  const { data: form, error: formError } = await supabase
+    .from("check_in_forms")
+    .insert({
+      coach_id: coachId,
+      title,
+      description: description || undefined,
+    })
+    .select()
+    .single();
+
+  if (formError || !form) {
+    console.error("Error creating form:", formError);
+    throw new Error("Failed to create form");
+  }
+
+  if (questionRows.length > 0) {
+    const { error: questionsError } = await supabase
+      .from("check_in_form_questions")
+      .insert(questionRows.map((row) => ({ ...row, form_id: form.id })));
+
+    if (questionsError) {
+      console.error("Error creating questions:", questionsError);
+      await supabase.from("check_in_forms").delete().eq("id", form.id);
+      throw new Error("Failed to create questions");
+    }
+  }
+
+  return form;
+}
@@ -0,0 +1,280 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { Resend } from "resend";
+import type { Database } from "~/lib/supabase";
+import { MAX_REMINDER_OFFSET_HOURS } from "~/lib/checkInFormUtils";
+import { toUserTimezone } from "~/lib/timezone";
+
+type ServiceClient = SupabaseClient<Database>;
+
+const resend = new Resend(process.env.RESEND_API_KEY);
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type OpenInstance = {
+  id: string;
+  client_id: string;
+  coach_id: string;
+  sent_at: string;
+  expires_at?: string;
+  title?: string;
+  reminder_offsets_hours?: number[];
+  reminders_sent_hours?: number[];
+  check_in_forms: { title: string } | null;
+};
+
+function formTitle(instance: { title?: string | null; check_in_forms: { title: string } | null }) {
+  return instance.title || instance.check_in_forms?.title || "Check-In Form";
+}
+
+/** "5 hours", "2 days" */
+function formatTimeLeft(ms: number): string {
+  const hours = Math.max(1, Math.round(ms / HOUR_MS));
+  if (hours < 48) return `${hours} ${hours === 1 ? "hour" : "hours"}`;
+  const days = Math.round(hours / 24);
+  return `${days} days`;
+}
+
+/**
+ * Offsets whose reminder time has passed and that haven't been handled yet.
+ * `skipped` ones fell before the form was even sent (e.g. a 3-day reminder on
+ * a 1-day form) and are recorded without reminding anyone.
+ */
+function reminderOffsetsToHandle(instance: OpenInstance, now: number) {
+  const expiresAt = new Date(instance.expires_at as string).getTime();
+  const sentAt = new Date(instance.sent_at).getTime();
+  const handled = new Set(instance.reminders_sent_hours || []);
+  const due: number[] = [];
+  const skipped: number[] = [];
+  (instance.reminder_offsets_hours || []).forEach((hours) => {
+    const remindAt = expiresAt - hours * HOUR_MS;
+    if (handled.has(hours) || remindAt > now) return;
+    (remindAt < sentAt ? skipped : due).push(hours);
+  });
+  return { due, skipped };
+}
+
+/**
+ * Posts the reminder in chat and, if the client wants them, emails it. The
+ * email is best-effort; a chat message that didn't post is a failure.
+ */
+async function remindClient(
+  supabase: ServiceClient,
+  instance: OpenInstance,
+  client: { name: string; email?: string | null; email_notifications?: boolean | null } | undefined,
+  now: number
+): Promise<{ success: boolean; error?: string }> {
+  const title = formTitle(instance);
+  const timeLeft = formatTimeLeft(new Date(instance.expires_at as string).getTime() - now);
+
+  const { error: chatError } = await supabase.from("chats").insert({
+    coach_id: instance.coach_id,
+    client_id: instance.client_id,
+    group_id: null,
+    sender: "coach" as const,
+    content: `⏰ Reminder: your check-in "${title}" closes in ${timeLeft}. You can fill it out from your dashboard.`,
+  });
+  if (chatError) {
+    console.error("Error posting check-in reminder message:", chatError);
+  }
+
+  if (client?.email_notifications && client.email) {
+    try {
+      await resend.emails.send({
+        from: "Kava Training <noreply@kavatraining.com>",
+        to: client.email,
+        subject: `Reminder: ${title} closes in ${timeLeft}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #333;">Your check-in is still open</h2>
+            <p>Hi ${client.name},</p>
+            <p>Just a reminder that <strong>${title}</strong> closes in ${timeLeft}, on ${toUserTimezone(
+              instance.expires_at as string
+            ).format("MMMM D [at] h:mm A")}.</p>
+            <p>Please log into your Kava Training dashboard to complete it.</p>
+            <br>
+            <p>Best regards,<br>The Kava Training Team</p>
+          </div>
+        `,
+      });
+    } catch (emailError) {
+      console.error("Error sending check-in reminder email:", emailError);
+    }
+  }
+
+  return chatError ? { success: false, error: chatError.message } : { success: true };
+}
+
+/**
+ * Sends at most one reminder per open form per run: if the job was down and
+ * several offsets came due together, the client hears about it once.
+ */
+async function sendDueReminders(supabase: ServiceClient, results: { reminded: number; errors: string[] }) {
+  const now = Date.now();
+  const { data: instances, error } = await supabase
+    .from("check_in_form_instances")
+    .select(
+      "id, client_id, coach_id, sent_at, expires_at, title, reminder_offsets_hours, reminders_sent_hours, check_in_forms(title)"
+    )
+    .eq("status", "sent")
+    .is("completed_at", null)
+    .gt("expires_at", new Date(now).toISOString())
+    .lte("expires_at", new Date(now + MAX_REMINDER_OFFSET_HOURS * HOUR_MS).toISOString());
+  if (error) {
+    console.error("Error fetching open check-in forms:", error);
+    throw new Error("Failed to fetch open check-in forms");
+  }
+
+  const pending = ((instances || []) as unknown as OpenInstance[])
+    .map((instance) => ({ instance, ...reminderOffsetsToHandle(instance, now) }))
+    .filter(({ due, skipped }) => due.length > 0 || skipped.length > 0);
+  if (pending.length === 0) return;
+
+  const clientIds = Array.from(new Set(pending.map(({ instance }) => instance.client_id)));
+  const { data: clients } = await supabase
+    .from("users")
+    .select("id, name, email, email_notifications")
+    .in("id", clientIds);
+  const clientsById = new Map((clients || []).map((client) => [client.id, client]));
+
+  for (const { instance, due, skipped } of pending) {
+    try {
+      // Mark first so a slow or failed send is never repeated on the next run
+      const { error: updateError } = await supabase
+        .from("check_in_form_instances")
+        .update({
+          reminders_sent_hours: [...(instance.reminders_sent_hours || []), ...due, ...skipped],
+        })
+        .eq("id", instance.id)
+        .eq("status", "sent");
+      if (updateError) {
+        throw new Error(updateError.message);
+      }
+      if (due.length > 0) {
+        const reminder = await remindClient(supabase, instance, clientsById.get(instance.client_id), now);
+        if (!reminder.success) {
+          throw new Error(reminder.error);
+        }
+        results.reminded++;
+      }
+    } catch (reminderError) {
+      const message = reminderError instanceof Error ? reminderError.message : "Unknown error";
+      console.error(`Error reminding about check-in form ${instance.id}:`, reminderError);
+      results.errors.push(`${instance.id}: ${message}`);
+    }
+  }
+}
+
+async function expireOverdueForms(supabase: ServiceClient): Promise<number> {
+  const { data, error } = await supabase
+    .from("check_in_form_instances")
+    .update({ status: "expired" })
+    .eq("status", "sent")
+    .is("completed_at", null)
+    .lte("expires_at", new Date().toISOString())
+    .select("id");
+  if (error) {
+    console.error("Error expiring check-in forms:", error);
+    throw new Error("Failed to expire check-in forms");
+  }
+  return data?.length ?? 0;
+}
+
+/** Emails each coach one list of the check-ins that expired unanswered since the last digest. */
+async function sendMissedCheckInDigests(supabase: ServiceClient): Promise<number> {
+  const { data: missed, error } = await supabase
+    .from("check_in_form_instances")
+    .select("id, client_id, coach_id, expires_at, title, check_in_forms(title)")
+    .eq("status", "expired")
+    .is("missed_digest_sent_at", null)
+    .order("expires_at", { ascending: true });
+  if (error) {
+    console.error("Error fetching missed check-in forms:", error);
+    throw new Error("Failed to fetch missed check-in forms");
+  }
+  const rows = (missed || []) as unknown as Array<
+    Pick<OpenInstance, "id" | "client_id" | "coach_id" | "expires_at" | "title" | "check_in_forms">
+  >;
+  if (rows.length === 0) return 0;
+
+  const userIds = Array.from(new Set(rows.flatMap((row) => [row.client_id, row.coach_id])));
+  const { data: users } = await supabase
+    .from("users")
+    .select("id, name, email, email_notifications")
+    .in("id", userIds);
+  const usersById = new Map((users || []).map((user) => [user.id, user]));
+
+  const byCoach = new Map<string, typeof rows>();
+  rows.forEach((row) => byCoach.set(row.coach_id, [...(byCoach.get(row.coach_id) || []), row]));
+
+  let digests = 0;
+  for (const [coachId, coachRows] of byCoach) {
+    const coach = usersById.get(coachId);
+    if (coach?.email_notifications && coach.email) {
+      const items = coachRows
+        .map(
+          (row) =>
+            `<li style="margin-bottom: 8px;"><strong>${usersById.get(row.client_id)?.name || "A client"}</strong> — ${formTitle(
+              row
+            )} <span style="color: #6b7280;">(closed ${toUserTimezone(row.expires_at as string).format(
+              "MMM D, h:mm A"
+            )})</span></li>`
+        )
+        .join("");
+      try {
+        await resend.emails.send({
+          from: "Kava Training <noreply@kavatraining.com>",
+          to: coach.email,
+          subject: `${coachRows.length} missed check-in${coachRows.length === 1 ? "" : "s"}`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+              <h2 style="color: #333;">Missed check-ins</h2>
+              <p>Hi ${coach.name},</p>
+              <p>These check-in forms closed without a response:</p>
+              <ul style="padding-left: 20px; color: #374151;">${items}</ul>
+              <p>You can resend a form or follow up from each client's page in your dashboard.</p>
+              <br>
+              <p>Best regards,<br>The Kava Training Team</p>
+            </div>
+          `,
+        });
+        digests++;
+      } catch (emailError) {
+        // Left unmarked so the next run tries again
+        console.error("Error sending missed check-in digest:", emailError);
+        continue;
+      }
+    }
+
+    const { error: markError } = await supabase
+      .from("check_in_form_instances")
+      .update({ missed_digest_sent_at: new Date().toISOString() })
+      .in(
+        "id",
+        coachRows.map((row) => row.id)
+      );
+    if (markError) {
+      console.error("Error marking missed check-in digest as sent:", markError);
+    }
+  }
+  return digests;
+}
+
+/**
+ * One pass of the check-in follow-up job: remind clients about forms that
+ * close soon, expire the ones past their deadline, then tell coaches who
+ * missed theirs.
+ */
+export async function processCheckInFormReminders(supabase: ServiceClient) {
+  const results = {
+    reminded: 0,
+    expired: 0,
+    digests: 0,
+    errors: [] as string[],
+  };
+
+  await sendDueReminders(supabase, results);
+  results.expired = await expireOverdueForms(supabase);
+  results.digests = await sendMissedCheckInDigests(supabase);
+
+  return results;
+}
@@ -0,0 +1,447 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import OpenAI from "openai";
+import { getOpenAIConfig } from "~/config/env.server";
+import type { Database } from "~/lib/supabase";
+import { getCurrentDate, getCurrentTimestampISO, toUserTimezone } from "~/lib/timezone";
+import type {
+  CheckInSummary,
+  CheckInSummaryAnswer,
+  CheckInSummaryInput,
+} from "~/types/checkIns";
+
+type ServiceClient = SupabaseClient<Database>;
+
+/** Writes the summary text. Swap in the stub for local dev and tests. */
+export interface CheckInSummaryProvider {
+  name: string;
+  summarize(input: CheckInSummaryInput): Promise<Pick<CheckInSummary, "summary" | "concerns">>;
+}
+
+const SUMMARY_DAYS = 7;
+const MAX_TRANSCRIPT_LENGTH = 2000;
+const LOW_COMPLIANCE_PERCENT = 60;
+const LARGE_WEEKLY_WEIGHT_CHANGE = 3;
+const MAX_CONCERNS = 5;
+
+function formatAnswer(response: {
+  response_text: string | null;
+  response_number: number | null;
+  response_options: unknown;
+}): string {
+  if (Array.isArray(response.response_options) && response.response_options.length > 0) {
+    return response.response_options.map(String).join(", ");
+  }
+  if (response.response_number !== null && response.response_number !== undefined) {
+    return String(response.response_number);
+  }
+  return response.response_text?.trim() || "";
+}
+
+function percent(completed: number, expected: number): number | null {
+  return expected > 0 ? Math.min(100, Math.round((completed / expected) * 100)) : null;
+}
+
+async function getLatestFormAnswers(
+  supabase: ServiceClient,
+  clientId: string,
+  coachId: string
+): Promise<CheckInSummaryInput["latestForm"]> {
+  const { data: instance, error } = await supabase
+    .from("check_in_form_instances")
+    .select("id, title, completed_at, form:check_in_forms(title)")
+    .eq("client_id", clientId)
+    .eq("coach_id", coachId)
+    .eq("status", "completed")
+    .order("completed_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching latest check-in form:", error);
+    throw new Error("Failed to fetch check-in answers");
+  }
+  if (!instance || !instance.completed_at) return null;
+
+  const [{ data: snapshotQuestions }, { data: responses, error: responsesError }] = await Promise.all([
+    supabase
+      .from("check_in_form_instance_questions")
+      .select("id, question_text, question_type, order_index")
+      .eq("instance_id", instance.id),
+    supabase
+      .from("check_in_form_responses")
+      .select("question_id, instance_question_id, response_text, response_number, response_options")
+      .eq("instance_id", instance.id),
+  ]);
+
+  if (responsesError) {
+    console.error("Error fetching check-in form responses:", responsesError);
+    throw new Error("Failed to fetch check-in answers");
+  }
+
+  // Instances sent before question snapshots existed answer the form's questions directly
+  const legacyIds = (responses || [])
+    .filter((response) => !response.instance_question_id && response.question_id)
+    .map((response) => response.question_id as string);
+  const { data: legacyQuestions } = legacyIds.length
+    ? await supabase
+        .from("check_in_form_questions")
+        .select("id, question_text, question_type, order_index")
+        .in("id", legacyIds)
+    : { data: [] };
+
+  const questions = new Map(
+    [...(snapshotQuestions || []), ...(legacyQuestions || [])].map((question) => [question.id, question])
+  );
+
+  const answers = (responses || [])
+    .map((response) => {
+      const question = questions.get(response.instance_question_id || response.question_id || "");
+      return question && question.question_type !== "photo"
+        ? { question, answer: formatAnswer(response) }
+        : null;
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => !!entry && entry.answer !== "")
+    .sort((a, b) => a.question.order_index - b.question.order_index)
+    .map<CheckInSummaryAnswer>(({ question, answer }) => ({
+      question: question.question_text,
+      answer,
+    }));
+
+  const form = instance.form as { title: string } | { title: string }[] | null;
+  const formTitle = Array.isArray(form) ? form[0]?.title : form?.title;
+
+  return {
+    title: instance.title || formTitle || "Check-in form",
+    completedAt: instance.completed_at,
+    answers,
+  };
+}
+
+async function getWeeklyCompliance(
+  supabase: ServiceClient,
+  clientId: string,
+  periodStart: string,
+  periodEndExclusive: string
+): Promise<CheckInSummaryInput["compliance"]> {
+  const [{ data: workoutPlans }, { data: mealPlans }, { data: supplements }] = await Promise.all([
+    supabase.from("workout_plans").select("id").eq("user_id", clientId).eq("is_active", true),
+    supabase.from("meal_plans").select("id").eq("user_id", clientId).eq("is_active", true),
+    supabase.from("supplements").select("id, active_from").eq("user_id", clientId),
+  ]);
+
+  const workoutPlanId = workoutPlans?.[0]?.id;
+  const mealPlanId = mealPlans?.[0]?.id;
+  const activeSupplementIds = new Set(
+    (supplements || [])
+      .filter((supplement) => !supplement.active_from || supplement.active_from <= periodStart)
+      .map((supplement) => supplement.id)
+  );
+
+  const [
+    { data: workoutDays },
+    { data: meals },
+    { data: workoutCompletions },
+    { data: mealCompletions },
+    { data: supplementCompletions },
+  ] = await Promise.all([
+    workoutPlanId
+      ? supabase.from("workout_days").select("is_rest").eq("workout_plan_id", workoutPlanId)
+      : Promise.resolve({ data: [] as { is_rest: boolean }[] }),
+    mealPlanId
+      ? supabase.from("meals").select("id, name, time").eq("meal_plan_id", mealPlanId)
+      : Promise.resolve({ data: [] as { id: number; name: string; time: string }[] }),
+    supabase
+      .from("workout_completions")
+      .select("completed_at, completed_groups")
+      .eq("user_id", clientId)
+      .gte("completed_at", periodStart)
+      .lt("completed_at", periodEndExclusive),
+    supabase
+      .from("meal_completions")
+      .select("completed_at, meal_id")
+      .eq("user_id", clientId)
+      .gte("completed_at", periodStart)
+      .lt("completed_at", periodEndExclusive),
+    supabase
+      .from("supplement_completions")
+      .select("completed_at, supplement_id")
+      .eq("user_id", clientId)
+      .gte("completed_at", periodStart)
+      .lt("completed_at", periodEndExclusive),
+  ]);
+
+  const expectedWorkouts = workoutPlanId
+    ? (workoutDays || []).filter((day) => !day.is_rest).length
+    : 0;
+  const completedWorkouts = (workoutCompletions || []).filter(
+    (completion) => Array.isArray(completion.completed_groups) && completion.completed_groups.length > 0
+  ).length;
+
+  // A/B meal options share a name and time and count as one meal
+  const mealGroupById = new Map<number, string>(
+    (meals || []).map((meal) => [meal.id, `${meal.name}-${meal.time}`])
+  );
+  const mealGroupCount = new Set(mealGroupById.values()).size;
+  const completedMealGroups = new Set(
+    (mealCompletions || [])
+      .filter((completion) => mealGroupById.has(completion.meal_id))
+      .map((completion) => `${completion.completed_at.slice(0, 10)}|${mealGroupById.get(completion.meal_id)}`)
+  );
+
+  const completedSupplements = (supplementCompletions || []).filter((completion) =>
+    activeSupplementIds.has(completion.supplement_id)
+  ).length;
+
+  return {
+    workouts: percent(completedWorkouts, expectedWorkouts),
+    meals: percent(completedMealGroups.size, mealGroupCount * SUMMARY_DAYS),
+    supplements: percent(completedSupplements, activeSupplementIds.size * SUMMARY_DAYS),
+  };
+}
+
+/** Collects a client's last week of check-in data for the summary. */
+export async function getCheckInSummaryInput({
+  supabase,
+  clientId,
+  coachId,
+}: {
+  supabase: ServiceClient;
+  clientId: string;
+  coachId: string;
+}): Promise<CheckInSummaryInput> {
+  const today = getCurrentDate();
+  const start = today.subtract(SUMMARY_DAYS - 1, "day").startOf("day");
+  const periodStart = start.format("YYYY-MM-DD");
+  const periodEndExclusive = today.add(1, "day").format("YYYY-MM-DD");
+
+  const { data: client, error: clientError } = await supabase
+    .from("users")
+    .select("id, name, goal")
+    .eq("id", clientId)
+    .single();
+  if (clientError || !client) {
+    throw new Error("Client not found");
+  }
+
+  const [latestForm, compliance, { data: checkIns, error: checkInsError }, { data: weightLogs, error: weightError }] =
+    await Promise.all([
+      getLatestFormAnswers(supabase, clientId, coachId),
+      getWeeklyCompliance(supabase, clientId, periodStart, periodEndExclusive),
+      supabase
+        .from("check_ins")
+        .select("created_at, transcript")
+        .eq("client_id", clientId)
+        .not("transcript", "is", null)
+        .gte("created_at", start.toISOString())
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("weight_logs")
+        .select("weight, logged_at")
+        .eq("user_id", clientId)
+        .order("logged_at", { ascending: true }),
+    ]);
+
+  if (checkInsError || weightError) {
+    console.error("Error fetching check-in summary data:", checkInsError || weightError);
+    throw new Error("Failed to fetch check-in summary data");
+  }
+
+  const transcripts = (checkIns || [])
+    .filter((checkIn) => checkIn.transcript && checkIn.transcript.trim())
+    .map((checkIn) => ({
+      date: toUserTimezone(checkIn.created_at).format("YYYY-MM-DD"),
+      text: checkIn.transcript.trim().slice(0, MAX_TRANSCRIPT_LENGTH),
+    }));
+
+  const logs = (weightLogs || []).map((log) => ({
+    weight: Number(log.weight),
+    loggedAt: toUserTimezone(log.logged_at).format("YYYY-MM-DD"),
+  }));
+  const inPeriod = logs.filter((log) => log.loggedAt >= periodStart);
+  const before = logs.filter((log) => log.loggedAt < periodStart);
+  const startWeight = before.length ? before[before.length - 1].weight : inPeriod[0]?.weight ?? null;
+  const latestWeight = inPeriod.length ? inPeriod[inPeriod.length - 1].weight : null;
+
+  return {
+    clientName: client.name,
+    goal: client.goal || null,
+    periodStart,
+    periodEnd: today.format("YYYY-MM-DD"),
+    latestForm,
+    transcripts,
+    weight: {
+      start: startWeight,
+      latest: latestWeight,
+      change:
+        startWeight !== null && latestWeight !== null
+          ? Math.round((latestWeight - startWeight) * 10) / 10
+          : null,
+      logCount: inPeriod.length,
+    },
+    compliance,
+  };
+}
+
+function describeCompliance(compliance: CheckInSummaryInput["compliance"]): string {
+  const parts = (
+    [
+      ["workouts", compliance.workouts],
+      ["meals", compliance.meals],
+      ["supplements", compliance.supplements],
+    ] as const
+  )
+    .filter(([, value]) => value !== null)
+    .map(([label, value]) => `${label} ${value}%`);
+  return parts.length ? parts.join(", ") : "no active plans";
+}
+
+/**
+ * Rule-based summary with no model behind it. The same input always gives
+ * the same output, which is what local dev and tests need.
+ */
+export const stubCheckInSummaryProvider: CheckInSummaryProvider = {
+  name: "stub",
+  async summarize(input) {
+    const { weight, compliance, latestForm, transcripts } = input;
+    const sentences = [
+      `${input.clientName}'s week (${input.periodStart} to ${input.periodEnd}): compliance was ${describeCompliance(compliance)}.`,
+      weight.change !== null
+        ? `Weight went from ${weight.start} to ${weight.latest} lbs (${weight.change > 0 ? "+" : ""}${weight.change}).`
+        : "No weight logged this week.",
+      latestForm
+        ? `Latest form "${latestForm.title}" has ${latestForm.answers.length} answers.`
+        : "No check-in form has been completed yet.",
+      `${transcripts.length} recorded check-in${transcripts.length === 1 ? "" : "s"} this week.`,
+    ];
+
+    const concerns: string[] = [];
+    (
+      [
+        ["Workout", compliance.workouts],
+        ["Meal", compliance.meals],
+        ["Supplement", compliance.supplements],
+      ] as const
+    ).forEach(([label, value]) => {
+      if (value !== null && value < LOW_COMPLIANCE_PERCENT) {
+        concerns.push(`${label} compliance is ${value}%.`);
+      }
+    });
+    if (weight.change !== null && Math.abs(weight.change) >= LARGE_WEEKLY_WEIGHT_CHANGE) {
+      concerns.push(`Weight changed by ${weight.change} lbs in a week.`);
+    }
+    if (weight.logCount === 0) {
+      concerns.push("No weigh-ins this week.");
+    }
+    if (!latestForm || latestForm.completedAt < input.periodStart) {
+      concerns.push("No check-in form completed this week.");
+    }
+
+    return { summary: sentences.join(" "), concerns: concerns.slice(0, MAX_CONCERNS) };
+  },
+};
+
+const SYSTEM_PROMPT = `You help a fitness coach review a client's week.
+Write from the data given only; do not invent numbers.
+Reply with JSON: {"summary": string, "concerns": string[]}.
+"summary" is 2-4 plain sentences for the coach about how the week went.
+"concerns" lists up to ${MAX_CONCERNS} short items the coach should follow up on
+(pain, injury, low energy or mood, poor sleep, low compliance, sharp weight changes, missed check-ins).
+Use an empty list when nothing stands out.`;
+
+function parseProviderReply(content: string | null | undefined) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content || "");
+  } catch {
+    throw new Error("The summary could not be read");
+  }
+  const reply = parsed as { summary?: unknown; concerns?: unknown };
+  if (typeof reply.summary !== "string" || !reply.summary.trim()) {
+    throw new Error("The summary could not be read");
+  }
+  return {
+    summary: reply.summary.trim(),
+    concerns: Array.isArray(reply.concerns)
+      ? reply.concerns
+          .filter((concern): concern is string => typeof concern === "string" && !!concern.trim())
+          .map((concern) => concern.trim())
+          .slice(0, MAX_CONCERNS)
+      : [],
+  };
+}
+
+export function createOpenAICheckInSummaryProvider(
+  model = process.env.CHECK_IN_SUMMARY_MODEL || "gpt-4o-mini"
+): CheckInSummaryProvider {
+  return {
+    name: "openai",
+    async summarize(input) {
+      const openai = new OpenAI(getOpenAIConfig());
+      const completion = await openai.chat.completions.create({
+        model,
+        temperature: 0.2,
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          { role: "user", content: JSON.stringify(input) },
+        ],
+      });
+      return parseProviderReply(completion.choices[0]?.message?.content);
+    },
+  };
+}
+
+/** OpenAI by default; set CHECK_IN_SUMMARY_PROVIDER=stub to run without it. */
+export function getCheckInSummaryProvider(): CheckInSummaryProvider {
+  return process.env.CHECK_IN_SUMMARY_PROVIDER === "stub"
+    ? stubCheckInSummaryProvider
+    : createOpenAICheckInSummaryProvider();
+}
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const cache = new Map<string, { expires: number; summary: CheckInSummary }>();
+
+/**
+ * A coach-facing summary of the client's last week: latest form answers,
+ * recording transcripts, weight change and compliance. Cached for an hour
+ * per client unless `refresh` is set.
+ */
+export async function summarizeClientWeek({
+  supabase,
+  clientId,
+  coachId,
+  refresh = false,
+  provider = getCheckInSummaryProvider(),
+}: {
+  supabase: ServiceClient;
+  clientId: string;
+  coachId: string;
+  refresh?: boolean;
+  provider?: CheckInSummaryProvider;
+}): Promise<CheckInSummary> {
+  const cacheKey = `${provider.name}:${coachId}:${clientId}`;
+  const cached = cache.get(cacheKey);
+  if (!refresh && cached && cached.expires > Date.now()) {
+    return cached.summary;
+  }
+
+  const input = await getCheckInSummaryInput({ supabase, clientId, coachId });
+
+  let written: Pick<CheckInSummary, "summary" | "concerns">;
+  try {
+    written = await provider.summarize(input);
+  } catch (error) {
+    console.error(`Error writing check-in summary with ${provider.name}:`, error);
+    throw new Error("Failed to write the weekly summary");
+  }
+
+  const summary: CheckInSummary = {
+    ...written,
+    provider: provider.name,
+    generatedAt: getCurrentTimestampISO(),
+    periodStart: input.periodStart,
+    periodEnd: input.periodEnd,
+  };
+  cache.set(cacheKey, { summary, expires: Date.now() + CACHE_TTL_MS });
+  return summary;
+}
@@ -0,0 +1,264 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import OpenAI, { toFile } from "openai";
+import { getOpenAIConfig } from "~/config/env.server";
+import type { Database } from "~/lib/supabase";
+import { getCurrentTimestampISO } from "~/lib/timezone";
+import type { CheckInSearchResult, TranscriptSegment } from "~/types/checkIns";
+
+type ServiceClient = SupabaseClient<Database>;
+
+/** Turns a recording into text. Swap in the stub for local dev and tests. */
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(media: {
+    data: Blob;
+    fileName: string;
+    contentType: string;
+  }): Promise<{ text: string; segments: TranscriptSegment[] }>;
+}
+
+const MEDIA_BUCKET = "checkin-media";
+// Netlify stops synchronous functions after 10 seconds, and one recording can
+// take several seconds to transcribe, so each run takes a small batch and
+// stops starting new recordings once RUN_BUDGET_MS has passed
+const BATCH_SIZE = 2;
+const RUN_BUDGET_MS = 5000;
+// A claim older than this was cut off mid-run and is picked up again
+const STALE_CLAIM_MINUTES = 15;
+const MAX_ATTEMPTS = 3;
+// Whisper rejects uploads over 25 MB
+const MAX_MEDIA_BYTES = 25 * 1024 * 1024;
+const MAX_SEARCH_RESULTS = 50;
+
+type PendingCheckIn = {
+  id: string;
+  video_url: string | null;
+  audio_url: string | null;
+  recording_type: string | null;
+  transcription_attempts: number;
+};
+
+class PermanentTranscriptionError extends Error {}
+
+/** Storage path of a public checkin-media URL. */
+function mediaPath(url: string): string | null {
+  const marker = `/${MEDIA_BUCKET}/`;
+  const index = url.indexOf(marker);
+  if (index === -1) return null;
+  return decodeURIComponent(url.slice(index + marker.length).split("?")[0]);
+}
+
+export function createWhisperTranscriptionProvider(
+  model = process.env.TRANSCRIPTION_MODEL || "whisper-1"
+): TranscriptionProvider {
+  return {
+    name: "openai",
+    async transcribe({ data, fileName, contentType }) {
+      const openai = new OpenAI(getOpenAIConfig());
+      const result = await openai.audio.transcriptions.create({
+        model,
+        file: await toFile(data, fileName, { type: contentType }),
+        response_format: "verbose_json",
+        timestamp_granularities: ["segment"],
+      });
+      return {
+        text: result.text.trim(),
+        segments: (result.segments || []).map((segment) => ({
+          start: segment.start,
+          end: segment.end,
+          text: segment.text.trim(),
+        })),
+      };
+    },
+  };
+}
+
+/** Stands in for Whisper: the same file always gives the same transcript. */
+export const stubTranscriptionProvider: TranscriptionProvider = {
+  name: "stub",
+  async transcribe({ data, fileName }) {
+    const text = `Transcript of ${fileName} (${data.size} bytes).`;
+    return { text, segments: [{ start: 0, end: 1, text }] };
+  },
+};
+
+/** Whisper by default; set TRANSCRIPTION_PROVIDER=stub to run without it. */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  return process.env.TRANSCRIPTION_PROVIDER === "stub"
+    ? stubTranscriptionProvider
+    : createWhisperTranscriptionProvider();
+}
+
+async function transcribeCheckIn(
+  supabase: ServiceClient,
+  checkIn: PendingCheckIn,
+  provider: TranscriptionProvider
+) {
+  // video_audio recordings store the same file in both columns
+  const url = checkIn.audio_url || checkIn.video_url;
+  const path = url ? mediaPath(url) : null;
+  if (!path) {
+    throw new PermanentTranscriptionError("Recording file not found");
+  }
+
+  const { data, error } = await supabase.storage.from(MEDIA_BUCKET).download(path);
+  if (error || !data) {
+    throw new Error(`Failed to download recording: ${error?.message || "no data"}`);
+  }
+  if (data.size > MAX_MEDIA_BYTES) {
+    throw new PermanentTranscriptionError("Recording is too large to transcribe");
+  }
+
+  const fileName = path.split("/").pop() || "recording.webm";
+  const contentType =
+    data.type || (checkIn.recording_type === "audio" ? "audio/webm" : "video/webm");
+  return provider.transcribe({ data, fileName, contentType });
+}
+
+/**
+ * Transcribes check-in recordings that were uploaded without a transcript.
+ * Failed recordings, and ones whose run was cut off, are retried on later
+ * runs up to MAX_ATTEMPTS times.
+ */
+export async function processPendingTranscriptions(
+  supabase: ServiceClient,
+  provider: TranscriptionProvider = getTranscriptionProvider()
+) {
+  const startedAt = Date.now();
+  const staleBefore = new Date(startedAt - STALE_CLAIM_MINUTES * 60 * 1000).toISOString();
+
+  // Cut-off claims that have used up their attempts won't be retried
+  const { error: expireError } = await supabase
+    .from("check_ins")
+    .update({ transcription_status: "failed", transcription_error: "Transcription timed out" })
+    .eq("transcription_status", "processing")
+    .lt("transcription_started_at", staleBefore)
+    .gte("transcription_attempts", MAX_ATTEMPTS);
+  if (expireError) {
+    console.error("Error expiring stale transcriptions:", expireError);
+  }
+
+  const { data: pending, error } = await supabase
+    .from("check_ins")
+    .select("id, video_url, audio_url, recording_type, transcription_attempts")
+    .or(
+      [
+        "transcription_status.eq.pending",
+        `and(transcription_status.eq.failed,transcription_attempts.lt.${MAX_ATTEMPTS})`,
+        `and(transcription_status.eq.processing,transcription_started_at.lt.${staleBefore})`,
+      ].join(",")
+    )
+    .order("created_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error("Error fetching check-ins to transcribe:", error);
+    throw new Error("Failed to fetch check-ins to transcribe");
+  }
+
+  const results = { transcribed: 0, failed: 0, skipped: 0 };
+
+  // One at a time: recordings are large and the provider is rate limited
+  for (const checkIn of (pending || []) as PendingCheckIn[]) {
+    if (Date.now() - startedAt > RUN_BUDGET_MS) {
+      results.skipped++;
+      continue;
+    }
+    const attempts = checkIn.transcription_attempts + 1;
+
+    // Claim the row so an overlapping run leaves it alone. Matching the
+    // attempt count stops two runs reclaiming the same stale row.
+    const { data: claimed } = await supabase
+      .from("check_ins")
+      .update({
+        transcription_status: "processing",
+        transcription_attempts: attempts,
+        transcription_started_at: getCurrentTimestampISO(),
+      })
+      .eq("id", checkIn.id)
+      .eq("transcription_attempts", checkIn.transcription_attempts)
+      .in("transcription_status", ["pending", "failed", "processing"])
+      .select("id");
+    if (!claimed || claimed.length === 0) {
+      results.skipped++;
+      continue;
+    }
+
+    try {
+      const { text, segments } = await transcribeCheckIn(supabase, checkIn, provider);
+      const { error: saveError } = await supabase
+        .from("check_ins")
+        .update({
+          transcript: text || null,
+          transcript_segments: segments,
+          transcription_status: "completed",
+          transcription_error: null,
+          transcribed_at: getCurrentTimestampISO(),
+        })
+        .eq("id", checkIn.id);
+      if (saveError) {
+        throw new Error(`Failed to save transcript: ${saveError.message}`);
+      }
+      results.transcribed++;
+    } catch (transcribeError) {
+      console.error(`Error transcribing check-in ${checkIn.id}:`, transcribeError);
+      await supabase
+        .from("check_ins")
+        .update({
+          transcription_status: "failed",
+          transcription_error:
+            transcribeError instanceof Error ? transcribeError.message : "Transcription failed",
+          ...(transcribeError instanceof PermanentTranscriptionError && {
+            transcription_attempts: MAX_ATTEMPTS,
+          }),
+        })
+        .eq("id", checkIn.id);
+      results.failed++;
+    }
+  }
+
+  return { ...results, processed: (pending || []).length, provider: provider.name };
+}
+
+// Quoted for PostgREST; characters that would break the filter or act as
+// LIKE wildcards (PostgREST also reads `*` as one) are dropped
+function likePattern(query: string) {
+  return `"%${query.replace(/[\\%_*",()]/g, " ")}%"`;
+}
+
+/**
+ * A client's check-ins whose notes or transcript contain `query`, newest
+ * first, with the transcript segments that mention it.
+ */
+export async function searchCheckIns({
+  supabase,
+  clientId,
+  query,
+}: {
+  supabase: ServiceClient;
+  clientId: string;
+  query: string;
+}): Promise<CheckInSearchResult[]> {
+  const pattern = likePattern(query.trim());
+  const { data, error } = await supabase
+    .from("check_ins")
+    .select(
+      "id, created_at, notes, transcript, transcript_segments, recording_type, video_url, audio_url, recording_duration"
+    )
+    .eq("client_id", clientId)
+    .or(`transcript.ilike.${pattern},notes.ilike.${pattern}`)
+    .order("created_at", { ascending: false })
+    .limit(MAX_SEARCH_RESULTS);
+
+  if (error) {
+    console.error("Error searching check-ins:", error);
+    throw new Error("Failed to search check-ins");
+  }
+
+  const needle = query.trim().toLowerCase();
+  return (data || []).map(({ transcript_segments, ...checkIn }) => ({
+    ...checkIn,
+    matchingSegments: (Array.isArray(transcript_segments) ? (transcript_segments as TranscriptSegment[]) : [])
+      .filter((segment) => segment.text.toLowerCase().includes(needle)),
+  }));
+}
@@ -0,0 +1,127 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "~/lib/supabase";
+import {
+  TREND_QUESTION_TYPES,
+  buildCheckInTrendSeries,
+  type CheckInTrendAnswer,
+} from "~/lib/checkInTrends";
+import { toUserTimezone } from "~/lib/timezone";
+import type { CheckInTrendSeries } from "~/types/checkIns";
+
+type ServiceClient = SupabaseClient<Database>;
+
+type TrendQuestion = Pick<
+  CheckInTrendAnswer,
+  "key" | "questionText" | "questionType" | "options" | "orderIndex"
+>;
+
+function optionList(options: unknown): string[] {
+  return Array.isArray(options) ? options.map(String) : [];
+}
+
+/**
+ * Chartable answers from a client's completed check-in forms since `since`
+ * (an ISO timestamp), grouped into one series per question.
+ */
+export async function getCheckInTrends({
+  supabase,
+  clientId,
+  coachId,
+  since,
+}: {
+  supabase: ServiceClient;
+  clientId: string;
+  coachId: string;
+  since: string;
+}): Promise<CheckInTrendSeries[]> {
+  const { data: instances, error: instancesError } = await supabase
+    .from("check_in_form_instances")
+    .select("id, completed_at")
+    .eq("client_id", clientId)
+    .eq("coach_id", coachId)
+    .eq("status", "completed")
+    .gte("completed_at", since)
+    .order("completed_at", { ascending: true });
+  if (instancesError) {
+    console.error("Error fetching check-in instances for trends:", instancesError);
+    throw new Error("Failed to fetch check-in trends");
+  }
+  if (!instances || instances.length === 0) return [];
+
+  const instanceIds = instances.map((instance) => instance.id);
+  const [{ data: snapshotQuestions, error: questionsError }, { data: responses, error: responsesError }] =
+    await Promise.all([
+      supabase
+        .from("check_in_form_instance_questions")
+        .select("id, question_text, question_type, options, order_index, source_question_id")
+        .in("instance_id", instanceIds)
+        .in("question_type", TREND_QUESTION_TYPES),
+      supabase
+        .from("check_in_form_responses")
+        .select("instance_id, question_id, instance_question_id, response_text, response_number")
+        .in("instance_id", instanceIds),
+    ]);
+  if (questionsError || responsesError) {
+    console.error("Error fetching check-in answers for trends:", questionsError || responsesError);
+    throw new Error("Failed to fetch check-in trends");
+  }
+
+  const questions = new Map<string, TrendQuestion>();
+  (snapshotQuestions || []).forEach((q) => {
+    questions.set(q.id, {
+      key: q.source_question_id || `text:${q.question_text}`,
+      questionText: q.question_text,
+      questionType: q.question_type,
+      options: optionList(q.options),
+      orderIndex: q.order_index,
+    });
+  });
+
+  // Instances sent before question snapshots existed answer the form's questions directly
+  const masterIds = Array.from(
+    new Set((responses || []).flatMap((r) => (!r.instance_question_id && r.question_id ? [r.question_id] : [])))
+  );
+  if (masterIds.length > 0) {
+    const { data: masterQuestions, error: masterError } = await supabase
+      .from("check_in_form_questions")
+      .select("id, question_text, question_type, options, order_index")
+      .in("id", masterIds)
+      .in("question_type", TREND_QUESTION_TYPES);
+    if (masterError) {
+      console.error("Error fetching form questions for trends:", masterError);
+      throw new Error("Failed to fetch check-in trends");
+    }
+    (masterQuestions || []).forEach((q) => {
+      questions.set(q.id, {
+        key: q.id,
+        questionText: q.question_text,
+        questionType: q.question_type,
+        options: optionList(q.options),
+        orderIndex: q.order_index,
+      });
+    });
+  }
+
+  const completedOn = new Map(
+    instances.map((instance) => [
+      instance.id,
+      toUserTimezone(instance.completed_at as string).format("YYYY-MM-DD"),
+    ])
+  );
+  const answers = (responses || []).flatMap((response): CheckInTrendAnswer[] => {
+    const question = questions.get(response.instance_question_id || response.question_id || "");
+    const date = completedOn.get(response.instance_id);
+    if (!question || !date) return [];
+    return [
+      {
+        ...question,
+        instanceId: response.instance_id,
+        date,
+        responseText: response.response_text,
+        responseNumber: response.response_number,
+      },
+    ];
+  });
+
+  return buildCheckInTrendSeries(answers);
+}
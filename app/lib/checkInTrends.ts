@@ -0,0 +1,160 @@
+import dayjs from "dayjs";
+import { SCALE_MAX, SCALE_MIN } from "~/lib/checkInFormConstants";
+import type { CheckInQuestionType } from "~/lib/supabase";
+import type {
+  CheckInTrendChange,
+  CheckInTrendPoint,
+  CheckInTrendSeries,
+} from "~/types/checkIns";
+
+/** Question types whose answers can be charted over time. */
+export const TREND_QUESTION_TYPES: CheckInQuestionType[] = ["number", "scale", "select", "radio"];
+
+/**
+ * Share of the answer range (or of the previous value, for free numbers) a
+ * week-over-week change has to cover before it is flagged.
+ */
+export const LARGE_TREND_CHANGE = 0.2;
+
+/** One response as loaded for the trends view, before it is charted. */
+export interface CheckInTrendAnswer {
+  instanceId: string;
+  /** Local YYYY-MM-DD the form was completed. */
+  date: string;
+  /** Keeps questions from the same form in form order. */
+  orderIndex: number;
+  key: string;
+  questionText: string;
+  questionType: CheckInQuestionType;
+  options: string[];
+  responseText?: string | null;
+  responseNumber?: number | null;
+}
+
+function isChoiceType(questionType: string) {
+  return questionType === "select" || questionType === "radio";
+}
+
+/** The charted value of an answer, or null when it can't be placed on the chart. */
+export function trendPointValue(
+  questionType: string,
+  options: string[],
+  responseNumber: number | null | undefined,
+  responseText: string | null | undefined
+): { value: number; label: string } | null {
+  if (isChoiceType(questionType)) {
+    const position = responseText ? options.indexOf(responseText) : -1;
+    return position >= 0 ? { value: position + 1, label: responseText as string } : null;
+  }
+  const value =
+    typeof responseNumber === "number" ? responseNumber : responseText ? Number(responseText) : NaN;
+  return Number.isFinite(value) ? { value, label: String(value) } : null;
+}
+
+function isLargeChange(series: Pick<CheckInTrendSeries, "questionType" | "options">, previous: number, delta: number) {
+  const size = Math.abs(delta);
+  if (size === 0) return false;
+  if (series.questionType === "scale") {
+    return size >= (SCALE_MAX - SCALE_MIN) * LARGE_TREND_CHANGE;
+  }
+  if (isChoiceType(series.questionType)) {
+    // Two options apart, or end to end on a short list
+    return size >= Math.min(2, series.options.length - 1);
+  }
+  return previous === 0 || size >= Math.abs(previous) * LARGE_TREND_CHANGE;
+}
+
+/**
+ * Compares the last answer of each week with the last answer of the previous
+ * week that has one.
+ */
+export function weeklyTrendChanges(
+  series: Pick<CheckInTrendSeries, "questionType" | "options" | "points">
+): CheckInTrendChange[] {
+  const lastPerWeek = new Map<string, CheckInTrendPoint>();
+  series.points.forEach((point) => {
+    lastPerWeek.set(dayjs(point.date).startOf("week").format("YYYY-MM-DD"), point);
+  });
+
+  const weeks = Array.from(lastPerWeek.entries()).sort(([a], [b]) => a.localeCompare(b));
+  return weeks.slice(1).map(([weekStart, current], index) => {
+    const previous = weeks[index][1];
+    const delta = current.value - previous.value;
+    return {
+      weekStart,
+      date: current.date,
+      previous,
+      current,
+      delta,
+      direction: delta < 0 ? "down" : "up",
+      isLarge: isLargeChange(series, previous.value, delta),
+    };
+  });
+}
+
+function normalizeQuestionText(text: string) {
+  return text.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Groups answers into one series per question. Answers are matched on the
+ * question they were snapshotted from; questions without one, or whose
+ * source was replaced when the form was edited, fall back to matching on
+ * type and wording. Choice answers are placed using the latest option list.
+ */
+export function buildCheckInTrendSeries(answers: CheckInTrendAnswer[]): CheckInTrendSeries[] {
+  const sorted = [...answers].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.orderIndex - b.orderIndex
+  );
+  const series = new Map<string, { latest: CheckInTrendAnswer; answers: CheckInTrendAnswer[] }>();
+  const keyForWording = new Map<string, string>();
+
+  sorted.forEach((answer) => {
+    const wording = `${answer.questionType}:${normalizeQuestionText(answer.questionText)}`;
+    const key = series.has(answer.key) ? answer.key : keyForWording.get(wording) ?? answer.key;
+    const entry = series.get(key) || { latest: answer, answers: [] };
+    entry.latest = answer;
+    entry.answers.push(answer);
+    series.set(key, entry);
+    keyForWording.set(wording, key);
+  });
+
+  return Array.from(series.entries())
+    .map(([key, { latest, answers: seriesAnswers }]) => {
+      const options = isChoiceType(latest.questionType) ? latest.options : [];
+      const points = seriesAnswers.flatMap((answer) => {
+        const point = trendPointValue(
+          latest.questionType,
+          options,
+          answer.responseNumber,
+          answer.responseText
+        );
+        return point ? [{ instanceId: answer.instanceId, date: answer.date, ...point }] : [];
+      });
+      const base = {
+        key,
+        questionText: latest.questionText.trim(),
+        questionType: latest.questionType,
+        options,
+        points,
+      };
+      return { ...base, changes: weeklyTrendChanges(base) };
+    })
+    .filter((entry) => entry.points.length > 0);
+}
+
+/** The most recent change for a series, when it was a large one. */
+export function latestLargeChange(series: CheckInTrendSeries): CheckInTrendChange | null {
+  const latest = series.changes[series.changes.length - 1];
+  return latest?.isLarge ? latest : null;
+}
+
+/** "Sleep quality dropped from 8 to 4". Options have no inherent direction, so choices just "changed". */
+export function describeTrendChange(series: CheckInTrendSeries, change: CheckInTrendChange): string {
+  const verb = isChoiceType(series.questionType)
+    ? "changed"
+    : change.direction === "down"
+    ? "dropped"
+    : "rose";
+  return `${series.questionText} ${verb} from ${change.previous.label} to ${change.current.label}`;
+}
@@ -0,0 +1,116 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "~/lib/supabase";
+
+/** Who a bulk action goes to: all active clients, a chat group's members, or a hand-picked list. */
+export type ClientSegment = "active" | "group" | "clients";
+
+export type SegmentClient = {
+  id: string;
+  name: string;
+};
+
+export function isClientSegment(value: unknown): value is ClientSegment {
+  return value === "active" || value === "group" || value === "clients";
+}
+
+/** The coach's active clients and chat groups, for picking a segment. */
+export async function listClientSegments(
+  supabase: SupabaseClient<Database>,
+  coachId: string
+) {
+  const { data: clients, error: clientsError } = await supabase
+    .from("users")
+    .select("id, name")
+    .eq("coach_id", coachId)
+    .eq("role", "client")
+    .neq("status", "inactive")
+    .order("name");
+
+  if (clientsError) {
+    console.error("Error fetching clients:", clientsError);
+    throw new Error("Failed to fetch clients");
+  }
+
+  const { data: groups, error: groupsError } = await supabase
+    .from("chat_groups")
+    .select("id, name, members:chat_group_members(client_id)")
+    .eq("coach_id", coachId)
+    .order("name");
+
+  if (groupsError) {
+    console.error("Error fetching chat groups:", groupsError);
+    throw new Error("Failed to fetch chat groups");
+  }
+
+  return {
+    clients: (clients || []).map((client) => ({ id: client.id, name: client.name })),
+    groups: (groups || []).map((group) => ({
+      id: group.id as string,
+      name: group.name as string,
+      clientIds: ((group.members as Array<{ client_id: string }> | null) || []).map(
+        (member) => member.client_id
+      ),
+    })),
+  };
+}
+
+/**
+ * The clients in a segment, by name. Ids that aren't the coach's clients are
+ * dropped, so a stale or tampered list can't reach anyone else.
+ */
+export async function getSegmentClients({
+  supabase,
+  coachId,
+  segment,
+  groupId,
+  clientIds = [],
+}: {
+  supabase: SupabaseClient<Database>;
+  coachId: string;
+  segment: ClientSegment;
+  groupId?: string | null;
+  clientIds?: string[];
+}): Promise<SegmentClient[]> {
+  let ids: string[] | null = null;
+
+  if (segment === "group") {
+    if (!groupId) {
+      throw new Error("Choose a chat group");
+    }
+    const { data: group, error: groupError } = await supabase
+      .from("chat_groups")
+      .select("id, members:chat_group_members(client_id)")
+      .eq("id", groupId)
+      .eq("coach_id", coachId)
+      .single();
+
+    if (groupError || !group) {
+      throw new Error("Chat group not found");
+    }
+    ids = ((group.members as Array<{ client_id: string }> | null) || []).map(
+      (member) => member.client_id
+    );
+  } else if (segment === "clients") {
+    ids = Array.from(new Set(clientIds));
+  }
+
+  if (ids && ids.length === 0) {
+    return [];
+  }
+
+  let query = supabase
+    .from("users")
+    .select("id, name")
+    .eq("coach_id", coachId)
+    .eq("role", "client");
+  query = ids ? query.in("id", ids) : query.neq("status", "inactive");
+
+  const { data: clients, error } = await query.order("name");
+
+  if (error) {
+    console.error("Error fetching segment clients:", error);
+    throw new Error("Failed to fetch clients");
+  }
+
+  return (clients || []).map((client) => ({ id: client.id, name: client.name }));
+}
@@ -0,0 +1,15 @@
+/** True when a cron request carries `Authorization: Bearer <CRON_SECRET>`. */
+export function verifyCronAuth(request: Request): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error("CRON_SECRET is not configured");
+    return false;
+  }
+
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return false;
+  }
+
+  return authHeader.substring(7) === cronSecret;
+}
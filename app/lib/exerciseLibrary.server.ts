@@ -0,0 +1,167 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "~/lib/supabase";
+import { getCurrentTimestampISO } from "~/lib/timezone";
+import type { ExerciseLibraryEntry } from "~/types/workout";
+
+type ServiceClient = SupabaseClient<Database>;
+
+type LibraryRow = Database["public"]["Tables"]["exercise_library"]["Row"];
+
+export type ExerciseLibraryInput = Omit<ExerciseLibraryEntry, "id">;
+
+export function entryFromRow(row: LibraryRow): ExerciseLibraryEntry {
+  return {
+    id: row.id,
+    name: row.name,
+    aliases: row.aliases || [],
+    muscleGroups: row.muscle_groups || [],
+    equipment: row.equipment || [],
+    videoUrl: row.video_url,
+    cues: row.cues,
+  };
+}
+
+function parseTagList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  const items = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(items) || !items.every((v) => typeof v === "string")) {
+    throw new Error(`${field} must be a list of strings`);
+  }
+  const seen = new Set<string>();
+  return items
+    .map((v) => v.trim())
+    .filter((v) => {
+      const key = v.toLowerCase();
+      if (!v || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/** Validates a library entry posted by the coach. Lists may be arrays or comma-separated strings. */
+export function parseExerciseLibraryInput(body: Record<string, unknown>): ExerciseLibraryInput {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    throw new Error("Exercise name is required");
+  }
+  const videoUrl = typeof body.videoUrl === "string" ? body.videoUrl.trim() : "";
+  if (videoUrl && !/^https?:\/\//i.test(videoUrl)) {
+    throw new Error("Video URL must start with http:// or https://");
+  }
+  const cues = typeof body.cues === "string" ? body.cues.trim() : "";
+
+  return {
+    name,
+    aliases: parseTagList(body.aliases, "aliases").filter(
+      (alias) => alias.toLowerCase() !== name.toLowerCase()
+    ),
+    muscleGroups: parseTagList(body.muscleGroups, "muscleGroups"),
+    equipment: parseTagList(body.equipment, "equipment"),
+    videoUrl: videoUrl || null,
+    cues: cues || null,
+  };
+}
+
+function toRow(input: ExerciseLibraryInput) {
+  return {
+    name: input.name,
+    aliases: input.aliases,
+    muscle_groups: input.muscleGroups,
+    equipment: input.equipment,
+    video_url: input.videoUrl,
+    cues: input.cues,
+  };
+}
+
+function saveError(error: { code?: string; message: string }, fallback: string) {
+  // idx_exercise_library_coach_name
+  if (error.code === "23505") {
+    return new Error("An exercise with this name is already in your library");
+  }
+  console.error(`${fallback}:`, error);
+  return new Error(fallback);
+}
+
+export async function listExerciseLibrary({
+  supabase,
+  coachId,
+}: {
+  supabase: ServiceClient;
+  coachId: string;
+}): Promise<ExerciseLibraryEntry[]> {
+  const { data, error } = await supabase
+    .from("exercise_library")
+    .select("*")
+    .eq("coach_id", coachId)
+    .order("name", { ascending: true });
+  if (error) {
+    console.error("Error fetching exercise library:", error);
+    throw new Error("Failed to fetch exercise library");
+  }
+  return (data || []).map(entryFromRow);
+}
+
+export async function createExerciseLibraryEntry({
+  supabase,
+  coachId,
+  input,
+}: {
+  supabase: ServiceClient;
+  coachId: string;
+  input: ExerciseLibraryInput;
+}): Promise<ExerciseLibraryEntry> {
+  const { data, error } = await supabase
+    .from("exercise_library")
+    .insert({ coach_id: coachId, ...toRow(input) })
+    .select("*")
+    .single();
+  if (error || !data) {
+    throw saveError(error || { message: "No row returned" }, "Failed to create exercise");
+  }
+  return entryFromRow(data);
+}
+
+export async function updateExerciseLibraryEntry({
+  supabase,
+  coachId,
+  id,
+  input,
+}: {
+  supabase: ServiceClient;
+  coachId: string;
+  id: string;
+  input: ExerciseLibraryInput;
+}): Promise<ExerciseLibraryEntry | null> {
+  const { data, error } = await supabase
+    .from("exercise_library")
+    .update({ ...toRow(input), updated_at: getCurrentTimestampISO() })
+    .eq("id", id)
+    .eq("coach_id", coachId)
+    .select("*")
+    .maybeSingle();
+  if (error) {
+    throw saveError(error, "Failed to update exercise");
+  }
+  return data ? entryFromRow(data) : null;
+}
+
+/** Linked workout_exercises keep their own name and video; only the link is cleared. */
+export async function deleteExerciseLibraryEntry({
+  supabase,
+  coachId,
+  id,
+}: {
+  supabase: ServiceClient;
+  coachId: string;
+  id: string;
+}): Promise<void> {
+  const { error } = await supabase
+    .from("exercise_library")
+    .delete()
+    .eq("id", id)
+    .eq("coach_id", coachId);
+  if (error) {
+    console.error("Error deleting exercise library entry:", error);
+    throw new Error("Failed to delete exercise");
+  }
+}
@@ -0,0 +1,61 @@
+import type { ExerciseLibraryEntry } from "~/types/workout";
+
+/**
+ * Loose form of an exercise name for matching: case, punctuation, plurals and
+ * the "DB"/"BB" shorthands don't matter. Mirrors the SQL used to backfill the library.
+ */
+export function normalizeExerciseName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\bdb\b/g, "dumbbell")
+    .replace(/\bbb\b/g, "barbell")
+    .replace(/\b([a-z]{3,})s\b/g, "$1")
+    .trim();
+}
+
+/** Entry whose name or one of its aliases is the same exercise as `name`. */
+export function findLibraryMatch(
+  entries: ExerciseLibraryEntry[],
+  name: string
+): ExerciseLibraryEntry | null {
+  const normalized = normalizeExerciseName(name);
+  if (!normalized) return null;
+  return (
+    entries.find((entry) =>
+      [entry.name, ...entry.aliases].some((n) => normalizeExerciseName(n) === normalized)
+    ) || null
+  );
+}
+
+/** Ranks entries by how well their name, aliases, muscle groups or equipment match the query. */
+export function searchExerciseLibrary(
+  entries: ExerciseLibraryEntry[],
+  query: string,
+  limit = 8
+): ExerciseLibraryEntry[] {
+  const q = normalizeExerciseName(query);
+  if (!q) return entries.slice(0, limit);
+
+  const scored: { entry: ExerciseLibraryEntry; score: number }[] = [];
+  for (const entry of entries) {
+    const name = normalizeExerciseName(entry.name);
+    const aliases = entry.aliases.map(normalizeExerciseName);
+    const tags = [...entry.muscleGroups, ...entry.equipment].map(normalizeExerciseName);
+
+    let score: number | null = null;
+    if (name === q || aliases.includes(q)) score = 0;
+    else if (name.startsWith(q)) score = 1;
+    else if (aliases.some((a) => a.startsWith(q))) score = 2;
+    else if (name.split(" ").some((word) => word.startsWith(q))) score = 3;
+    else if (name.includes(q) || aliases.some((a) => a.includes(q))) score = 4;
+    else if (tags.some((t) => t.startsWith(q))) score = 5;
+
+    if (score !== null) scored.push({ entry, score });
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, limit)
+    .map((s) => s.entry);
+}
@@ -0,0 +1,183 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "~/lib/supabase";
+import { looksLikeBarcode, rankFoodMatches } from "~/lib/foodLibrary";
+import type { FoodLibraryEntry, FoodPortion } from "~/types/nutrition";
+
+type ServiceClient = SupabaseClient<Database>;
+
+type FoodLibraryRow = Database["public"]["Tables"]["food_library"]["Row"];
+export type FoodLibraryInsert = Database["public"]["Tables"]["food_library"]["Insert"];
+
+const SEARCH_CANDIDATES = 60;
+
+function parsePortions(value: unknown): FoodPortion[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(
+      (p): p is FoodPortion =>
+        !!p && typeof p.label === "string" && typeof p.grams === "number" && p.grams > 0
+    )
+    .map((p) => ({ label: p.label, grams: p.grams }));
+}
+
+export function foodEntryFromRow(row: FoodLibraryRow): FoodLibraryEntry {
+  const hasPer100g = row.calories_per_100g !== null && row.calories_per_100g !== undefined;
+  return {
+    id: row.id,
+    name: row.name,
+    brand: row.brand ?? null,
+    barcode: row.barcode ?? null,
+    source: row.source || "custom",
+    coachId: row.coach_id ?? null,
+    perServing: {
+      calories: Number(row.calories) || 0,
+      protein: Number(row.protein) || 0,
+      carbs: Number(row.carbs) || 0,
+      fat: Number(row.fat) || 0,
+    },
+    per100g: hasPer100g
+      ? {
+          calories: Number(row.calories_per_100g) || 0,
+          protein: Number(row.protein_per_100g) || 0,
+          carbs: Number(row.carbs_per_100g) || 0,
+          fat: Number(row.fat_per_100g) || 0,
+        }
+      : null,
+    servingSize: row.serving_size ? Number(row.serving_size) : null,
+    servingLabel: row.serving_label ?? null,
+    portions: parsePortions(row.portions),
+  };
+}
+
+/**
+ * Reads a `food_library:food_library_id (*)` embed on a foods query. The foods
+ * table isn't in the typed schema, so the embed may come back as an object or
+ * a one-element array.
+ */
+export function foodEntryFromJoin(value: unknown): FoodLibraryEntry | null {
+  const row = Array.isArray(value) ? value[0] : value;
+  if (!row || typeof row !== "object" || !("id" in row)) return null;
+  return foodEntryFromRow(row as FoodLibraryRow);
+}
+
+/** Escapes LIKE wildcards so a search for "100%" matches literally. */
+function likePattern(query: string): string {
+  return `%${query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+/**
+ * Shared dataset foods plus the coach's own, matched by name or (for digit-only
+ * queries) barcode.
+ */
+export async function searchFoodLibrary({
+  supabase,
+  coachId,
+  query,
+  limit = 20,
+}: {
+  supabase: ServiceClient;
+  coachId: string | null;
+  query: string;
+  limit?: number;
+}): Promise<FoodLibraryEntry[]> {
+  const q = query.trim();
+  if (q.length < 2) return [];
+
+  let request = supabase.from("food_library").select("*");
+  request = coachId
+    ? request.or(`coach_id.is.null,coach_id.eq.${coachId}`)
+    : request.is("coach_id", null);
+  request = looksLikeBarcode(q) ? request.eq("barcode", q) : request.ilike("name", likePattern(q));
+
+  const { data, error } = await request.limit(SEARCH_CANDIDATES);
+  if (error) {
+    console.error("Error searching food library:", error);
+    throw new Error("Failed to search food library");
+  }
+  return rankFoodMatches((data || []).map(foodEntryFromRow), q, limit);
+}
+
+function optionalMacro(value: unknown, field: string): number {
+  if (value === undefined || value === null || value === "") return 0;
+  const num = Number(value);
+  if (!Number.isFinite(num) || num < 0) {
+    throw new Error(`${field} must be a number of at least 0`);
+  }
+  return num;
+}
+
+/**
+ * Validates a custom food a coach saves from the meal plan form. Macros are
+ * per serving; `servingSize` (grams) is optional and unlocks weight units.
+ */
+export function parseCustomFoodInput(body: Record<string, unknown>): FoodLibraryInsert {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    throw new Error("Food name is required");
+  }
+  const servingSize =
+    body.servingSize === undefined || body.servingSize === null || body.servingSize === ""
+      ? null
+      : Number(body.servingSize);
+  if (servingSize !== null && (!Number.isFinite(servingSize) || servingSize <= 0)) {
+    throw new Error("Serving size must be a positive number of grams");
+  }
+  const servingLabel = typeof body.servingLabel === "string" ? body.servingLabel.trim() : "";
+
+  const protein = optionalMacro(body.protein, "Protein");
+  const carbs = optionalMacro(body.carbs, "Carbs");
+  const fat = optionalMacro(body.fat, "Fat");
+  return {
+    name,
+    source: "custom",
+    serving_label: servingLabel || null,
+    serving_size: servingSize,
+    protein,
+    carbs,
+    fat,
+    calories:
+      body.calories === undefined || body.calories === ""
+        ? Math.round(protein * 4 + carbs * 4 + fat * 9)
+        : optionalMacro(body.calories, "Calories"),
+  };
+}
+
+export async function createCustomFood({
+  supabase,
+  coachId,
+  input,
+}: {
+  supabase: ServiceClient;
+  coachId: string;
+  input: FoodLibraryInsert;
+}): Promise<FoodLibraryEntry> {
+  const { data, error } = await supabase
+    .from("food_library")
+    .insert({ ...input, coach_id: coachId, source: "custom", source_id: null })
+    .select("*")
+    .single();
+  if (error || !data) {
+    console.error("Error creating custom food:", error);
+    throw new Error("Failed to save food");
+  }
+  return foodEntryFromRow(data);
+}
+
+/** Inserts or refreshes dataset rows keyed by (source, source_id). Returns how many were written. */
+export async function upsertDatasetFoods({
+  supabase,
+  rows,
+}: {
+  supabase: ServiceClient;
+  rows: FoodLibraryInsert[];
+}): Promise<number> {
+  if (rows.length === 0) return 0;
+  const { error } = await supabase
+    .from("food_library")
+    .upsert(rows, { onConflict: "source,source_id" });
+  if (error) {
+    console.error("Error importing foods:", error);
+    throw new Error("Failed to import foods");
+  }
+  return rows.length;
+}
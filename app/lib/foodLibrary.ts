@@ -0,0 +1,162 @@
+import type { FoodLibraryEntry, MacroValues } from "~/types/nutrition";
+
+const GRAMS_PER_UNIT: Record<string, number> = {
+  g: 1,
+  oz: 28.3495,
+  lb: 453.592,
+  kg: 1000,
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: "g",
+  grams: "g",
+  gr: "g",
+  ounce: "oz",
+  ounces: "oz",
+  lbs: "lb",
+  pound: "lb",
+  pounds: "lb",
+  kilogram: "kg",
+  kilograms: "kg",
+  servings: "serving",
+};
+
+export interface PortionUnit {
+  /** What gets written into foods.portion after the amount, e.g. "g" or "cup". */
+  value: string;
+  /** Grams in one of this unit; null when the food has no gram weight to go on. */
+  grams: number | null;
+}
+
+export function roundMacro(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** "1 cup" → "cup", so a portion label reads naturally after any amount. */
+function unitFromPortionLabel(label: string): string {
+  return label.replace(/^1\s+/, "").trim();
+}
+
+/** Units a coach can pick for this food: weights when a gram basis is known, then servings and household measures. */
+export function getPortionUnits(entry: FoodLibraryEntry): PortionUnit[] {
+  const units: PortionUnit[] = [];
+  if (entry.per100g || entry.servingSize) {
+    for (const [value, grams] of Object.entries(GRAMS_PER_UNIT)) {
+      units.push({ value, grams });
+    }
+  }
+  units.push({ value: "serving", grams: entry.servingSize });
+  for (const portion of entry.portions) {
+    const value = unitFromPortionLabel(portion.label);
+    if (value && !units.some((u) => u.value === value)) {
+      units.push({ value, grams: portion.grams });
+    }
+  }
+  return units;
+}
+
+/** The unit a freshly picked food starts on, and how much of it. */
+export function defaultPortion(entry: FoodLibraryEntry): { amount: number; unit: string } {
+  if (entry.servingSize || !entry.per100g) return { amount: 1, unit: "serving" };
+  return { amount: 100, unit: "g" };
+}
+
+function normalizeUnit(unit: string): string {
+  const lower = unit.trim().toLowerCase();
+  return UNIT_ALIASES[lower] || lower;
+}
+
+/**
+ * Macros for `amount` of `unit`, scaled from per-100g values when the food has
+ * them and from the per-serving values otherwise. Null when the unit can't be
+ * converted for this food.
+ */
+export function macrosForPortion(
+  entry: FoodLibraryEntry,
+  amount: number,
+  unit: string
+): MacroValues | null {
+  if (!Number.isFinite(amount) || amount < 0) return null;
+  const normalized = normalizeUnit(unit);
+  const match = getPortionUnits(entry).find((u) => u.value.toLowerCase() === normalized);
+  if (!match) return null;
+
+  let factor: number | null = null;
+  let basis: MacroValues = entry.perServing;
+  if (normalized === "serving" && (!entry.per100g || !entry.servingSize)) {
+    factor = amount;
+  } else if (match.grams !== null) {
+    const grams = amount * match.grams;
+    if (entry.per100g) {
+      basis = entry.per100g;
+      factor = grams / 100;
+    } else if (entry.servingSize) {
+      factor = grams / entry.servingSize;
+    }
+  }
+  if (factor === null) return null;
+
+  return {
+    calories: Math.round(basis.calories * factor),
+    protein: roundMacro(basis.protein * factor),
+    carbs: roundMacro(basis.carbs * factor),
+    fat: roundMacro(basis.fat * factor),
+  };
+}
+
+export function formatPortion(amount: number, unit: string): string {
+  const rounded = Math.round(amount * 100) / 100;
+  if (unit === "serving") return `${rounded} ${rounded === 1 ? "serving" : "servings"}`;
+  return `${rounded} ${unit}`;
+}
+
+/** Reads a portion like "150 g", "1.5 servings" or "1/2 cup" back into an amount and unit. */
+export function parsePortion(
+  text: string,
+  entry: FoodLibraryEntry
+): { amount: number; unit: string } | null {
+  const match = text.trim().match(/^(\d+\/\d+|\d+(?:\.\d+)?)\s*(.*)$/);
+  if (!match) return null;
+  const [numerator, denominator] = match[1].split("/").map(Number);
+  const amount = denominator ? numerator / denominator : numerator;
+  const unit = normalizeUnit(match[2] || "serving");
+  const known = getPortionUnits(entry).find((u) => u.value.toLowerCase() === unit);
+  return known ? { amount, unit: known.value } : null;
+}
+
+/** Barcodes are typed or scanned as 8–14 digit UPC/EAN codes. */
+export function looksLikeBarcode(query: string): boolean {
+  return /^\d{8,14}$/.test(query.trim());
+}
+
+/**
+ * Orders search hits: exact and prefix matches first, then word-prefix and
+ * substring matches, with the coach's own foods ahead of dataset entries and
+ * shorter (more generic) names ahead of long branded ones.
+ */
+export function rankFoodMatches(
+  entries: FoodLibraryEntry[],
+  query: string,
+  limit = 20
+): FoodLibraryEntry[] {
+  const q = query.trim().toLowerCase();
+  const score = (entry: FoodLibraryEntry) => {
+    const name = entry.name.toLowerCase();
+    if (entry.barcode && entry.barcode === q) return 0;
+    if (name === q) return 1;
+    if (name.startsWith(q)) return 2;
+    if (name.split(/[\s,]+/).some((word) => word.startsWith(q))) return 3;
+    return 4;
+  };
+  return entries
+    .map((entry) => ({ entry, score: score(entry) }))
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        Number(b.entry.coachId !== null) - Number(a.entry.coachId !== null) ||
+        a.entry.name.length - b.entry.name.length ||
+        a.entry.name.localeCompare(b.entry.name)
+    )
+    .slice(0, limit)
+    .map((s) => s.entry);
+}
@@ -0,0 +1,282 @@
+import type { GroceryItem, GroceryOptionChoice, GroceryQuantity } from "~/types/nutrition";
+
+interface GroceryMeal {
+  id: string | number;
+  name: string;
+  time: string;
+  mealOption?: "A" | "B";
+  foods: Array<{ name: string; portion: string }>;
+}
+
+type Dimension = "mass" | "volume";
+
+interface UnitInfo {
+  dimension: Dimension;
+  /** Grams or millilitres in one of this unit. */
+  base: number;
+  imperial: boolean;
+}
+
+const MEASURED_UNITS: Record<string, UnitInfo> = {
+  g: { dimension: "mass", base: 1, imperial: false },
+  kg: { dimension: "mass", base: 1000, imperial: false },
+  oz: { dimension: "mass", base: 28.3495, imperial: true },
+  lb: { dimension: "mass", base: 453.592, imperial: true },
+  ml: { dimension: "volume", base: 1, imperial: false },
+  l: { dimension: "volume", base: 1000, imperial: false },
+  "fl oz": { dimension: "volume", base: 29.5735, imperial: true },
+  cup: { dimension: "volume", base: 240, imperial: true },
+  tbsp: { dimension: "volume", base: 15, imperial: true },
+  tsp: { dimension: "volume", base: 5, imperial: true },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: "g",
+  grams: "g",
+  gr: "g",
+  kilogram: "kg",
+  kilograms: "kg",
+  kgs: "kg",
+  ounce: "oz",
+  ounces: "oz",
+  lbs: "lb",
+  pound: "lb",
+  pounds: "lb",
+  milliliter: "ml",
+  milliliters: "ml",
+  millilitre: "ml",
+  millilitres: "ml",
+  liter: "l",
+  liters: "l",
+  litre: "l",
+  litres: "l",
+  "fl. oz": "fl oz",
+  floz: "fl oz",
+  cups: "cup",
+  c: "cup",
+  tablespoon: "tbsp",
+  tablespoons: "tbsp",
+  tbs: "tbsp",
+  tbl: "tbsp",
+  teaspoon: "tsp",
+  teaspoons: "tsp",
+};
+
+interface ParsedAmount {
+  amount: number;
+  /** Everything after the amount, lowercased, e.g. "cup (cooked)" or "large eggs". */
+  rest: string;
+}
+
+/** Reads the leading amount of a portion: "2", "1.5", "1/2" or "1 1/2". */
+function parseAmount(portion: string): ParsedAmount | null {
+  const match = portion
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+\s+\d+\/\d+|\d+\/\d+|\d*\.?\d+)\s*(.*)$/);
+  if (!match) return null;
+  const amount = match[1].split(/\s+/).reduce((sum, part) => {
+    const [numerator, denominator] = part.split("/").map(Number);
+    return sum + (denominator ? numerator / denominator : numerator);
+  }, 0);
+  if (!Number.isFinite(amount) || amount <= 0) return null;
+  return { amount, rest: match[2].trim() };
+}
+
+/** Finds a weight or volume unit at the start of `rest`, ignoring notes like "(cooked)". */
+function measuredUnit(rest: string): { unit: string; info: UnitInfo } | null {
+  const cleaned = rest.replace(/\(.*?\)/g, " ").replace(/\s+/g, " ").trim();
+  for (const candidate of [cleaned.split(" ").slice(0, 2).join(" "), cleaned.split(" ")[0]]) {
+    const unit = UNIT_ALIASES[candidate] || candidate.replace(/\.$/, "");
+    const info = MEASURED_UNITS[unit] || MEASURED_UNITS[UNIT_ALIASES[unit] || ""];
+    if (info) return { unit, info };
+  }
+  return null;
+}
+
+/** "slices" → "slice" so "1 slice" and "2 slices" land on the same line. */
+function singularUnit(unit: string): string {
+  if (/(ches|shes|ses|xes)$/.test(unit)) return unit.slice(0, -2);
+  if (/ies$/.test(unit)) return `${unit.slice(0, -3)}y`;
+  if (/[^s]s$/.test(unit)) return unit.slice(0, -1);
+  return unit;
+}
+
+function pluralUnit(unit: string, amount: number): string {
+  if (!unit || amount <= 1) return unit;
+  if (/(ch|sh|s|x)$/.test(unit)) return `${unit}es`;
+  if (/[^aeiou]y$/.test(unit)) return `${unit.slice(0, -1)}ies`;
+  return `${unit}s`;
+}
+
+export function normalizeFoodName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * How many days of the week each meal is eaten. Meals without an alternative
+ * are eaten every day; for A/B meals the client's choice decides, with "both"
+ * splitting the week (the extra day going to A).
+ */
+export function mealDaysForChoices(
+  meals: GroceryMeal[],
+  choices: Record<string, GroceryOptionChoice>,
+  days = 7
+): Map<string, number> {
+  const groups = new Map<string, GroceryMeal[]>();
+  meals.forEach((meal) => {
+    const key = groceryMealGroupKey(meal);
+    groups.set(key, [...(groups.get(key) || []), meal]);
+  });
+
+  const result = new Map<string, number>();
+  groups.forEach((options, key) => {
+    const optionA = options.find((meal) => (meal.mealOption || "A") === "A") || options[0];
+    const optionB = options.find((meal) => meal.mealOption === "B" && meal !== optionA);
+    if (!optionB) {
+      result.set(String(optionA.id), days);
+      return;
+    }
+    const choice = choices[key] || "A";
+    const daysOnA = choice === "A" ? days : choice === "B" ? 0 : Math.ceil(days / 2);
+    result.set(String(optionA.id), daysOnA);
+    result.set(String(optionB.id), days - daysOnA);
+  });
+  return result;
+}
+
+/** Same grouping as the meal plan views: options share a name and time. */
+export function groceryMealGroupKey(meal: { name: string; time: string }): string {
+  return `${meal.name}-${meal.time}`;
+}
+
+interface Accumulator {
+  name: string;
+  mass: { base: number; imperialVotes: number; votes: number };
+  volume: { base: number; imperialVotes: number; votes: number };
+  counts: Map<string, number>;
+  unmeasured: Map<string, number>;
+  meals: Set<string>;
+}
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+function formatMass(grams: number, imperial: boolean): GroceryQuantity {
+  if (imperial) {
+    const ounces = grams / 28.3495;
+    return ounces >= 16
+      ? { amount: roundTo(ounces / 16, 0.25), unit: "lb" }
+      : { amount: roundTo(ounces, 0.5) || 0.5, unit: "oz" };
+  }
+  return grams >= 1000
+    ? { amount: roundTo(grams / 1000, 0.05), unit: "kg" }
+    : { amount: roundTo(grams, 5) || 5, unit: "g" };
+}
+
+function formatVolume(ml: number, imperial: boolean): GroceryQuantity {
+  if (imperial) {
+    if (ml >= 120) return { amount: roundTo(ml / 240, 0.25), unit: "cup" };
+    if (ml >= 15) return { amount: roundTo(ml / 15, 0.5), unit: "tbsp" };
+    return { amount: roundTo(ml / 5, 0.5) || 0.5, unit: "tsp" };
+  }
+  return ml >= 1000
+    ? { amount: roundTo(ml / 1000, 0.05), unit: "L" }
+    : { amount: roundTo(ml, 5) || 5, unit: "ml" };
+}
+
+/**
+ * Builds a week's shopping list from a meal plan. Each food's portion is
+ * multiplied by the days its meal is eaten, then summed per food: weights in
+ * g/kg or oz/lb and volumes in ml/L or cups, following whichever system the
+ * plan mostly uses for that food. Counted portions ("2 slices") add up per
+ * unit, and portions without an amount are listed as written.
+ */
+export function buildGroceryList(
+  meals: GroceryMeal[],
+  choices: Record<string, GroceryOptionChoice>,
+  days = 7
+): GroceryItem[] {
+  const mealDays = mealDaysForChoices(meals, choices, days);
+  const items = new Map<string, Accumulator>();
+
+  meals.forEach((meal) => {
+    const timesEaten = mealDays.get(String(meal.id)) || 0;
+    if (timesEaten === 0) return;
+
+    meal.foods.forEach((food) => {
+      const key = normalizeFoodName(food.name);
+      if (!key) return;
+      let item = items.get(key);
+      if (!item) {
+        item = {
+          name: food.name.trim(),
+          mass: { base: 0, imperialVotes: 0, votes: 0 },
+          volume: { base: 0, imperialVotes: 0, votes: 0 },
+          counts: new Map(),
+          unmeasured: new Map(),
+          meals: new Set(),
+        };
+        items.set(key, item);
+      }
+      item.meals.add(meal.name);
+
+      const parsed = parseAmount(food.portion || "");
+      if (!parsed) {
+        const note = (food.portion || "").trim() || "as needed";
+        item.unmeasured.set(note, (item.unmeasured.get(note) || 0) + timesEaten);
+        return;
+      }
+      const measured = measuredUnit(parsed.rest);
+      if (measured) {
+        const total = item[measured.info.dimension];
+        total.base += parsed.amount * measured.info.base * timesEaten;
+        total.votes += 1;
+        if (measured.info.imperial) total.imperialVotes += 1;
+        return;
+      }
+      const unit = singularUnit(parsed.rest.replace(/\(.*?\)/g, "").trim());
+      item.counts.set(unit, (item.counts.get(unit) || 0) + parsed.amount * timesEaten);
+    });
+  });
+
+  return Array.from(items.entries())
+    .map(([key, item]) => {
+      const quantities: GroceryQuantity[] = [];
+      if (item.mass.votes > 0) {
+        quantities.push(formatMass(item.mass.base, item.mass.imperialVotes * 2 >= item.mass.votes));
+      }
+      if (item.volume.votes > 0) {
+        quantities.push(
+          formatVolume(item.volume.base, item.volume.imperialVotes * 2 >= item.volume.votes)
+        );
+      }
+      item.counts.forEach((amount, unit) => {
+        quantities.push({ amount: roundTo(amount, 0.25), unit });
+      });
+      return {
+        key,
+        name: item.name,
+        quantities,
+        unmeasured: Array.from(item.unmeasured.entries()).map(([note, times]) =>
+          times > 1 ? `${note} (${times}×)` : note
+        ),
+        meals: Array.from(item.meals),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function formatGroceryQuantity(quantity: GroceryQuantity): string {
+  const amount = Math.round(quantity.amount * 100) / 100;
+  const unit = ["g", "kg", "ml", "L", "oz", "lb", "tbsp", "tsp"].includes(quantity.unit)
+    ? quantity.unit
+    : pluralUnit(quantity.unit, amount);
+  return unit ? `${amount} ${unit}` : `${amount}`;
+}
+
+/** "1.2 kg, 3 slices, to taste" for one list line. */
+export function describeGroceryItem(item: GroceryItem): string {
+  return [...item.quantities.map(formatGroceryQuantity), ...item.unmeasured].join(", ");
+}
@@ -0,0 +1,81 @@
+import type { GroceryItem } from "~/types/nutrition";
+import { describeGroceryItem } from "~/lib/groceryList";
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const LINE_HEIGHT = 20;
+
+/** The standard PDF fonts only cover Latin-1; drop anything else rather than fail the export. */
+function pdfSafe(text: string): string {
+  return text.replace(/\u00D7/g, "x").replace(/[^\x20-\x7E\u00A0-\u00FF]/g, "");
+}
+
+/**
+ * A printable, one-column checklist of the grocery list. pdf-lib is loaded on
+ * demand so it stays out of the meals page bundle until someone exports.
+ */
+export async function createGroceryListPdf({
+  title,
+  subtitle,
+  items,
+}: {
+  title: string;
+  subtitle: string;
+  items: GroceryItem[];
+}): Promise<Uint8Array> {
+  const { PDFDocument, StandardFonts, rgb } = await import("pdf-lib");
+  const doc = await PDFDocument.create();
+  doc.setTitle(pdfSafe(title));
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const gray = rgb(0.4, 0.4, 0.4);
+
+  let page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  page.drawText(pdfSafe(title), { x: MARGIN, y, size: 18, font: bold });
+  y -= 22;
+  page.drawText(pdfSafe(subtitle), { x: MARGIN, y, size: 10, font, color: gray });
+  y -= 30;
+
+  const maxTextWidth = PAGE_WIDTH - MARGIN * 2 - 24;
+  const fit = (text: string, size: number) => {
+    if (font.widthOfTextAtSize(text, size) <= maxTextWidth) return text;
+    let fitted = text;
+    while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}...`, size) > maxTextWidth) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted.trimEnd()}...`;
+  };
+
+  for (const item of items) {
+    if (y < MARGIN + LINE_HEIGHT) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    page.drawRectangle({
+      x: MARGIN,
+      y: y - 2,
+      width: 11,
+      height: 11,
+      borderColor: rgb(0.2, 0.2, 0.2),
+      borderWidth: 1,
+    });
+    const amount = pdfSafe(describeGroceryItem(item));
+    const name = pdfSafe(item.name);
+    page.drawText(fit(amount ? `${name} - ${amount}` : name, 11), {
+      x: MARGIN + 20,
+      y,
+      size: 11,
+      font,
+    });
+    y -= LINE_HEIGHT;
+  }
+
+  if (items.length === 0) {
+    page.drawText("Nothing to buy for the selected meals.", { x: MARGIN, y, size: 11, font, color: gray });
+  }
+
+  return doc.save();
+}
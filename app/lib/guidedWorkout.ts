@@ -0,0 +1,136 @@
+import type {
+  Exercise,
+  GuidedSetEntry,
+  RestTimerSettings,
+  WorkoutSet,
+  WorkoutType,
+} from "~/types/workout";
+
+export const DEFAULT_REST_SETTINGS: RestTimerSettings = {
+  betweenSets: 90,
+  betweenExercises: 0,
+  betweenRounds: 120,
+};
+
+export type RestKind = keyof RestTimerSettings;
+
+/** A workout group as the client workouts page holds it. */
+export interface GuidedWorkoutGroup {
+  id: string;
+  type: string;
+  exercises: Exercise[];
+}
+
+/** One set of one exercise, in the order the client performs them. */
+export interface GuidedStep {
+  groupId: string;
+  groupIndex: number;
+  groupType: WorkoutType;
+  exercise: Exercise;
+  set: WorkoutSet;
+  round: number;
+  totalRounds: number;
+  /** Rest to count down once this set is logged; null on the final set. */
+  restAfter: RestKind | null;
+  isLastInGroup: boolean;
+}
+
+/** Groups come through as "SuperSet" from the builder and "Super Set" from older plans. */
+export function normalizeGroupType(type: string): WorkoutType {
+  if (type === "Super Set" || type === "SuperSet") return "SuperSet";
+  if (type === "Giant Set" || type === "GiantSet") return "GiantSet";
+  return "Single";
+}
+
+export function guidedEntryKey(exerciseId: string, setNumber: number): string {
+  return `${exerciseId}-${setNumber}`;
+}
+
+/**
+ * Flattens groups into the sequence the player steps through. Singles run
+ * their sets back to back; super and giant sets go round-robin through the
+ * exercises, one set each per round, skipping exercises with fewer sets.
+ */
+export function buildGuidedSteps(groups: GuidedWorkoutGroup[]): GuidedStep[] {
+  const steps: GuidedStep[] = [];
+
+  groups.forEach((group, groupIndex) => {
+    const groupType = normalizeGroupType(group.type);
+    const exercises = group.exercises.filter((exercise) => exercise.sets.length > 0);
+    const totalRounds = Math.max(0, ...exercises.map((exercise) => exercise.sets.length));
+    const groupSteps: GuidedStep[] = [];
+
+    for (let round = 1; round <= totalRounds; round++) {
+      const inRound = exercises.filter((exercise) => exercise.sets.length >= round);
+      inRound.forEach((exercise, position) => {
+        const isLastInRound = position === inRound.length - 1;
+        groupSteps.push({
+          groupId: group.id,
+          groupIndex,
+          groupType,
+          exercise,
+          set: exercise.sets[round - 1],
+          round,
+          totalRounds,
+          restAfter:
+            groupType === "Single" ? "betweenSets" : isLastInRound ? "betweenRounds" : "betweenExercises",
+          isLastInGroup: false,
+        });
+      });
+    }
+
+    if (groupSteps.length > 0) {
+      const last = groupSteps[groupSteps.length - 1];
+      last.isLastInGroup = true;
+      last.restAfter = "betweenRounds";
+    }
+    steps.push(...groupSteps);
+  });
+
+  if (steps.length > 0) {
+    steps[steps.length - 1].restAfter = null;
+  }
+  return steps;
+}
+
+export function restSecondsFor(kind: RestKind | null, settings: RestTimerSettings): number {
+  if (!kind) return 0;
+  return Math.max(0, Math.round(settings[kind] || 0));
+}
+
+/** Accepts only whole, non-negative seconds up to an hour; anything else falls back to the defaults. */
+export function parseRestSettings(value: unknown): RestTimerSettings {
+  const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const read = (key: RestKind) => {
+    const num = Number(raw[key]);
+    return Number.isFinite(num) && num >= 0 && num <= 3600
+      ? Math.round(num)
+      : DEFAULT_REST_SETTINGS[key];
+  };
+  return {
+    betweenSets: read("betweenSets"),
+    betweenExercises: read("betweenExercises"),
+    betweenRounds: read("betweenRounds"),
+  };
+}
+
+export function formatRestTime(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/** Starting values for a set's inputs: what was logged, else the prescribed load. */
+export function initialGuidedEntry(
+  step: GuidedStep,
+  entries: Record<string, GuidedSetEntry>
+): GuidedSetEntry {
+  const logged = entries[guidedEntryKey(step.exercise.id, step.set.setNumber)];
+  if (logged) return logged;
+  return {
+    weight: step.set.weight !== undefined && step.set.weight !== null ? String(step.set.weight) : "",
+    reps: "",
+    rpe: "",
+  };
+}
@@ -0,0 +1,53 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "~/lib/supabase";
+import { toUserTimezone } from "~/lib/timezone";
+import { scoreHabits } from "~/lib/habitScoring";
+import type { HabitScore, ScoredHabit } from "~/types/habits";
+
+type ServiceClient = SupabaseClient<Database>;
+
+// Supabase caps a select at 1000 rows, so long histories are read in pages
+const COMPLETIONS_PAGE_SIZE = 1000;
+
+/**
+ * Loads each habit's completions since it was assigned and scores them,
+ * keyed by client_habits id. `weekStart` is the Sunday of the week the page
+ * is showing.
+ */
+export async function getHabitScores({
+  supabase,
+  habits,
+  today,
+  weekStart,
+}: {
+  supabase: ServiceClient;
+  habits: ScoredHabit[];
+  today: string;
+  weekStart: string;
+}): Promise<Record<string, HabitScore>> {
+  if (habits.length === 0) return {};
+  const since = habits
+    .map((habit) => toUserTimezone(habit.assigned_at).format("YYYY-MM-DD"))
+    .reduce((earliest, date) => (date < earliest ? date : earliest));
+
+  const habitIds = habits.map((habit) => habit.id);
+  const completions: { client_habit_id: string; completed_at: string; value: number | null }[] = [];
+  for (let offset = 0; ; offset += COMPLETIONS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("habit_completions")
+      .select("client_habit_id, completed_at, value")
+      .in("client_habit_id", habitIds)
+      .gte("completed_at", since)
+      .order("completed_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + COMPLETIONS_PAGE_SIZE - 1);
+    if (error) {
+      console.error("Error fetching habit completions:", error);
+      throw new Error("Failed to fetch habit completions");
+    }
+    completions.push(...(data || []));
+    if (!data || data.length < COMPLETIONS_PAGE_SIZE) break;
+  }
+
+  return scoreHabits(habits, completions, { today, weekStart });
+}
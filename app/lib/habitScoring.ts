@@ -0,0 +1,240 @@
+import { completionCredit, resolveHabitTarget } from "~/lib/habitTargets";
+import { toUserTimezone } from "~/lib/timezone";
+import type { HabitBadge, HabitScore, HabitStreakUnit, ScoredHabit } from "~/types/habits";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Hit rate is also reported over this many weeks, ending with the scored week
+const HIT_RATE_WEEKS = 4;
+
+type BadgeDefinition = HabitBadge & {
+  kind: "day_streak" | "week_streak" | "completions";
+  threshold: number;
+};
+
+export const HABIT_BADGES: BadgeDefinition[] = [
+  { key: "day_streak_7", kind: "day_streak", threshold: 7, label: "One Week Strong", description: "7 scheduled days in a row" },
+  { key: "day_streak_30", kind: "day_streak", threshold: 30, label: "Monthly Momentum", description: "30 scheduled days in a row" },
+  { key: "day_streak_100", kind: "day_streak", threshold: 100, label: "Century Streak", description: "100 scheduled days in a row" },
+  { key: "week_streak_4", kind: "week_streak", threshold: 4, label: "Four-Week Run", description: "Weekly target hit 4 weeks in a row" },
+  { key: "week_streak_12", kind: "week_streak", threshold: 12, label: "Quarter Locked In", description: "Weekly target hit 12 weeks in a row" },
+  { key: "week_streak_26", kind: "week_streak", threshold: 26, label: "Half-Year Habit", description: "Weekly target hit 26 weeks in a row" },
+  { key: "completions_10", kind: "completions", threshold: 10, label: "Getting Started", description: "10 completions logged" },
+  { key: "completions_50", kind: "completions", threshold: 50, label: "Committed", description: "50 completions logged" },
+  { key: "completions_100", kind: "completions", threshold: 100, label: "Habit Formed", description: "100 completions logged" },
+];
+
+/** YYYY-MM-DD of a timestamp or date, in the app's timezone. */
+function dayKey(date: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : toUserTimezone(date).format("YYYY-MM-DD");
+}
+
+function dayNumber(date: string) {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+/** Day number of the Sunday starting the week `day` falls in. */
+function weekStartNumber(day: number) {
+  return day - new Date(day * DAY_MS).getUTCDay();
+}
+
+/** Index into schedule_days: 0 = Mon … 6 = Sun. */
+function scheduleIndex(day: number) {
+  return (new Date(day * DAY_MS).getUTCDay() + 6) % 7;
+}
+
+/**
+ * Daily habits and weekly habits pinned to days streak by scheduled day.
+ * Times-per-week, open weekly and flexible habits streak by week, hitting
+ * when the week has enough completions.
+ */
+export function habitStreakUnit(habit: ScoredHabit): HabitStreakUnit {
+  if (habit.frequency === "daily" || !habit.frequency) return "day";
+  if (habit.frequency === "weekly" && habit.schedule_days?.length) return "day";
+  return "week";
+}
+
+function isScheduledOn(habit: ScoredHabit, day: number) {
+  if (habit.frequency === "daily" || !habit.frequency) return true;
+  return habit.schedule_days?.includes(scheduleIndex(day)) ?? false;
+}
+
+/** Completions a week-unit habit needs for the week to count. */
+function weeklyTarget(habit: ScoredHabit) {
+  return habit.frequency === "times_per_week" && habit.times_per_week ? habit.times_per_week : 1;
+}
+
+function ratio(hits: number, target: number) {
+  return target > 0 ? Math.min(1, hits / target) : 0;
+}
+
+/** `due` is the part of `target` the week's elapsed days call for, which rates are measured against. */
+type WeekTally = { hits: number; target: number; due: number };
+
+/** Credit earned on each day number, 0–1. */
+type DayCredits = Map<number, number>;
+
+function creditBetween(done: DayCredits, from: number, to: number) {
+  let total = 0;
+  for (let day = from; day < to; day++) {
+    total += done.get(day) ?? 0;
+  }
+  // Rounded so partial days that add up to the target (0.3 + 0.7) count as hitting it
+  return Math.round(total * 100) / 100;
+}
+
+function streaksByDay(habit: ScoredHabit, done: DayCredits, assignedDay: number, today: number) {
+  let current = 0;
+  let best = 0;
+  for (let day = assignedDay; day <= today; day++) {
+    if (!isScheduledOn(habit, day)) continue;
+    // A day logged short of the target doesn't keep the run going
+    if ((done.get(day) ?? 0) >= 1) {
+      current++;
+      best = Math.max(best, current);
+    } else if (day !== today) {
+      // Today is still open, so only a missed past day breaks the run
+      current = 0;
+    }
+  }
+  return { current, best };
+}
+
+function streaksByWeek(habit: ScoredHabit, done: DayCredits, assignedDay: number, today: number) {
+  const target = weeklyTarget(habit);
+  const firstWeek = weekStartNumber(assignedDay);
+  const thisWeek = weekStartNumber(today);
+  let current = 0;
+  let best = 0;
+  for (let week = firstWeek; week <= thisWeek; week += 7) {
+    if (creditBetween(done, week, week + 7) >= target) {
+      current++;
+      best = Math.max(best, current);
+    } else if (week !== thisWeek && week !== firstWeek) {
+      // The week it was assigned in is partial and this week is still open
+      current = 0;
+    }
+  }
+  return { current, best };
+}
+
+/**
+ * Hits and target for the week starting on `week`. Days after `today` haven't
+ * happened yet, so they aren't counted against the client: a day-unit week
+ * only targets the days so far, and a week-unit target is prorated by them.
+ * Today is still open, so it only counts once something is logged.
+ */
+function tallyWeek(
+  habit: ScoredHabit,
+  done: DayCredits,
+  assignedDay: number,
+  week: number,
+  today: number
+): WeekTally {
+  if (habitStreakUnit(habit) === "week") {
+    if (week + 6 < assignedDay || week > today) return { hits: 0, target: 0, due: 0 };
+    const target = weeklyTarget(habit);
+    const elapsed = week + 6 < today ? 7 : today - week + (done.has(today) ? 1 : 0);
+    return { hits: creditBetween(done, week, week + 7), target, due: (target * elapsed) / 7 };
+  }
+  let hits = 0;
+  let target = 0;
+  for (let day = Math.max(week, assignedDay); day < week + 7 && day <= today; day++) {
+    if (!isScheduledOn(habit, day) || (day === today && !done.has(day))) continue;
+    target++;
+    hits += done.get(day) ?? 0;
+  }
+  return { hits: Math.round(hits * 100) / 100, target, due: target };
+}
+
+function earnedBadges(unit: HabitStreakUnit, bestStreak: number, totalCompletions: number) {
+  const streakKind = unit === "day" ? "day_streak" : "week_streak";
+  const applicable = HABIT_BADGES.filter((b) => b.kind === streakKind || b.kind === "completions");
+  const progressFor = (badge: BadgeDefinition) =>
+    badge.kind === "completions" ? totalCompletions : bestStreak;
+  const earned = applicable.filter((b) => progressFor(b) >= b.threshold);
+  const nextStreak = applicable.find((b) => b.kind === streakKind && bestStreak < b.threshold);
+  const nextTotal = applicable.find((b) => b.kind === "completions" && totalCompletions < b.threshold);
+  const next = nextStreak ?? nextTotal;
+  const toBadge = ({ key, label, description }: BadgeDefinition): HabitBadge => ({ key, label, description });
+  return {
+    badges: earned.map(toBadge),
+    nextBadge: next ? { badge: toBadge(next), remaining: next.threshold - progressFor(next) } : null,
+  };
+}
+
+type ScoredCompletion = { client_habit_id: string; completed_at: string; value: number | null };
+
+/**
+ * Streaks, hit rates and badges for one habit. `completions` are the habit's
+ * logged days; a value short of the habit's target earns partial credit.
+ * `weekStart` is the Sunday of the week being reported on and `today` caps
+ * the streaks.
+ */
+export function scoreHabit(
+  habit: ScoredHabit,
+  completions: ScoredCompletion[],
+  { today, weekStart }: { today: string; weekStart: string }
+): HabitScore {
+  const todayNumber = dayNumber(today);
+  const assignedDay = Math.min(dayNumber(dayKey(habit.assigned_at)), todayNumber);
+  const target = resolveHabitTarget(habit);
+  const done: DayCredits = new Map();
+  for (const completion of completions) {
+    const day = dayNumber(completion.completed_at);
+    const credit = completionCredit(completion.value, target);
+    if (day >= assignedDay && day <= todayNumber && credit > 0) {
+      done.set(day, credit);
+    }
+  }
+  const unit = habitStreakUnit(habit);
+  const { current, best } =
+    unit === "day"
+      ? streaksByDay(habit, done, assignedDay, todayNumber)
+      : streaksByWeek(habit, done, assignedDay, todayNumber);
+
+  const scoredWeek = weekStartNumber(dayNumber(weekStart));
+  const week = tallyWeek(habit, done, assignedDay, scoredWeek, todayNumber);
+  let recentHits = 0;
+  let recentDue = 0;
+  for (let i = 0; i < HIT_RATE_WEEKS; i++) {
+    const tally = tallyWeek(habit, done, assignedDay, scoredWeek - i * 7, todayNumber);
+    recentHits += Math.min(tally.hits, tally.due);
+    recentDue += tally.due;
+  }
+
+  const totalCompletions = done.size;
+  return {
+    clientHabitId: habit.id,
+    unit,
+    currentStreak: current,
+    bestStreak: best,
+    totalCompletions,
+    weekHits: week.hits,
+    weekTarget: week.target,
+    // Nothing due yet this week (e.g. its first day, not yet logged) is on track
+    weeklyHitRate: week.due > 0 ? ratio(week.hits, week.due) : Number(week.target > 0),
+    fourWeekHitRate: ratio(recentHits, recentDue),
+    ...earnedBadges(unit, best, totalCompletions),
+  };
+}
+
+/** Scores every habit, keyed by client_habits id. */
+export function scoreHabits(
+  habits: ScoredHabit[],
+  completions: ScoredCompletion[],
+  options: { today: string; weekStart: string }
+): Record<string, HabitScore> {
+  const byHabit: Record<string, ScoredCompletion[]> = {};
+  for (const c of completions) {
+    (byHabit[c.client_habit_id] ||= []).push(c);
+  }
+  return Object.fromEntries(
+    habits.map((habit) => [habit.id, scoreHabit(habit, byHabit[habit.id] || [], options)])
+  );
+}
+
+/** "12 day streak", "3 week streak" */
+export function formatHabitStreak(count: number, unit: HabitStreakUnit) {
+  return `${count} ${unit} streak`;
+}
+
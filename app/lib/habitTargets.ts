@@ -0,0 +1,56 @@
+export type HabitTarget = { value: number; unit: string };
+
+/** The target fields of a client_habits row and its preset. */
+export type HabitTargetFields = {
+  target_value: number | null;
+  target_unit: string | null;
+  preset?: { target_default: number | null; target_unit: string | null } | null;
+};
+
+const TARGET_PATTERN = /^(\d[\d,]*(?:\.\d+)?)\s*(.*)$/;
+
+/** "10,000 steps" → { value: 10000, unit: "steps" }. Null when the text doesn't start with a number. */
+export function parseHabitTarget(text: string | null | undefined): HabitTarget | null {
+  const match = TARGET_PATTERN.exec((text || "").trim());
+  if (!match) return null;
+  const value = Number(match[1].replace(/,/g, ""));
+  if (!Number.isFinite(value) || value <= 0) return null;
+  return { value, unit: match[2].trim() };
+}
+
+/**
+ * The numeric target a habit is logged against. Older assignments kept the
+ * whole goal ("100 oz") in target_unit, so that is parsed when there's no
+ * target_value.
+ */
+export function resolveHabitTarget(habit: HabitTargetFields): HabitTarget | null {
+  if (habit.target_value != null && Number(habit.target_value) > 0) {
+    return {
+      value: Number(habit.target_value),
+      unit: habit.target_unit || habit.preset?.target_unit || "",
+    };
+  }
+  const parsed = parseHabitTarget(habit.target_unit);
+  if (parsed) return parsed;
+  if (habit.preset?.target_default != null && Number(habit.preset.target_default) > 0) {
+    return { value: Number(habit.preset.target_default), unit: habit.preset.target_unit || "" };
+  }
+  return null;
+}
+
+/** "8 hours", or the coach's free-text goal when it has no number. */
+export function formatHabitTarget(habit: HabitTargetFields): string | null {
+  const target = resolveHabitTarget(habit);
+  if (target) return `${target.value.toLocaleString("en-US")}${target.unit ? ` ${target.unit}` : ""}`;
+  return habit.target_unit?.trim() || null;
+}
+
+/**
+ * Share of a day's target a completion earns, 0–1. A completion without a
+ * value, or on a habit without a numeric target, was checked off and earns
+ * full credit.
+ */
+export function completionCredit(value: number | null | undefined, target: HabitTarget | null) {
+  if (!target || value == null || !Number.isFinite(Number(value))) return 1;
+  return Math.min(1, Math.max(0, Number(value) / target.value));
+}
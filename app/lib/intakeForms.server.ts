@@ -0,0 +1,188 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CheckInQuestionType, ClientProfileField, Database } from "~/lib/supabase";
+import {
+  checkInResponseColumns,
+  clientProfileValue,
+  findCheckInResponseError,
+  isCheckInResponseEmpty,
+  isIntakeQuestion,
+  isQuestionVisible,
+  parseProfileField,
+  parseVisibilityRule,
+  type QuestionVisibilityRule,
+} from "~/lib/checkInFormUtils";
+
+export type IntakeQuestion = {
+  id: string;
+  question_text: string;
+  question_type: CheckInQuestionType;
+  is_required: boolean;
+  options: string[];
+  order_index: number;
+  visibility_rule: QuestionVisibilityRule | null;
+  profile_field: ClientProfileField | null;
+};
+
+export type IntakeForm = {
+  id: string;
+  title: string;
+  description: string | null;
+  questions: IntakeQuestion[];
+};
+
+/** Profile columns filled in from intake answers. */
+export type IntakeProfileValues = {
+  goal?: string;
+  starting_weight?: number;
+  current_weight?: number;
+  allergies?: string;
+  equipment_available?: string;
+};
+
+/** An active form with the questions a new client answers at registration. */
+export async function getIntakeForm(
+  supabase: SupabaseClient<Database>,
+  formId: string
+): Promise<IntakeForm | null> {
+  const { data: form, error } = await supabase
+    .from("check_in_forms")
+    .select(
+      "id, title, description, questions:check_in_form_questions(id, question_text, question_type, is_required, options, order_index, visibility_rule, profile_field)"
+    )
+    .eq("id", formId)
+    .eq("is_active", true)
+    .single();
+
+  if (error || !form) {
+    return null;
+  }
+
+  const questions = (Array.isArray(form.questions) ? [...form.questions] : [])
+    .sort((a, b) => (a.order_index ?? 0) - (b.order_index ?? 0))
+    .map((question) => ({
+      id: question.id,
+      question_text: question.question_text,
+      question_type: question.question_type,
+      is_required: question.is_required,
+      options: question.options ?? [],
+      order_index: question.order_index ?? 0,
+      visibility_rule: parseVisibilityRule(question.visibility_rule, question.order_index),
+      profile_field: parseProfileField(question.profile_field, question.question_type),
+    }));
+
+  return {
+    id: form.id,
+    title: form.title,
+    description: form.description ?? null,
+    questions,
+  };
+}
+
+/**
+ * Checks a registration's intake answers. Returns the answers to the
+ * questions the client was shown, or the problem to show them.
+ */
+export function validateIntakeResponses(
+  form: IntakeForm,
+  responses: Record<string, unknown>
+): { answers: Record<string, unknown>; error?: undefined } | { answers?: undefined; error: string } {
+  const visibleQuestions = form.questions.filter(
+    (question) =>
+      isIntakeQuestion(question) && isQuestionVisible(question, form.questions, responses)
+  );
+  const error = findCheckInResponseError(visibleQuestions, responses);
+  if (error) {
+    return { error };
+  }
+  return {
+    answers: Object.fromEntries(
+      visibleQuestions
+        .filter((question) => !isCheckInResponseEmpty(question.question_type, responses[question.id]))
+        .map((question) => [question.id, responses[question.id]])
+    ),
+  };
+}
+
+/**
+ * The profile columns the answers fill in. A starting weight is the client's
+ * current weight too until they log one.
+ */
+export function intakeProfileValues(
+  form: IntakeForm,
+  answers: Record<string, unknown>
+): IntakeProfileValues {
+  const values: IntakeProfileValues = {};
+  form.questions.forEach((question) => {
+    if (!question.profile_field || !(question.id in answers)) return;
+    const value = clientProfileValue(question.profile_field, question.question_type, answers[question.id]);
+    if (value === null) return;
+    if (question.profile_field === "starting_weight") {
+      values.starting_weight = Number(value);
+      values.current_weight = Number(value);
+    } else {
+      values[question.profile_field] = String(value);
+    }
+  });
+  return values;
+}
+
+/**
+ * Stores the answers as a completed form for the new client, so the coach
+ * finds them alongside the client's other check-in forms.
+ */
+export async function saveIntakeResponses({
+  supabase,
+  form,
+  coachId,
+  clientId,
+  answers,
+}: {
+  supabase: SupabaseClient<Database>;
+  form: IntakeForm;
+  coachId: string;
+  clientId: string;
+  answers: Record<string, unknown>;
+}) {
+  const now = new Date().toISOString();
+  const { data: instance, error: instanceError } = await supabase
+    .from("check_in_form_instances")
+    .insert({
+      form_id: form.id,
+      client_id: clientId,
+      coach_id: coachId,
+      sent_at: now,
+      completed_at: now,
+      expires_at: now,
+      status: "completed",
+      title: form.title,
+      description: form.description || undefined,
+      reminder_offsets_hours: [],
+    })
+    .select("id")
+    .single();
+
+  if (instanceError || !instance) {
+    console.error("Error creating intake form instance:", instanceError);
+    throw new Error("Failed to save intake answers");
+  }
+
+  const responseRows = form.questions.flatMap((question) => {
+    if (!(question.id in answers)) return [];
+    const columns = checkInResponseColumns(question.question_type, answers[question.id]);
+    return columns ? [{ instance_id: instance.id, question_id: question.id, ...columns }] : [];
+  });
+
+  if (responseRows.length > 0) {
+    const { error: responsesError } = await supabase
+      .from("check_in_form_responses")
+      .insert(responseRows);
+
+    if (responsesError) {
+      console.error("Error saving intake responses:", responsesError);
+      await supabase.from("check_in_form_instances").delete().eq("id", instance.id);
+      throw new Error("Failed to save intake answers");
+    }
+  }
+
+  return instance;
+}
@@ -0,0 +1,81 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "~/lib/supabase";
+import type { MacroTargets } from "~/types/nutrition";
+
+type ServiceClient = SupabaseClient<Database>;
+
+export async function getClientMacroTargets({
+  supabase,
+  clientId,
+}: {
+  supabase: ServiceClient;
+  clientId: string;
+}): Promise<MacroTargets | null> {
+  const { data, error } = await supabase
+    .from("client_macro_targets")
+    .select("calories, protein, carbs, fat")
+    .eq("client_id", clientId)
+    .maybeSingle();
+  if (error) {
+    console.error("Error fetching macro targets:", error);
+    throw new Error("Failed to fetch macro targets");
+  }
+  if (!data) return null;
+  return {
+    calories: Number(data.calories) || 0,
+    protein: Number(data.protein) || 0,
+    carbs: Number(data.carbs) || 0,
+    fat: Number(data.fat) || 0,
+  };
+}
+
+function targetValue(value: unknown, field: string): number {
+  if (value === undefined || value === null || value === "") return 0;
+  const num = Number(value);
+  if (!Number.isFinite(num) || num < 0) {
+    throw new Error(`${field} target must be a number of at least 0`);
+  }
+  return Math.round(num);
+}
+
+/**
+ * Validates targets posted by a coach. Calories default to the sum of the
+ * macro grams when left blank.
+ */
+export function parseMacroTargetsInput(body: Record<string, unknown>): MacroTargets {
+  const protein = targetValue(body.protein, "Protein");
+  const carbs = targetValue(body.carbs, "Carbs");
+  const fat = targetValue(body.fat, "Fat");
+  const calories =
+    body.calories === undefined || body.calories === null || body.calories === ""
+      ? protein * 4 + carbs * 4 + fat * 9
+      : targetValue(body.calories, "Calories");
+  return { calories, protein, carbs, fat };
+}
+
+export async function saveClientMacroTargets({
+  supabase,
+  coachId,
+  clientId,
+  targets,
+}: {
+  supabase: ServiceClient;
+  coachId: string;
+  clientId: string;
+  targets: MacroTargets;
+}): Promise<MacroTargets> {
+  const { error } = await supabase.from("client_macro_targets").upsert(
+    {
+      client_id: clientId,
+      coach_id: coachId,
+      ...targets,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "client_id" }
+  );
+  if (error) {
+    console.error("Error saving macro targets:", error);
+    throw new Error("Failed to save macro targets");
+  }
+  return targets;
+}
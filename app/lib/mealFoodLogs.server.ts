@@ -0,0 +1,200 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "~/lib/supabase";
+import type { FoodLogEntry, FoodLogKind } from "~/types/nutrition";
+
+type ServiceClient = SupabaseClient<Database>;
+
+type MealFoodLogRow = Database["public"]["Tables"]["meal_food_logs"]["Row"];
+type MealFoodLogInsert = Database["public"]["Tables"]["meal_food_logs"]["Insert"];
+
+const FOOD_LOG_KINDS: FoodLogKind[] = ["portion", "swap", "skip", "extra"];
+
+function foodLogFromRow(row: MealFoodLogRow): FoodLogEntry {
+  return {
+    id: row.id,
+    date: row.log_date,
+    kind: row.kind,
+    mealId: row.meal_id,
+    plannedFoodId: row.planned_food_id,
+    foodLibraryId: row.food_library_id,
+    name: row.name,
+    portion: row.portion || "",
+    calories: Number(row.calories) || 0,
+    protein: Number(row.protein) || 0,
+    carbs: Number(row.carbs) || 0,
+    fat: Number(row.fat) || 0,
+  };
+}
+
+/** Food logs for a user between two YYYY-MM-DD dates, inclusive. */
+export async function listFoodLogs({
+  supabase,
+  userId,
+  startDate,
+  endDate,
+}: {
+  supabase: ServiceClient;
+  userId: string;
+  startDate: string;
+  endDate: string;
+}): Promise<FoodLogEntry[]> {
+  const { data, error } = await supabase
+    .from("meal_food_logs")
+    .select("*")
+    .eq("user_id", userId)
+    .gte("log_date", startDate)
+    .lte("log_date", endDate)
+    .order("created_at", { ascending: true });
+  if (error) {
+    console.error("Error fetching food logs:", error);
+    throw new Error("Failed to fetch food logs");
+  }
+  return (data || []).map(foodLogFromRow);
+}
+
+function macroValue(value: unknown, field: string): number {
+  if (value === undefined || value === null || value === "") return 0;
+  const num = Number(value);
+  if (!Number.isFinite(num) || num < 0) {
+    throw new Error(`${field} must be a number of at least 0`);
+  }
+  return Math.round(num * 10) / 10;
+}
+
+/**
+ * Validates a food log posted by a client. Swaps and extras need a name;
+ * everything but an extra must name the planned food it replaces. Calories
+ * follow the macros like they do in the meal plan builder.
+ */
+export function parseFoodLogInput(
+  body: Record<string, unknown>
+): Omit<MealFoodLogInsert, "user_id"> {
+  const kind = body.kind as FoodLogKind;
+  if (!FOOD_LOG_KINDS.includes(kind)) {
+    throw new Error("kind must be one of portion, swap, skip or extra");
+  }
+  const date = typeof body.date === "string" ? body.date : "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error("date must be YYYY-MM-DD");
+  }
+  const plannedFoodId = typeof body.plannedFoodId === "string" ? body.plannedFoodId : null;
+  if (kind !== "extra" && !plannedFoodId) {
+    throw new Error("plannedFoodId is required for this change");
+  }
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    throw new Error("Food name is required");
+  }
+
+  const skip = kind === "skip";
+  const protein = skip ? 0 : macroValue(body.protein, "Protein");
+  const carbs = skip ? 0 : macroValue(body.carbs, "Carbs");
+  const fat = skip ? 0 : macroValue(body.fat, "Fat");
+  return {
+    kind,
+    log_date: date,
+    meal_id: typeof body.mealId === "string" ? body.mealId : null,
+    planned_food_id: kind === "extra" ? null : plannedFoodId,
+    food_library_id: typeof body.foodLibraryId === "string" ? body.foodLibraryId : null,
+    name,
+    portion: typeof body.portion === "string" ? body.portion.trim() : "",
+    protein,
+    carbs,
+    fat,
+    calories: Math.round(protein * 4 + carbs * 4 + fat * 9),
+  };
+}
+
+/** Whether a planned food belongs to one of the user's own meal plans. */
+async function userOwnsPlannedFood({
+  supabase,
+  userId,
+  foodId,
+}: {
+  supabase: ServiceClient;
+  userId: string;
+  foodId: string;
+}): Promise<boolean> {
+  const { data: food } = await supabase
+    .from("foods")
+    .select("meal_id")
+    .eq("id", foodId)
+    .maybeSingle();
+  if (!food?.meal_id) return false;
+  const { data: meal } = await supabase
+    .from("meals")
+    .select("meal_plan_id")
+    .eq("id", food.meal_id)
+    .maybeSingle();
+  if (!meal?.meal_plan_id) return false;
+  const { data: plan } = await supabase
+    .from("meal_plans")
+    .select("id")
+    .eq("id", meal.meal_plan_id)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return !!plan;
+}
+
+/**
+ * Saves a food log. A new portion, swap or skip for a planned food replaces
+ * whatever was logged for that food on the same day.
+ */
+export async function saveFoodLog({
+  supabase,
+  userId,
+  input,
+}: {
+  supabase: ServiceClient;
+  userId: string;
+  input: Omit<MealFoodLogInsert, "user_id">;
+}): Promise<FoodLogEntry> {
+  if (input.planned_food_id) {
+    const owns = await userOwnsPlannedFood({ supabase, userId, foodId: input.planned_food_id });
+    if (!owns) {
+      throw new Error("That food isn't on your meal plan");
+    }
+    const { error: deleteError } = await supabase
+      .from("meal_food_logs")
+      .delete()
+      .eq("user_id", userId)
+      .eq("log_date", input.log_date)
+      .eq("planned_food_id", input.planned_food_id)
+      .neq("kind", "extra");
+    if (deleteError) {
+      console.error("Error replacing food log:", deleteError);
+      throw new Error("Failed to save food log");
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("meal_food_logs")
+    .insert({ ...input, user_id: userId })
+    .select("*")
+    .single();
+  if (error || !data) {
+    console.error("Error saving food log:", error);
+    throw new Error("Failed to save food log");
+  }
+  return foodLogFromRow(data);
+}
+
+export async function deleteFoodLog({
+  supabase,
+  userId,
+  logId,
+}: {
+  supabase: ServiceClient;
+  userId: string;
+  logId: string;
+}): Promise<void> {
+  const { error } = await supabase
+    .from("meal_food_logs")
+    .delete()
+    .eq("id", logId)
+    .eq("user_id", userId);
+  if (error) {
+    console.error("Error deleting food log:", error);
+    throw new Error("Failed to delete food log");
+  }
+}
@@ -0,0 +1,339 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "~/lib/supabase";
+import {
+  estimateOneRepMax,
+  formatPersonalBest,
+  normalizeExerciseKey,
+} from "~/lib/personalBests";
+import { getCurrentTimestampISO } from "~/lib/timezone";
+import type {
+  ExerciseHistoryPoint,
+  PersonalBestRecord,
+  PersonalBestSummary,
+  WorkoutSessionLog,
+} from "~/types/workout";
+
+type ServiceClient = SupabaseClient<Database>;
+
+type RecordRow = Database["public"]["Tables"]["personal_best_records"]["Row"];
+type RecordInsert = Database["public"]["Tables"]["personal_best_records"]["Insert"];
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+export function recordFromRow(row: RecordRow): PersonalBestRecord {
+  return {
+    id: row.id,
+    exerciseKey: row.exercise_key,
+    exerciseName: row.exercise_name,
+    recordType: row.record_type,
+    value: toNumber(row.value) ?? 0,
+    weight: toNumber(row.weight),
+    reps: row.reps,
+    previousValue: toNumber(row.previous_value),
+    achievedAt: row.achieved_at,
+    sharedAt: row.shared_at,
+  };
+}
+
+/**
+ * Compares a freshly saved session against the client's record history and
+ * stores every record it breaks. Returns only records that beat a previous
+ * best; first-time baselines are stored but not worth celebrating.
+ */
+export async function detectPersonalBests({
+  supabase,
+  userId,
+  session,
+}: {
+  supabase: ServiceClient;
+  userId: string;
+  session: WorkoutSessionLog;
+}): Promise<PersonalBestRecord[]> {
+  const setsByExercise = new Map<
+    string,
+    { name: string; sets: { weight: number; reps: number }[] }
+  >();
+  for (const set of session.sets) {
+    const weight = set.actualWeight ?? null;
+    const reps = set.actualReps ?? null;
+    // A load without reps was never lifted (e.g. an untouched prescribed set)
+    if (weight === null || weight <= 0 || reps === null || reps === 0) continue;
+    const key = normalizeExerciseKey(set.exerciseName);
+    const entry = setsByExercise.get(key) || { name: set.exerciseName.trim(), sets: [] };
+    entry.sets.push({ weight, reps });
+    setsByExercise.set(key, entry);
+  }
+  if (setsByExercise.size === 0) return [];
+
+  const { data: existingRows, error: existingError } = await supabase
+    .from("personal_best_records")
+    .select("*")
+    .eq("user_id", userId)
+    .in("exercise_key", Array.from(setsByExercise.keys()));
+  if (existingError) {
+    console.error("Error fetching personal best records:", existingError);
+    throw new Error("Failed to check personal bests");
+  }
+  const existing = (existingRows || []).map(recordFromRow);
+
+  const inserts: RecordInsert[] = [];
+  for (const [key, { name, sets }] of setsByExercise) {
+    const history = existing.filter((r) => r.exerciseKey === key);
+    const bestOf = (type: PersonalBestRecord["recordType"]) =>
+      history
+        .filter((r) => r.recordType === type)
+        .reduce<number | null>((best, r) => (best === null || r.value > best ? r.value : best), null);
+    const baseRecord = {
+      user_id: userId,
+      exercise_key: key,
+      exercise_name: name,
+      session_id: session.id,
+      achieved_at: session.performedAt,
+    };
+
+    // Heaviest load: the single heaviest set of the session
+    const heaviest = sets.reduce((a, b) =>
+      b.weight > a.weight || (b.weight === a.weight && b.reps > a.reps) ? b : a
+    );
+    const previousLoad = bestOf("heaviest_load");
+    if (previousLoad === null || heaviest.weight > previousLoad) {
+      inserts.push({
+        ...baseRecord,
+        record_type: "heaviest_load",
+        value: heaviest.weight,
+        weight: heaviest.weight,
+        reps: heaviest.reps,
+        previous_value: previousLoad,
+      });
+    }
+
+    // Best estimated 1RM across sets with a usable rep count
+    let bestEstimate: { value: number; weight: number; reps: number } | null = null;
+    for (const set of sets) {
+      const estimate = estimateOneRepMax(set.weight, set.reps);
+      if (estimate !== null && (!bestEstimate || estimate > bestEstimate.value)) {
+        bestEstimate = { value: estimate, weight: set.weight, reps: set.reps };
+      }
+    }
+    const previousEstimate = bestOf("estimated_1rm");
+    if (bestEstimate && (previousEstimate === null || bestEstimate.value > previousEstimate)) {
+      inserts.push({
+        ...baseRecord,
+        record_type: "estimated_1rm",
+        value: bestEstimate.value,
+        weight: bestEstimate.weight,
+        reps: bestEstimate.reps,
+        previous_value: previousEstimate,
+      });
+    }
+
+    // Most reps at a load: beating every earlier set done at this weight or heavier.
+    // Walking sets heaviest-first keeps only the session's own best set per load.
+    const frontier = history
+      .filter((r) => r.weight !== null && r.reps !== null)
+      .map((r) => ({ weight: r.weight as number, reps: r.reps as number }));
+    const repSets = [...sets].sort((a, b) => b.weight - a.weight || b.reps - a.reps);
+    for (const set of repSets) {
+      const previousReps = frontier
+        .filter((f) => f.weight >= set.weight)
+        .reduce<number | null>((best, f) => (best === null || f.reps > best ? f.reps : best), null);
+      if (previousReps !== null && set.reps <= previousReps) continue;
+      inserts.push({
+        ...baseRecord,
+        record_type: "reps_at_load",
+        value: set.reps,
+        weight: set.weight,
+        reps: set.reps,
+        previous_value: previousReps,
+      });
+      frontier.push(set);
+    }
+  }
+
+  if (inserts.length === 0) return [];
+
+  const { data: inserted, error: insertError } = await supabase
+    .from("personal_best_records")
+    .insert(inserts)
+    .select("*");
+  if (insertError) {
+    console.error("Error inserting personal best records:", insertError);
+    throw new Error("Failed to save personal bests");
+  }
+
+  return (inserted || [])
+    .map(recordFromRow)
+    .filter((record) => record.previousValue !== null);
+}
+
+/** Current heaviest load and est. 1RM for every exercise the client has logged. */
+export async function getPersonalBestSummary({
+  supabase,
+  userId,
+}: {
+  supabase: ServiceClient;
+  userId: string;
+}): Promise<PersonalBestSummary[]> {
+  const { data, error } = await supabase
+    .from("personal_best_records")
+    .select("*")
+    .eq("user_id", userId)
+    .in("record_type", ["heaviest_load", "estimated_1rm"])
+    .order("achieved_at", { ascending: true });
+  if (error) {
+    console.error("Error fetching personal best summary:", error);
+    throw new Error("Failed to fetch personal bests");
+  }
+
+  const byExercise = new Map<string, PersonalBestSummary>();
+  for (const record of (data || []).map(recordFromRow)) {
+    const summary = byExercise.get(record.exerciseKey) || {
+      exerciseKey: record.exerciseKey,
+      exerciseName: record.exerciseName,
+      heaviestLoad: null,
+      estimatedOneRepMax: null,
+      lastAchievedAt: record.achievedAt,
+    };
+    if (record.recordType === "heaviest_load") {
+      summary.heaviestLoad = Math.max(summary.heaviestLoad ?? 0, record.value);
+    } else {
+      summary.estimatedOneRepMax = Math.max(summary.estimatedOneRepMax ?? 0, record.value);
+    }
+    summary.exerciseName = record.exerciseName;
+    summary.lastAchievedAt = record.achievedAt;
+    byExercise.set(record.exerciseKey, summary);
+  }
+
+  return Array.from(byExercise.values()).sort((a, b) =>
+    a.exerciseName.localeCompare(b.exerciseName)
+  );
+}
+
+/** Per-session top set and est. 1RM for one exercise, plus its PB timeline. */
+export async function getExerciseHistory({
+  supabase,
+  userId,
+  exerciseName,
+}: {
+  supabase: ServiceClient;
+  userId: string;
+  exerciseName: string;
+}): Promise<{ history: ExerciseHistoryPoint[]; records: PersonalBestRecord[] }> {
+  const exerciseKey = normalizeExerciseKey(exerciseName);
+  const pattern = exerciseName.trim().replace(/[\\%_]/g, (c) => `\\${c}`);
+
+  const [{ data: setRows, error: setsError }, { data: recordRows, error: recordsError }] =
+    await Promise.all([
+      supabase
+        .from("workout_set_logs")
+        .select(
+          "exercise_name, actual_weight, actual_reps, workout_session_logs!inner(user_id, performed_at)"
+        )
+        .eq("workout_session_logs.user_id", userId)
+        .ilike("exercise_name", pattern),
+      supabase
+        .from("personal_best_records")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("exercise_key", exerciseKey)
+        .order("achieved_at", { ascending: false })
+        .order("created_at", { ascending: false }),
+    ]);
+  if (setsError || recordsError) {
+    console.error("Error fetching exercise history:", setsError || recordsError);
+    throw new Error("Failed to fetch exercise history");
+  }
+
+  const byDate = new Map<string, ExerciseHistoryPoint>();
+  for (const row of setRows || []) {
+    if (normalizeExerciseKey(row.exercise_name) !== exerciseKey) continue;
+    const session = row.workout_session_logs as unknown as { performed_at: string };
+    const point = byDate.get(session.performed_at) || {
+      date: session.performed_at,
+      topWeight: null,
+      estimatedOneRepMax: null,
+      totalReps: 0,
+    };
+    const weight = toNumber(row.actual_weight);
+    const reps = row.actual_reps;
+    if (weight !== null && weight > 0) {
+      point.topWeight = Math.max(point.topWeight ?? 0, weight);
+      const estimate = reps ? estimateOneRepMax(weight, reps) : null;
+      if (estimate !== null) {
+        point.estimatedOneRepMax = Math.max(point.estimatedOneRepMax ?? 0, estimate);
+      }
+    }
+    point.totalReps += reps ?? 0;
+    byDate.set(session.performed_at, point);
+  }
+
+  return {
+    history: Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date)),
+    records: (recordRows || []).map(recordFromRow),
+  };
+}
+
+/**
+ * Posts the client's PBs into their chat with the coach as one message.
+ * Records already shared are skipped so the coach isn't told twice.
+ */
+export async function sharePersonalBests({
+  supabase,
+  userId,
+  coachId,
+  recordIds,
+}: {
+  supabase: ServiceClient;
+  userId: string;
+  coachId: string;
+  recordIds: string[];
+}) {
+  const { data, error } = await supabase
+    .from("personal_best_records")
+    .select("*")
+    .eq("user_id", userId)
+    .in("id", recordIds)
+    .is("shared_at", null);
+  if (error) {
+    console.error("Error fetching personal bests to share:", error);
+    throw new Error("Failed to share personal bests");
+  }
+  const records = (data || []).map(recordFromRow);
+  if (records.length === 0) return null;
+
+  const lines = records.map((r) => `• ${r.exerciseName}: ${formatPersonalBest(r)}`);
+  const content =
+    records.length === 1
+      ? `🏆 New personal best! ${records[0].exerciseName}: ${formatPersonalBest(records[0])}`
+      : `🏆 New personal bests!\n${lines.join("\n")}`;
+
+  const { data: message, error: messageError } = await supabase
+    .from("chats")
+    .insert({
+      coach_id: coachId,
+      client_id: userId,
+      group_id: null,
+      sender: "client" as const,
+      content,
+    })
+    .select()
+    .single();
+  if (messageError) {
+    console.error("Error posting personal best message:", messageError);
+    throw new Error("Failed to share personal bests");
+  }
+
+  await supabase
+    .from("personal_best_records")
+    .update({ shared_at: getCurrentTimestampISO() })
+    .in(
+      "id",
+      records.map((r) => r.id)
+    );
+
+  return message;
+}
@@ -0,0 +1,48 @@
+import type { PersonalBestRecord, PersonalBestType } from "~/types/workout";
+
+/** Estimated 1RMs are only trusted up to this many reps. */
+export const MAX_REPS_FOR_ONE_REP_MAX = 12;
+
+export const PERSONAL_BEST_LABELS: Record<PersonalBestType, string> = {
+  heaviest_load: "Heaviest load",
+  estimated_1rm: "Best est. 1RM",
+  reps_at_load: "Most reps at load",
+};
+
+/**
+ * Exercises are matched by name rather than workout_exercises.id, since every
+ * plan gets its own exercise rows.
+ */
+export function normalizeExerciseKey(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/** Epley formula, rounded to the nearest 0.5 lbs. */
+export function estimateOneRepMax(weight: number, reps: number): number | null {
+  if (weight <= 0 || reps < 1 || reps > MAX_REPS_FOR_ONE_REP_MAX) return null;
+  const estimate = reps === 1 ? weight : weight * (1 + reps / 30);
+  return Math.round(estimate * 2) / 2;
+}
+
+export function formatPersonalBest(
+  record: Pick<PersonalBestRecord, "recordType" | "value" | "weight" | "reps">
+): string {
+  switch (record.recordType) {
+    case "heaviest_load":
+      return record.reps
+        ? `${record.value} lbs × ${record.reps}`
+        : `${record.value} lbs`;
+    case "estimated_1rm":
+      return `${record.value} lbs est. 1RM (${record.weight} lbs × ${record.reps})`;
+    case "reps_at_load":
+      return `${record.reps} reps at ${record.weight} lbs`;
+  }
+}
+
+export function formatPersonalBestGain(
+  record: Pick<PersonalBestRecord, "recordType" | "value" | "previousValue">
+): string | null {
+  if (record.previousValue === null) return null;
+  const gain = Math.round((record.value - record.previousValue) * 10) / 10;
+  return record.recordType === "reps_at_load" ? `+${gain} reps` : `+${gain} lbs`;
+}
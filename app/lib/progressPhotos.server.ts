@@ -0,0 +1,28 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "~/lib/supabase";
+import { groupProgressPhotoSets } from "~/lib/progressPhotos";
+import type { ProgressPhoto, ProgressPhotoSet } from "~/types/progressPhotos";
+
+type ServiceClient = SupabaseClient<Database>;
+
+/** All of a client's progress photos grouped into dated sets, newest first. */
+export async function listProgressPhotoSets({
+  supabase,
+  clientId,
+}: {
+  supabase: ServiceClient;
+  clientId: string;
+}): Promise<ProgressPhotoSet[]> {
+  const { data, error } = await supabase
+    .from("progress_photos")
+    .select("id, photo_url, notes, created_at, pose, taken_on")
+    .eq("client_id", clientId)
+    .order("taken_on", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching progress photo sets:", error);
+    throw new Error("Failed to fetch progress photos");
+  }
+
+  return groupProgressPhotoSets((data || []) as ProgressPhoto[]);
+}
@@ -0,0 +1,37 @@
+import type { ProgressPhoto, ProgressPhotoPose, ProgressPhotoSet } from "~/types/progressPhotos";
+
+/** Poses in the order a set is taken and compared. */
+export const PROGRESS_PHOTO_POSES: { key: ProgressPhotoPose; label: string }[] = [
+  { key: "front", label: "Front" },
+  { key: "side", label: "Side" },
+  { key: "back", label: "Back" },
+];
+
+export function isProgressPhotoPose(value: unknown): value is ProgressPhotoPose {
+  return PROGRESS_PHOTO_POSES.some((pose) => pose.key === value);
+}
+
+export function progressPhotoPoseLabel(pose: ProgressPhotoPose): string {
+  return PROGRESS_PHOTO_POSES.find((definition) => definition.key === pose)?.label || pose;
+}
+
+/** Groups photos into one set per date, newest set first. A retaken pose replaces the earlier one. */
+export function groupProgressPhotoSets(photos: ProgressPhoto[]): ProgressPhotoSet[] {
+  const sets = new Map<string, ProgressPhotoSet>();
+  const ordered = [...photos].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  for (const photo of ordered) {
+    const set = sets.get(photo.taken_on) || { date: photo.taken_on, poses: {}, untagged: [] };
+    if (photo.pose) {
+      set.poses[photo.pose] = photo;
+    } else {
+      set.untagged.push(photo);
+    }
+    sets.set(photo.taken_on, set);
+  }
+  return [...sets.values()].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/** The first pose the set doesn't have yet, or null once it's complete. */
+export function nextProgressPhotoPose(taken: ProgressPhotoPose[]): ProgressPhotoPose | null {
+  return PROGRESS_PHOTO_POSES.find((pose) => !taken.includes(pose.key))?.key ?? null;
+}
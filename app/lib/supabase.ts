@@ -1,6 +1,37 @@
 // Define types for our user roles
 export type UserRole = "coach" | "client";
 
+// Question types a check-in form can use
+export type CheckInQuestionType =
+  | "text"
+  | "textarea"
+  | "number"
+  | "select"
+  | "radio"
+  | "checkbox"
+  | "scale"
+  | "photo"
+  | "body_measurements"
+  | "date"
+  | "yes_no";
+
+// Client profile columns an intake question's answer can fill in
+export type ClientProfileField =
+  | "goal"
+  | "starting_weight"
+  | "allergies"
+  | "equipment_available";
+
+// Body metrics a coach can ask a client to track besides weight
+export type BodyMetric =
+  | "waist"
+  | "hips"
+  | "chest"
+  | "arms"
+  | "thighs"
+  | "body_fat"
+  | "resting_heart_rate";
+
 // Define user type based on our database schema
 export interface User {
   id: string;
@@ -17,6 +48,8 @@ export interface User {
   last_login?: string;
   auth_id: string;
   goal?: string;
+  allergies?: string | null;
+  equipment_available?: string | null;
   font_size?: string;
   email_notifications?: boolean;
   app_notifications?: boolean;
@@ -46,6 +79,8 @@ export interface Database {
           last_login?: string;
           updated_at: string;
           goal?: string;
+          allergies?: string | null;
+          equipment_available?: string | null;
           font_size?: string;
           email_notifications?: boolean;
           app_notifications?: boolean;
@@ -69,6 +104,8 @@ export interface Database {
           last_login?: string;
           updated_at?: string;
           goal?: string;
+          allergies?: string | null;
+          equipment_available?: string | null;
           font_size?: string;
           email_notifications?: boolean;
           app_notifications?: boolean;
@@ -92,6 +129,8 @@ export interface Database {
           last_login?: string;
           updated_at?: string;
           goal?: string;
+          allergies?: string | null;
+          equipment_available?: string | null;
           font_size?: string;
           email_notifications?: boolean;
           app_notifications?: boolean;
@@ -129,7 +168,7 @@ export interface Database {
       check_in_forms: {
         Row: {
           id: string;
-          coach_id: string;
+          coach_id: string | null;
           title: string;
           description?: string;
           is_active: boolean;
@@ -138,7 +177,7 @@ export interface Database {
         };
         Insert: {
           id?: string;
-          coach_id: string;
+          coach_id: string | null;
           title: string;
           description?: string;
           is_active?: boolean;
@@ -147,7 +186,7 @@ export interface Database {
         };
         Update: {
           id?: string;
-          coach_id?: string;
+          coach_id?: string | null;
           title?: string;
           description?: string;
           is_active?: boolean;
@@ -160,9 +199,11 @@ export interface Database {
           id: string;
           form_id: string;
           question_text: string;
-          question_type: 'text' | 'textarea' | 'number' | 'select' | 'radio' | 'checkbox';
+          question_type: CheckInQuestionType;
           is_required: boolean;
           options?: any;
+          visibility_rule?: any;
+          profile_field?: ClientProfileField | null;
           order_index: number;
           created_at: string;
         };
@@ -170,9 +211,11 @@ export interface Database {
           id?: string;
           form_id: string;
           question_text: string;
-          question_type: 'text' | 'textarea' | 'number' | 'select' | 'radio' | 'checkbox';
+          question_type: CheckInQuestionType;
           is_required?: boolean;
           options?: any;
+          visibility_rule?: any;
+          profile_field?: ClientProfileField | null;
           order_index: number;
           created_at?: string;
         };
@@ -180,9 +223,11 @@ export interface Database {
           id?: string;
           form_id?: string;
           question_text?: string;
-          question_type?: 'text' | 'textarea' | 'number' | 'select' | 'radio' | 'checkbox';
+          question_type?: CheckInQuestionType;
           is_required?: boolean;
           options?: any;
+          visibility_rule?: any;
+          profile_field?: ClientProfileField | null;
           order_index?: number;
           created_at?: string;
         };
@@ -199,6 +244,9 @@ export interface Database {
           expires_at?: string;
           title?: string;
           description?: string;
+          reminder_offsets_hours?: number[];
+          reminders_sent_hours?: number[];
+          missed_digest_sent_at?: string | null;
         };
         Insert: {
           id?: string;
@@ -211,6 +259,9 @@ export interface Database {
           expires_at?: string;
           title?: string;
           description?: string;
+          reminder_offsets_hours?: number[];
+          reminders_sent_hours?: number[];
+          missed_digest_sent_at?: string | null;
         };
         Update: {
           id?: string;
@@ -223,6 +274,9 @@ export interface Database {
           expires_at?: string;
           title?: string;
           description?: string;
+          reminder_offsets_hours?: number[];
+          reminders_sent_hours?: number[];
+          missed_digest_sent_at?: string | null;
         };
       };
       check_in_form_instance_questions: {
@@ -230,9 +284,10 @@ export interface Database {
           id: string;
           instance_id: string;
           question_text: string;
-          question_type: 'text' | 'textarea' | 'number' | 'select' | 'radio' | 'checkbox';
+          question_type: CheckInQuestionType;
           is_required: boolean;
           options?: any;
+          visibility_rule?: any;
           order_index: number;
           source_question_id?: string;
           created_at: string;
@@ -241,9 +296,10 @@ export interface Database {
           id?: string;
           instance_id: string;
           question_text: string;
-          question_type: 'text' | 'textarea' | 'number' | 'select' | 'radio' | 'checkbox';
+          question_type: CheckInQuestionType;
           is_required?: boolean;
           options?: any;
+          visibility_rule?: any;
           order_index: number;
           source_question_id?: string;
           created_at?: string;
@@ -252,9 +308,10 @@ export interface Database {
           id?: string;
           instance_id?: string;
           question_text?: string;
-          question_type?: 'text' | 'textarea' | 'number' | 'select' | 'radio' | 'checkbox';
+          question_type?: CheckInQuestionType;
           is_required?: boolean;
           options?: any;
+          visibility_rule?: any;
           order_index?: number;
           source_question_id?: string;
           created_at?: string;
@@ -266,18 +323,24 @@ export interface Database {
           coach_id: string;
           client_id: string;
           form_id: string;
-          frequency: 'daily' | 'weekly' | 'monthly';
+          frequency: 'daily' | 'weekly' | 'monthly' | 'after_activation';
           day_of_week?: number | null;
           day_of_month?: number | null;
+          days_of_week?: number[] | null;
+          interval_weeks: number;
+          days_after_activation?: number | null;
+          paused_from?: string | null;
+          paused_until?: string | null;
           time_of_day: string;
           timezone: string;
           expires_in_days: number;
           title: string;
           description?: string | null;
           questions_snapshot: any;
+          reminder_offsets_hours: number[];
           is_active: boolean;
           last_sent_at?: string | null;
-          next_send_at: string;
+          next_send_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -286,18 +349,24 @@ export interface Database {
           coach_id: string;
           client_id: string;
           form_id: string;
-          frequency: 'daily' | 'weekly' | 'monthly';
+          frequency: 'daily' | 'weekly' | 'monthly' | 'after_activation';
           day_of_week?: number | null;
           day_of_month?: number | null;
+          days_of_week?: number[] | null;
+          interval_weeks?: number;
+          days_after_activation?: number | null;
+          paused_from?: string | null;
+          paused_until?: string | null;
           time_of_day: string;
           timezone?: string;
           expires_in_days?: number;
           title: string;
           description?: string | null;
           questions_snapshot: any;
+          reminder_offsets_hours?: number[];
           is_active?: boolean;
           last_sent_at?: string | null;
-          next_send_at: string;
+          next_send_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -306,18 +375,24 @@ export interface Database {
           coach_id?: string;
           client_id?: string;
           form_id?: string;
-          frequency?: 'daily' | 'weekly' | 'monthly';
+          frequency?: 'daily' | 'weekly' | 'monthly' | 'after_activation';
           day_of_week?: number | null;
           day_of_month?: number | null;
+          days_of_week?: number[] | null;
+          interval_weeks?: number;
+          days_after_activation?: number | null;
+          paused_from?: string | null;
+          paused_until?: string | null;
           time_of_day?: string;
           timezone?: string;
           expires_in_days?: number;
           title?: string;
           description?: string | null;
           questions_snapshot?: any;
+          reminder_offsets_hours?: number[];
           is_active?: boolean;
           last_sent_at?: string | null;
-          next_send_at?: string;
+          next_send_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -402,6 +477,7 @@ export interface Database {
           deactivated_at?: string;
           builder_mode: 'week' | 'day';
           workout_days_per_week: number;
+          program?: any;
         };
         Insert: {
           id?: string;
@@ -418,6 +494,7 @@ export interface Database {
           deactivated_at?: string;
           builder_mode?: 'week' | 'day';
           workout_days_per_week?: number;
+          program?: any;
         };
         Update: {
           id?: string;
@@ -431,9 +508,51 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           activated_at?: string;
-          deactivated_at?: string;
+          deactivated_at?: string | null;
           builder_mode?: 'week' | 'day';
           workout_days_per_week?: number;
+          program?: any;
+        };
+      };
+      workout_plan_activations: {
+        Row: {
+          id: string;
+          coach_id: string;
+          client_id: string;
+          workout_plan_id: string;
+          activation_date: string;
+          timezone: string;
+          activate_at: string;
+          status: 'pending' | 'activated' | 'skipped' | 'cancelled';
+          previous_plan_id: string | null;
+          processed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          coach_id: string;
+          client_id: string;
+          workout_plan_id: string;
+          activation_date: string;
+          timezone?: string;
+          activate_at: string;
+          status?: 'pending' | 'activated' | 'skipped' | 'cancelled';
+          previous_plan_id?: string | null;
+          processed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          coach_id?: string;
+          client_id?: string;
+          workout_plan_id?: string;
+          activation_date?: string;
+          timezone?: string;
+          activate_at?: string;
+          status?: 'pending' | 'activated' | 'skipped' | 'cancelled';
+          previous_plan_id?: string | null;
+          processed_at?: string | null;
+          created_at?: string;
         };
       };
       workout_days: {
@@ -476,6 +595,7 @@ export interface Database {
           video_url?: string;
           sets_data: any;
           group_notes?: string;
+          exercise_library_id?: string | null;
           created_at: string;
         };
         Insert: {
@@ -488,6 +608,7 @@ export interface Database {
           video_url?: string;
           sets_data: any;
           group_notes?: string;
+          exercise_library_id?: string | null;
           created_at?: string;
         };
         Update: {
@@ -500,6 +621,276 @@ export interface Database {
           video_url?: string;
           sets_data?: any;
           group_notes?: string;
+          exercise_library_id?: string | null;
+          created_at?: string;
+        };
+      };
+      exercise_library: {
+        Row: {
+          id: string;
+          coach_id: string;
+          name: string;
+          aliases: string[];
+          muscle_groups: string[];
+          equipment: string[];
+          video_url: string | null;
+          cues: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          coach_id: string;
+          name: string;
+          aliases?: string[];
+          muscle_groups?: string[];
+          equipment?: string[];
+          video_url?: string | null;
+          cues?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          coach_id?: string;
+          name?: string;
+          aliases?: string[];
+          muscle_groups?: string[];
+          equipment?: string[];
+          video_url?: string | null;
+          cues?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      food_library: {
+        Row: {
+          id: string;
+          coach_id: string | null;
+          name: string;
+          brand: string | null;
+          barcode: string | null;
+          source: string;
+          source_id: string | null;
+          calories: number;
+          protein: number;
+          carbs: number;
+          fat: number;
+          serving_size: number | null;
+          serving_label: string | null;
+          calories_per_100g: number | null;
+          protein_per_100g: number | null;
+          carbs_per_100g: number | null;
+          fat_per_100g: number | null;
+          portions: any;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          coach_id?: string | null;
+          name: string;
+          brand?: string | null;
+          barcode?: string | null;
+          source?: string;
+          source_id?: string | null;
+          calories?: number;
+          protein?: number;
+          carbs?: number;
+          fat?: number;
+          serving_size?: number | null;
+          serving_label?: string | null;
+          calories_per_100g?: number | null;
+          protein_per_100g?: number | null;
+          carbs_per_100g?: number | null;
+          fat_per_100g?: number | null;
+          portions?: any;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          coach_id?: string | null;
+          name?: string;
+          brand?: string | null;
+          barcode?: string | null;
+          source?: string;
+          source_id?: string | null;
+          calories?: number;
+          protein?: number;
+          carbs?: number;
+          fat?: number;
+          serving_size?: number | null;
+          serving_label?: string | null;
+          calories_per_100g?: number | null;
+          protein_per_100g?: number | null;
+          carbs_per_100g?: number | null;
+          fat_per_100g?: number | null;
+          portions?: any;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      client_macro_targets: {
+        Row: {
+          client_id: string;
+          coach_id: string;
+          calories: number;
+          protein: number;
+          carbs: number;
+          fat: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          client_id: string;
+          coach_id: string;
+          calories: number;
+          protein: number;
+          carbs: number;
+          fat: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          client_id?: string;
+          coach_id?: string;
+          calories?: number;
+          protein?: number;
+          carbs?: number;
+          fat?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      body_measurements: {
+        Row: {
+          id: string;
+          user_id: string;
+          metric: BodyMetric;
+          value: number;
+          measured_on: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          metric: BodyMetric;
+          value: number;
+          measured_on: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          metric?: BodyMetric;
+          value?: number;
+          measured_on?: string;
+          created_at?: string;
+        };
+      };
+      client_measurement_settings: {
+        Row: {
+          client_id: string;
+          coach_id: string;
+          metrics: BodyMetric[];
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          client_id: string;
+          coach_id: string;
+          metrics?: BodyMetric[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          client_id?: string;
+          coach_id?: string;
+          metrics?: BodyMetric[];
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      weight_goals: {
+        Row: {
+          client_id: string;
+          coach_id: string;
+          target_weight: number;
+          target_date: string;
+          start_weight: number;
+          start_date: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          client_id: string;
+          coach_id: string;
+          target_weight: number;
+          target_date: string;
+          start_weight: number;
+          start_date: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          client_id?: string;
+          coach_id?: string;
+          target_weight?: number;
+          target_date?: string;
+          start_weight?: number;
+          start_date?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      meal_food_logs: {
+        Row: {
+          id: string;
+          user_id: string;
+          log_date: string;
+          kind: "portion" | "swap" | "skip" | "extra";
+          meal_id: string | null;
+          planned_food_id: string | null;
+          food_library_id: string | null;
+          name: string;
+          portion: string;
+          calories: number;
+          protein: number;
+          carbs: number;
+          fat: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          log_date: string;
+          kind: "portion" | "swap" | "skip" | "extra";
+          meal_id?: string | null;
+          planned_food_id?: string | null;
+          food_library_id?: string | null;
+          name: string;
+          portion?: string;
+          calories?: number;
+          protein?: number;
+          carbs?: number;
+          fat?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          log_date?: string;
+          kind?: "portion" | "swap" | "skip" | "extra";
+          meal_id?: string | null;
+          planned_food_id?: string | null;
+          food_library_id?: string | null;
+          name?: string;
+          portion?: string;
+          calories?: number;
+          protein?: number;
+          carbs?: number;
+          fat?: number;
           created_at?: string;
         };
       };
@@ -526,6 +917,126 @@ export interface Database {
           created_at?: string;
         };
       };
+      workout_session_logs: {
+        Row: {
+          id: string;
+          user_id: string;
+          workout_day_id: string | null;
+          performed_at: string;
+          notes: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          workout_day_id?: string | null;
+          performed_at: string;
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          workout_day_id?: string | null;
+          performed_at?: string;
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      workout_set_logs: {
+        Row: {
+          id: string;
+          session_id: string;
+          workout_exercise_id: string | null;
+          exercise_name: string;
+          set_number: number;
+          prescribed_reps: number | null;
+          prescribed_weight: number | null;
+          actual_weight: number | null;
+          actual_reps: number | null;
+          rpe: number | null;
+          notes: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          session_id: string;
+          workout_exercise_id?: string | null;
+          exercise_name: string;
+          set_number: number;
+          prescribed_reps?: number | null;
+          prescribed_weight?: number | null;
+          actual_weight?: number | null;
+          actual_reps?: number | null;
+          rpe?: number | null;
+          notes?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          session_id?: string;
+          workout_exercise_id?: string | null;
+          exercise_name?: string;
+          set_number?: number;
+          prescribed_reps?: number | null;
+          prescribed_weight?: number | null;
+          actual_weight?: number | null;
+          actual_reps?: number | null;
+          rpe?: number | null;
+          notes?: string | null;
+          created_at?: string;
+        };
+      };
+      personal_best_records: {
+        Row: {
+          id: string;
+          user_id: string;
+          exercise_key: string;
+          exercise_name: string;
+          record_type: "heaviest_load" | "estimated_1rm" | "reps_at_load";
+          value: number;
+          weight: number | null;
+          reps: number | null;
+          previous_value: number | null;
+          session_id: string | null;
+          achieved_at: string;
+          shared_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          exercise_key: string;
+          exercise_name: string;
+          record_type: "heaviest_load" | "estimated_1rm" | "reps_at_load";
+          value: number;
+          weight?: number | null;
+          reps?: number | null;
+          previous_value?: number | null;
+          session_id?: string | null;
+          achieved_at: string;
+          shared_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          exercise_key?: string;
+          exercise_name?: string;
+          record_type?: "heaviest_load" | "estimated_1rm" | "reps_at_load";
+          value?: number;
+          weight?: number | null;
+          reps?: number | null;
+          previous_value?: number | null;
+          session_id?: string | null;
+          achieved_at?: string;
+          shared_at?: string | null;
+          created_at?: string;
+        };
+      };
       habit_presets: {
         Row: {
           id: string;
@@ -1,3 +1,5 @@
+import type { FoodLogEntry } from "~/types/nutrition";
+
 /**
  * Calculate total macros from all foods in a meal plan
  */
@@ -34,63 +36,182 @@ export const calculateMacros = (
   };
 };
 
+type MacroTotals = { calories: number; protein: number; carbs: number; fat: number };
+
+type FoodLogForMacros = Pick<
+  FoodLogEntry,
+  "kind" | "plannedFoodId" | "calories" | "protein" | "carbs" | "fat"
+>;
+
 /**
- * Calculate both total macros and completed macros from a meal plan
+ * Calculate total macros, completed macros and what was actually eaten from a meal plan.
+ * `total` and `completed` are what the plan prescribes (completed = checked meals only).
+ * `actual` applies the client's food logs: a meal counts once it's checked or has a
+ * logged change, swapped, re-portioned and skipped foods replace the planned ones,
+ * and extras are always added.
  */
 export const calculateMacrosWithCompleted = (
   meals: Array<{
-    id: number;
+    id: number | string;
     foods: Array<{
+      id?: number | string;
       calories: number;
       protein: number;
       carbs: number;
       fat: number;
     }>;
   }>,
-  completedMealIds: number[] = []
+  completedMealIds: Array<number | string> = [],
+  foodLogs: FoodLogForMacros[] = []
 ) => {
-  let totalCalories = 0;
-  let totalProtein = 0;
-  let totalCarbs = 0;
-  let totalFat = 0;
+  const total: MacroTotals = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+  const completed: MacroTotals = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+  const actual: MacroTotals = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+  const add = (into: MacroTotals, food: MacroTotals) => {
+    into.calories += Number(food.calories) || 0;
+    into.protein += Number(food.protein) || 0;
+    into.carbs += Number(food.carbs) || 0;
+    into.fat += Number(food.fat) || 0;
+  };
 
-  let completedCalories = 0;
-  let completedProtein = 0;
-  let completedCarbs = 0;
-  let completedFat = 0;
+  const completedIds = new Set(completedMealIds.map(String));
+  const changesByFood = new Map<string, FoodLogForMacros>();
+  foodLogs.forEach((log) => {
+    if (log.kind !== "extra" && log.plannedFoodId) {
+      changesByFood.set(String(log.plannedFoodId), log);
+    }
+  });
 
   meals.forEach((meal) => {
-    const isCompleted = completedMealIds.includes(meal.id);
+    const isCompleted = completedIds.has(String(meal.id));
+    const hasChanges = meal.foods.some(
+      (food) => food.id !== undefined && changesByFood.has(String(food.id))
+    );
 
     meal.foods.forEach((food) => {
       // Always add to total
-      totalCalories += food.calories;
-      totalProtein += food.protein;
-      totalCarbs += food.carbs;
-      totalFat += food.fat;
+      add(total, food);
 
       // Only add to completed if meal is checked
       if (isCompleted) {
-        completedCalories += food.calories;
-        completedProtein += food.protein;
-        completedCarbs += food.carbs;
-        completedFat += food.fat;
+        add(completed, food);
+      }
+
+      if (isCompleted || hasChanges) {
+        const change = food.id !== undefined ? changesByFood.get(String(food.id)) : undefined;
+        if (!change) add(actual, food);
+        else if (change.kind !== "skip") add(actual, change);
       }
     });
   });
 
+  foodLogs.forEach((log) => {
+    if (log.kind === "extra") add(actual, log);
+  });
+
+  const rounded = (macros: MacroTotals) => ({
+    calories: Math.round(macros.calories),
+    protein: Math.round(macros.protein),
+    carbs: Math.round(macros.carbs),
+    fat: Math.round(macros.fat),
+  });
+
   return {
-    total: {
-      calories: Math.round(totalCalories),
-      protein: Math.round(totalProtein),
-      carbs: Math.round(totalCarbs),
-      fat: Math.round(totalFat),
-    },
-    completed: {
-      calories: Math.round(completedCalories),
-      protein: Math.round(completedProtein),
-      carbs: Math.round(completedCarbs),
-      fat: Math.round(completedFat),
-    },
+    total: rounded(total),
+    completed: rounded(completed),
+    actual: rounded(actual),
   };
 };
+
+export type MacroKey = "calories" | "protein" | "carbs" | "fat";
+
+export const MACRO_KEYS: MacroKey[] = ["calories", "protein", "carbs", "fat"];
+
+export interface MacroTargetProgress {
+  key: MacroKey;
+  actual: number;
+  target: number;
+  /** Negative once the plan goes over the target. */
+  remaining: number;
+  /** actual / target, 0 when there is no target. */
+  ratio: number;
+}
+
+/**
+ * Compare planned macros with a client's targets. Values without a target
+ * (0) are left out.
+ */
+export const compareMacrosToTargets = (
+  actual: Record<MacroKey, number>,
+  targets: Record<MacroKey, number>
+): MacroTargetProgress[] =>
+  MACRO_KEYS.filter((key) => targets[key] > 0).map((key) => ({
+    key,
+    actual: Math.round(actual[key]),
+    target: targets[key],
+    remaining: Math.round(targets[key] - actual[key]),
+    ratio: actual[key] / targets[key],
+  }));
+
+/**
+ * Split daily targets evenly across a number of meals.
+ */
+export const divideMacroTargets = (
+  targets: Record<MacroKey, number>,
+  mealCount: number
+): Record<MacroKey, number> => {
+  const count = Math.max(1, mealCount);
+  return {
+    calories: Math.round(targets.calories / count),
+    protein: Math.round(targets.protein / count),
+    carbs: Math.round(targets.carbs / count),
+    fat: Math.round(targets.fat / count),
+  };
+};
+
+/**
+ * Single factor to multiply the scalable foods by so that, together with the
+ * locked foods, the plan lands as close to every target as it can. Each
+ * target's miss is weighed relative to its size, so calories and grams count
+ * alike. Returns null when nothing that has a target can be scaled.
+ */
+export const scaleFactorForTargets = (
+  locked: Record<MacroKey, number>,
+  scalable: Record<MacroKey, number>,
+  targets: Record<MacroKey, number>
+): number | null => {
+  let numerator = 0;
+  let denominator = 0;
+  MACRO_KEYS.forEach((key) => {
+    const target = targets[key];
+    if (target <= 0 || scalable[key] <= 0) return;
+    numerator += (scalable[key] * (target - locked[key])) / (target * target);
+    denominator += (scalable[key] * scalable[key]) / (target * target);
+  });
+  if (denominator === 0) return null;
+  return Math.max(0, numerator / denominator);
+};
+
+/** Round a scaled portion amount to something a client can measure. */
+export const roundPortionAmount = (amount: number): number => {
+  if (amount >= 20) return Math.max(1, Math.round(amount));
+  return Math.max(0.25, Math.round(amount * 4) / 4);
+};
+
+/**
+ * Scale the leading amount of a free-text portion such as "6 oz" or "1/2 cup".
+ * Returns the new text and the factor actually applied after rounding, or null
+ * when the portion doesn't start with a number.
+ */
+export const scalePortionText = (
+  portion: string,
+  factor: number
+): { portion: string; factor: number } | null => {
+  const match = portion.trim().match(/^(\d+\/\d+|\d*\.\d+|\d+)(.*)$/);
+  if (!match) return null;
+  const [numerator, denominator] = match[1].split("/").map(Number);
+  const amount = denominator ? numerator / denominator : numerator;
+  if (!amount) return null;
+  const scaled = roundPortionAmount(amount * factor);
+  return { portion: `${scaled}${match[2]}`, factor: scaled / amount };
+};
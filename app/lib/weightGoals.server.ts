@@ -0,0 +1,137 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "~/lib/supabase";
+import { getCurrentDate } from "~/lib/timezone";
+import { smoothWeights, type WeightLogPoint } from "~/lib/weightTrend";
+import type { WeightGoal } from "~/types/measurements";
+
+type ServiceClient = SupabaseClient<Database>;
+
+type WeightGoalRow = Database["public"]["Tables"]["weight_goals"]["Row"];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function goalFromRow(row: WeightGoalRow): WeightGoal {
+  return {
+    targetWeight: Number(row.target_weight),
+    targetDate: row.target_date,
+    startWeight: Number(row.start_weight),
+    startDate: row.start_date,
+  };
+}
+
+/** A client's weight logs, oldest first, as trend points. */
+export async function listWeightLogPoints({
+  supabase,
+  clientId,
+}: {
+  supabase: ServiceClient;
+  clientId: string;
+}): Promise<WeightLogPoint[]> {
+  const { data, error } = await supabase
+    .from("weight_logs")
+    .select("id, weight, logged_at")
+    .eq("user_id", clientId)
+    .order("logged_at", { ascending: true });
+  if (error) {
+    console.error("Error fetching weight logs:", error);
+    throw new Error("Failed to fetch weight logs");
+  }
+  return (data || []).map((log: { id: string; weight: number | string; logged_at: string }) => ({
+    id: log.id,
+    date: log.logged_at,
+    weight: Number(log.weight),
+  }));
+}
+
+export async function getWeightGoal({
+  supabase,
+  clientId,
+}: {
+  supabase: ServiceClient;
+  clientId: string;
+}): Promise<WeightGoal | null> {
+  const { data, error } = await supabase
+    .from("weight_goals")
+    .select("*")
+    .eq("client_id", clientId)
+    .maybeSingle();
+  if (error) {
+    console.error("Error fetching weight goal:", error);
+    throw new Error("Failed to fetch weight goal");
+  }
+  return data ? goalFromRow(data) : null;
+}
+
+/** Validates the `{ targetWeight, targetDate }` a coach posts. The date must be in the future. */
+export function parseWeightGoalInput(body: Record<string, unknown>) {
+  const targetWeight = Number(body.targetWeight);
+  const targetDate = typeof body.targetDate === "string" ? body.targetDate : "";
+  if (!Number.isFinite(targetWeight) || targetWeight <= 0 || targetWeight > 1000) {
+    throw new Error("Target weight must be between 0 and 1000 lbs");
+  }
+  if (!DATE_PATTERN.test(targetDate) || targetDate <= getCurrentDate().format("YYYY-MM-DD")) {
+    throw new Error("Target date must be after today");
+  }
+  return { targetWeight, targetDate };
+}
+
+/**
+ * Sets a client's target, starting the pace line from their trend weight
+ * today. Setting a new target restarts the pace line.
+ */
+export async function saveWeightGoal({
+  supabase,
+  coachId,
+  clientId,
+  targetWeight,
+  targetDate,
+}: {
+  supabase: ServiceClient;
+  coachId: string;
+  clientId: string;
+  targetWeight: number;
+  targetDate: string;
+}): Promise<WeightGoal> {
+  const logs = await listWeightLogPoints({ supabase, clientId });
+  const smoothed = smoothWeights(logs);
+  const startWeight = smoothed[smoothed.length - 1]?.trend;
+  if (!startWeight) {
+    throw new Error("The client needs to log their weight before a target can be set");
+  }
+
+  const { data, error } = await supabase
+    .from("weight_goals")
+    .upsert(
+      {
+        client_id: clientId,
+        coach_id: coachId,
+        target_weight: targetWeight,
+        target_date: targetDate,
+        start_weight: startWeight,
+        start_date: getCurrentDate().format("YYYY-MM-DD"),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "client_id" }
+    )
+    .select("*")
+    .single();
+  if (error || !data) {
+    console.error("Error saving weight goal:", error);
+    throw new Error("Failed to save weight goal");
+  }
+  return goalFromRow(data);
+}
+
+export async function deleteWeightGoal({
+  supabase,
+  clientId,
+}: {
+  supabase: ServiceClient;
+  clientId: string;
+}) {
+  const { error } = await supabase.from("weight_goals").delete().eq("client_id", clientId);
+  if (error) {
+    console.error("Error deleting weight goal:", error);
+    throw new Error("Failed to delete weight goal");
+  }
+}
@@ -0,0 +1,186 @@
+import type { WeightChartPoint } from "~/components/ui/LineChart";
+import { getCurrentDate, toUserTimezone } from "~/lib/timezone";
+import type { WeightGoal, WeightPace, WeightTrendSummary } from "~/types/measurements";
+
+// Share of a day's gap between the scale and the trend that the trend absorbs.
+// 0.1 smooths out water swings while still following a real change within a couple of weeks.
+const TREND_SMOOTHING = 0.1;
+// The weekly rate is fitted over this many days of trend
+const RATE_WINDOW_DAYS = 14;
+const MIN_RATE_SPAN_DAYS = 3;
+// Within this many lbs of the pace line counts as on pace
+const ON_PACE_TOLERANCE = 0.5;
+// ETAs further out than this aren't worth showing
+const MAX_PROJECTION_DAYS = 730;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type WeightLogPoint = { date: string; weight: number; id?: string };
+
+/** YYYY-MM-DD of a log timestamp or date, in the app's timezone. */
+function dayKey(date: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : toUserTimezone(date).format("YYYY-MM-DD");
+}
+
+function dayNumber(date: string) {
+  return Math.round(Date.parse(`${dayKey(date)}T00:00:00Z`) / DAY_MS);
+}
+
+function addDays(date: string, days: number) {
+  return new Date(Date.parse(`${dayKey(date)}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function round(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Exponentially smoothed weight, oldest first. Gaps between logs count as
+ * that many days of smoothing, so a log after a week away moves the trend
+ * further than one from yesterday.
+ */
+export function smoothWeights<T extends WeightLogPoint>(points: T[]): (T & { trend: number })[] {
+  const ordered = [...points].sort((a, b) => a.date.localeCompare(b.date));
+  let trend = ordered[0]?.weight ?? 0;
+  return ordered.map((point, index) => {
+    if (index > 0) {
+      const days = Math.max(1, dayNumber(point.date) - dayNumber(ordered[index - 1].date));
+      const alpha = 1 - Math.pow(1 - TREND_SMOOTHING, days);
+      trend += alpha * (point.weight - trend);
+    }
+    return { ...point, trend: round(trend) };
+  });
+}
+
+/** Least-squares slope of the trend over the last RATE_WINDOW_DAYS, in lbs per week. */
+export function weeklyWeightRate(smoothed: { date: string; trend: number }[]): number | null {
+  if (smoothed.length < 2) return null;
+  const lastDay = dayNumber(smoothed[smoothed.length - 1].date);
+  const recent = smoothed
+    .map((point) => ({ x: dayNumber(point.date), y: point.trend }))
+    .filter((point) => point.x > lastDay - RATE_WINDOW_DAYS);
+  if (recent.length < 2 || lastDay - recent[0].x < MIN_RATE_SPAN_DAYS) return null;
+
+  const meanX = recent.reduce((sum, point) => sum + point.x, 0) / recent.length;
+  const meanY = recent.reduce((sum, point) => sum + point.y, 0) / recent.length;
+  const covariance = recent.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+  const variance = recent.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  return variance === 0 ? null : round((covariance / variance) * 7);
+}
+
+/** Where the pace line from the goal's start to its target sits on `date`. */
+export function expectedWeightOn(goal: WeightGoal, date: string) {
+  const total = dayNumber(goal.targetDate) - dayNumber(goal.startDate);
+  const elapsed = Math.min(Math.max(dayNumber(date) - dayNumber(goal.startDate), 0), total);
+  return round(goal.startWeight + ((goal.targetWeight - goal.startWeight) * elapsed) / total);
+}
+
+/**
+ * Which way the client's goal wants the scale to move, from the coach's
+ * target when there is one and the free-text goal otherwise. 0 is maintain
+ * or unknown.
+ */
+export function weightGoalDirection(goalText: string | null | undefined, goal: WeightGoal | null): -1 | 0 | 1 {
+  if (goal) {
+    return Math.sign(goal.targetWeight - goal.startWeight) as -1 | 0 | 1;
+  }
+  const text = (goalText || "").toLowerCase();
+  if (/\b(lose|loss|losing|cut|cutting|lean|shred|slim)/.test(text)) return -1;
+  if (/\b(gain|bulk|bulking|build|muscle|mass)/.test(text)) return 1;
+  return 0;
+}
+
+export function summarizeWeightTrend(
+  points: WeightLogPoint[],
+  goal: WeightGoal | null,
+  today: string = getCurrentDate().format("YYYY-MM-DD")
+): WeightTrendSummary | null {
+  if (points.length === 0) return null;
+  const smoothed = smoothWeights(points);
+  const latest = smoothed[smoothed.length - 1];
+  const trendWeight = latest.trend;
+  const weeklyRate = weeklyWeightRate(smoothed);
+
+  const summary: WeightTrendSummary = {
+    trendWeight,
+    latestWeight: latest.weight,
+    weeklyRate,
+    goal,
+    expectedWeight: null,
+    paceDifference: null,
+    pace: null,
+    requiredWeeklyRate: null,
+    projectedDate: null,
+  };
+  if (!goal) return summary;
+
+  const direction = Math.sign(goal.targetWeight - goal.startWeight);
+  const remaining = goal.targetWeight - trendWeight;
+  const expectedWeight = expectedWeightOn(goal, today);
+  const paceDifference = round((trendWeight - expectedWeight) * direction);
+  const reached =
+    direction === 0 ? Math.abs(remaining) <= ON_PACE_TOLERANCE : Math.sign(remaining) !== direction;
+  const pace: WeightPace = reached
+    ? "reached"
+    : Math.abs(paceDifference) <= ON_PACE_TOLERANCE
+      ? "on_pace"
+      : paceDifference > 0
+        ? "ahead"
+        : "behind";
+
+  const daysLeft = dayNumber(goal.targetDate) - dayNumber(today);
+  let projectedDate: string | null = null;
+  if (!reached && weeklyRate && Math.sign(weeklyRate) === Math.sign(remaining)) {
+    const days = Math.ceil((remaining / weeklyRate) * 7);
+    if (days <= MAX_PROJECTION_DAYS) {
+      projectedDate = addDays(today, days);
+    }
+  }
+
+  return {
+    ...summary,
+    expectedWeight,
+    paceDifference,
+    pace,
+    requiredWeeklyRate: !reached && daysLeft > 0 ? round((remaining / daysLeft) * 7) : null,
+    projectedDate,
+  };
+}
+
+/**
+ * Weight logs as LineChart points with the trend, the goal's pace line and
+ * the current rate projected out to the target date.
+ */
+export function weightTrendChartData(
+  points: WeightLogPoint[],
+  summary: WeightTrendSummary | null
+): WeightChartPoint[] {
+  const smoothed = smoothWeights(points);
+  const goal = summary?.goal;
+  const data: WeightChartPoint[] = smoothed.map((point) => ({
+    ...point,
+    ...(goal && dayKey(point.date) >= goal.startDate && { pace: expectedWeightOn(goal, point.date) }),
+  }));
+  if (!goal || !summary || data.length === 0) return data;
+
+  const last = data[data.length - 1];
+  if (goal.targetDate > dayKey(last.date)) {
+    last.projected = summary.trendWeight;
+    const weeksToTarget = (dayNumber(goal.targetDate) - dayNumber(last.date)) / 7;
+    data.push({
+      // Midday so the axis label doesn't slip back a day in US timezones
+      date: `${goal.targetDate}T12:00:00`,
+      weight: null,
+      pace: goal.targetWeight,
+      ...(summary.weeklyRate !== null && {
+        projected: round(summary.trendWeight + summary.weeklyRate * weeksToTarget),
+      }),
+    });
+  }
+  return data;
+}
+
+/** "-1.2 lbs/wk" */
+export function formatWeeklyRate(rate: number) {
+  return `${rate > 0 ? "+" : ""}${rate.toFixed(1)} lbs/wk`;
+}
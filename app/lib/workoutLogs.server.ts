@@ -0,0 +1,210 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "~/lib/supabase";
+import type { WorkoutSessionLog, WorkoutSetLog } from "~/types/workout";
+
+type ServiceClient = SupabaseClient<Database>;
+
+type SetLogRow = Database["public"]["Tables"]["workout_set_logs"]["Row"];
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const num = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Validates set logs posted by the client. Sets with nothing entered
+ * (no weight, reps or RPE) are dropped so untouched exercises don't
+ * produce empty rows.
+ */
+export function parseSetLogs(raw: unknown): WorkoutSetLog[] {
+  let value = raw;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new Error("Invalid setLogs format");
+    }
+  }
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error("Invalid setLogs format");
+  }
+
+  const logs: WorkoutSetLog[] = [];
+  for (const item of value as Record<string, unknown>[]) {
+    if (!item || typeof item !== "object") continue;
+    const exerciseName =
+      typeof item.exerciseName === "string" ? item.exerciseName.trim() : "";
+    const setNumber = toNumberOrNull(item.setNumber);
+    if (!exerciseName || !setNumber || setNumber < 1) continue;
+
+    const actualWeight = toNumberOrNull(item.actualWeight);
+    const actualReps = toNumberOrNull(item.actualReps);
+    const rpe = toNumberOrNull(item.rpe);
+    if (actualWeight === null && actualReps === null && rpe === null) continue;
+
+    if (actualWeight !== null && actualWeight < 0) {
+      throw new Error("Weight cannot be negative");
+    }
+    if (actualReps !== null && actualReps < 0) {
+      throw new Error("Reps cannot be negative");
+    }
+    if (rpe !== null && (rpe < 1 || rpe > 10)) {
+      throw new Error("RPE must be between 1 and 10");
+    }
+
+    logs.push({
+      workoutExerciseId:
+        typeof item.workoutExerciseId === "string" ? item.workoutExerciseId : null,
+      exerciseName,
+      setNumber: Math.round(setNumber),
+      prescribedReps: toNumberOrNull(item.prescribedReps),
+      prescribedWeight: toNumberOrNull(item.prescribedWeight),
+      actualWeight,
+      actualReps: actualReps !== null ? Math.round(actualReps) : null,
+      rpe: rpe !== null ? Math.round(rpe * 2) / 2 : null,
+      notes: typeof item.notes === "string" && item.notes.trim() ? item.notes.trim() : null,
+    });
+  }
+  return logs;
+}
+
+export function setLogFromRow(row: SetLogRow): WorkoutSetLog {
+  return {
+    workoutExerciseId: row.workout_exercise_id,
+    exerciseName: row.exercise_name,
+    setNumber: row.set_number,
+    prescribedReps: row.prescribed_reps,
+    prescribedWeight: toNumberOrNull(row.prescribed_weight),
+    actualWeight: toNumberOrNull(row.actual_weight),
+    actualReps: row.actual_reps,
+    rpe: toNumberOrNull(row.rpe),
+    notes: row.notes,
+  };
+}
+
+/**
+ * Replaces the client's session log for a workout day on a date. Logging the
+ * same day twice overwrites, matching how workout_completions behaves.
+ */
+export async function saveWorkoutSessionLog({
+  supabase,
+  userId,
+  workoutDayId,
+  performedAt,
+  setLogs,
+  notes,
+}: {
+  supabase: ServiceClient;
+  userId: string;
+  workoutDayId: string | null;
+  performedAt: string;
+  setLogs: WorkoutSetLog[];
+  notes?: string | null;
+}): Promise<WorkoutSessionLog | null> {
+  let existingQuery = supabase
+    .from("workout_session_logs")
+    .delete()
+    .eq("user_id", userId)
+    .eq("performed_at", performedAt);
+  existingQuery = workoutDayId
+    ? existingQuery.eq("workout_day_id", workoutDayId)
+    : existingQuery.is("workout_day_id", null);
+  const { error: deleteError } = await existingQuery;
+  if (deleteError) {
+    console.error("Error clearing workout session log:", deleteError);
+    throw new Error("Failed to save workout log");
+  }
+
+  if (setLogs.length === 0) return null;
+
+  const { data: session, error: sessionError } = await supabase
+    .from("workout_session_logs")
+    .insert({
+      user_id: userId,
+      workout_day_id: workoutDayId,
+      performed_at: performedAt,
+      notes: notes ?? null,
+    })
+    .select("id, workout_day_id, performed_at, notes")
+    .single();
+
+  if (sessionError || !session) {
+    console.error("Error creating workout session log:", sessionError);
+    throw new Error("Failed to save workout log");
+  }
+
+  const rows: Database["public"]["Tables"]["workout_set_logs"]["Insert"][] = setLogs.map(
+    (log) => ({
+      session_id: session.id,
+      workout_exercise_id: log.workoutExerciseId,
+      exercise_name: log.exerciseName,
+      set_number: log.setNumber,
+      prescribed_reps: log.prescribedReps ?? null,
+      prescribed_weight: log.prescribedWeight ?? null,
+      actual_weight: log.actualWeight ?? null,
+      actual_reps: log.actualReps ?? null,
+      rpe: log.rpe ?? null,
+      notes: log.notes ?? null,
+    })
+  );
+
+  const { error: setsError } = await supabase.from("workout_set_logs").insert(rows);
+  if (setsError) {
+    console.error("Error inserting workout set logs:", setsError);
+    await supabase.from("workout_session_logs").delete().eq("id", session.id);
+    throw new Error("Failed to save workout log");
+  }
+
+  return {
+    id: session.id,
+    workoutDayId: session.workout_day_id,
+    performedAt: session.performed_at,
+    notes: session.notes,
+    sets: setLogs,
+  };
+}
+
+export async function getWorkoutSessionLogs({
+  supabase,
+  userId,
+  startDate,
+  endDate,
+  limit = 20,
+}: {
+  supabase: ServiceClient;
+  userId: string;
+  startDate?: string | null;
+  endDate?: string | null;
+  limit?: number;
+}): Promise<WorkoutSessionLog[]> {
+  let query = supabase
+    .from("workout_session_logs")
+    .select(
+      "id, workout_day_id, performed_at, notes, workout_set_logs(id, workout_exercise_id, exercise_name, set_number, prescribed_reps, prescribed_weight, actual_weight, actual_reps, rpe, notes, created_at, session_id)"
+    )
+    .eq("user_id", userId);
+
+  if (startDate) query = query.gte("performed_at", startDate);
+  if (endDate) query = query.lt("performed_at", endDate);
+
+  const { data, error } = await query
+    .order("performed_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error("Error fetching workout session logs:", error);
+    throw new Error("Failed to fetch workout logs");
+  }
+
+  return (data || []).map((session) => {
+    const setRows = (session.workout_set_logs || []) as SetLogRow[];
+    return {
+      id: session.id,
+      workoutDayId: session.workout_day_id,
+      performedAt: session.performed_at,
+      notes: session.notes,
+      sets: setRows.map(setLogFromRow),
+    };
+  });
+}
@@ -0,0 +1,290 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import type { Database } from "~/lib/supabase";
+import { USER_TIMEZONE } from "~/lib/timezone";
+import type { ScheduledPlanActivation } from "~/types/workout";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+type ServiceClient = SupabaseClient<Database>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Makes `planId` the client's only active plan as of `activatedAt`, closing
+ * out whichever plan was active with the same timestamp so the history lines up.
+ * Returns the id of the plan it replaced, if any.
+ */
+export async function activateWorkoutPlan({
+  supabase,
+  clientId,
+  planId,
+  activatedAt,
+}: {
+  supabase: ServiceClient;
+  clientId: string;
+  planId: string;
+  activatedAt: string;
+}): Promise<string | null> {
+  const { data: previous, error: previousError } = await supabase
+    .from("workout_plans")
+    .select("id")
+    .eq("user_id", clientId)
+    .eq("is_template", false)
+    .eq("is_active", true)
+    .neq("id", planId);
+  if (previousError) {
+    console.error("Error fetching active workout plans:", previousError);
+    throw new Error("Failed to activate workout plan");
+  }
+
+  if (previous && previous.length > 0) {
+    const { error: deactivateError } = await supabase
+      .from("workout_plans")
+      .update({ is_active: false, deactivated_at: activatedAt })
+      .in(
+        "id",
+        previous.map((p) => p.id)
+      );
+    if (deactivateError) {
+      console.error("Error deactivating workout plans:", deactivateError);
+      throw new Error("Failed to activate workout plan");
+    }
+  }
+
+  const { error: activateError } = await supabase
+    .from("workout_plans")
+    .update({ is_active: true, activated_at: activatedAt, deactivated_at: null })
+    .eq("id", planId)
+    .eq("user_id", clientId);
+  if (activateError) {
+    console.error("Error activating workout plan:", activateError);
+    throw new Error("Failed to activate workout plan");
+  }
+
+  return previous?.[0]?.id ?? null;
+}
+
+export async function listScheduledWorkoutPlans({
+  supabase,
+  clientId,
+}: {
+  supabase: ServiceClient;
+  clientId: string;
+}): Promise<ScheduledPlanActivation[]> {
+  const { data, error } = await supabase
+    .from("workout_plan_activations")
+    .select("id, workout_plan_id, activation_date, workout_plans!inner(title)")
+    .eq("client_id", clientId)
+    .eq("status", "pending")
+    .order("activation_date", { ascending: true });
+  if (error) {
+    console.error("Error fetching scheduled workout plans:", error);
+    throw new Error("Failed to fetch scheduled workout plans");
+  }
+  return (data || []).map((row) => {
+    const plan = row.workout_plans as unknown as { title: string } | { title: string }[];
+    return {
+      id: row.id,
+      planId: row.workout_plan_id,
+      planTitle: Array.isArray(plan) ? plan[0]?.title ?? "" : plan.title,
+      activationDate: row.activation_date,
+    };
+  });
+}
+
+/**
+ * Queues `planId` to go live at midnight on `activationDate` in the client's
+ * timezone. Re-scheduling an already queued plan moves it to the new date.
+ */
+export async function scheduleWorkoutPlanActivation({
+  supabase,
+  coachId,
+  clientId,
+  planId,
+  activationDate,
+  timezone: tz = USER_TIMEZONE,
+}: {
+  supabase: ServiceClient;
+  coachId: string;
+  clientId: string;
+  planId: string;
+  activationDate: string;
+  timezone?: string;
+}): Promise<void> {
+  if (!DATE_PATTERN.test(activationDate)) {
+    throw new Error("Activation date must be YYYY-MM-DD");
+  }
+  if (activationDate <= dayjs().tz(tz).format("YYYY-MM-DD")) {
+    throw new Error("Scheduled activations must be for a future date");
+  }
+
+  const { data: plan } = await supabase
+    .from("workout_plans")
+    .select("id, is_active")
+    .eq("id", planId)
+    .eq("user_id", clientId)
+    .eq("is_template", false)
+    .maybeSingle();
+  if (!plan) {
+    throw new Error("Workout plan not found");
+  }
+  if (plan.is_active) {
+    throw new Error("This plan is already active");
+  }
+
+  const activateAt = dayjs.tz(`${activationDate}T00:00:00`, tz).toISOString();
+  const schedule = {
+    coach_id: coachId,
+    activation_date: activationDate,
+    timezone: tz,
+    activate_at: activateAt,
+  };
+
+  // Move an already queued activation in place, so a date conflict leaves the
+  // old schedule untouched instead of cancelling it first
+  const { data: moved, error: moveError } = await supabase
+    .from("workout_plan_activations")
+    .update(schedule)
+    .eq("client_id", clientId)
+    .eq("workout_plan_id", planId)
+    .eq("status", "pending")
+    .select("id");
+  let error = moveError;
+  if (!error && (moved || []).length === 0) {
+    ({ error } = await supabase.from("workout_plan_activations").insert({
+      ...schedule,
+      client_id: clientId,
+      workout_plan_id: planId,
+    }));
+  }
+  if (error) {
+    // idx_workout_plan_activations_pending_client_date
+    if (error.code === "23505") {
+      throw new Error("Another plan is already scheduled for that date");
+    }
+    console.error("Error scheduling workout plan:", error);
+    throw new Error("Failed to schedule workout plan");
+  }
+}
+
+/** Cancels one queued activation by `id`, or whatever is queued for `planId`. */
+export async function cancelScheduledWorkoutPlan({
+  supabase,
+  clientId,
+  id,
+  planId,
+}: {
+  supabase: ServiceClient;
+  clientId: string;
+  id?: string;
+  planId?: string;
+}): Promise<void> {
+  let query = supabase
+    .from("workout_plan_activations")
+    .update({ status: "cancelled", processed_at: new Date().toISOString() })
+    .eq("client_id", clientId)
+    .eq("status", "pending");
+  if (id) query = query.eq("id", id);
+  else if (planId) query = query.eq("workout_plan_id", planId);
+  else return;
+
+  const { error } = await query;
+  if (error) {
+    console.error("Error cancelling scheduled workout plan:", error);
+    throw new Error("Failed to cancel scheduled workout plan");
+  }
+}
+
+async function notifyClientOfNewPlan(
+  supabase: ServiceClient,
+  { coachId, clientId, planTitle }: { coachId: string; clientId: string; planTitle: string }
+) {
+  const { error } = await supabase.from("chats").insert({
+    coach_id: coachId,
+    client_id: clientId,
+    group_id: null,
+    sender: "coach" as const,
+    content: `💪 Your new workout plan "${planTitle}" starts today. Check the Workouts tab for this week's sessions.`,
+  });
+  if (error) {
+    console.error("Error posting plan activation message:", error);
+  }
+}
+
+/**
+ * Swaps in every queued plan whose local midnight has passed. When a client
+ * has several due at once (e.g. the job was down), only the latest goes live
+ * and the earlier ones are marked skipped.
+ */
+export async function processScheduledWorkoutPlans(supabase: ServiceClient) {
+  const { data: due, error } = await supabase
+    .from("workout_plan_activations")
+    .select("*, workout_plans!inner(title)")
+    .eq("status", "pending")
+    .lte("activate_at", new Date().toISOString())
+    .order("activate_at", { ascending: true });
+  if (error) {
+    console.error("Error fetching due plan activations:", error);
+    throw new Error("Failed to fetch scheduled workout plans");
+  }
+
+  const results = {
+    activated: 0,
+    skipped: 0,
+    errors: [] as string[],
+  };
+
+  const latestByClient = new Map<string, NonNullable<typeof due>[number]>();
+  for (const row of due || []) {
+    latestByClient.set(row.client_id, row);
+  }
+
+  for (const row of due || []) {
+    const processedAt = new Date().toISOString();
+    if (latestByClient.get(row.client_id)?.id !== row.id) {
+      await supabase
+        .from("workout_plan_activations")
+        .update({ status: "skipped", processed_at: processedAt })
+        .eq("id", row.id);
+      results.skipped++;
+      continue;
+    }
+
+    try {
+      const previousPlanId = await activateWorkoutPlan({
+        supabase,
+        clientId: row.client_id,
+        planId: row.workout_plan_id,
+        activatedAt: row.activate_at,
+      });
+
+      await supabase
+        .from("workout_plan_activations")
+        .update({
+          status: "activated",
+          previous_plan_id: previousPlanId,
+          processed_at: processedAt,
+        })
+        .eq("id", row.id);
+
+      const plan = row.workout_plans as unknown as { title: string } | { title: string }[];
+      await notifyClientOfNewPlan(supabase, {
+        coachId: row.coach_id,
+        clientId: row.client_id,
+        planTitle: Array.isArray(plan) ? plan[0]?.title ?? "" : plan.title,
+      });
+      results.activated++;
+    } catch (activationError) {
+      const message =
+        activationError instanceof Error ? activationError.message : "Unknown error";
+      console.error(`Error activating scheduled plan ${row.id}:`, activationError);
+      results.errors.push(`${row.id}: ${message}`);
+    }
+  }
+
+  return results;
+}
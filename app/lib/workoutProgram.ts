@@ -0,0 +1,220 @@
+import dayjs from "dayjs";
+import type {
+  LoadIncrementUnit,
+  ProgramBlock,
+  ProgramWeek,
+  ProgressionRules,
+  WorkoutProgram,
+} from "~/types/workout";
+
+const LBS_PER_KG = 2.20462;
+const DEFAULT_DELOAD_LOAD_PERCENT = 90;
+const DEFAULT_DELOAD_SETS_PERCENT = 50;
+const MAX_PROGRAM_WEEKS = 52;
+
+/** One entry of workout_exercises.sets_data as the coach prescribed it. */
+type PrescribedSet = {
+  set_number: number;
+  weight?: number | null;
+  reps?: number | string | null;
+};
+
+function roundToHalf(value: number): number {
+  return Math.round(value * 2) / 2;
+}
+
+function optionalNumber(value: unknown, field: string, { min = 0, integer = false } = {}) {
+  if (value === undefined || value === null || value === "") return undefined;
+  const num = Number(value);
+  if (!Number.isFinite(num) || num < min || (integer && !Number.isInteger(num))) {
+    throw new Error(`${field} must be ${integer ? "a whole number" : "a number"} of at least ${min}`);
+  }
+  return num;
+}
+
+/**
+ * Validates a program posted by the coach. Returns null when there is nothing
+ * to store, so the plan stays a single repeating week.
+ */
+export function parseWorkoutProgram(value: unknown): WorkoutProgram | null {
+  if (value === undefined || value === null || value === "") return null;
+  const raw = typeof value === "string" ? JSON.parse(value) : value;
+  if (!raw || typeof raw !== "object" || !Array.isArray((raw as WorkoutProgram).blocks)) {
+    throw new Error("Program must have a list of blocks");
+  }
+  const { blocks: rawBlocks, repeat } = raw as { blocks: unknown[]; repeat?: unknown };
+  if (rawBlocks.length === 0) return null;
+
+  const blocks: ProgramBlock[] = rawBlocks.map((item, index) => {
+    const block = (item || {}) as Record<string, unknown>;
+    const rules = (block.rules || {}) as Record<string, unknown>;
+    const unit = rules.loadIncrementUnit ?? "lbs";
+    if (unit !== "lbs" && unit !== "kg" && unit !== "percent") {
+      throw new Error(`Block ${index + 1}: load increment must be in lbs, kg or percent`);
+    }
+    const weeks = optionalNumber(block.weeks, `Block ${index + 1} weeks`, { min: 1, integer: true });
+    if (!weeks) {
+      throw new Error(`Block ${index + 1} needs a number of weeks`);
+    }
+    return {
+      name:
+        typeof block.name === "string" && block.name.trim()
+          ? block.name.trim()
+          : `Block ${index + 1}`,
+      weeks,
+      rules: {
+        loadIncrement: optionalNumber(rules.loadIncrement, "Load increment", { min: -1000 }),
+        loadIncrementUnit: unit as LoadIncrementUnit,
+        repsIncrement: optionalNumber(rules.repsIncrement, "Reps increment", { min: -50, integer: true }),
+        setsIncrement: optionalNumber(rules.setsIncrement, "Sets increment", { min: -20, integer: true }),
+        deloadEvery: optionalNumber(rules.deloadEvery, "Deload frequency", { min: 2, integer: true }),
+        deloadLoadPercent: optionalNumber(rules.deloadLoadPercent, "Deload load", { min: 1 }),
+        deloadSetsPercent: optionalNumber(rules.deloadSetsPercent, "Deload sets", { min: 1 }),
+      },
+    };
+  });
+
+  if (getTotalWeeks({ blocks }) > MAX_PROGRAM_WEEKS) {
+    throw new Error(`Programs can be at most ${MAX_PROGRAM_WEEKS} weeks long`);
+  }
+  return { blocks, repeat: repeat === true };
+}
+
+export function getTotalWeeks(program: WorkoutProgram): number {
+  return program.blocks.reduce((sum, block) => sum + block.weeks, 0);
+}
+
+function isDeloadWeek(rules: ProgressionRules, weekInBlock: number): boolean {
+  return !!rules.deloadEvery && weekInBlock % rules.deloadEvery === 0;
+}
+
+/** Block and position for a zero-based week index into the program. */
+function locateWeek(program: WorkoutProgram, weekIndex: number) {
+  let start = 0;
+  for (const block of program.blocks) {
+    if (weekIndex < start + block.weeks) {
+      const weekInBlock = weekIndex - start + 1;
+      return { block, weekInBlock, isDeload: isDeloadWeek(block.rules, weekInBlock) };
+    }
+    start += block.weeks;
+  }
+  return null;
+}
+
+/**
+ * Which program week `date` falls in, counting whole weeks from the plan's
+ * activation day. Before activation it is week 1; past the end it holds the
+ * final week, or wraps around when the program repeats.
+ */
+export function getProgramWeek(
+  program: WorkoutProgram | null | undefined,
+  activatedAt: string | null | undefined,
+  date: string
+): ProgramWeek | null {
+  if (!program || program.blocks.length === 0) return null;
+  const totalWeeks = getTotalWeeks(program);
+  if (totalWeeks === 0) return null;
+
+  const daysSinceActivation = activatedAt
+    ? dayjs(date.slice(0, 10)).diff(dayjs(activatedAt.slice(0, 10)), "day")
+    : 0;
+  let weekIndex = Math.max(0, Math.floor(daysSinceActivation / 7));
+  weekIndex = program.repeat ? weekIndex % totalWeeks : Math.min(weekIndex, totalWeeks - 1);
+
+  const located = locateWeek(program, weekIndex);
+  if (!located) return null;
+  return {
+    weekNumber: weekIndex + 1,
+    totalWeeks,
+    blockName: located.block.name,
+    weekInBlock: located.weekInBlock,
+    blockWeeks: located.block.weeks,
+    isDeload: located.isDeload,
+  };
+}
+
+export function formatProgramWeek(week: ProgramWeek): string {
+  return `Week ${week.weekNumber} of ${week.totalWeeks} · ${week.blockName}${
+    week.isDeload ? " · Deload" : ""
+  }`;
+}
+
+function incrementReps(reps: number | string | null | undefined, by: number) {
+  if (!by || reps === null || reps === undefined) return reps;
+  if (typeof reps === "number") return Math.max(1, reps + by);
+  const single = reps.match(/^\s*(\d+)\s*$/);
+  if (single) return Math.max(1, Number(single[1]) + by);
+  const range = reps.match(/^\s*(\d+)\s*-\s*(\d+)\s*$/);
+  if (range) {
+    return `${Math.max(1, Number(range[1]) + by)}-${Math.max(1, Number(range[2]) + by)}`;
+  }
+  // AMRAP, "30s" and other free text are left as written
+  return reps;
+}
+
+function incrementLoad(weight: number, rules: ProgressionRules): number {
+  const amount = rules.loadIncrement || 0;
+  switch (rules.loadIncrementUnit) {
+    case "percent":
+      return weight * (1 + amount / 100);
+    case "kg":
+      return weight + amount * LBS_PER_KG;
+    default:
+      return weight + amount;
+  }
+}
+
+/**
+ * Sets to prescribe for program week `week` (1-based), derived from the base
+ * sets. Every non-deload week after the first adds its block's increments on
+ * top of the previous one; deload weeks scale the current prescription down
+ * without moving it, so the week after a deload carries on from before it.
+ */
+export function applyProgramWeek<T extends PrescribedSet>(
+  sets: T[],
+  program: WorkoutProgram | null | undefined,
+  week: ProgramWeek | null
+): T[] {
+  if (!program || !week || sets.length === 0 || week.weekNumber <= 1) return sets;
+
+  let current = sets.map((set) => ({ ...set }));
+  for (let weekIndex = 1; weekIndex < week.weekNumber; weekIndex++) {
+    const located = locateWeek(program, weekIndex);
+    if (!located || located.isDeload) continue;
+    const { rules } = located.block;
+
+    current = current.map((set) => ({
+      ...set,
+      weight:
+        typeof set.weight === "number" && rules.loadIncrement
+          ? incrementLoad(set.weight, rules)
+          : set.weight,
+      reps: incrementReps(set.reps, rules.repsIncrement || 0),
+    }));
+    if (rules.setsIncrement) {
+      const count = Math.max(1, current.length + rules.setsIncrement);
+      const last = current[current.length - 1];
+      current = Array.from({ length: count }, (_, i) => ({ ...(current[i] || last) }));
+    }
+  }
+
+  const result = current.map((set, i) => ({
+    ...set,
+    set_number: i + 1,
+    weight: typeof set.weight === "number" ? roundToHalf(set.weight) : set.weight,
+  }));
+  return week.isDeload ? deload(result, program, week) : result;
+}
+
+function deload<T extends PrescribedSet>(sets: T[], program: WorkoutProgram, week: ProgramWeek): T[] {
+  const located = locateWeek(program, week.weekNumber - 1);
+  if (!located) return sets;
+  const loadPercent = located.block.rules.deloadLoadPercent ?? DEFAULT_DELOAD_LOAD_PERCENT;
+  const setsPercent = located.block.rules.deloadSetsPercent ?? DEFAULT_DELOAD_SETS_PERCENT;
+  const count = Math.max(1, Math.round((sets.length * setsPercent) / 100));
+  return sets.slice(0, count).map((set) => ({
+    ...set,
+    weight:
+      typeof set.weight === "number" ? roundToHalf((set.weight * loadPercent) / 100) : set.weight,
+  }));
+}
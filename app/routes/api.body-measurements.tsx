@@ -0,0 +1,148 @@
+import { json } from "@remix-run/node";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  createServiceClient,
+  getChatUserFromRequest,
+  verifyCoachOwnsClient,
+} from "~/lib/chat-auth.server";
+import {
+  deleteBodyMeasurement,
+  getTrackedMetrics,
+  listBodyMeasurements,
+  parseBodyMeasurementsInput,
+  parseTrackedMetrics,
+  saveBodyMeasurements,
+  saveTrackedMetrics,
+} from "~/lib/bodyMeasurements.server";
+import { getCurrentDate } from "~/lib/timezone";
+
+/** GET returns the metrics a client tracks and everything they've logged. Coaches pass clientId. */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user) {
+    return json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const clientIdParam = new URL(request.url).searchParams.get("clientId");
+  let targetClientId: string;
+  if (user.role === "coach") {
+    if (!clientIdParam) {
+      return json({ error: "clientId is required" }, { status: 400 });
+    }
+    const owns = await verifyCoachOwnsClient(user.id, clientIdParam);
+    if (!owns) {
+      return json({ error: "Client not found or access denied" }, { status: 404 });
+    }
+    targetClientId = clientIdParam;
+  } else {
+    targetClientId = user.id;
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const [tracked, measurements] = await Promise.all([
+      getTrackedMetrics({ supabase, clientId: targetClientId }),
+      listBodyMeasurements({ supabase, userId: targetClientId }),
+    ]);
+    return json({ tracked, measurements });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to fetch body measurements" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Clients POST (JSON) { date, values } to log measurements and DELETE { id }
+ * to remove one. Coaches POST { clientId, metrics } to choose what a client tracks.
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user) {
+    return json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = (await request.json()) as Record<string, unknown>;
+  } catch (e) {
+    return json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const supabase = createServiceClient();
+
+  if (user.role === "coach") {
+    if (request.method !== "POST") {
+      return json({ error: "Method not allowed" }, { status: 405 });
+    }
+    const clientId = typeof body.clientId === "string" ? body.clientId : "";
+    if (!clientId) {
+      return json({ error: "clientId is required" }, { status: 400 });
+    }
+    const owns = await verifyCoachOwnsClient(user.id, clientId);
+    if (!owns) {
+      return json({ error: "Client not found or access denied" }, { status: 404 });
+    }
+    let metrics;
+    try {
+      metrics = parseTrackedMetrics(body.metrics);
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Invalid metrics" },
+        { status: 400 }
+      );
+    }
+    try {
+      const tracked = await saveTrackedMetrics({ supabase, coachId: user.id, clientId, metrics });
+      return json({ tracked });
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Failed to save tracked measurements" },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (request.method === "DELETE") {
+    const measurementId = typeof body.id === "string" ? body.id : "";
+    if (!measurementId) {
+      return json({ error: "id is required" }, { status: 400 });
+    }
+    try {
+      await deleteBodyMeasurement({ supabase, userId: user.id, measurementId });
+      return json({ success: true, deletedId: measurementId });
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Failed to delete body measurement" },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  let input;
+  try {
+    input = parseBodyMeasurementsInput(body);
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Invalid measurements" },
+      { status: 400 }
+    );
+  }
+  if (input.date > getCurrentDate().format("YYYY-MM-DD")) {
+    return json({ error: "You can't log measurements for a future day" }, { status: 400 });
+  }
+
+  try {
+    const measurements = await saveBodyMeasurements({ supabase, userId: user.id, ...input });
+    return json({ measurements });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to save body measurements" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,193 @@
+import { json } from "@remix-run/node";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  createServiceClient,
+  getAuthIdFromRequest,
+} from "~/lib/chat-auth.server";
+import {
+  createCheckInFormSchedule,
+  hasPendingFormInstance,
+  parseScheduleRequest,
+  parseSnapshotQuestions,
+  sendCheckInFormInstance,
+} from "~/lib/checkInForms.server";
+import { parseReminderOffsets } from "~/lib/checkInFormUtils";
+import {
+  getSegmentClients,
+  isClientSegment,
+  listClientSegments,
+} from "~/lib/clientSegments.server";
+
+type BulkResultStatus = "sent" | "scheduled" | "skipped" | "failed";
+
+type BulkResult = {
+  clientId: string;
+  clientName: string;
+  status: BulkResultStatus;
+  reason?: string;
+};
+
+async function getCoach(request: Request, supabase: ReturnType<typeof createServiceClient>) {
+  const authId = getAuthIdFromRequest(request);
+  if (!authId) return null;
+  const { data: coachUser } = await supabase
+    .from("users")
+    .select("id, role")
+    .eq("auth_id", authId)
+    .single();
+  return coachUser && coachUser.role === "coach" ? coachUser : null;
+}
+
+/** The coach's active clients and chat groups to pick a segment from. */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const supabase = createServiceClient();
+
+  const coachUser = await getCoach(request, supabase);
+  if (!coachUser) {
+    return json({ error: "Only coaches can send forms" }, { status: 403 });
+  }
+
+  try {
+    return json(await listClientSegments(supabase, coachUser.id));
+  } catch (error) {
+    console.error("Error fetching client segments:", error);
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to fetch clients" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Sends a form now (`mode=send`) or starts a recurring schedule
+ * (`mode=schedule`) for every client in a segment. Clients who still have
+ * the form open are skipped when sending. Responds with one result per
+ * client.
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const supabase = createServiceClient();
+
+  const formData = await request.formData();
+  const formId = formData.get("formId")?.toString();
+  const mode = formData.get("mode")?.toString();
+  const segment = formData.get("segment")?.toString();
+  const groupId = formData.get("groupId")?.toString() || null;
+  const clientIdsJson = formData.get("clientIds")?.toString();
+  const expiresInDays = parseInt(formData.get("expiresInDays")?.toString() || "7", 10);
+  const reminderOffsetsHours = parseReminderOffsets(formData.get("reminderOffsetsHours")?.toString());
+
+  if (!formId || (mode !== "send" && mode !== "schedule") || !isClientSegment(segment)) {
+    return json({ error: "Form, mode and client segment are required" }, { status: 400 });
+  }
+
+  let clientIds: string[] = [];
+  if (segment === "clients") {
+    try {
+      const parsed: unknown = clientIdsJson ? JSON.parse(clientIdsJson) : [];
+      clientIds = Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+      return json({ error: "Invalid client list" }, { status: 400 });
+    }
+    if (clientIds.length === 0) {
+      return json({ error: "Choose at least one client" }, { status: 400 });
+    }
+  }
+
+  const parsedSchedule = mode === "schedule" ? parseScheduleRequest(formData) : null;
+  if (parsedSchedule && !parsedSchedule.recurrence) {
+    return json({ error: parsedSchedule.error }, { status: 400 });
+  }
+
+  const coachUser = await getCoach(request, supabase);
+  if (!coachUser) {
+    return json({ error: "Only coaches can send forms" }, { status: 403 });
+  }
+
+  try {
+    const { data: form, error: formError } = await supabase
+      .from("check_in_forms")
+      .select("id, title, description")
+      .eq("id", formId)
+      .eq("coach_id", coachUser.id)
+      .eq("is_active", true)
+      .single();
+
+    if (formError || !form) {
+      return json({ error: "Form not found or not accessible" }, { status: 404 });
+    }
+
+    const clients = await getSegmentClients({
+      supabase,
+      coachId: coachUser.id,
+      segment,
+      groupId,
+      clientIds,
+    });
+
+    if (clients.length === 0) {
+      return json({ error: "No clients in this segment" }, { status: 400 });
+    }
+
+    const snapshotQuestions = await parseSnapshotQuestions(undefined, formId, supabase);
+
+    // One client at a time, so a failure for one doesn't stop the rest
+    const results: BulkResult[] = [];
+    for (const client of clients) {
+      const result: BulkResult = { clientId: client.id, clientName: client.name, status: "failed" };
+      try {
+        if (parsedSchedule?.recurrence) {
+          await createCheckInFormSchedule({
+            supabase,
+            coachId: coachUser.id,
+            clientId: client.id,
+            formId,
+            recurrence: parsedSchedule.recurrence,
+            expiresInDays,
+            title: form.title,
+            description: form.description,
+            questions: snapshotQuestions,
+            reminderOffsetsHours,
+          });
+          result.status = "scheduled";
+        } else if (await hasPendingFormInstance(supabase, client.id, formId)) {
+          result.status = "skipped";
+          result.reason = "Still has this form open";
+        } else {
+          await sendCheckInFormInstance({
+            supabase,
+            coachId: coachUser.id,
+            clientId: client.id,
+            formId,
+            title: form.title,
+            description: form.description,
+            questions: snapshotQuestions,
+            expiresInDays,
+            reminderOffsetsHours,
+          });
+          result.status = "sent";
+        }
+      } catch (error) {
+        console.error(`Error sending check-in form to client ${client.id}:`, error);
+        result.reason = error instanceof Error ? error.message : "Failed to send form";
+      }
+      results.push(result);
+    }
+
+    const countOf = (status: BulkResultStatus) =>
+      results.filter((result) => result.status === status).length;
+
+    return json({
+      results,
+      sent: countOf("sent"),
+      scheduled: countOf("scheduled"),
+      skipped: countOf("skipped"),
+      failed: countOf("failed"),
+    });
+  } catch (error) {
+    console.error("Error sending check-in forms in bulk:", error);
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to send forms" },
+      { status: 500 }
+    );
+  }
+}
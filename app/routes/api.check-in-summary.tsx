@@ -0,0 +1,41 @@
+import { json } from "@remix-run/node";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import {
+  createServiceClient,
+  getChatUserFromRequest,
+  verifyCoachOwnsClient,
+} from "~/lib/chat-auth.server";
+import { summarizeClientWeek } from "~/lib/checkInSummary.server";
+
+/** GET ?clientId=&refresh=1 returns a summary of the client's last week with flagged concerns. Coaches only. */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user || user.role !== "coach") {
+    return json({ error: "Only coaches can view check-in summaries" }, { status: 403 });
+  }
+
+  const url = new URL(request.url);
+  const clientId = url.searchParams.get("clientId");
+  if (!clientId) {
+    return json({ error: "clientId is required" }, { status: 400 });
+  }
+  const owns = await verifyCoachOwnsClient(user.id, clientId);
+  if (!owns) {
+    return json({ error: "Client not found or access denied" }, { status: 404 });
+  }
+
+  try {
+    const summary = await summarizeClientWeek({
+      supabase: createServiceClient(),
+      clientId,
+      coachId: user.id,
+      refresh: url.searchParams.get("refresh") === "1",
+    });
+    return json({ summary });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to write the weekly summary" },
+      { status: 500 }
+    );
+  }
+}
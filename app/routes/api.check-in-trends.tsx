@@ -0,0 +1,49 @@
+import { json } from "@remix-run/node";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import {
+  createServiceClient,
+  getChatUserFromRequest,
+  verifyCoachOwnsClient,
+} from "~/lib/chat-auth.server";
+import { getCheckInTrends } from "~/lib/checkInTrends.server";
+import { getCurrentDate } from "~/lib/timezone";
+
+const DEFAULT_WEEKS = 26;
+const MAX_WEEKS = 104;
+
+/** GET ?clientId=&weeks= returns a client's check-in answers charted per question. Coaches only. */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user || user.role !== "coach") {
+    return json({ error: "Only coaches can view check-in trends" }, { status: 403 });
+  }
+
+  const url = new URL(request.url);
+  const clientId = url.searchParams.get("clientId");
+  if (!clientId) {
+    return json({ error: "clientId is required" }, { status: 400 });
+  }
+  const owns = await verifyCoachOwnsClient(user.id, clientId);
+  if (!owns) {
+    return json({ error: "Client not found or access denied" }, { status: 404 });
+  }
+
+  const weeksParam = Number(url.searchParams.get("weeks"));
+  const weeks =
+    Number.isInteger(weeksParam) && weeksParam > 0 ? Math.min(weeksParam, MAX_WEEKS) : DEFAULT_WEEKS;
+
+  try {
+    const series = await getCheckInTrends({
+      supabase: createServiceClient(),
+      clientId,
+      coachId: user.id,
+      since: getCurrentDate().subtract(weeks, "week").toISOString(),
+    });
+    return json({ series, weeks });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to fetch check-in trends" },
+      { status: 500 }
+    );
+  }
+}
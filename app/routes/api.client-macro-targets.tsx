@@ -0,0 +1,99 @@
+import { json } from "@remix-run/node";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  createServiceClient,
+  getChatUserFromRequest,
+  verifyCoachOwnsClient,
+} from "~/lib/chat-auth.server";
+import {
+  getClientMacroTargets,
+  parseMacroTargetsInput,
+  saveClientMacroTargets,
+} from "~/lib/macroTargets.server";
+
+/** GET returns a client's daily macro targets (null when none are set). Coaches pass clientId. */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user) {
+    return json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const clientIdParam = new URL(request.url).searchParams.get("clientId");
+  let targetClientId: string;
+  if (user.role === "coach") {
+    if (!clientIdParam) {
+      return json({ error: "clientId is required" }, { status: 400 });
+    }
+    const owns = await verifyCoachOwnsClient(user.id, clientIdParam);
+    if (!owns) {
+      return json({ error: "Client not found or access denied" }, { status: 404 });
+    }
+    targetClientId = clientIdParam;
+  } else {
+    targetClientId = user.id;
+  }
+
+  try {
+    const targets = await getClientMacroTargets({
+      supabase: createServiceClient(),
+      clientId: targetClientId,
+    });
+    return json({ targets });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to fetch macro targets" },
+      { status: 500 }
+    );
+  }
+}
+
+/** POST (JSON) { clientId, calories, protein, carbs, fat } sets a client's targets. */
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user || user.role !== "coach") {
+    return json({ error: "Only coaches can set macro targets" }, { status: 403 });
+  }
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = (await request.json()) as Record<string, unknown>;
+  } catch (e) {
+    return json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const clientId = typeof body.clientId === "string" ? body.clientId : "";
+  if (!clientId) {
+    return json({ error: "clientId is required" }, { status: 400 });
+  }
+  const owns = await verifyCoachOwnsClient(user.id, clientId);
+  if (!owns) {
+    return json({ error: "Client not found or access denied" }, { status: 404 });
+  }
+
+  let targets;
+  try {
+    targets = parseMacroTargetsInput(body);
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Invalid macro targets" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const saved = await saveClientMacroTargets({
+      supabase: createServiceClient(),
+      coachId: user.id,
+      clientId,
+      targets,
+    });
+    return json({ targets: saved });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to save macro targets" },
+      { status: 500 }
+    );
+  }
+}
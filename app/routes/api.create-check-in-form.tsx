@@ -2,6 +2,7 @@ import { json } from "@remix-run/node";
 import { createClient } from "@supabase/supabase-js";
 import type { ActionFunctionArgs } from "@remix-run/node";
 import type { Database } from "~/lib/supabase";
+import { createCheckInForm } from "~/lib/checkInForms.server";
 import { parse } from "cookie";
 import jwt from "jsonwebtoken";
 import { Buffer } from "buffer";
@@ -73,48 +74,20 @@ export async function action({ request }: ActionFunctionArgs) {
     // Parse questions
     const questions = questionsJson ? JSON.parse(questionsJson) : [];
 
-    // Create the form
-    const { data: form, error: formError } = await supabase
-      .from("check_in_forms")
-      .insert({
-        coach_id: coachUser.id,
-        title,
-        description: description || null,
-      })
-      .select()
-      .single();
-
-    if (formError || !form) {
-      console.error("Error creating form:", formError);
-      return json({ error: "Failed to create form" }, { status: 500 });
-    }
-
-    // Create questions if any
-    if (questions.length > 0) {
-      const questionsToInsert = questions.map((q: any, index: number) => ({
-        form_id: form.id,
-        question_text: q.question_text,
-        question_type: q.question_type,
-        is_required: q.is_required,
-        options: q.options && q.options.length > 0 ? q.options : null,
-        order_index: index,
-      }));
-
-      const { error: questionsError } = await supabase
-        .from("check_in_form_questions")
-        .insert(questionsToInsert);
-
-      if (questionsError) {
-        console.error("Error creating questions:", questionsError);
-        // Delete the form if questions fail
-        await supabase.from("check_in_forms").delete().eq("id", form.id);
-        return json({ error: "Failed to create questions" }, { status: 500 });
-      }
-    }
+    const form = await createCheckInForm({
+      supabase,
+      coachId: coachUser.id,
+      title,
+      description,
+      questions,
+    });
 
     return json({ form });
   } catch (error) {
     console.error("Error creating check-in form:", error);
-    return json({ error: "Failed to create form" }, { status: 500 });
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to create form" },
+      { status: 500 }
+    );
   }
 } 
\ No newline at end of file
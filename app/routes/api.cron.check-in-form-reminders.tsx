@@ -0,0 +1,31 @@
+import { json } from "@remix-run/node";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { createServiceClient } from "~/lib/chat-auth.server";
+import { verifyCronAuth } from "~/lib/cronAuth.server";
+import { processCheckInFormReminders } from "~/lib/checkInReminders.server";
+
+// Run hourly: reminder offsets are whole hours and expiry is checked on the same pass
+async function run(request: Request) {
+  if (!verifyCronAuth(request)) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await processCheckInFormReminders(createServiceClient());
+    return json(results);
+  } catch (error) {
+    console.error("Check-in form reminder processing failed:", error);
+    return json(
+      { error: error instanceof Error ? error.message : "Processing failed" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  return run(request);
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  return run(request);
+}
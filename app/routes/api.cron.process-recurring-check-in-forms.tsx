@@ -1,31 +1,60 @@
 import { json } from "@remix-run/node";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { createServiceClient } from "~/lib/chat-auth.server";
+import { verifyCronAuth } from "~/lib/cronAuth.server";
 import {
   computeNextSendAt,
+  getPlanActivationDates,
   hasPendingFormInstance,
+  recomputeNextSendAt,
+  scheduleRecurrence,
   sendCheckInFormInstance,
   type SnapshotQuestion,
-  type ScheduleFrequency,
 } from "~/lib/checkInForms.server";
 
-function verifyCronAuth(request: Request): boolean {
-  const cronSecret = process.env.CRON_SECRET;
-  if (!cronSecret) {
-    console.error("CRON_SECRET is not configured");
-    return false;
-  }
+type ServiceClient = ReturnType<typeof createServiceClient>;
 
-  const authHeader = request.headers.get("authorization");
-  if (!authHeader?.startsWith("Bearer ")) {
-    return false;
-  }
+/**
+ * after_activation schedules have nothing to send until the client starts a
+ * new workout plan, so their next send is worked out again on every run.
+ */
+async function refreshActivationSchedules(supabase: ServiceClient) {
+  const { data: schedules, error } = await supabase
+    .from("check_in_form_schedules")
+    .select("*")
+    .eq("is_active", true)
+    .eq("frequency", "after_activation");
 
-  return authHeader.substring(7) === cronSecret;
+  if (error) {
+    console.error("Error fetching plan activation schedules:", error);
+    throw new Error("Failed to fetch schedules");
+  }
+  if (!schedules || schedules.length === 0) return new Map<string, string>();
+
+  const activations = await getPlanActivationDates(
+    supabase,
+    Array.from(new Set(schedules.map((schedule) => schedule.client_id)))
+  );
+
+  for (const schedule of schedules) {
+    const nextSendAt = recomputeNextSendAt(schedule, activations.get(schedule.client_id));
+    const current = schedule.next_send_at ? new Date(schedule.next_send_at).toISOString() : null;
+    if (nextSendAt === current) continue;
+
+    const { error: updateError } = await supabase
+      .from("check_in_form_schedules")
+      .update({ next_send_at: nextSendAt, updated_at: new Date().toISOString() })
+      .eq("id", schedule.id);
+    if (updateError) {
+      console.error(`Error refreshing schedule ${schedule.id}:`, updateError);
+    }
+  }
+  return activations;
 }
 
 async function processRecurringForms() {
   const supabase = createServiceClient();
+  const activations = await refreshActivationSchedules(supabase);
   const now = new Date().toISOString();
 
   const { data: dueSchedules, error } = await supabase
@@ -49,16 +78,13 @@ async function processRecurringForms() {
   for (const schedule of dueSchedules || []) {
     try {
       const questions = (schedule.questions_snapshot || []) as SnapshotQuestion[];
-      const frequency = schedule.frequency as ScheduleFrequency;
+      const dueAt = schedule.next_send_at as string;
 
       const advanceSchedule = async () => {
         const nextSendAt = computeNextSendAt({
-          frequency,
-          timeOfDay: schedule.time_of_day,
-          timezone: schedule.timezone,
-          fromDate: schedule.next_send_at,
-          dayOfWeek: schedule.day_of_week,
-          dayOfMonth: schedule.day_of_month,
+          ...scheduleRecurrence(schedule, activations.get(schedule.client_id)),
+          fromDate: dueAt,
+          afterSend: true,
         });
 
         await supabase
@@ -95,6 +121,7 @@ async function processRecurringForms() {
         description: schedule.description,
         questions,
         expiresInDays: schedule.expires_in_days,
+        reminderOffsetsHours: schedule.reminder_offsets_hours,
       });
 
       await advanceSchedule();
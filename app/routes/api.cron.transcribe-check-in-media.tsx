@@ -0,0 +1,31 @@
+import { json } from "@remix-run/node";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { createServiceClient } from "~/lib/chat-auth.server";
+import { verifyCronAuth } from "~/lib/cronAuth.server";
+import { processPendingTranscriptions } from "~/lib/checkInTranscription.server";
+
+// Run every few minutes; each run transcribes a small batch of recordings
+async function run(request: Request) {
+  if (!verifyCronAuth(request)) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await processPendingTranscriptions(createServiceClient());
+    return json(results);
+  } catch (error) {
+    console.error("Check-in transcription processing failed:", error);
+    return json(
+      { error: error instanceof Error ? error.message : "Processing failed" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  return run(request);
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  return run(request);
+}
@@ -0,0 +1,96 @@
+import { json } from "@remix-run/node";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { createServiceClient, getChatUserFromRequest } from "~/lib/chat-auth.server";
+import {
+  createExerciseLibraryEntry,
+  deleteExerciseLibraryEntry,
+  listExerciseLibrary,
+  parseExerciseLibraryInput,
+  updateExerciseLibraryEntry,
+} from "~/lib/exerciseLibrary.server";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user || user.role !== "coach") {
+    return json({ error: "Only coaches can view the exercise library" }, { status: 403 });
+  }
+
+  try {
+    const exercises = await listExerciseLibrary({
+      supabase: createServiceClient(),
+      coachId: user.id,
+    });
+    return json({ exercises });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to fetch exercise library" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user || user.role !== "coach") {
+    return json({ error: "Only coaches can manage the exercise library" }, { status: 403 });
+  }
+
+  const supabase = createServiceClient();
+  const body = (await request.json()) as Record<string, unknown>;
+  const id = typeof body.id === "string" ? body.id : null;
+
+  if (request.method === "DELETE") {
+    if (!id) {
+      return json({ error: "id is required" }, { status: 400 });
+    }
+    try {
+      await deleteExerciseLibraryEntry({ supabase, coachId: user.id, id });
+      return json({ success: true, deletedId: id });
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Failed to delete exercise" },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (request.method !== "POST" && request.method !== "PATCH") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  let input;
+  try {
+    input = parseExerciseLibraryInput(body);
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Invalid exercise" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (request.method === "PATCH") {
+      if (!id) {
+        return json({ error: "id is required" }, { status: 400 });
+      }
+      const exercise = await updateExerciseLibraryEntry({
+        supabase,
+        coachId: user.id,
+        id,
+        input,
+      });
+      if (!exercise) {
+        return json({ error: "Exercise not found" }, { status: 404 });
+      }
+      return json({ exercise });
+    }
+
+    const exercise = await createExerciseLibraryEntry({ supabase, coachId: user.id, input });
+    return json({ exercise });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to save exercise" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { json } from "@remix-run/node";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { createServiceClient, getChatUserFromRequest } from "~/lib/chat-auth.server";
+import { createCustomFood, parseCustomFoodInput, searchFoodLibrary } from "~/lib/foodLibrary.server";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user) {
+    return json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const query = new URL(request.url).searchParams.get("q") || "";
+  try {
+    // Clients search the shared dataset plus their coach's custom foods
+    const foods = await searchFoodLibrary({
+      supabase: createServiceClient(),
+      coachId: user.role === "coach" ? user.id : user.coach_id,
+      query,
+    });
+    return json({ foods });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to search food library" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user || user.role !== "coach") {
+    return json({ error: "Only coaches can add to the food library" }, { status: 403 });
+  }
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  let input;
+  try {
+    input = parseCustomFoodInput((await request.json()) as Record<string, unknown>);
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Invalid food" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const food = await createCustomFood({
+      supabase: createServiceClient(),
+      coachId: user.id,
+      input,
+    });
+    return json({ food });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to save food" },
+      { status: 500 }
+    );
+  }
+}
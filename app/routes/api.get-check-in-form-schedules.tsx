@@ -32,12 +32,12 @@ export async function loader({ request }: LoaderFunctionArgs) {
   const { data: schedules, error } = await supabase
     .from("check_in_form_schedules")
     .select(
-      "id, form_id, frequency, day_of_week, day_of_month, time_of_day, next_send_at, title, expires_in_days"
+      "id, form_id, frequency, day_of_week, days_of_week, interval_weeks, day_of_month, days_after_activation, time_of_day, next_send_at, paused_from, paused_until, title, expires_in_days"
     )
     .eq("client_id", clientId)
     .eq("coach_id", coachUser.id)
     .eq("is_active", true)
-    .order("next_send_at", { ascending: true });
+    .order("next_send_at", { ascending: true, nullsFirst: false });
 
   if (error) {
     console.error("Error fetching schedules:", error);
@@ -0,0 +1,51 @@
+import { json } from "@remix-run/node";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import {
+  createServiceClient,
+  getAuthIdFromRequest,
+} from "~/lib/chat-auth.server";
+
+/** The built-in starter templates (forms with no coach) with their questions. */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const supabase = createServiceClient();
+
+  const authId = getAuthIdFromRequest(request);
+  if (!authId) {
+    return json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data: coachUser } = await supabase
+    .from("users")
+    .select("id, role")
+    .eq("auth_id", authId)
+    .single();
+
+  if (!coachUser || coachUser.role !== "coach") {
+    return json({ error: "Only coaches can view form templates" }, { status: 403 });
+  }
+
+  const { data: templates, error } = await supabase
+    .from("check_in_forms")
+    .select(
+      "id, title, description, questions:check_in_form_questions(id, question_text, question_type, is_required, options, order_index, visibility_rule, profile_field)"
+    )
+    .is("coach_id", null)
+    .eq("is_active", true)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching form templates:", error);
+    return json({ error: "Failed to fetch form templates" }, { status: 500 });
+  }
+
+  return json({
+    templates: (templates || []).map((template) => ({
+      id: template.id,
+      title: template.title,
+      description: template.description,
+      questions: (Array.isArray(template.questions) ? [...template.questions] : []).sort(
+        (a, b) => (a.order_index ?? 0) - (b.order_index ?? 0)
+      ),
+    })),
+  });
+}
@@ -82,7 +82,9 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
             question_type,
             is_required,
             options,
-            order_index
+            order_index,
+            visibility_rule,
+            profile_field
           )
         `
       )
@@ -114,6 +116,8 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
           is_required: question.is_required,
           options: question.options ?? [],
           order_index: question.order_index ?? 0,
+          visibility_rule: question.visibility_rule ?? null,
+          profile_field: question.profile_field ?? null,
         })),
       },
     });
@@ -124,7 +124,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
             question_type,
             is_required,
             options,
-            order_index
+            order_index,
+            visibility_rule
           `)
           .eq("instance_id", form.id)
           .order("order_index");
@@ -145,7 +146,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
             question_type,
             is_required,
             options,
-            order_index
+            order_index,
+            visibility_rule
           `)
           .eq("form_id", form.form_id)
           .order("order_index");
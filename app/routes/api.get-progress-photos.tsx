@@ -97,7 +97,7 @@ export async function loader({ request }: { request: Request }) {
     // Fetch paginated progress photos
     const { data: photos, error, count } = await supabase
       .from("progress_photos")
-      .select("id, photo_url, notes, created_at", { count: "exact" })
+      .select("id, photo_url, notes, created_at, pose, taken_on", { count: "exact" })
       .eq("client_id", clientId)
       .order("created_at", { ascending: true })
       .range(offset, offset + pageSize - 1);
@@ -4,6 +4,8 @@ import type { Database } from "~/lib/supabase";
 import { parse } from "cookie";
 import jwt from "jsonwebtoken";
 import { Buffer } from "buffer";
+import { getWeightGoal } from "~/lib/weightGoals.server";
+import { summarizeWeightTrend } from "~/lib/weightTrend";
 
 export const loader = async ({ request }: { request: Request }) => {
   const supabase = createClient<Database>(
@@ -44,16 +46,47 @@ export const loader = async ({ request }: { request: Request }) => {
   }
   const { data: user } = await supabase
     .from("users")
-    .select("id")
+    .select("id, role")
     .eq("auth_id", authId)
     .single();
   if (!user) {
     return json({ error: "User not found" }, { status: 404 });
   }
-  const { data: weightLogs } = await supabase
-    .from("weight_logs")
-    .select("id, weight, logged_at")
-    .eq("user_id", user.id)
-    .order("logged_at", { ascending: true });
-  return json({ weightLogs: weightLogs || [] });
+
+  // Coaches pass ?clientId= to read a client's logs; clients always get their own
+  const clientId = new URL(request.url).searchParams.get("clientId");
+  let targetUserId = user.id;
+  if (clientId && clientId !== user.id) {
+    if (user.role !== "coach") {
+      return json({ error: "Unauthorized" }, { status: 403 });
+    }
+    const { data: client } = await supabase
+      .from("users")
+      .select("id")
+      .eq("id", clientId)
+      .eq("coach_id", user.id)
+      .single();
+    if (!client) {
+      return json({ error: "Client not found or unauthorized" }, { status: 403 });
+    }
+    targetUserId = clientId;
+  }
+
+  const [{ data: weightLogs }, weightGoal] = await Promise.all([
+    supabase
+      .from("weight_logs")
+      .select("id, weight, logged_at")
+      .eq("user_id", targetUserId)
+      .order("logged_at", { ascending: true }),
+    getWeightGoal({ supabase, clientId: targetUserId }).catch(() => null),
+  ]);
+  const trend = summarizeWeightTrend(
+    (weightLogs || []).map((log: { id: string; weight: number | string; logged_at: string }) => ({
+      id: log.id,
+      date: log.logged_at,
+      weight: Number(log.weight),
+    })),
+    weightGoal
+  );
+  return json({ weightLogs: weightLogs || [], weightGoal, trend });
 }; 
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { json } from "@remix-run/node";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import {
+  createServiceClient,
+  getChatUserFromRequest,
+  verifyCoachOwnsClient,
+} from "~/lib/chat-auth.server";
+import { getWorkoutSessionLogs } from "~/lib/workoutLogs.server";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user) {
+    return json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const clientIdParam = url.searchParams.get("clientId");
+  const startDate = url.searchParams.get("startDate");
+  const endDate = url.searchParams.get("endDate");
+  const limit = Math.min(
+    Math.max(parseInt(url.searchParams.get("limit") || "20", 10) || 20, 1),
+    100
+  );
+
+  let targetClientId: string;
+  if (user.role === "coach") {
+    if (!clientIdParam) {
+      return json({ error: "clientId is required" }, { status: 400 });
+    }
+    const owns = await verifyCoachOwnsClient(user.id, clientIdParam);
+    if (!owns) {
+      return json({ error: "Client not found or access denied" }, { status: 404 });
+    }
+    targetClientId = clientIdParam;
+  } else {
+    targetClientId = user.id;
+  }
+
+  try {
+    const sessions = await getWorkoutSessionLogs({
+      supabase: createServiceClient(),
+      userId: targetClientId,
+      startDate,
+      endDate,
+      limit,
+    });
+    return json({ sessions });
+  } catch (error) {
+    console.error("Error fetching workout session logs:", error);
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to fetch workout logs" },
+      { status: 500 }
+    );
+  }
+}
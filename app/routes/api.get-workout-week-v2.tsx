@@ -8,6 +8,8 @@ import jwt from "jsonwebtoken";
 import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc";
 import timezone from "dayjs/plugin/timezone";
+import { applyProgramWeek, getProgramWeek } from "~/lib/workoutProgram";
+import type { WorkoutProgram } from "~/types/workout";
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
@@ -86,6 +88,7 @@ export const loader: LoaderFunction = async ({ request }) => {
         id,
         is_active,
         plan_id,
+        activated_at,
         workout_plans_v2!inner(
           id,
           title,
@@ -115,11 +118,17 @@ export const loader: LoaderFunction = async ({ request }) => {
 
     const plan = userAssignment.workout_plans_v2;
     const isFlexibleSchedule = plan.builder_mode === 'day';
+    const workoutData = plan.workout_data;
+    const program: WorkoutProgram | null = workoutData.program || null;
 
     // Parse week start date and get week range
     const weekStart = dayjs(weekStartParam).tz(USER_TIMEZONE).startOf("day");
     const weekEnd = weekStart.add(7, "day");
 
+    // Program weeks count from this assignment's activation, not the calendar week
+    const programWeekFor = (date: string) =>
+      getProgramWeek(program, userAssignment.activated_at, date);
+
     // Get completion data for the week
     const { data: completionsRaw } = await supabase
       .from("workout_completions")
@@ -130,8 +139,11 @@ export const loader: LoaderFunction = async ({ request }) => {
 
     if (isFlexibleSchedule) {
       // FLEXIBLE SCHEDULE: Return workout templates and rest day info
-      const workoutData = plan.workout_data;
       const workoutDays = workoutData.days || [];
+      const today = dayjs().tz(USER_TIMEZONE);
+      const programWeek = programWeekFor(
+        (!today.isBefore(weekStart) && today.isBefore(weekEnd) ? today : weekStart).format("YYYY-MM-DD")
+      );
 
       // Create workout templates from the JSONB data
       const workoutTemplates = workoutDays
@@ -149,7 +161,7 @@ export const loader: LoaderFunction = async ({ request }) => {
               description: exercise.exercise_description,
               videoUrl: exercise.video_url,
               type: exercise.group_type,
-              sets: exercise.sets_data || [],
+              sets: applyProgramWeek(exercise.sets_data || [], program, programWeek),
             }]
           })) : [],
           allExercises: day.exercises ? day.exercises.map(exercise => ({
@@ -158,7 +170,7 @@ export const loader: LoaderFunction = async ({ request }) => {
             description: exercise.exercise_description,
             videoUrl: exercise.video_url,
             type: exercise.group_type,
-            sets: exercise.sets_data || [],
+            sets: applyProgramWeek(exercise.sets_data || [], program, programWeek),
           })) : [],
           uniqueTypes: day.exercises ? [...new Set(day.exercises.map(ex => ex.group_type))] : [],
           isRest: false,
@@ -219,12 +231,12 @@ export const loader: LoaderFunction = async ({ request }) => {
         availableTemplates,
         restDaysAllowed,
         restDaysUsed,
-        workoutDaysPerWeek
+        workoutDaysPerWeek,
+        programWeek
       });
 
     } else {
       // FIXED SCHEDULE: Original logic for week-based plans
-      const workoutData = plan.workout_data;
       const workoutDays = workoutData.days || [];
 
       // Build workouts object for fixed schedule
@@ -234,6 +246,7 @@ export const loader: LoaderFunction = async ({ request }) => {
         const currentDay = weekStart.add(i, "day");
         const dayName = currentDay.format("dddd");
         const dayStr = currentDay.format("YYYY-MM-DD");
+        const programWeek = programWeekFor(dayStr);
         
         const dayData = workoutDays.find(day => day.day_of_week === dayName);
         
@@ -244,7 +257,8 @@ export const loader: LoaderFunction = async ({ request }) => {
             groups: [],
             allExercises: [],
             uniqueTypes: [],
-            isRest: true
+            isRest: true,
+            programWeek
           };
         } else {
           const groups = dayData.exercises ? dayData.exercises.map(exercise => ({
@@ -256,7 +270,7 @@ export const loader: LoaderFunction = async ({ request }) => {
               description: exercise.exercise_description,
               videoUrl: exercise.video_url,
               type: exercise.group_type,
-              sets: exercise.sets_data || [],
+              sets: applyProgramWeek(exercise.sets_data || [], program, programWeek),
             }]
           })) : [];
 
@@ -266,7 +280,7 @@ export const loader: LoaderFunction = async ({ request }) => {
             description: exercise.exercise_description,
             videoUrl: exercise.video_url,
             type: exercise.group_type,
-            sets: exercise.sets_data || [],
+            sets: applyProgramWeek(exercise.sets_data || [], program, programWeek),
           })) : [];
 
           const uniqueTypes = dayData.exercises ? [...new Set(dayData.exercises.map(ex => ex.group_type))] : [];
@@ -277,7 +291,8 @@ export const loader: LoaderFunction = async ({ request }) => {
             groups,
             allExercises,
             uniqueTypes,
-            isRest: false
+            isRest: false,
+            programWeek
           };
         }
       }
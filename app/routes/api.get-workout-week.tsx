@@ -8,7 +8,9 @@ import { Buffer } from "buffer";
 import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc";
 import timezone from "dayjs/plugin/timezone";
-import { USER_TIMEZONE } from "~/lib/timezone";
+import { USER_TIMEZONE, getCurrentDate } from "~/lib/timezone";
+import { applyProgramWeek, getProgramWeek } from "~/lib/workoutProgram";
+import type { WorkoutProgram } from "~/types/workout";
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
@@ -77,7 +79,7 @@ export const loader: LoaderFunction = async ({ request }) => {
   // Get the active workout plan with builder mode info
   const { data: workoutPlans } = await supabase
     .from("workout_plans")
-    .select("id, title, is_active, builder_mode, workout_days_per_week, instructions")
+    .select("id, title, is_active, builder_mode, workout_days_per_week, instructions, activated_at, program")
     .eq("user_id", user.id)
     .eq("is_active", true)
     .limit(1);
@@ -98,10 +100,21 @@ export const loader: LoaderFunction = async ({ request }) => {
   const plan = workoutPlans[0];
   const planId = plan.id;
   const isFlexibleSchedule = plan.builder_mode === 'day';
+  const program = (plan.program as WorkoutProgram | null) || null;
   
   // Parse week start date and get week range
   const weekStart = dayjs(weekStartParam).tz(USER_TIMEZONE).startOf("day");
   const weekEnd = weekStart.add(7, "day");
+
+  // Program weeks run from the activation day, so they can turn over mid calendar week
+  const programWeekFor = (date: string) => getProgramWeek(program, plan.activated_at, date);
+  const toClientSets = (setsData: any[], programWeek: ReturnType<typeof programWeekFor>) =>
+    applyProgramWeek(setsData, program, programWeek).map((set: any) => ({
+      setNumber: set.set_number,
+      weight: typeof set.weight === "number" ? set.weight : undefined,
+      reps: set.reps,
+      completed: false,
+    }));
   
   // Get completion data for the week
   const { data: completionsRaw } = await supabase
@@ -118,6 +131,12 @@ export const loader: LoaderFunction = async ({ request }) => {
       .select("id, day_of_week, is_rest, workout_name, workout_type")
       .eq("workout_plan_id", planId);
 
+    // Templates are picked any day of the week; use today's program week while it is this week
+    const today = getCurrentDate();
+    const programWeek = programWeekFor(
+      (!today.isBefore(weekStart) && today.isBefore(weekEnd) ? today : weekStart).format("YYYY-MM-DD")
+    );
+
     // Extract workout templates (non-rest days)
     const workoutTemplates: any[] = [];
     const nonRestDayIds: number[] = [];
@@ -165,11 +184,7 @@ export const loader: LoaderFunction = async ({ request }) => {
             notes: exercise.exercise_description || null,
             videoUrl: exercise.video_url,
             type: exercise.group_type,
-            sets: setsData.map((set: any) => ({
-              setNumber: set.set_number,
-              reps: set.reps,
-              completed: false,
-            })),
+            sets: toClientSets(setsData, programWeek),
           });
         });
 
@@ -245,7 +260,8 @@ export const loader: LoaderFunction = async ({ request }) => {
       availableTemplates,
       restDaysAllowed,
       restDaysUsed,
-      workoutDaysPerWeek
+      workoutDaysPerWeek,
+      programWeek
     });
 
   } else {
@@ -282,6 +298,7 @@ export const loader: LoaderFunction = async ({ request }) => {
       const date = weekStart.add(i, "day");
       const dateStr = date.format("YYYY-MM-DD");
       const dayOfWeek = daysOfWeek[date.day()];
+      const programWeek = programWeekFor(dateStr);
       
       // Find the workout day for this day of week
       const dayPlan = (planDays || []).find(day => day.day_of_week === dayOfWeek);
@@ -294,7 +311,8 @@ export const loader: LoaderFunction = async ({ request }) => {
           allExercises: [],
           uniqueTypes: [],
           isRest: true,
-          dayOfWeek: dayOfWeek
+          dayOfWeek: dayOfWeek,
+          programWeek
         };
       } else {
         // Get exercises for this workout day
@@ -324,11 +342,7 @@ export const loader: LoaderFunction = async ({ request }) => {
             notes: exercise.exercise_description || null,
             videoUrl: exercise.video_url,
             type: exercise.group_type,
-            sets: setsData.map((set: any) => ({
-              setNumber: set.set_number,
-              reps: set.reps,
-              completed: false,
-            })),
+            sets: toClientSets(setsData, programWeek),
           });
         });
 
@@ -343,7 +357,8 @@ export const loader: LoaderFunction = async ({ request }) => {
           allExercises,
           uniqueTypes,
           isRest: false,
-          dayOfWeek: dayOfWeek
+          dayOfWeek: dayOfWeek,
+          programWeek
         };
       }
       
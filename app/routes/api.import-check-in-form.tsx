@@ -0,0 +1,102 @@
+import { json } from "@remix-run/node";
+import type { ActionFunctionArgs } from "@remix-run/node";
+import {
+  createServiceClient,
+  getAuthIdFromRequest,
+} from "~/lib/chat-auth.server";
+import { createCheckInForm } from "~/lib/checkInForms.server";
+import {
+  buildCheckInFormExport,
+  parseCheckInFormExport,
+  type CheckInFormDefinition,
+} from "~/lib/checkInFormTemplates";
+
+const MAX_FILE_LENGTH = 1024 * 1024;
+
+/**
+ * Adds a form to the coach's account, either from an exported file
+ * (`file`, the JSON text) or by copying a starter template (`templateId`).
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const supabase = createServiceClient();
+
+  const formData = await request.formData();
+  const file = formData.get("file")?.toString();
+  const templateId = formData.get("templateId")?.toString();
+
+  if (!file && !templateId) {
+    return json({ error: "A form file or template is required" }, { status: 400 });
+  }
+
+  const authId = getAuthIdFromRequest(request);
+  if (!authId) {
+    return json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data: coachUser } = await supabase
+    .from("users")
+    .select("id, role")
+    .eq("auth_id", authId)
+    .single();
+
+  if (!coachUser || coachUser.role !== "coach") {
+    return json({ error: "Only coaches can import forms" }, { status: 403 });
+  }
+
+  let definition: CheckInFormDefinition;
+  if (templateId) {
+    const { data: template, error: templateError } = await supabase
+      .from("check_in_forms")
+      .select(
+        "title, description, questions:check_in_form_questions(question_text, question_type, is_required, options, order_index, visibility_rule, profile_field)"
+      )
+      .eq("id", templateId)
+      .is("coach_id", null)
+      .eq("is_active", true)
+      .single();
+
+    if (templateError || !template) {
+      return json({ error: "Template not found" }, { status: 404 });
+    }
+    definition = buildCheckInFormExport({
+      title: template.title,
+      description: template.description,
+      questions: Array.isArray(template.questions) ? template.questions : [],
+    }).form;
+  } else {
+    if ((file as string).length > MAX_FILE_LENGTH) {
+      return json({ error: "The file is too large to be a check-in form" }, { status: 400 });
+    }
+    let raw: unknown;
+    try {
+      raw = JSON.parse(file as string);
+    } catch {
+      return json({ error: "The file isn't valid JSON" }, { status: 400 });
+    }
+    const parsed = parseCheckInFormExport(raw);
+    if (parsed.errors) {
+      return json(
+        { error: "This form can't be imported", details: parsed.errors },
+        { status: 400 }
+      );
+    }
+    definition = parsed.form;
+  }
+
+  try {
+    const form = await createCheckInForm({
+      supabase,
+      coachId: coachUser.id,
+      title: definition.title,
+      description: definition.description,
+      questions: definition.questions,
+    });
+    return json({ form });
+  } catch (error) {
+    console.error("Error importing check-in form:", error);
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to import form" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { Resend } from "resend";
 import { createClient } from "@supabase/supabase-js";
 import type { Database } from "~/lib/supabase";
 import { getCurrentTimestampISO } from "~/lib/timezone";
+import { getIntakeForm } from "~/lib/intakeForms.server";
 
 // Create a Resend instance
 const resend = new Resend(process.env.RESEND_API_KEY);
@@ -22,6 +23,7 @@ export async function action({ request }: ActionFunctionArgs) {
   const name = formData.get("name")?.toString();
   const coach_id = formData.get("coach_id")?.toString();
   const plan_price_id = formData.get("plan_price_id")?.toString();
+  const intake_form_id = formData.get("intake_form_id")?.toString() || null;
 
   // Validate the form data
   if (!email || !name || !coach_id) {
@@ -43,6 +45,27 @@ export async function action({ request }: ActionFunctionArgs) {
       process.env.SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_KEY!
     );
+
+    // The intake questionnaire must be one of the inviting coach's own forms
+    if (intake_form_id) {
+      const { data: intakeForm } = await supabase
+        .from("check_in_forms")
+        .select("id")
+        .eq("id", intake_form_id)
+        .eq("coach_id", coach_id)
+        .eq("is_active", true)
+        .single();
+      if (!intakeForm) {
+        return json(
+          {
+            error: "Intake form not found",
+            success: false,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     const { error: dbError } = await supabase
       .from("client_invitations")
       .insert({
@@ -50,6 +73,7 @@ export async function action({ request }: ActionFunctionArgs) {
         name,
         coach_id,
         plan_price_id,
+        intake_form_id,
         token: inviteCode,
         accepted: false,
         created_at: getCurrentTimestampISO(),
@@ -137,11 +161,15 @@ export async function loader({ request }: LoaderFunctionArgs) {
   );
   const { data: invite, error } = await supabase
     .from("client_invitations")
-    .select("email, name, coach_id, plan_price_id, token, accepted, created_at")
+    .select("email, name, coach_id, plan_price_id, intake_form_id, token, accepted, created_at")
     .eq("token", inviteToken)
     .single();
   if (error || !invite) {
     return json({ error: "Invite not found" }, { status: 404 });
   }
-  return json(invite);
+  // The questions the client answers as the last step of registration
+  const intake_form = invite.intake_form_id
+    ? await getIntakeForm(supabase, invite.intake_form_id)
+    : null;
+  return json({ ...invite, intake_form });
 }
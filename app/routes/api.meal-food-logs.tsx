@@ -0,0 +1,127 @@
+import { json } from "@remix-run/node";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  createServiceClient,
+  getChatUserFromRequest,
+  verifyCoachOwnsClient,
+} from "~/lib/chat-auth.server";
+import {
+  deleteFoodLog,
+  listFoodLogs,
+  parseFoodLogInput,
+  saveFoodLog,
+} from "~/lib/mealFoodLogs.server";
+import { getCurrentDate } from "~/lib/timezone";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET ?date=YYYY-MM-DD, or ?start=&end= for a range, returns the food logs
+ * for those days. Coaches pass clientId.
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user) {
+    return json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const clientIdParam = url.searchParams.get("clientId");
+  const date = url.searchParams.get("date");
+  const startDate = url.searchParams.get("start") || date;
+  const endDate = url.searchParams.get("end") || date;
+  if (!startDate || !endDate || !DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+    return json({ error: "date, or start and end, must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  let targetClientId: string;
+  if (user.role === "coach") {
+    if (!clientIdParam) {
+      return json({ error: "clientId is required" }, { status: 400 });
+    }
+    const owns = await verifyCoachOwnsClient(user.id, clientIdParam);
+    if (!owns) {
+      return json({ error: "Client not found or access denied" }, { status: 404 });
+    }
+    targetClientId = clientIdParam;
+  } else {
+    targetClientId = user.id;
+  }
+
+  try {
+    const logs = await listFoodLogs({
+      supabase: createServiceClient(),
+      userId: targetClientId,
+      startDate,
+      endDate,
+    });
+    return json({ logs });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to fetch food logs" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST (JSON) logs a change to the plan for a day; DELETE (JSON { id }) removes one.
+ * Clients log for themselves, and not for days that haven't happened yet.
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user || user.role !== "client") {
+    return json({ error: "Only clients can log food" }, { status: 403 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = (await request.json()) as Record<string, unknown>;
+  } catch (e) {
+    return json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const supabase = createServiceClient();
+
+  if (request.method === "DELETE") {
+    const logId = typeof body.id === "string" ? body.id : "";
+    if (!logId) {
+      return json({ error: "id is required" }, { status: 400 });
+    }
+    try {
+      await deleteFoodLog({ supabase, userId: user.id, logId });
+      return json({ success: true, deletedId: logId });
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Failed to delete food log" },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  let input;
+  try {
+    input = parseFoodLogInput(body);
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Invalid food log" },
+      { status: 400 }
+    );
+  }
+  if (input.log_date > getCurrentDate().format("YYYY-MM-DD")) {
+    return json({ error: "You can't log food for a future day" }, { status: 400 });
+  }
+
+  try {
+    const log = await saveFoodLog({ supabase, userId: user.id, input });
+    return json({ log });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to save food log" },
+      { status: 500 }
+    );
+  }
+}
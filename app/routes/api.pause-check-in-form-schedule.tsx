@@ -0,0 +1,120 @@
+import { json } from "@remix-run/node";
+import type { ActionFunctionArgs } from "@remix-run/node";
+import dayjs from "dayjs";
+import {
+  createServiceClient,
+  getAuthIdFromRequest,
+} from "~/lib/chat-auth.server";
+import {
+  getPlanActivationDates,
+  recomputeNextSendAt,
+} from "~/lib/checkInForms.server";
+import { MAX_SCHEDULE_PAUSE_DAYS } from "~/lib/checkInFormConstants";
+import { getCurrentDate } from "~/lib/timezone";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string) {
+  return DATE_PATTERN.test(value) && dayjs(value).format("YYYY-MM-DD") === value;
+}
+
+/**
+ * Sets a schedule's pause window (pausedFrom/pausedUntil, inclusive), e.g.
+ * while the client is on vacation. Sending both empty resumes it.
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const supabase = createServiceClient();
+
+  const formData = await request.formData();
+  const scheduleId = formData.get("scheduleId")?.toString();
+  const pausedFrom = formData.get("pausedFrom")?.toString() || null;
+  const pausedUntil = formData.get("pausedUntil")?.toString() || null;
+
+  if (!scheduleId) {
+    return json({ error: "Schedule ID is required" }, { status: 400 });
+  }
+
+  if (pausedFrom || pausedUntil) {
+    if (!pausedFrom || !pausedUntil || !isValidDate(pausedFrom) || !isValidDate(pausedUntil)) {
+      return json({ error: "Pause start and end dates are required" }, { status: 400 });
+    }
+    if (pausedUntil < pausedFrom) {
+      return json({ error: "Pause end date must be on or after the start date" }, { status: 400 });
+    }
+    if (pausedUntil < getCurrentDate().format("YYYY-MM-DD")) {
+      return json({ error: "Pause end date is in the past" }, { status: 400 });
+    }
+    if (dayjs(pausedUntil).diff(dayjs(pausedFrom), "day") >= MAX_SCHEDULE_PAUSE_DAYS) {
+      return json(
+        { error: `Schedules can be paused for up to ${MAX_SCHEDULE_PAUSE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+  }
+
+  const authId = getAuthIdFromRequest(request);
+  if (!authId) {
+    return json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data: coachUser } = await supabase
+    .from("users")
+    .select("id, role")
+    .eq("auth_id", authId)
+    .single();
+
+  if (!coachUser || coachUser.role !== "coach") {
+    return json({ error: "Only coaches can pause schedules" }, { status: 403 });
+  }
+
+  const { data: schedule, error: fetchError } = await supabase
+    .from("check_in_form_schedules")
+    .select("*")
+    .eq("id", scheduleId)
+    .eq("coach_id", coachUser.id)
+    .single();
+
+  if (fetchError || !schedule) {
+    return json({ error: "Schedule not found" }, { status: 404 });
+  }
+
+  if (!schedule.is_active) {
+    return json({ error: "Schedule is no longer active" }, { status: 400 });
+  }
+
+  try {
+    const activatedAt =
+      schedule.frequency === "after_activation"
+        ? (await getPlanActivationDates(supabase, [schedule.client_id])).get(schedule.client_id)
+        : null;
+    const nextSendAt = recomputeNextSendAt(
+      { ...schedule, paused_from: pausedFrom, paused_until: pausedUntil },
+      activatedAt
+    );
+
+    const { data: updated, error: updateError } = await supabase
+      .from("check_in_form_schedules")
+      .update({
+        paused_from: pausedFrom,
+        paused_until: pausedUntil,
+        next_send_at: nextSendAt,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", scheduleId)
+      .select()
+      .single();
+
+    if (updateError || !updated) {
+      console.error("Error pausing schedule:", updateError);
+      return json({ error: "Failed to update schedule" }, { status: 500 });
+    }
+
+    return json({ schedule: updated });
+  } catch (error) {
+    console.error("Error pausing check-in form schedule:", error);
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to update schedule" },
+      { status: 500 }
+    );
+  }
+}
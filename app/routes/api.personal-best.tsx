@@ -1,43 +1,100 @@
 import { json } from "@remix-run/node";
-import { createClient } from "@supabase/supabase-js";
-import { getCurrentTimestampISO } from "~/lib/timezone";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  createServiceClient,
+  getChatUserFromRequest,
+  verifyCoachOwnsClient,
+} from "~/lib/chat-auth.server";
+import {
+  getExerciseHistory,
+  getPersonalBestSummary,
+  sharePersonalBests,
+} from "~/lib/personalBests.server";
+
+/**
+ * GET ?exercise=<name> returns that exercise's history and PB timeline;
+ * without it, the current PBs for every logged exercise. Coaches pass clientId.
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user) {
+    return json({ error: "Not authenticated" }, { status: 401 });
+  }
 
-export const loader = async ({ request }: { request: Request }) => {
   const url = new URL(request.url);
-  const exerciseId = url.searchParams.get("exerciseId");
-  if (!exerciseId) return json({ error: "Missing exerciseId" }, { status: 400 });
-
-  // Get user from cookie
-  const cookie = request.headers.get("cookie") || "";
-  const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_ANON_KEY!);
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) return json({ error: "Not authenticated" }, { status: 401 });
-
-  const { data, error } = await supabase
-    .from("workouts_personal_bests")
-    .select("weight")
-    .eq("user_id", user.id)
-    .eq("exercise_id", exerciseId)
-    .single();
-  if (error && error.code !== "PGRST116") return json({ error: error.message }, { status: 500 });
-  return json({ weight: data?.weight || null });
-};
-
-export const action = async ({ request }: { request: Request }) => {
+  const clientIdParam = url.searchParams.get("clientId");
+  const exerciseName = url.searchParams.get("exercise")?.trim();
+
+  let targetClientId: string;
+  if (user.role === "coach") {
+    if (!clientIdParam) {
+      return json({ error: "clientId is required" }, { status: 400 });
+    }
+    const owns = await verifyCoachOwnsClient(user.id, clientIdParam);
+    if (!owns) {
+      return json({ error: "Client not found or access denied" }, { status: 404 });
+    }
+    targetClientId = clientIdParam;
+  } else {
+    targetClientId = user.id;
+  }
+
+  const supabase = createServiceClient();
+  try {
+    if (exerciseName) {
+      const { history, records } = await getExerciseHistory({
+        supabase,
+        userId: targetClientId,
+        exerciseName,
+      });
+      return json({ exerciseName, history, records });
+    }
+    const personalBests = await getPersonalBestSummary({ supabase, userId: targetClientId });
+    return json({ personalBests });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to fetch personal bests" },
+      { status: 500 }
+    );
+  }
+}
+
+/** POST { recordIds } shares the client's PBs with their coach in chat. */
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const user = await getChatUserFromRequest(request);
+  if (!user || user.role !== "client") {
+    return json({ error: "Only clients can share personal bests" }, { status: 403 });
+  }
+  if (!user.coach_id) {
+    return json({ error: "You don't have a coach to share with yet" }, { status: 400 });
+  }
+
   const body = await request.json();
-  const { exerciseId, weight } = body;
-  if (!exerciseId || typeof weight !== "number") return json({ error: "Missing exerciseId or weight" }, { status: 400 });
-
-  // Get user from cookie
-  const cookie = request.headers.get("cookie") || "";
-  const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_ANON_KEY!);
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) return json({ error: "Not authenticated" }, { status: 401 });
-
-  // Upsert PB
-  const { error } = await supabase
-    .from("workouts_personal_bests")
-    .upsert({ user_id: user.id, exercise_id: exerciseId, weight, date_achieved: getCurrentTimestampISO(), updated_at: getCurrentTimestampISO() }, { onConflict: "user_id,exercise_id" });
-  if (error) return json({ error: error.message }, { status: 500 });
-  return json({ success: true });
-}; 
\ No newline at end of file
+  const { recordIds } = body as { recordIds?: unknown };
+  if (
+    !Array.isArray(recordIds) ||
+    recordIds.length === 0 ||
+    !recordIds.every((id) => typeof id === "string")
+  ) {
+    return json({ error: "recordIds is required" }, { status: 400 });
+  }
+
+  try {
+    const message = await sharePersonalBests({
+      supabase: createServiceClient(),
+      userId: user.id,
+      coachId: user.coach_id,
+      recordIds,
+    });
+    return json({ success: true, message });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to share personal bests" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { json } from "@remix-run/node";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import {
+  createServiceClient,
+  getChatUserFromRequest,
+  verifyCoachOwnsClient,
+} from "~/lib/chat-auth.server";
+import { listProgressPhotoSets } from "~/lib/progressPhotos.server";
+
+/** GET ?clientId= returns a client's progress photos grouped by date. The client or their coach only. */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user) {
+    return json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const clientId = new URL(request.url).searchParams.get("clientId");
+  if (!clientId) {
+    return json({ error: "clientId is required" }, { status: 400 });
+  }
+
+  const allowed =
+    user.role === "coach" ? await verifyCoachOwnsClient(user.id, clientId) : user.id === clientId;
+  if (!allowed) {
+    return json({ error: "Client not found or access denied" }, { status: 404 });
+  }
+
+  try {
+    const sets = await listProgressPhotoSets({ supabase: createServiceClient(), clientId });
+    return json({ sets });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to fetch progress photos" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { json } from "@remix-run/node";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import {
+  createServiceClient,
+  getChatUserFromRequest,
+  verifyCoachOwnsClient,
+} from "~/lib/chat-auth.server";
+import { searchCheckIns } from "~/lib/checkInTranscription.server";
+
+const MIN_QUERY_LENGTH = 2;
+
+/** GET ?clientId=&q= searches a client's check-in notes and transcripts. The client or their coach only. */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user) {
+    return json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const clientId = url.searchParams.get("clientId");
+  const query = url.searchParams.get("q")?.trim() || "";
+  if (!clientId) {
+    return json({ error: "clientId is required" }, { status: 400 });
+  }
+  if (query.length < MIN_QUERY_LENGTH) {
+    return json({ results: [] });
+  }
+
+  const allowed =
+    user.role === "coach" ? await verifyCoachOwnsClient(user.id, clientId) : user.id === clientId;
+  if (!allowed) {
+    return json({ error: "Client not found or access denied" }, { status: 404 });
+  }
+
+  try {
+    const results = await searchCheckIns({ supabase: createServiceClient(), clientId, query });
+    return json({ results });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to search check-ins" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,7 @@ import {
   getAuthIdFromRequest,
 } from "~/lib/chat-auth.server";
 import { parseSnapshotQuestions, sendCheckInFormInstance } from "~/lib/checkInForms.server";
+import { parseReminderOffsets } from "~/lib/checkInFormUtils";
 
 export async function action({ request }: ActionFunctionArgs) {
   const supabase = createServiceClient();
@@ -27,6 +28,7 @@ export async function action({ request }: ActionFunctionArgs) {
   const customTitle = formData.get("title")?.toString();
   const customDescription = formData.get("description")?.toString();
   const questionsJson = formData.get("questions")?.toString();
+  const reminderOffsetsHours = parseReminderOffsets(formData.get("reminderOffsetsHours")?.toString());
 
   if (!formId || !clientId) {
     return json({ error: "Form ID and Client ID are required" }, { status: 400 });
@@ -83,6 +85,7 @@ export async function action({ request }: ActionFunctionArgs) {
       description: instanceDescription,
       questions: snapshotQuestions,
       expiresInDays,
+      reminderOffsetsHours,
     });
 
     return json({
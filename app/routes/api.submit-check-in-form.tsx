@@ -6,6 +6,16 @@ import { parse } from "cookie";
 import jwt from "jsonwebtoken";
 import { Buffer } from "buffer";
 import { Resend } from "resend";
+import {
+  checkInResponseColumns,
+  findCheckInResponseError,
+  isCheckInResponseEmpty,
+  isQuestionVisible,
+  parseBodyMeasurements,
+} from "~/lib/checkInFormUtils";
+import { BODY_MEASUREMENT_FIELDS, BODY_MEASUREMENT_UNIT } from "~/lib/checkInFormConstants";
+import { saveBodyMeasurements } from "~/lib/bodyMeasurements.server";
+import { getCurrentDate } from "~/lib/timezone";
 
 // Create a Resend instance
 const resend = new Resend(process.env.RESEND_API_KEY);
@@ -138,7 +148,9 @@ export async function action({ request }: ActionFunctionArgs) {
         question_text,
         question_type,
         is_required,
-        options
+        options,
+        order_index,
+        visibility_rule
       `)
       .eq("instance_id", instanceId)
       .order("order_index");
@@ -159,7 +171,9 @@ export async function action({ request }: ActionFunctionArgs) {
           question_text,
           question_type,
           is_required,
-          options
+          options,
+          order_index,
+          visibility_rule
         `)
         .eq("form_id", instance.form_id)
         .order("order_index");
@@ -171,18 +185,14 @@ export async function action({ request }: ActionFunctionArgs) {
       questions = masterQuestions;
     }
 
-    // Validate that all required questions are answered
-    const requiredQuestions = questions?.filter((q: any) => q.is_required) || [];
-    
-    for (const question of requiredQuestions) {
-      const response = responses[question.id];
-      if (!response || 
-          (typeof response === 'string' && !response.trim()) ||
-          (Array.isArray(response) && response.length === 0)) {
-        return json({ 
-          error: `Required question "${question.question_text}" is not answered` 
-        }, { status: 400 });
-      }
+    // Questions hidden by their visibility rule are neither required nor saved
+    const visibleQuestions = (questions || []).filter((q) =>
+      isQuestionVisible(q, questions || [], responses)
+    );
+
+    const responseError = findCheckInResponseError(visibleQuestions, responses);
+    if (responseError) {
+      return json({ error: responseError }, { status: 400 });
     }
 
     // Insert responses
@@ -192,6 +202,12 @@ export async function action({ request }: ActionFunctionArgs) {
         console.error("Question not found for response:", { questionId, availableQuestions: questions?.map(q => q.id) });
         return null;
       }
+      if (
+        isCheckInResponseEmpty(question.question_type, response) ||
+        !visibleQuestions.includes(question)
+      ) {
+        return null;
+      }
 
       const responseData: Record<string, unknown> = {
         instance_id: instanceId,
@@ -203,21 +219,14 @@ export async function action({ request }: ActionFunctionArgs) {
         responseData.question_id = questionId;
       }
 
-      // Handle different response types
-      if (question.question_type === 'number') {
-        const numValue = parseFloat(response as string);
-        if (isNaN(numValue)) {
-          console.error("Invalid number response:", { questionId, response });
-          return null;
-        }
-        responseData.response_number = numValue;
-      } else if (question.question_type === 'checkbox') {
-        responseData.response_options = response;
-      } else {
-        responseData.response_text = response;
+      // Store the answer in the column its type uses
+      const columns = checkInResponseColumns(question.question_type, response);
+      if (!columns) {
+        console.error("Invalid response:", { questionId, type: question.question_type, response });
+        return null;
       }
 
-      return responseData;
+      return { ...responseData, ...columns };
     }).filter(Boolean);
 
     if (responsesToInsert.length > 0) {
@@ -248,6 +257,30 @@ export async function action({ request }: ActionFunctionArgs) {
       return json({ error: "Failed to complete form" }, { status: 500 });
     }
 
+    // Body measurement answers also feed the client's measurement trends
+    const measuredValues: Record<string, number> = {};
+    visibleQuestions
+      .filter((q) => q.question_type === "body_measurements")
+      .forEach((q) => {
+        const measurements = parseBodyMeasurements(responses[q.id]);
+        if (!measurements || measurements.unit !== BODY_MEASUREMENT_UNIT) return;
+        BODY_MEASUREMENT_FIELDS.forEach(({ key }) => {
+          if (measurements[key] !== undefined) measuredValues[key] = measurements[key] as number;
+        });
+      });
+    if (Object.keys(measuredValues).length > 0) {
+      try {
+        await saveBodyMeasurements({
+          supabase,
+          userId: instance.client_id,
+          date: getCurrentDate().format("YYYY-MM-DD"),
+          values: measuredValues,
+        });
+      } catch (measurementError) {
+        console.error("Error saving body measurements from check-in:", measurementError);
+      }
+    }
+
     // Send email notification to coach
     try {
       // Get the client's name
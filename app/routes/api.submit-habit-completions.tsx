@@ -48,6 +48,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return json({ error: "date is required (YYYY-MM-DD)" }, { status: 400 });
     }
 
+    for (const item of items) {
+      if (item.value != null && (typeof item.value !== "number" || !Number.isFinite(item.value) || item.value < 0)) {
+        return json({ error: "Logged amounts must be zero or more" }, { status: 400 });
+      }
+    }
+
     const clientHabitIds = items.length > 0 ? [...new Set(items.map((i) => i.client_habit_id))] : [];
     if (clientHabitIds.length > 0) {
       const { data: owned } = await supabase
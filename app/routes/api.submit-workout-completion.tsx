@@ -5,6 +5,9 @@ import type { Database } from "~/lib/supabase";
 import { parse } from "cookie";
 import jwt from "jsonwebtoken";
 import { Buffer } from "buffer";
+import { parseSetLogs, saveWorkoutSessionLog } from "~/lib/workoutLogs.server";
+import { detectPersonalBests } from "~/lib/personalBests.server";
+import type { PersonalBestRecord } from "~/types/workout";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   if (request.method !== "POST") {
@@ -67,7 +70,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     // Parse request body
     const body = await request.json();
-    const { completedGroups, completedAt } = body;
+    const { completedGroups, completedAt, workoutDayId, setLogs } = body;
 
     if (!completedAt) {
       return json({ error: "completedAt is required" }, { status: 400 });
@@ -83,6 +86,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       }
     }
 
+    let parsedSetLogs;
+    try {
+      parsedSetLogs = parseSetLogs(setLogs);
+    } catch (e) {
+      return json(
+        { error: e instanceof Error ? e.message : "Invalid setLogs format" },
+        { status: 400 }
+      );
+    }
+
     // Delete any existing completion for this user and date
     await supabase
       .from("workout_completions")
@@ -104,7 +117,34 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return json({ error: "Failed to save workout completion" }, { status: 500 });
     }
 
-    return json({ success: true });
+    // Per-set performance is optional; rest days and older clients send none
+    let personalBests: PersonalBestRecord[] = [];
+    if (setLogs !== undefined) {
+      let session;
+      try {
+        session = await saveWorkoutSessionLog({
+          supabase,
+          userId: user.id,
+          workoutDayId: typeof workoutDayId === "string" && workoutDayId ? workoutDayId : null,
+          performedAt: completedAt,
+          setLogs: parsedSetLogs,
+        });
+      } catch (logError) {
+        console.error("Error saving workout session log:", logError);
+        return json({ error: "Failed to save workout log" }, { status: 500 });
+      }
+
+      // A PB check failing shouldn't fail the workout the client just logged
+      if (session) {
+        try {
+          personalBests = await detectPersonalBests({ supabase, userId: user.id, session });
+        } catch (pbError) {
+          console.error("Error detecting personal bests:", pbError);
+        }
+      }
+    }
+
+    return json({ success: true, personalBests });
   } catch (error) {
     console.error("Error in workout completion API:", error);
     return json({ error: "Internal server error" }, { status: 500 });
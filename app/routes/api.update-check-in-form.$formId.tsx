@@ -2,18 +2,21 @@ import { json } from "@remix-run/node";
 import { createClient } from "@supabase/supabase-js";
 import type { ActionFunctionArgs } from "@remix-run/node";
 import type { Database } from "~/lib/supabase";
+import { parseProfileField, parseVisibilityRule } from "~/lib/checkInFormUtils";
 import { parse } from "cookie";
 import jwt from "jsonwebtoken";
 import { Buffer } from "buffer";
 
 interface IncomingQuestion {
   id?: string;
-  persistedId?: number | null;
+  persistedId?: string | number | null;
   question_text: string;
   question_type: string;
   is_required: boolean;
   options?: string[] | null;
   order_index?: number;
+  visibility_rule?: unknown;
+  profile_field?: unknown;
 }
 
 export async function action({ request, params }: ActionFunctionArgs) {
@@ -118,16 +121,32 @@ export async function action({ request, params }: ActionFunctionArgs) {
       return json({ error: "Failed to update form" }, { status: 500 });
     }
 
+    const { data: currentQuestions, error: currentQuestionsError } = await supabase
+      .from("check_in_form_questions")
+      .select("id")
+      .eq("form_id", formId);
+
+    if (currentQuestionsError) {
+      console.error("Error fetching current questions:", currentQuestionsError);
+      return json({ error: "Failed to update questions" }, { status: 500 });
+    }
+
+    const currentQuestionIds = (currentQuestions || []).map((q) => String(q.id));
+
+    // Existing questions keep their ids so answers sent from earlier versions
+    // of the form still line up with them (e.g. in check-in trends)
     const sanitizedQuestions = parsedQuestions.map((question, index) => {
-      const numericId =
-        typeof question.persistedId === "number"
-          ? question.persistedId
-          : question.id && /^\d+$/.test(question.id)
-          ? Number(question.id)
-          : undefined;
+      const candidateId =
+        question.persistedId !== undefined && question.persistedId !== null
+          ? String(question.persistedId)
+          : question.id;
+      const existingId =
+        candidateId && currentQuestionIds.includes(candidateId) ? candidateId : undefined;
+      const orderIndex =
+        typeof question.order_index === "number" ? question.order_index : index;
 
       return {
-        id: numericId,
+        id: existingId,
       question_text: question.question_text,
       question_type: question.question_type,
       is_required: question.is_required,
@@ -135,25 +154,16 @@ export async function action({ request, params }: ActionFunctionArgs) {
         question.options && question.options.length > 0
           ? question.options
           : null,
-      order_index: typeof question.order_index === "number" ? question.order_index : index,
+      order_index: orderIndex,
+      visibility_rule: parseVisibilityRule(question.visibility_rule, orderIndex),
+      profile_field: parseProfileField(question.profile_field, question.question_type),
       };
     });
 
     const existingQuestionIds = sanitizedQuestions
-      .filter((q) => typeof q.id === "number")
-      .map((q) => q.id as number);
-
-    const { data: currentQuestions, error: currentQuestionsError } = await supabase
-      .from("check_in_form_questions")
-      .select("id")
-      .eq("form_id", formId);
-
-    if (currentQuestionsError) {
-      console.error("Error fetching current questions:", currentQuestionsError);
-      return json({ error: "Failed to update questions" }, { status: 500 });
-    }
+      .filter((q) => q.id !== undefined)
+      .map((q) => q.id as string);
 
-    const currentQuestionIds = (currentQuestions || []).map((q) => q.id);
     const questionIdsToDelete = currentQuestionIds.filter(
       (id) => !existingQuestionIds.includes(id)
     );
@@ -171,7 +181,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
     }
 
     const questionsToUpdate = sanitizedQuestions.filter(
-      (question) => typeof question.id === "number"
+      (question) => question.id !== undefined
     );
 
     if (questionsToUpdate.length > 0) {
@@ -186,6 +196,8 @@ export async function action({ request, params }: ActionFunctionArgs) {
             is_required: question.is_required,
             options: question.options,
             order_index: question.order_index,
+            visibility_rule: question.visibility_rule,
+            profile_field: question.profile_field,
           })),
           { onConflict: "id" }
         );
@@ -197,7 +209,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
     }
 
     const questionsToInsert = sanitizedQuestions.filter(
-      (question) => typeof question.id !== "number"
+      (question) => question.id === undefined
     );
 
     if (questionsToInsert.length > 0) {
@@ -211,6 +223,8 @@ export async function action({ request, params }: ActionFunctionArgs) {
             is_required: question.is_required,
             options: question.options,
             order_index: question.order_index,
+            visibility_rule: question.visibility_rule,
+            profile_field: question.profile_field,
           }))
         );
 
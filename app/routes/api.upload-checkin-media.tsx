@@ -332,6 +332,8 @@ export async function action({ request }: ActionFunctionArgs) {
       recording_duration: duration ? parseInt(duration) : null,
       recording_thumbnail_url: thumbnailUrl,
       transcript: transcript && transcript.trim() ? transcript.trim() : null,
+      // No browser transcript: the transcription job fills it in
+      transcription_status: transcript && transcript.trim() ? null : 'pending',
       ...(recordingType === 'video' && { video_url: urlData.publicUrl }),
       ...(recordingType === 'audio' && { audio_url: urlData.publicUrl }),
       ...(recordingType === 'video_audio' && { 
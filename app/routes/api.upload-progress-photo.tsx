@@ -4,6 +4,8 @@ import type { Database } from "~/lib/supabase";
 import { parse } from "cookie";
 import jwt from "jsonwebtoken";
 import { Buffer } from "buffer";
+import { isProgressPhotoPose } from "~/lib/progressPhotos";
+import { getCurrentDate } from "~/lib/timezone";
 
 export const action = async ({ request }: { request: Request }) => {
   if (request.method !== "POST") {
@@ -69,11 +71,21 @@ export const action = async ({ request }: { request: Request }) => {
     const file = formData.get("file") as File;
     const clientId = formData.get("clientId") as string;
     const notes = formData.get("notes") as string;
+    const pose = (formData.get("pose") as string) || null;
+    const takenOn = (formData.get("takenOn") as string) || getCurrentDate().format("YYYY-MM-DD");
 
     if (!file || !clientId) {
       return json({ error: "Missing file or clientId" }, { status: 400 });
     }
 
+    if (pose && !isProgressPhotoPose(pose)) {
+      return json({ error: "Pose must be front, side or back" }, { status: 400 });
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(takenOn) || takenOn > getCurrentDate().format("YYYY-MM-DD")) {
+      return json({ error: "Photo date must be today or earlier" }, { status: 400 });
+    }
+
     // Validate file type
     const allowedTypes = ["image/jpeg", "image/jpg", "image/png", "image/gif", "image/webp"];
     if (!allowedTypes.includes(file.type.toLowerCase())) {
@@ -190,6 +202,8 @@ export const action = async ({ request }: { request: Request }) => {
         coach_id: user.id,
         photo_url: urlData.publicUrl,
         notes: notes || null,
+        pose,
+        taken_on: takenOn,
       })
       .select()
       .single();
@@ -0,0 +1,73 @@
+import { json } from "@remix-run/node";
+import type { ActionFunctionArgs } from "@remix-run/node";
+import {
+  createServiceClient,
+  getChatUserFromRequest,
+  verifyCoachOwnsClient,
+} from "~/lib/chat-auth.server";
+import { deleteWeightGoal, parseWeightGoalInput, saveWeightGoal } from "~/lib/weightGoals.server";
+
+/**
+ * Coaches POST (JSON) { clientId, targetWeight, targetDate } to set a client's
+ * weight target and DELETE { clientId } to clear it.
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await getChatUserFromRequest(request);
+  if (!user) {
+    return json({ error: "Not authenticated" }, { status: 401 });
+  }
+  if (user.role !== "coach") {
+    return json({ error: "Only coaches can set weight targets" }, { status: 403 });
+  }
+  if (request.method !== "POST" && request.method !== "DELETE") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = (await request.json()) as Record<string, unknown>;
+  } catch (e) {
+    return json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const clientId = typeof body.clientId === "string" ? body.clientId : "";
+  if (!clientId) {
+    return json({ error: "clientId is required" }, { status: 400 });
+  }
+  const owns = await verifyCoachOwnsClient(user.id, clientId);
+  if (!owns) {
+    return json({ error: "Client not found or access denied" }, { status: 404 });
+  }
+  const supabase = createServiceClient();
+
+  if (request.method === "DELETE") {
+    try {
+      await deleteWeightGoal({ supabase, clientId });
+      return json({ weightGoal: null });
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Failed to delete weight goal" },
+        { status: 500 }
+      );
+    }
+  }
+
+  let input;
+  try {
+    input = parseWeightGoalInput(body);
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Invalid weight goal" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const weightGoal = await saveWeightGoal({ supabase, coachId: user.id, clientId, ...input });
+    return json({ weightGoal });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Failed to save weight goal" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,22 @@ import { getOrCreateStripeCustomer, createStripeSubscription, attachPaymentMetho
 import React, { useRef, useEffect, useState } from "react";
 import { loadStripe } from '@stripe/stripe-js';
 import { CardElement, Elements, useStripe, useElements } from '@stripe/react-stripe-js';
+import CheckInQuestionInput from "~/components/client/CheckInQuestionInput";
+import type { FormQuestion } from "~/components/client/CheckInFormResponse";
+import {
+  getIntakeForm,
+  intakeProfileValues,
+  saveIntakeResponses,
+  validateIntakeResponses,
+  type IntakeForm,
+  type IntakeProfileValues,
+} from "~/lib/intakeForms.server";
+import {
+  isCheckInResponseEmpty,
+  isIntakeQuestion,
+  isQuestionVisible,
+  parseVisibilityRule,
+} from "~/lib/checkInFormUtils";
 
 export const meta: MetaFunction = () => {
   return [
@@ -31,6 +47,14 @@ type ActionData = {
   paymentSucceeded?: boolean;
 };
 
+// The intake questionnaire attached to a client invitation
+type InviteIntakeForm = {
+  id: string;
+  title: string;
+  description: string | null;
+  questions: Array<FormQuestion & { profile_field?: string | null }>;
+};
+
 // Utility to generate a slug from a name
 function slugify(name: string): string {
   return name
@@ -49,12 +73,13 @@ export const action: ActionFunction = async ({ request }) => {
   const goal = formData.get("goal")?.toString();
   const planPriceId = formData.get("plan_price_id")?.toString();
   const paymentMethodId = formData.get("paymentMethodId")?.toString();
+  const intakeResponsesJson = formData.get("intakeResponses")?.toString();
   const inviteCodeRaw =
     formData.get("invite")?.toString() ||
     new URL(request.url).searchParams.get("invite");
   const inviteCode = inviteCodeRaw || undefined;
 
-  if (!name || !email || !password || (inviteCode && !goal)) {
+  if (!name || !email || !password) {
     return json<ActionData>({
       error: "All fields are required",
       fields: {
@@ -79,12 +104,15 @@ export const action: ActionFunction = async ({ request }) => {
 
   let role: "coach" | "client" = "coach";
   let coach_id: string | undefined = undefined;
+  let intakeForm: IntakeForm | null = null;
+  let intakeAnswers: Record<string, unknown> = {};
+  let profileValues: IntakeProfileValues = {};
 
   if (inviteCode) {
     // Look up the invite in client_invitations
     const { data: invite, error: inviteError } = await supabase
       .from("client_invitations")
-      .select("coach_id, accepted")
+      .select("coach_id, accepted, intake_form_id")
       .eq("token", inviteCode)
       .eq("email", email)
       .single();
@@ -102,6 +130,40 @@ export const action: ActionFunction = async ({ request }) => {
     }
     role = "client";
     coach_id = invite.coach_id;
+
+    // Intake answers are checked before the account is created, so a
+    // missing answer doesn't leave a half-registered client behind
+    if (invite.intake_form_id) {
+      intakeForm = await getIntakeForm(supabase, invite.intake_form_id);
+    }
+    if (intakeForm) {
+      let responses: Record<string, unknown> = {};
+      try {
+        responses = intakeResponsesJson ? JSON.parse(intakeResponsesJson) : {};
+      } catch {
+        return json<ActionData>({
+          error: "Your questionnaire answers couldn't be read. Please try again.",
+          fields: { name, email, password, userType: "client", inviteCode },
+        });
+      }
+      const result = validateIntakeResponses(intakeForm, responses);
+      if (!result.answers) {
+        return json<ActionData>({
+          error: result.error,
+          fields: { name, email, password, userType: "client", inviteCode },
+        });
+      }
+      intakeAnswers = result.answers;
+      profileValues = intakeProfileValues(intakeForm, intakeAnswers);
+    }
+  }
+
+  const clientGoal = profileValues.goal || goal;
+  if (inviteCode && !clientGoal) {
+    return json<ActionData>({
+      error: "All fields are required",
+      fields: { name, email, password, userType: "client", inviteCode },
+    });
   }
 
   // Sign up with Supabase Auth
@@ -140,7 +202,8 @@ export const action: ActionFunction = async ({ request }) => {
     role,
     status: 'active', // Explicitly set status for new users
     ...(coach_id ? { coach_id } : {}),
-    ...(goal ? { goal } : {}),
+    ...(clientGoal ? { goal: clientGoal } : {}),
+    ...profileValues,
     slug,
   });
 
@@ -217,6 +280,21 @@ export const action: ActionFunction = async ({ request }) => {
 
   // If client, mark invite as accepted
   if (inviteCode) {
+    if (intakeForm && coach_id) {
+      try {
+        await saveIntakeResponses({
+          supabase,
+          form: intakeForm,
+          coachId: coach_id,
+          clientId: userId,
+          answers: intakeAnswers,
+        });
+      } catch (error) {
+        // The profile fields are already saved; don't fail registration over the form copy
+        console.error("[REGISTRATION] Failed to save intake answers:", error);
+      }
+    }
+
     await supabase
       .from("client_invitations")
       .update({ accepted: true })
@@ -250,8 +328,9 @@ export const action: ActionFunction = async ({ request }) => {
               <ul>
                 <li><strong>Name:</strong> ${name}</li>
                 <li><strong>Email:</strong> ${email}</li>
-                <li><strong>Goal:</strong> ${goal || 'Not specified'}</li>
+                <li><strong>Goal:</strong> ${clientGoal || 'Not specified'}</li>
               </ul>
+              ${intakeForm ? `<p>They also completed your intake questionnaire, <strong>${intakeForm.title}</strong>. You'll find their answers with their check-in forms.</p>` : ''}
               <p>Your new client is now ready to start their fitness journey with you!</p>
               <p>You can view their profile and begin setting up their meal and workout plans from your dashboard.</p>
               <p>Best regards,<br />The Kava Training Team</p>
@@ -342,6 +421,53 @@ function ClientOnlyRegisterForm(props: any) {
   const formRef = React.useRef<HTMLFormElement>(null);
   const hasSubmittedRef = React.useRef(false);
   const [cardError, setCardError] = React.useState<string | null>(null);
+  const [intakeForm, setIntakeForm] = React.useState<InviteIntakeForm | null>(null);
+  const [step, setStep] = React.useState<"account" | "intake">("account");
+  const [intakeResponses, setIntakeResponses] = React.useState<Record<string, any>>({});
+  const [intakeErrors, setIntakeErrors] = React.useState<Record<string, string>>({});
+
+  // The intake questionnaire is the last step, after account and payment details
+  const allIntakeQuestions = intakeForm?.questions || [];
+  const visibleIntakeQuestions = allIntakeQuestions.filter(
+    (question) =>
+      isIntakeQuestion(question) &&
+      isQuestionVisible(question, allIntakeQuestions, intakeResponses)
+  );
+  const hasIntake = !!isClientInvite && allIntakeQuestions.some(isIntakeQuestion);
+  // Answers to follow-ups that were hidden again aren't sent
+  const intakeAnswers = Object.fromEntries(
+    visibleIntakeQuestions
+      .filter((question) => question.id in intakeResponses)
+      .map((question) => [question.id, intakeResponses[question.id]])
+  );
+  // The Goal field is only dropped when the intake is sure to ask for it: an
+  // optional or conditional goal question can be left blank, and the account
+  // step comes before the answers that decide whether it shows
+  const intakeAsksGoal = allIntakeQuestions.some(
+    (question) =>
+      question.profile_field === "goal" &&
+      isIntakeQuestion(question) &&
+      question.is_required &&
+      !parseVisibilityRule(question.visibility_rule, question.order_index)
+  );
+
+  const handleIntakeChange = (questionId: string, value: any) => {
+    setIntakeResponses((prev) => ({ ...prev, [questionId]: value }));
+    if (intakeErrors[questionId]) {
+      setIntakeErrors((prev) => ({ ...prev, [questionId]: "" }));
+    }
+  };
+
+  const validateIntake = () => {
+    const newErrors: Record<string, string> = {};
+    visibleIntakeQuestions.forEach((question) => {
+      if (question.is_required && isCheckInResponseEmpty(question.question_type, intakeResponses[question.id])) {
+        newErrors[question.id] = "This question is required";
+      }
+    });
+    setIntakeErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
 
   const stripe = useStripe();
   const elements = useElements();
@@ -369,6 +495,9 @@ function ClientOnlyRegisterForm(props: any) {
         fetch(`/api/invite-client?invite=${invite}`)
           .then((res) => res.json())
           .then((data) => {
+            if (data?.intake_form) {
+              setIntakeForm(data.intake_form);
+            }
             if (data && data.plan_price_id) {
               setPlanPriceId(data.plan_price_id);
               didSetFromInvite = true;
@@ -432,6 +561,13 @@ function ClientOnlyRegisterForm(props: any) {
     }
   }, [isClientInvite, invite, urlPlanPriceId]);
 
+  // Card problems are shown with the card field on the account step
+  React.useEffect(() => {
+    if (cardError) {
+      setStep("account");
+    }
+  }, [cardError]);
+
   // Reset payment loading state when action data changes (after form submission)
   React.useEffect(() => {
     if (actionData) {
@@ -450,6 +586,13 @@ function ClientOnlyRegisterForm(props: any) {
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     if (isClientInvite) {
       e.preventDefault();
+      if (hasIntake && step === "account") {
+        setStep("intake");
+        return;
+      }
+      if (hasIntake && !validateIntake()) {
+        return;
+      }
       setPaymentLoading(true);
       setCardError(null);
       
@@ -563,125 +706,165 @@ function ClientOnlyRegisterForm(props: any) {
                 {isClientInvite && (
                   <input type="hidden" name="invite" value={invite} />
                 )}
-                <div>
-                  <label
-                    htmlFor="name"
-                    className="block text-sm font-medium text-secondary"
-                  >
-                    Full Name
-                  </label>
-                  <div className="mt-1">
-                    <input
-                      id="name"
-                      name="name"
-                      type="text"
-                      autoComplete="name"
-                      required
-                      defaultValue={
-                        isClientInvite ? nameParam : actionData?.fields?.name || ""
-                      }
-                      readOnly={!!isClientInvite}
-                      className="appearance-none block w-full px-3 py-2 border border-gray-light rounded-md shadow-sm placeholder-gray focus:outline-none focus:ring-primary focus:border-primary bg-white text-black"
-                    />
-                  </div>
-                </div>
-                <div>
-                  <label
-                    htmlFor="email"
-                    className="block text-sm font-medium text-secondary"
-                  >
-                    Email address
-                  </label>
-                  <div className="mt-1">
-                    <input
-                      id="email"
-                      name="email"
-                      type="email"
-                      autoComplete="email"
-                      required
-                      defaultValue={
-                        isClientInvite
-                          ? emailParam
-                          : actionData?.fields?.email || ""
-                      }
-                      readOnly={!!isClientInvite}
-                      className="appearance-none block w-full px-3 py-2 border border-gray-light rounded-md shadow-sm placeholder-gray focus:outline-none focus:ring-primary focus:border-primary bg-white text-black"
-                    />
-                  </div>
-                </div>
-                {/* Plan name and price (read-only) for client invite */}
-                {isClientInvite && planPriceId && planName && (
+                {hasIntake && (
+                  <input type="hidden" name="intakeResponses" value={JSON.stringify(intakeAnswers)} />
+                )}
+                {/* Kept mounted on the intake step so the card field and account details still submit */}
+                <div className={step === "intake" ? "hidden" : "space-y-6"}>
                   <div>
-                    <label htmlFor="plan_name" className="block text-sm font-medium text-secondary mb-1">
-                      Subscription Plan
+                    <label
+                      htmlFor="name"
+                      className="block text-sm font-medium text-secondary"
+                    >
+                      Full Name
                     </label>
-                    <input
-                      id="plan_name"
-                      name="plan_name"
-                      type="text"
-                      value={planName}
-                      readOnly
-                      className="w-full px-3 py-2 border border-gray-light dark:border-davyGray rounded-lg bg-gray-100 text-secondary dark:text-alabaster cursor-not-allowed"
-                      tabIndex={-1}
-                    />
-                    {planPrice && (
-                      <div className="mt-1 text-xs text-secondary dark:text-alabaster opacity-60">
-                        {planPrice === "$0.00" || planPrice === "$0.00 / month" || planPrice === "$0.00 / year" ? "Free" : planPrice}
-                      </div>
-                    )}
+                    <div className="mt-1">
+                      <input
+                        id="name"
+                        name="name"
+                        type="text"
+                        autoComplete="name"
+                        required
+                        defaultValue={
+                          isClientInvite ? nameParam : actionData?.fields?.name || ""
+                        }
+                        readOnly={!!isClientInvite}
+                        className="appearance-none block w-full px-3 py-2 border border-gray-light rounded-md shadow-sm placeholder-gray focus:outline-none focus:ring-primary focus:border-primary bg-white text-black"
+                      />
+                    </div>
                   </div>
-                )}
-                {/* Show card section for all client invites - payment method is always required */}
-                {isClientInvite && (
                   <div>
-                    {elements && (
-                      <CardSection
-                        cardError={cardError}
-                        setCardError={setCardError}
-                        cardPaymentMethodId={cardPaymentMethodId}
+                    <label
+                      htmlFor="email"
+                      className="block text-sm font-medium text-secondary"
+                    >
+                      Email address
+                    </label>
+                    <div className="mt-1">
+                      <input
+                        id="email"
+                        name="email"
+                        type="email"
+                        autoComplete="email"
+                        required
+                        defaultValue={
+                          isClientInvite
+                            ? emailParam
+                            : actionData?.fields?.email || ""
+                        }
+                        readOnly={!!isClientInvite}
+                        className="appearance-none block w-full px-3 py-2 border border-gray-light rounded-md shadow-sm placeholder-gray focus:outline-none focus:ring-primary focus:border-primary bg-white text-black"
                       />
-                    )}
+                    </div>
                   </div>
-                )}
-                {isClientInvite && (
+                  {/* Plan name and price (read-only) for client invite */}
+                  {isClientInvite && planPriceId && planName && (
+                    <div>
+                      <label htmlFor="plan_name" className="block text-sm font-medium text-secondary mb-1">
+                        Subscription Plan
+                      </label>
+                      <input
+                        id="plan_name"
+                        name="plan_name"
+                        type="text"
+                        value={planName}
+                        readOnly
+                        className="w-full px-3 py-2 border border-gray-light dark:border-davyGray rounded-lg bg-gray-100 text-secondary dark:text-alabaster cursor-not-allowed"
+                        tabIndex={-1}
+                      />
+                      {planPrice && (
+                        <div className="mt-1 text-xs text-secondary dark:text-alabaster opacity-60">
+                          {planPrice === "$0.00" || planPrice === "$0.00 / month" || planPrice === "$0.00 / year" ? "Free" : planPrice}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {/* Show card section for all client invites - payment method is always required */}
+                  {isClientInvite && (
+                    <div>
+                      {elements && (
+                        <CardSection
+                          cardError={cardError}
+                          setCardError={setCardError}
+                          cardPaymentMethodId={cardPaymentMethodId}
+                        />
+                      )}
+                    </div>
+                  )}
+                  {isClientInvite && !intakeAsksGoal && (
+                    <div>
+                      <label
+                        htmlFor="goal"
+                        className="block text-sm font-medium text-secondary"
+                      >
+                        Fitness Goal
+                      </label>
+                      <div className="mt-1">
+                        <input
+                          id="goal"
+                          name="goal"
+                          type="text"
+                          required
+                          placeholder="e.g. Lose weight, gain muscle, maintain, etc."
+                          className="appearance-none block w-full px-3 py-2 border border-gray-light rounded-md shadow-sm placeholder-gray focus:outline-none focus:ring-primary focus:border-primary bg-white text-black"
+                        />
+                      </div>
+                    </div>
+                  )}
                   <div>
                     <label
-                      htmlFor="goal"
+                      htmlFor="password"
                       className="block text-sm font-medium text-secondary"
                     >
-                      Fitness Goal
+                      Password
                     </label>
                     <div className="mt-1">
                       <input
-                        id="goal"
-                        name="goal"
-                        type="text"
+                        id="password"
+                        name="password"
+                        type="password"
+                        autoComplete="new-password"
                         required
-                        placeholder="e.g. Lose weight, gain muscle, maintain, etc."
                         className="appearance-none block w-full px-3 py-2 border border-gray-light rounded-md shadow-sm placeholder-gray focus:outline-none focus:ring-primary focus:border-primary bg-white text-black"
                       />
                     </div>
                   </div>
-                )}
-                <div>
-                  <label
-                    htmlFor="password"
-                    className="block text-sm font-medium text-secondary"
-                  >
-                    Password
-                  </label>
-                  <div className="mt-1">
-                    <input
-                      id="password"
-                      name="password"
-                      type="password"
-                      autoComplete="new-password"
-                      required
-                      className="appearance-none block w-full px-3 py-2 border border-gray-light rounded-md shadow-sm placeholder-gray focus:outline-none focus:ring-primary focus:border-primary bg-white text-black"
-                    />
-                  </div>
                 </div>
-                {isClientInvite && (
+                {hasIntake && step === "intake" && intakeForm && (
+                  <div className="space-y-6">
+                    <div>
+                      <h3 className="text-md font-semibold text-secondary">{intakeForm.title}</h3>
+                      <p className="mt-1 text-sm text-gray-700">
+                        {intakeForm.description || "Last step: a few questions from your coach so they can plan around you."}
+                      </p>
+                    </div>
+                    {visibleIntakeQuestions.map((question, index) => (
+                      <div key={question.id} className="space-y-2">
+                        <span className="block text-sm font-medium text-secondary">
+                          {index + 1}. {question.question_text}
+                          {question.is_required && <span className="text-red-500 ml-1">*</span>}
+                        </span>
+                        <CheckInQuestionInput
+                          question={question}
+                          value={intakeResponses[question.id]}
+                          error={intakeErrors[question.id]}
+                          onChange={(value) => handleIntakeChange(question.id, value)}
+                        />
+                        {intakeErrors[question.id] && (
+                          <p className="text-red-500 text-sm">{intakeErrors[question.id]}</p>
+                        )}
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setStep("account")}
+                      className="text-sm font-medium text-primary hover:text-primary-dark"
+                    >
+                      Back to account details
+                    </button>
+                  </div>
+                )}
+                {isClientInvite && (!hasIntake || step === "intake") && (
                   <div className="mt-6 border border-gray-200 rounded-md p-4 bg-gray-50">
                     <h3 className="text-md font-semibold mb-2 text-secondary">Terms and Conditions</h3>
                     <p className="text-sm text-gray-700 mb-2">
@@ -711,7 +894,11 @@ function ClientOnlyRegisterForm(props: any) {
                     className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary"
                     disabled={paymentLoading || cardLoading}
                   >
-                    {paymentLoading || cardLoading ? 'Processing...' : 'Create Account'}
+                    {paymentLoading || cardLoading
+                      ? 'Processing...'
+                      : hasIntake && step === "account"
+                        ? 'Continue'
+                        : 'Create Account'}
                   </button>
                 )}
                 {!isClientInvite && (
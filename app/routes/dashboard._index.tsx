@@ -266,9 +266,11 @@ export const loader: LoaderFunction = async ({ request }) => {
             .eq("meal_id", meal.id)
             .order("sequence_order", { ascending: true });
           const foods = (foodsRaw || []).map((food: any) => {
-            const protein = food.food_library && typeof food.food_library === 'object' && 'protein' in food.food_library ? Number(food.food_library.protein) || 0 : Number(food.protein) || 0;
-            const carbs = food.food_library && typeof food.food_library === 'object' && 'carbs' in food.food_library ? Number(food.food_library.carbs) || 0 : Number(food.carbs) || 0;
-            const fat = food.food_library && typeof food.food_library === 'object' && 'fat' in food.food_library ? Number(food.food_library.fat) || 0 : Number(food.fat) || 0;
+            // The food row holds macros already scaled to its portion; the library entry is per serving
+            const library = food.food_library && typeof food.food_library === 'object' ? food.food_library : null;
+            const protein = food.protein != null ? Number(food.protein) || 0 : Number(library?.protein) || 0;
+            const carbs = food.carbs != null ? Number(food.carbs) || 0 : Number(library?.carbs) || 0;
+            const fat = food.fat != null ? Number(food.fat) || 0 : Number(library?.fat) || 0;
             const calories = Math.round(protein * 4 + carbs * 4 + fat * 9) || 0;
             return {
               id: String(food.id || ''),
@@ -10,12 +10,16 @@ import MediaPlayerModal from "~/components/ui/MediaPlayerModal";
 import ProgressPhotosModal from "~/components/coach/ProgressPhotosModal";
 import CreateCheckInFormModal, { FormTemplate } from "~/components/coach/CreateCheckInFormModal";
 import SendCheckInFormModal, {
+  appendRecurringSchedule,
   type RecurringScheduleConfig,
 } from "~/components/coach/SendCheckInFormModal";
 import { formatScheduleSummary } from "~/lib/checkInFormUtils";
 import type { ScheduleFrequency } from "~/lib/checkInFormUtils";
 import CheckInFormResponseViewer from "~/components/coach/CheckInFormResponseViewer";
 import CheckInFormHistoryModal from "~/components/coach/CheckInFormHistoryModal";
+import CheckInTrendsModal from "~/components/coach/CheckInTrendsModal";
+import CheckInSummaryCard from "~/components/coach/CheckInSummaryCard";
+import BodyMeasurementsCard from "~/components/coach/BodyMeasurementsCard";
 import ViewCheckInFormsModal from "~/components/coach/ViewCheckInFormsModal";
 import { useState, useEffect } from "react";
 import { json } from "@remix-run/node";
@@ -32,6 +36,10 @@ import { calculateMacros } from "~/lib/utils";
 import { ResponsiveContainer } from "recharts";
 import dayjs from "dayjs";
 import { getCurrentTimestampISO } from "~/lib/timezone";
+import { getWeightGoal } from "~/lib/weightGoals.server";
+import { summarizeWeightTrend, weightTrendChartData } from "~/lib/weightTrend";
+import WeightTrendPanel from "~/components/coach/WeightTrendPanel";
+import type { WeightGoal } from "~/types/measurements";
 
 export const meta: MetaFunction = () => {
   return [
@@ -84,6 +92,8 @@ interface MinimalClient {
   starting_weight?: number;
   current_weight?: number;
   workout_split?: string;
+  allergies?: string | null;
+  equipment_available?: string | null;
   role?: string;
   coach_id?: string;
   slug?: string;
@@ -136,6 +146,7 @@ interface LoaderData {
   mealPlans: MealPlan[];
   supplements: Supplement[];
   weightLogs?: WeightLog[];
+  weightGoal?: WeightGoal | null;
   activeMealPlan?: MealPlan | null;
   activeWorkoutPlan?: WorkoutPlan | null;
   checkInsPage: number;
@@ -176,7 +187,7 @@ export const loader: import("@remix-run/node").LoaderFunction = async ({
   let { data: client, error } = await supabase
     .from("users")
     .select(
-      "id, name, email, goal, starting_weight, current_weight, workout_split, role, coach_id, slug, created_at"
+      "id, name, email, goal, starting_weight, current_weight, workout_split, allergies, equipment_available, role, coach_id, slug, created_at"
     )
     .eq("slug", clientIdParam)
     .single();
@@ -199,7 +210,7 @@ export const loader: import("@remix-run/node").LoaderFunction = async ({
     const { data: clientById, error: errorById } = await supabase
       .from("users")
       .select(
-        "id, name, email, goal, starting_weight, current_weight, workout_split, role, coach_id, slug, created_at"
+        "id, name, email, goal, starting_weight, current_weight, workout_split, allergies, equipment_available, role, coach_id, slug, created_at"
       )
       .eq("id", clientIdParam)
       .single();
@@ -258,7 +269,8 @@ export const loader: import("@remix-run/node").LoaderFunction = async ({
     workoutPlansRaw,
     supplementsRaw,
     weightLogsRaw,
-    completedFormsRaw
+    completedFormsRaw,
+    weightGoal
   ] = await Promise.all([
     // Updates from last 7 days
     supabase
@@ -322,7 +334,8 @@ export const loader: import("@remix-run/node").LoaderFunction = async ({
       .eq("client_id", client.id)
       .in("status", ["completed", "expired"])
       .order("sent_at", { ascending: false }),
-
+    // Coach-set weight target
+    getWeightGoal({ supabase, clientId: client.id }).catch(() => null),
   ]);
 
   // Batch fetch all meals for all meal plans
@@ -480,6 +493,7 @@ export const loader: import("@remix-run/node").LoaderFunction = async ({
     mealPlans: mealPlans || [],
     supplements,
     weightLogs,
+    weightGoal,
     activeMealPlan,
     activeWorkoutPlan,
     completedForms,
@@ -716,6 +730,7 @@ export default function ClientDetails() {
     allUpdates: loaderAllUpdates,
     checkIns: loaderCheckIns,
     weightLogs = [],
+    weightGoal: loaderWeightGoal = null,
     activeMealPlan,
     activeWorkoutPlan,
     supplements,
@@ -738,12 +753,14 @@ export default function ClientDetails() {
     transcript?: string;
   } | null>(null);
   const [showProgressPhotos, setShowProgressPhotos] = useState(false);
+  const [weightGoal, setWeightGoal] = useState<WeightGoal | null>(loaderWeightGoal);
   const [showCreateCheckInForm, setShowCreateCheckInForm] = useState(false);
   const [showSendCheckInForm, setShowSendCheckInForm] = useState(false);
   const [showViewForms, setShowViewForms] = useState(false);
   const [showFormResponseViewer, setShowFormResponseViewer] = useState(false);
   const [currentFormResponse, setCurrentFormResponse] = useState<any>(null);
   const [showFormHistory, setShowFormHistory] = useState(false);
+  const [showCheckInTrends, setShowCheckInTrends] = useState(false);
   const [completedForms, setCompletedForms] = useState<any[]>(loaderCompletedForms);
   const [editingForm, setEditingForm] = useState<FormTemplate | null>(null);
   const [showSendFormEditor, setShowSendFormEditor] = useState(false);
@@ -752,6 +769,7 @@ export default function ClientDetails() {
     formId: string;
     expiresInDays: number;
     recurring?: RecurringScheduleConfig;
+    reminderOffsetsHours: number[];
   } | null>(null);
   const [activeSchedules, setActiveSchedules] = useState<
     Array<{
@@ -759,13 +777,20 @@ export default function ClientDetails() {
       form_id: string;
       frequency: ScheduleFrequency;
       day_of_week?: number | null;
+      days_of_week?: number[] | null;
+      interval_weeks?: number | null;
       day_of_month?: number | null;
+      days_after_activation?: number | null;
       time_of_day: string;
-      next_send_at: string;
+      next_send_at: string | null;
+      paused_from?: string | null;
+      paused_until?: string | null;
       title: string;
       expires_in_days: number;
     }>
   >([]);
+  const [pausingScheduleId, setPausingScheduleId] = useState<string | null>(null);
+  const [pauseWindow, setPauseWindow] = useState({ from: "", until: "" });
   const [formsRefreshToken, setFormsRefreshToken] = useState(0);
   const fetcher = useFetcher();
 
@@ -787,6 +812,43 @@ export default function ClientDetails() {
     fetchActiveSchedules();
   }, [client.id]);
 
+  // Empty dates resume the schedule
+  const updateSchedulePause = async (
+    schedule: { id: string; title: string },
+    pausedFrom: string,
+    pausedUntil: string
+  ) => {
+    try {
+      const pauseData = new FormData();
+      pauseData.append("scheduleId", schedule.id);
+      pauseData.append("pausedFrom", pausedFrom);
+      pauseData.append("pausedUntil", pausedUntil);
+      const response = await fetch("/api/pause-check-in-form-schedule", {
+        method: "POST",
+        body: pauseData,
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to update schedule");
+      }
+      toast.success(
+        pausedFrom ? "Schedule Paused" : "Schedule Resumed",
+        pausedFrom
+          ? `"${schedule.title}" won't be sent from ${dayjs(pausedFrom).format("MMM D")} to ${dayjs(
+              pausedUntil
+            ).format("MMM D")}.`
+          : `"${schedule.title}" will be sent on its usual schedule again.`
+      );
+      setPausingScheduleId(null);
+      await fetchActiveSchedules();
+    } catch (error) {
+      toast.error(
+        "Failed to Update Schedule",
+        error instanceof Error ? error.message : "An unexpected error occurred"
+      );
+    }
+  };
+
   // Local state for updates, checkIns, and supplements
   const [updates, setUpdates] = useState<Update[]>(loaderUpdates); // Already filtered on server
   const [allUpdates, setAllUpdates] = useState<Update[]>(loaderAllUpdates); // All updates for history
@@ -990,6 +1052,7 @@ export default function ClientDetails() {
         weight: Number(w.weight),
       }))
     : [];
+  const weightTrend = summarizeWeightTrend(chartData, weightGoal);
   const startWeight = hasWeightLogs
     ? chartData[0].weight
     : client.starting_weight ?? 0;
@@ -1048,6 +1111,8 @@ export default function ClientDetails() {
             is_required: question.is_required,
             options: (question.options || []).filter((option) => option && option.trim().length > 0),
             order_index: index,
+            visibility_rule: question.visibility_rule ?? null,
+            profile_field: question.profile_field ?? null,
           }))
         )
       );
@@ -1093,7 +1158,8 @@ export default function ClientDetails() {
   const handleContinueSendCheckInForm = async (
     formId: string,
     expiresInDays: number,
-    recurring?: RecurringScheduleConfig
+    recurring: RecurringScheduleConfig | undefined,
+    reminderOffsetsHours: number[]
   ) => {
     try {
       const response = await fetch(`/api/get-check-in-form/${formId}`);
@@ -1116,9 +1182,10 @@ export default function ClientDetails() {
           is_required: q.is_required,
           options: q.options || [],
           order_index: q.order_index,
+          visibility_rule: q.visibility_rule ?? null,
         })),
       });
-      setSendFormMeta({ formId, expiresInDays, recurring });
+      setSendFormMeta({ formId, expiresInDays, recurring, reminderOffsetsHours });
       setShowSendCheckInForm(false);
       setShowSendFormEditor(true);
     } catch (error) {
@@ -1134,7 +1201,7 @@ export default function ClientDetails() {
   const handleSendCheckInForm = async (formData: FormTemplate) => {
     if (!sendFormMeta) return;
 
-    const { formId, expiresInDays, recurring } = sendFormMeta;
+    const { formId, expiresInDays, recurring, reminderOffsetsHours } = sendFormMeta;
 
     try {
       const formDataToSend = new FormData();
@@ -1144,16 +1211,10 @@ export default function ClientDetails() {
       formDataToSend.append("title", formData.title);
       formDataToSend.append("description", formData.description);
       formDataToSend.append("questions", JSON.stringify(formData.questions));
+      formDataToSend.append("reminderOffsetsHours", JSON.stringify(reminderOffsetsHours));
 
       if (recurring) {
-        formDataToSend.append("frequency", recurring.frequency);
-        formDataToSend.append("timeOfDay", recurring.timeOfDay);
-        if (recurring.dayOfWeek !== undefined) {
-          formDataToSend.append("dayOfWeek", recurring.dayOfWeek.toString());
-        }
-        if (recurring.dayOfMonth !== undefined) {
-          formDataToSend.append("dayOfMonth", recurring.dayOfMonth.toString());
-        }
+        appendRecurringSchedule(formDataToSend, recurring);
       }
 
       const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(
@@ -1266,6 +1327,8 @@ export default function ClientDetails() {
                   workoutSplit,
                   supplementCount,
                   goal: client.goal || "N/A",
+                  allergies: client.allergies,
+                  equipmentAvailable: client.equipment_available,
                 }}
                 mealPlan={{ meals: safeMeals }}
               />
@@ -1291,38 +1354,111 @@ export default function ClientDetails() {
                       <p className="text-xs text-secondary dark:text-alabaster">
                         {formatScheduleSummary(schedule)}
                       </p>
-                      <button
-                        type="button"
-                        onClick={async () => {
-                          try {
-                            const cancelData = new FormData();
-                            cancelData.append("scheduleId", schedule.id);
-                            const response = await fetch(
-                              "/api/cancel-check-in-form-schedule",
-                              { method: "POST", body: cancelData }
-                            );
-                            if (!response.ok) {
-                              const errorData = await response.json().catch(() => ({}));
-                              throw new Error(errorData.error || "Failed to cancel schedule");
+                      {pausingScheduleId === schedule.id && (
+                        <form
+                          className="mt-2 flex flex-wrap items-end gap-2"
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            updateSchedulePause(schedule, pauseWindow.from, pauseWindow.until);
+                          }}
+                        >
+                          <label className="text-xs text-gray-dark dark:text-gray-light">
+                            From
+                            <input
+                              type="date"
+                              required
+                              value={pauseWindow.from}
+                              onChange={(e) =>
+                                setPauseWindow((prev) => ({ ...prev, from: e.target.value }))
+                              }
+                              className="mt-0.5 block rounded border border-gray-light dark:border-davyGray bg-white dark:bg-night px-2 py-1 text-xs text-secondary dark:text-alabaster"
+                            />
+                          </label>
+                          <label className="text-xs text-gray-dark dark:text-gray-light">
+                            Until
+                            <input
+                              type="date"
+                              required
+                              min={pauseWindow.from || undefined}
+                              value={pauseWindow.until}
+                              onChange={(e) =>
+                                setPauseWindow((prev) => ({ ...prev, until: e.target.value }))
+                              }
+                              className="mt-0.5 block rounded border border-gray-light dark:border-davyGray bg-white dark:bg-night px-2 py-1 text-xs text-secondary dark:text-alabaster"
+                            />
+                          </label>
+                          <button
+                            type="submit"
+                            className="rounded bg-primary px-2 py-1 text-xs text-white hover:bg-primary/90"
+                          >
+                            Pause
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setPausingScheduleId(null)}
+                            className="px-1 py-1 text-xs text-gray-dark dark:text-gray-light hover:underline"
+                          >
+                            Cancel
+                          </button>
+                        </form>
+                      )}
+                      <div className="mt-1.5 flex gap-3">
+                        {schedule.paused_until &&
+                        schedule.paused_until >= dayjs().format("YYYY-MM-DD") ? (
+                          <button
+                            type="button"
+                            onClick={() => updateSchedulePause(schedule, "", "")}
+                            className="text-xs text-primary hover:underline"
+                          >
+                            Resume now
+                          </button>
+                        ) : (
+                          pausingScheduleId !== schedule.id && (
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setPauseWindow({ from: dayjs().format("YYYY-MM-DD"), until: "" });
+                                setPausingScheduleId(schedule.id);
+                              }}
+                              className="text-xs text-primary hover:underline"
+                            >
+                              Pause for vacation
+                            </button>
+                          )
+                        )}
+                        <button
+                          type="button"
+                          onClick={async () => {
+                            try {
+                              const cancelData = new FormData();
+                              cancelData.append("scheduleId", schedule.id);
+                              const response = await fetch(
+                                "/api/cancel-check-in-form-schedule",
+                                { method: "POST", body: cancelData }
+                              );
+                              if (!response.ok) {
+                                const errorData = await response.json().catch(() => ({}));
+                                throw new Error(errorData.error || "Failed to cancel schedule");
+                              }
+                              toast.success(
+                                "Schedule Canceled",
+                                `Recurring send for "${schedule.title}" has been stopped.`
+                              );
+                              await fetchActiveSchedules();
+                            } catch (error) {
+                              toast.error(
+                                "Failed to Cancel Schedule",
+                                error instanceof Error
+                                  ? error.message
+                                  : "An unexpected error occurred"
+                              );
                             }
-                            toast.success(
-                              "Schedule Canceled",
-                              `Recurring send for "${schedule.title}" has been stopped.`
-                            );
-                            await fetchActiveSchedules();
-                          } catch (error) {
-                            toast.error(
-                              "Failed to Cancel Schedule",
-                              error instanceof Error
-                                ? error.message
-                                : "An unexpected error occurred"
-                            );
-                          }
-                        }}
-                        className="mt-1.5 text-xs text-red-600 dark:text-red-400 hover:underline"
-                      >
-                        Cancel schedule
-                      </button>
+                          }}
+                          className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                        >
+                          Cancel schedule
+                        </button>
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -1442,6 +1578,8 @@ export default function ClientDetails() {
               hasMore={historyHasMore}
             />
 
+            <CheckInSummaryCard clientId={client.id} />
+
             {/* Check In Notes */}
             <Card
               title={
@@ -1593,12 +1731,20 @@ export default function ClientDetails() {
                   <Card title={
                     <div className="flex items-center justify-between w-full">
                       <span>Completed Check-In Forms</span>
-                      <button
-                        onClick={() => setShowFormHistory(true)}
-                        className="text-sm text-primary hover:underline"
-                      >
-                        View History
-                      </button>
+                      <div className="flex items-center gap-3">
+                        <button
+                          onClick={() => setShowCheckInTrends(true)}
+                          className="text-sm text-primary hover:underline"
+                        >
+                          Trends
+                        </button>
+                        <button
+                          onClick={() => setShowFormHistory(true)}
+                          className="text-sm text-primary hover:underline"
+                        >
+                          View History
+                        </button>
+                      </div>
                     </div>
                   }>
                     <div className="space-y-3">
@@ -1665,10 +1811,17 @@ export default function ClientDetails() {
                 </button>
               </div>
             }>
+              <WeightTrendPanel
+                summary={weightTrend}
+                goalText={client.goal}
+                viewer="coach"
+                clientId={client.id}
+                onGoalChange={setWeightGoal}
+              />
               <div className="w-full" style={{ height: 350 }}>
                 {hasWeightLogs ? (
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={chartData} />
+                    <LineChart data={weightTrendChartData(chartData, weightTrend)} />
                   </ResponsiveContainer>
                 ) : (
                   <p className="text-gray-dark dark:text-gray-light mb-4">
@@ -1677,6 +1830,10 @@ export default function ClientDetails() {
                 )}
               </div>
             </Card>
+
+            <div className="mt-6">
+              <BodyMeasurementsCard viewer="coach" clientId={client.id} />
+            </div>
           </div>
         </div>
 
@@ -1706,6 +1863,7 @@ export default function ClientDetails() {
           onLoadMore={handleLoadMoreHistory}
           hasMore={historyHasMore}
           emptyMessage="No history yet."
+          clientId={client.id}
         />
 
         {/* Media Player Modal */}
@@ -1801,6 +1959,13 @@ export default function ClientDetails() {
           clientName={client.name}
         />
 
+        <CheckInTrendsModal
+          isOpen={showCheckInTrends}
+          onClose={() => setShowCheckInTrends(false)}
+          clientId={client.id}
+          clientName={client.name}
+        />
+
       </div>
     </ClientDetailLayout>
   );
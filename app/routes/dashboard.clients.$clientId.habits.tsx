@@ -7,10 +7,14 @@ import { parse } from "cookie";
 import jwt from "jsonwebtoken";
 import { Buffer } from "buffer";
 import { extractAuthFromCookie, validateAndRefreshToken } from "~/lib/supabase";
-import { getStartOfWeek, USER_TIMEZONE } from "~/lib/timezone";
+import { getCurrentDate, getStartOfWeek, USER_TIMEZONE } from "~/lib/timezone";
 import dayjs from "dayjs";
 import ClientDetailLayout from "~/components/coach/ClientDetailLayout";
 import CustomizeHabitModal from "~/components/coach/CustomizeHabitModal";
+import HabitScorecard from "~/components/coach/HabitScorecard";
+import { getHabitScores } from "~/lib/habitScoring.server";
+import { completionCredit, formatHabitTarget, resolveHabitTarget } from "~/lib/habitTargets";
+import type { HabitScore } from "~/types/habits";
 import Card from "~/components/ui/Card";
 import Button from "~/components/ui/Button";
 import { useState, useEffect, useRef, useLayoutEffect } from "react";
@@ -83,7 +87,7 @@ export const meta: MetaFunction = () => [
 
 export const loader = async ({ params, request }: LoaderFunctionArgs) => {
   const clientIdParam = params.clientId;
-  if (!clientIdParam) return json({ client: null, presets: [], assignedHabits: [], completions: [], notes: [], weekStart: null }, { status: 200 });
+  if (!clientIdParam) return json({ client: null, presets: [], assignedHabits: [], completions: [], scores: {} as Record<string, HabitScore>, notes: [], weekStart: null }, { status: 200 });
 
   const supabase = createClient<Database>(
     process.env.SUPABASE_URL!,
@@ -96,7 +100,7 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
   ]);
   const client = clientBySlug.data || clientById.data;
   if (!client) {
-    return json({ client: null, presets: [], assignedHabits: [], completions: [], notes: [], weekStart: null }, { status: 200 });
+    return json({ client: null, presets: [], assignedHabits: [], completions: [], scores: {} as Record<string, HabitScore>, notes: [], weekStart: null }, { status: 200 });
   }
 
   const cookies = parse(request.headers.get("cookie") || "");
@@ -113,7 +117,7 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
   if (!authId) return redirect("/auth/login");
   const { data: currentUser } = await supabase.from("users").select("id, role").eq("auth_id", authId).single();
   if (!currentUser || currentUser.role !== "coach" || client.coach_id !== currentUser.id) {
-    return json({ client: null, presets: [], assignedHabits: [], completions: [], notes: [], weekStart: null }, { status: 200 });
+    return json({ client: null, presets: [], assignedHabits: [], completions: [], scores: {} as Record<string, HabitScore>, notes: [], weekStart: null }, { status: 200 });
   }
 
   const url = new URL(request.url);
@@ -177,12 +181,19 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
     completions = (completionsRes.data || []) as HabitCompletionRow[];
   }
   const notes = (notesRes.data || []) as HabitNoteRow[];
+  const scores = await getHabitScores({
+    supabase,
+    habits: assignedHabits,
+    today: getCurrentDate().format("YYYY-MM-DD"),
+    weekStart: weekStartStr,
+  }).catch(() => ({} as Record<string, HabitScore>));
 
   return json({
     client: { id: client.id, name: client.name, slug: client.slug },
     presets,
     assignedHabits,
     completions,
+    scores,
     notes,
     weekStart: weekStartStr,
     weekEnd: weekEndStr,
@@ -190,11 +201,7 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
 };
 
 function formatTarget(preset: HabitPresetRow, targetValue: number | null, targetUnit: string | null) {
-  if (targetUnit) return targetUnit;
-  const value = targetValue ?? preset.target_default;
-  const unit = preset.target_unit;
-  if (value != null && unit) return `${value} ${unit}`;
-  return null;
+  return formatHabitTarget({ target_value: targetValue, target_unit: targetUnit, preset });
 }
 
 const DAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
@@ -213,7 +220,7 @@ function displayDescription(assigned: AssignedHabitRow) {
 }
 
 export default function ClientHabits() {
-  const { client, presets, assignedHabits, completions, notes, weekStart, weekEnd } = useLoaderData<typeof loader>();
+  const { client, presets, assignedHabits, completions, scores, notes, weekStart, weekEnd } = useLoaderData<typeof loader>();
   const revalidator = useRevalidator();
   const params = useParams();
   const clientId = params.clientId;
@@ -474,10 +481,10 @@ export default function ClientHabits() {
 
   const apiError = assignDone?.error || unassignDone?.error || createDone?.error || noteDone?.error;
 
-  const completionByHabitAndDate: Record<string, Set<string>> = {};
+  const completionByHabitAndDate: Record<string, Map<string, (typeof completions)[number]>> = {};
   for (const c of completions) {
-    if (!completionByHabitAndDate[c.client_habit_id]) completionByHabitAndDate[c.client_habit_id] = new Set();
-    completionByHabitAndDate[c.client_habit_id].add(c.completed_at);
+    if (!completionByHabitAndDate[c.client_habit_id]) completionByHabitAndDate[c.client_habit_id] = new Map();
+    completionByHabitAndDate[c.client_habit_id].set(c.completed_at, c);
   }
 
   if (!client) {
@@ -493,6 +500,7 @@ export default function ClientHabits() {
   const weekStartDate = weekStart ? dayjs(weekStart) : null;
   const prevWeek = weekStartDate ? weekStartDate.subtract(7, "day").format("YYYY-MM-DD") : "";
   const nextWeek = weekEnd || "";
+  const scoredWeekLabel = weekStart === getStartOfWeek().format("YYYY-MM-DD") ? "this week" : "that week";
 
   return (
     <ClientDetailLayout>
@@ -709,7 +717,8 @@ export default function ClientHabits() {
                   </p>
                   {assignedHabits.map((assigned) => {
                     const targetStr = formatTarget(assigned.preset, assigned.target_value, assigned.target_unit);
-                    const days = completionByHabitAndDate[assigned.id] || new Set();
+                    const days = completionByHabitAndDate[assigned.id] || new Map<string, (typeof completions)[number]>();
+                    const target = resolveHabitTarget(assigned);
                     return (
                       <div
                         key={assigned.id}
@@ -746,14 +755,23 @@ export default function ClientHabits() {
                           <div className="flex gap-1 mt-3">
                             {Array.from({ length: 7 }, (_, i) => {
                               const d = dayjs(weekStart).add(i, "day").format("YYYY-MM-DD");
-                              const filled = days.has(d);
+                              const completion = days.get(d);
+                              const credit = completion ? completionCredit(completion.value, target) : null;
                               return (
                                 <div
                                   key={d}
                                   className={`w-8 h-8 rounded-full flex items-center justify-center text-xs ${
-                                    filled ? "bg-primary text-white" : "bg-gray-200 dark:bg-gray-600 text-gray-500"
+                                    credit === null
+                                      ? "bg-gray-200 dark:bg-gray-600 text-gray-500"
+                                      : credit >= 1
+                                        ? "bg-primary text-white"
+                                        : "bg-primary/40 text-secondary dark:text-alabaster"
                                   }`}
-                                  title={d}
+                                  title={
+                                    completion?.value != null
+                                      ? `${d} · ${completion.value}${target ? ` / ${target.value}${target.unit ? ` ${target.unit}` : ""} (${Math.round((credit ?? 0) * 100)}%)` : ""}`
+                                      : d
+                                  }
                                 >
                                   {dayjs(d).format("D")}
                                 </div>
@@ -761,6 +779,9 @@ export default function ClientHabits() {
                             })}
                           </div>
                         )}
+                        <div className="mt-3">
+                          <HabitScorecard score={scores[assigned.id]} weekLabel={scoredWeekLabel} />
+                        </div>
                       </div>
                     );
                   })}
@@ -22,6 +22,11 @@ import ActivationDateModal from "~/components/coach/ActivationDateModal";
 import { extractAuthFromCookie, validateAndRefreshToken } from "~/lib/supabase";
 import { useToast } from "~/context/ToastContext";
 import { clearMealDraft, flushMealDraft } from "~/utils/coachDraftStorage";
+import { foodEntryFromJoin } from "~/lib/foodLibrary.server";
+import { getClientMacroTargets } from "~/lib/macroTargets.server";
+import MacroTargetsCard from "~/components/coach/MacroTargetsCard";
+import MealAdherenceCard from "~/components/coach/MealAdherenceCard";
+import type { FoodLibraryEntry, MacroTargets } from "~/types/nutrition";
 
 // Helper function to truncate meal plan descriptions
 const truncateDescription = (description: string, maxLength: number = 50) => {
@@ -113,6 +118,7 @@ export const loader = async ({
       libraryPlans: [],
       complianceData: [0, 0, 0, 0, 0, 0, 0],
       client: null,
+      macroTargets: null,
     };
 
     return json(emptyData);
@@ -253,7 +259,7 @@ export const loader = async ({
           const mealIds = mealsRaw.map(m => m.id);
           const { data: foods } = await supabase
             .from("foods")
-            .select(`id, name, portion, calories, protein, carbs, fat, meal_id, food_library_id, food_option, sequence_order, food_library:food_library_id (calories, protein, carbs, fat)`)
+            .select(`id, name, portion, calories, protein, carbs, fat, meal_id, food_library_id, food_option, sequence_order, food_library:food_library_id (*)`)
             .in("meal_id", mealIds)
             .order("sequence_order", { ascending: true });
 
@@ -278,6 +284,8 @@ export const loader = async ({
               carbs: food.carbs || 0,
               fat: food.fat || 0,
               foodOption: food.food_option || 'A',
+              foodLibraryId: food.food_library_id ?? null,
+              library: foodEntryFromJoin(food.food_library),
               sequence_order: 0 // Default since foods table doesn't have this
             }))
           };
@@ -324,7 +332,7 @@ export const loader = async ({
           const mealIds = mealsRaw.map(m => m.id);
           const { data: foods } = await supabase
             .from("foods")
-            .select(`id, name, portion, calories, protein, carbs, fat, meal_id, food_library_id, food_option, sequence_order, food_library:food_library_id (calories, protein, carbs, fat)`)
+            .select(`id, name, portion, calories, protein, carbs, fat, meal_id, food_library_id, food_option, sequence_order, food_library:food_library_id (*)`)
             .in("meal_id", mealIds)
             .order("sequence_order", { ascending: true });
 
@@ -349,6 +357,8 @@ export const loader = async ({
               carbs: food.carbs || 0,
               fat: food.fat || 0,
               food_option: food.food_option || 'A',
+              foodLibraryId: food.food_library_id ?? null,
+              library: foodEntryFromJoin(food.food_library),
               sequence_order: 0 // Default since foods table doesn't have this
             }))
           };
@@ -471,11 +481,16 @@ export const loader = async ({
     complianceData.push(percent);
   }
 
+  const macroTargets = await getClientMacroTargets({ supabase, clientId: client.id }).catch(
+    () => null
+  );
+
   // Assemble the final data structure
   const loaderData = {
     mealPlans,
     libraryPlans,
     complianceData,
+    macroTargets,
     client: {
       id: client.id,
       name: client.name,
@@ -712,7 +727,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
           // Copy foods for this meal
           const { data: templateFoods } = await supabase
             .from("foods")
-            .select("name, portion, calories, protein, carbs, fat, sequence_order")
+            .select("name, portion, calories, protein, carbs, fat, sequence_order, food_library_id")
             .eq("meal_id", templateMeal.id)
             .order("sequence_order", { ascending: true });
 
@@ -728,6 +743,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
                 fat: templateFood.fat,
                 sequence_order: templateFood.sequence_order,
                 food_option: 'A',
+                food_library_id: templateFood.food_library_id ?? null,
               });
             }
           }
@@ -906,6 +922,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
                   fat: food.fat,
                   sequence_order: foodIndex,
                   food_option: food.foodOption || 'A',
+                  food_library_id: food.foodLibraryId || null,
                 })
                 .eq("id", currentFoods[foodIndex].id);
             } else {
@@ -920,6 +937,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
                 fat: food.fat,
                 sequence_order: foodIndex,
                 food_option: food.foodOption || 'A',
+                food_library_id: food.foodLibraryId || null,
               });
             }
           }
@@ -1022,6 +1040,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
               fat: food.fat,
               sequence_order: foodIndex,
               food_option: food.foodOption || 'A',
+              food_library_id: food.foodLibraryId || null,
             });
 
           if (foodError) {
@@ -1084,6 +1103,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
 };
 
 export type Food = {
+  id?: string | number;
   name: string;
   portion: string;
   calories: number;
@@ -1091,6 +1111,8 @@ export type Food = {
   carbs: number;
   fat: number;
   foodOption?: 'A' | 'B';
+  foodLibraryId?: string | null;
+  library?: FoodLibraryEntry | null;
 };
 
 export type Meal = {
@@ -1119,6 +1141,7 @@ export default function ClientMeals() {
     client: { name: string, id: string, created_at?: string } | null;
     complianceData: number[];
     mealPlansHasMore?: boolean;
+    macroTargets: MacroTargets | null;
   }>();
   const { mealPlans, libraryPlans: initialLibraryPlans, client, complianceData: initialComplianceData, mealPlansHasMore: loaderMealPlansHasMore } = loaderData;
   const fetcher = useFetcher();
@@ -1198,6 +1221,9 @@ export default function ClientMeals() {
 
   // Modal state
   const [isCreateModalOpen, setIsCreateModalOpen] = React.useState(false);
+  const [macroTargets, setMacroTargets] = React.useState<MacroTargets | null>(
+    loaderData.macroTargets
+  );
   const [isHistoryModalOpen, setIsHistoryModalOpen] = React.useState(false);
   const [isLibraryModalOpen, setIsLibraryModalOpen] = React.useState(false);
   const [isActivationModalOpen, setIsActivationModalOpen] = React.useState(false);
@@ -1556,6 +1582,13 @@ export default function ClientMeals() {
                   </div>
                 )}
               </Card>
+              {client?.id && (
+                <MacroTargetsCard
+                  clientId={client.id}
+                  targets={macroTargets}
+                  onSaved={setMacroTargets}
+                />
+              )}
               {/* Meal Calendar/Compliance */}
               <Card>
                 <div className="flex justify-between items-center mb-4">
@@ -2029,6 +2062,15 @@ export default function ClientMeals() {
                 )}
               </div>
             </Card>
+
+            {client?.id && (
+              <MealAdherenceCard
+                clientId={client.id}
+                meals={sortedMealPlans.find((p) => p.isActive)?.meals || []}
+                completions={complianceFetcher.data?.completions || []}
+                weekStart={calendarStart}
+              />
+            )}
           </div>
         )}
 
@@ -2037,6 +2079,7 @@ export default function ClientMeals() {
           isOpen={isCreateModalOpen}
           draftClientId={client?.id ?? null}
           draftPlanId={selectedPlan?.id ?? null}
+          macroTargets={macroTargets}
           existingPlan={
             selectedPlan
               ? {
@@ -2058,6 +2101,8 @@ export default function ClientMeals() {
                         carbs: typeof food.carbs === "number" ? food.carbs : 0,
                         fat: typeof food.fat === "number" ? food.fat : 0,
                         foodOption: food.foodOption || 'A',
+                        foodLibraryId: food.foodLibraryId ?? null,
+                        library: food.library ?? null,
                       })),
                     })
                   ),
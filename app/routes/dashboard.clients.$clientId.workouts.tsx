@@ -17,6 +17,9 @@ import type {
   WorkoutGroup,
 } from "~/components/coach/CreateWorkoutModal";
 import ViewWorkoutPlanLibraryModal from "~/components/coach/ViewWorkoutPlanLibraryModal";
+import ExerciseLibraryModal from "~/components/coach/ExerciseLibraryModal";
+import WorkoutSessionLogsCard from "~/components/coach/WorkoutSessionLogsCard";
+import PersonalBestsCard from "~/components/coach/PersonalBestsCard";
 import { parse } from "cookie";
 import jwt from "jsonwebtoken";
 import { Buffer } from "buffer";
@@ -26,6 +29,14 @@ import { getCurrentDate, USER_TIMEZONE, getStartOfWeek } from "~/lib/timezone";
 import dayjs from "dayjs";
 import { useToast } from "~/context/ToastContext";
 import React from "react";
+import { formatProgramWeek, getProgramWeek, parseWorkoutProgram } from "~/lib/workoutProgram";
+import {
+  activateWorkoutPlan,
+  cancelScheduledWorkoutPlan,
+  listScheduledWorkoutPlans,
+  scheduleWorkoutPlanActivation,
+} from "~/lib/workoutPlanSchedule.server";
+import type { ScheduledPlanActivation, WorkoutProgram } from "~/types/workout";
 
 // Helper function to determine activation status for coaches
 const getActivationStatus = (plan: { isActive: boolean; activatedAt: string | null }) => {
@@ -62,9 +73,11 @@ interface Group {
   notes?: string;
   exercises: Array<{
     name: string;
+    exerciseId?: string;
     videoUrl?: string;
     sets: string;
     reps: string;
+    weight?: string;
     notes?: string;
   }>;
 }
@@ -91,6 +104,7 @@ interface WorkoutPlan {
   deactivatedAt: string | null;
   builderMode?: 'week' | 'day';
   workoutDaysPerWeek?: number;
+  program?: WorkoutProgram | null;
   days: WorkoutPlanDay[];
 }
 
@@ -224,6 +238,7 @@ export const loader = async ({
         instructions,
         builder_mode, 
         workout_days_per_week,
+        program,
         is_active, 
         created_at, 
         activated_at, 
@@ -235,7 +250,7 @@ export const loader = async ({
       .range(workoutPlansOffset, workoutPlansOffset + workoutPlansPageSize - 1),
     supabase
       .from("workout_plans")
-      .select("id, title, description, instructions, builder_mode, workout_days_per_week, created_at", { count: "exact" })
+      .select("id, title, description, instructions, builder_mode, workout_days_per_week, program, created_at", { count: "exact" })
       .eq("user_id", coachId)
       .eq("is_template", true)
       .order("created_at", { ascending: false })
@@ -297,7 +312,8 @@ export const loader = async ({
               sets_data,
               group_type,
               sequence_order,
-              group_notes
+              group_notes,
+              exercise_library_id
             `)
             .eq("workout_day_id", dayData.id)
             .order("sequence_order", { ascending: true });
@@ -308,8 +324,10 @@ export const loader = async ({
             name: ex.exercise_name,
             description: ex.exercise_description,
             videoUrl: ex.video_url,
+            exerciseId: ex.exercise_library_id || undefined,
             sets: ex.sets_data?.length || 3,
             reps: ex.sets_data?.[0]?.reps || 10,
+            weight: ex.sets_data?.[0]?.weight != null ? String(ex.sets_data[0].weight) : undefined,
             notes: ex.exercise_description,
             groupType: ex.group_type,
             sequenceOrder: ex.sequence_order,
@@ -354,6 +372,7 @@ export const loader = async ({
         deactivatedAt: plan.deactivated_at,
         builderMode: plan.builder_mode,
         workoutDaysPerWeek: plan.workout_days_per_week,
+        program: plan.program || null,
         days
       };
     })
@@ -395,7 +414,8 @@ export const loader = async ({
               sets_data,
               group_type,
               sequence_order,
-              group_notes
+              group_notes,
+              exercise_library_id
             `)
             .eq("workout_day_id", dayData.id)
             .order("sequence_order", { ascending: true });
@@ -406,8 +426,10 @@ export const loader = async ({
             name: ex.exercise_name,
             description: ex.exercise_description,
             videoUrl: ex.video_url,
+            exerciseId: ex.exercise_library_id || undefined,
             sets: ex.sets_data?.length || 3,
             reps: ex.sets_data?.[0]?.reps || 10,
+            weight: ex.sets_data?.[0]?.weight != null ? String(ex.sets_data[0].weight) : undefined,
             notes: ex.exercise_description,
             groupType: ex.group_type,
             sequenceOrder: ex.sequence_order,
@@ -448,6 +470,7 @@ export const loader = async ({
         instructions: plan.instructions,
         builderMode: plan.builder_mode,
         workoutDaysPerWeek: plan.workout_days_per_week,
+        program: plan.program || null,
         createdAt: plan.created_at,
         isTemplate: true,
         days
@@ -476,9 +499,15 @@ export const loader = async ({
     complianceData.push(hasWorkoutCompletion ? 1 : 0);
   }
 
+  const scheduledActivations = await listScheduledWorkoutPlans({
+    supabase,
+    clientId: client.id,
+  }).catch(() => [] as ScheduledPlanActivation[]);
+
   const result = {
     workoutPlans,
     libraryPlans,
+    scheduledActivations,
     workoutPlansHasMore,
     workoutPlansTotal,
     workoutPlansPage,
@@ -574,6 +603,17 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
   const planId = formData.get("workoutPlanId") as string | null;
   const builderMode = formData.get("builderMode") as 'week' | 'day' || 'week';
   const workoutDaysPerWeek = formData.get("workoutDaysPerWeek") ? Number(formData.get("workoutDaysPerWeek")) : 4;
+  let program: WorkoutProgram | null = null;
+  if (intent === "create" || intent === "edit") {
+    try {
+      program = parseWorkoutProgram(formData.get("program"));
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Invalid program" },
+        { status: 400 }
+      );
+    }
+  }
   const daysOfWeek = [
     "Sunday",
     "Monday",
@@ -626,18 +666,21 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     const activePlanId = formData.get("workoutPlanId") as string;
     const activationDate = formData.get("activationDate") as string;
     
-    // Set all other plans inactive
-    await supabase
-      .from("workout_plans")
-      .update({ is_active: false })
-      .eq("user_id", client.id)
-      .neq("id", activePlanId);
-    
-    // Set selected plan active with the chosen activation date
-    await supabase
-      .from("workout_plans")
-      .update({ is_active: true, activated_at: activationDate })
-      .eq("id", activePlanId);
+    try {
+      await activateWorkoutPlan({
+        supabase,
+        clientId: client.id,
+        planId: activePlanId,
+        activatedAt: activationDate,
+      });
+      // Activating by hand supersedes any date it was queued for
+      await cancelScheduledWorkoutPlan({ supabase, clientId: client.id, planId: activePlanId });
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Failed to activate workout plan" },
+        { status: 500 }
+      );
+    }
     
     // Clear cache to force refresh of compliance data
     if (params.clientId && clientWorkoutsCache[params.clientId]) {
@@ -647,13 +690,57 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     return redirect(request.url);
   }
 
+  if (intent === "scheduleActivation") {
+    try {
+      await scheduleWorkoutPlanActivation({
+        supabase,
+        coachId: coachId!,
+        clientId: client.id,
+        planId: formData.get("workoutPlanId") as string,
+        activationDate: formData.get("activationDate") as string,
+      });
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Failed to schedule workout plan" },
+        { status: 400 }
+      );
+    }
+
+    if (params.clientId && clientWorkoutsCache[params.clientId]) {
+      delete clientWorkoutsCache[params.clientId];
+    }
+
+    return json({ success: true, message: "Workout plan scheduled" });
+  }
+
+  if (intent === "cancelScheduledActivation") {
+    try {
+      await cancelScheduledWorkoutPlan({
+        supabase,
+        clientId: client.id,
+        id: formData.get("scheduleId") as string,
+      });
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Failed to cancel scheduled workout plan" },
+        { status: 500 }
+      );
+    }
+
+    if (params.clientId && clientWorkoutsCache[params.clientId]) {
+      delete clientWorkoutsCache[params.clientId];
+    }
+
+    return json({ success: true, message: "Scheduled activation cancelled" });
+  }
+
   if (intent === "useTemplate") {
     const templateId = formData.get("templateId") as string;
     
     // Get template plan
     const { data: template } = await supabase
       .from("workout_plans")
-      .select("title, description, instructions")
+      .select("title, description, instructions, program")
       .eq("id", templateId)
       .single();
     
@@ -684,6 +771,14 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     }
 
     console.log('[WORKOUT PLAN] Created client instance from template:', instanceId);
+
+    // copy_workout_template_to_client predates programs, so carry the program over here
+    if (template.program) {
+      await supabase
+        .from("workout_plans")
+        .update({ program: template.program })
+        .eq("id", instanceId);
+    }
     
     // Clear cache to force fresh data
     if (params.clientId && clientWorkoutsCache[params.clientId]) {
@@ -759,6 +854,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
         is_template: true, // Mark as immutable template
         builder_mode: builderMode,
         workout_days_per_week: workoutDaysPerWeek,
+        program,
       })
       .select()
       .single();
@@ -794,7 +890,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
               // Create sets data
               const setsData = Array.from({ length: exercise.sets || 3 }, (_, i) => ({
                 set_number: i + 1,
-                weight: null,
+                weight: exercise.weight ? Number(exercise.weight) || null : null,
                 reps: exercise.reps || 10,
                 completed: false,
                 notes: exercise.notes || null,
@@ -811,6 +907,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
                   video_url: exercise.videoUrl,
                   sets_data: setsData,
                   group_notes: group.notes || null,
+                  exercise_library_id: exercise.exerciseId || null,
                 });
               sequenceOrder++;
             }
@@ -831,7 +928,8 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
         is_template: false, // Mark as client copy
         template_id: newTemplate.id, // Reference to the template
         builder_mode: builderMode,
-        workout_days_per_week: workoutDaysPerWeek
+        workout_days_per_week: workoutDaysPerWeek,
+        program,
       })
       .select()
       .single();
@@ -881,7 +979,8 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
                   exercise_description: templateExercise.exercise_description,
                   video_url: templateExercise.video_url,
                   sets_data: templateExercise.sets_data,
-                  group_notes: templateExercise.group_notes
+                  group_notes: templateExercise.group_notes,
+                  exercise_library_id: templateExercise.exercise_library_id
                 });
             }
           }
@@ -926,6 +1025,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
         instructions: instructions || null,
         builder_mode: builderMode,
         workout_days_per_week: workoutDaysPerWeek,
+        program,
         updated_at: new Date().toISOString(),
       })
       .eq("id", planId);
@@ -987,7 +1087,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
               // Create sets data
               const setsData = Array.from({ length: exercise.sets || 3 }, (_, i) => ({
                 set_number: i + 1,
-                weight: null,
+                weight: exercise.weight ? Number(exercise.weight) || null : null,
                 reps: exercise.reps || 10,
                 completed: false,
                 notes: exercise.notes || null,
@@ -1002,6 +1102,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
                 video_url: exercise.videoUrl,
                 sets_data: setsData,
                 group_notes: group.notes || null,
+                exercise_library_id: exercise.exerciseId || null,
               };
               
               await supabase
@@ -1107,9 +1208,12 @@ export default function ClientWorkouts() {
     complianceData: number[];
     weekStart: string;
     workoutPlansHasMore?: boolean;
+    scheduledActivations?: ScheduledPlanActivation[];
   }>();
   const { workoutPlans, libraryPlans: initialLibraryPlans, client, complianceData: initialComplianceData, weekStart, workoutPlansHasMore: loaderWorkoutPlansHasMore } = loaderData;
+  const scheduledActivations = loaderData.scheduledActivations || [];
   const fetcher = useFetcher();
+  const scheduleFetcher = useFetcher<{ success?: boolean; message?: string; error?: string }>();
   const complianceFetcher = useFetcher<{ complianceData: number[]; completions: any[] }>();
   const revalidator = useRevalidator();
   const toast = useToast();
@@ -1158,6 +1262,18 @@ export default function ClientWorkouts() {
     }
   }, [fetcher.state, fetcher.data, toast, revalidator, params.clientId, client?.id]);
 
+  // Queue changes get their own fetcher so they don't clear builder drafts or close modals
+  useEffect(() => {
+    if (scheduleFetcher.state !== "idle" || !scheduleFetcher.data) return;
+    if (scheduleFetcher.data.success) {
+      toast.success("Schedule Updated", scheduleFetcher.data.message || "");
+      revalidator.revalidate();
+    } else if (scheduleFetcher.data.error) {
+      toast.error("Failed to Schedule Plan", scheduleFetcher.data.error);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scheduleFetcher.state, scheduleFetcher.data]);
+
   // Reset processed response ref when a new submission starts
   React.useEffect(() => {
     if (fetcher.state === "submitting") {
@@ -1175,6 +1291,7 @@ export default function ClientWorkouts() {
   );
   const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
   const [isLibraryModalOpen, setIsLibraryModalOpen] = useState(false);
+  const [isExerciseLibraryOpen, setIsExerciseLibraryOpen] = useState(false);
   const [isActivationModalOpen, setIsActivationModalOpen] = useState(false);
   const [planToActivate, setPlanToActivate] = useState<WorkoutPlan | null>(null);
   const [, setSearchParams] = useSearchParams();
@@ -1317,12 +1434,30 @@ export default function ClientWorkouts() {
     setPlanToActivate(null);
   };
 
+  const handleScheduleConfirm = (activationDate: string) => {
+    if (!planToActivate) return;
+    scheduleFetcher.submit(
+      { intent: "scheduleActivation", workoutPlanId: planToActivate.id, activationDate },
+      { method: "post" }
+    );
+    setIsActivationModalOpen(false);
+    setPlanToActivate(null);
+  };
+
+  const handleCancelScheduled = (scheduleId: string) => {
+    scheduleFetcher.submit(
+      { intent: "cancelScheduledActivation", scheduleId },
+      { method: "post" }
+    );
+  };
+
   const handleUpdateWorkout = (updated: {
     planName: string;
     instructions: string;
     builderMode: 'week' | 'day';
     workoutDaysPerWeek?: number;
     week: { [day: string]: DayPlan };
+    program: WorkoutProgram | null;
   }) => {
     if (!selectedWorkout) return;
     lastSubmittedWorkoutDraftPlanIdRef.current = selectedWorkout.id;
@@ -1336,6 +1471,9 @@ export default function ClientWorkouts() {
       form.append("workoutDaysPerWeek", updated.workoutDaysPerWeek.toString());
     }
     form.append("week", JSON.stringify(updated.week));
+    if (updated.program) {
+      form.append("program", JSON.stringify(updated.program));
+    }
     fetcher.submit(form, { method: "post" });
     // Don't close modal immediately - let the useEffect handle it after successful submission
   };
@@ -1346,6 +1484,7 @@ export default function ClientWorkouts() {
     builderMode: 'week' | 'day';
     workoutDaysPerWeek?: number;
     week: { [day: string]: DayPlan };
+    program: WorkoutProgram | null;
   }) => {
     lastSubmittedWorkoutDraftPlanIdRef.current = null;
     const form = new FormData();
@@ -1357,6 +1496,9 @@ export default function ClientWorkouts() {
       form.append("workoutDaysPerWeek", workoutData.workoutDaysPerWeek.toString());
     }
     form.append("week", JSON.stringify(workoutData.week));
+    if (workoutData.program) {
+      form.append("program", JSON.stringify(workoutData.program));
+    }
     fetcher.submit(form, { method: "post" });
     // Don't close modal immediately - let the useEffect handle it after successful submission
   };
@@ -1451,6 +1593,13 @@ export default function ClientWorkouts() {
                   >
                     Library
                   </button>
+                  <button
+                    className="text-primary text-xs font-medium hover:underline px-1"
+                    onClick={() => setIsExerciseLibraryOpen(true)}
+                    style={{ background: "none", border: "none" }}
+                  >
+                    Exercises
+                  </button>
                   <button
                     className="text-primary text-xs font-medium hover:underline px-1"
                     onClick={() => setIsHistoryModalOpen(true)}
@@ -1488,6 +1637,14 @@ export default function ClientWorkouts() {
                         <div className="flex justify-between items-center">
                           <h3 className="font-medium text-secondary dark:text-alabaster">
                             {workout.title}
+                            {(() => {
+                              const queued = scheduledActivations.find((a) => a.planId === workout.id);
+                              return queued ? (
+                                <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-orange-500 text-white align-middle">
+                                  Starts {dayjs(queued.activationDate).format("MMM D")}
+                                </span>
+                              ) : null;
+                            })()}
                           </h3>
                           {workout.isActive ? (
                             <span className={`px-2 py-1 text-xs rounded-full ${
@@ -1575,6 +1732,14 @@ export default function ClientWorkouts() {
                         <div className="flex justify-between items-center">
                           <h3 className="font-medium text-secondary dark:text-alabaster">
                             {workout.title}
+                            {(() => {
+                              const queued = scheduledActivations.find((a) => a.planId === workout.id);
+                              return queued ? (
+                                <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-orange-500 text-white align-middle">
+                                  Starts {dayjs(queued.activationDate).format("MMM D")}
+                                </span>
+                              ) : null;
+                            })()}
                           </h3>
                           {workout.isActive ? (
                             <span className={`px-2 py-1 text-xs rounded-full ${
@@ -1664,6 +1829,19 @@ export default function ClientWorkouts() {
                       Instructions: {sortedPlans.find((p) => p.isActive)!.instructions}
                     </p>
                   )}
+                  {(() => {
+                    const activePlan = sortedPlans.find((p) => p.isActive)!;
+                    const programWeek = getProgramWeek(
+                      activePlan.program,
+                      activePlan.activatedAt,
+                      getCurrentDate().format("YYYY-MM-DD")
+                    );
+                    return programWeek ? (
+                      <p className="text-sm font-medium text-primary mt-1">
+                        {formatProgramWeek(programWeek)}
+                      </p>
+                    ) : null;
+                  })()}
                   <div className="text-xs text-gray-dark dark:text-gray-light mt-2">
                     Created:{" "}
                     {formatDateMMDDYYYY(
@@ -1678,6 +1856,35 @@ export default function ClientWorkouts() {
                   </p>
                 </div>
               )}
+              {scheduledActivations.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-gray-light dark:border-davyGray">
+                  <h4 className="text-sm font-semibold text-secondary dark:text-alabaster mb-2">
+                    Up next
+                  </h4>
+                  <ul className="space-y-2">
+                    {scheduledActivations.map((activation) => (
+                      <li key={activation.id} className="flex items-center justify-between gap-2 text-sm">
+                        <div className="min-w-0">
+                          <div className="truncate text-secondary dark:text-alabaster">
+                            {activation.planTitle}
+                          </div>
+                          <div className="text-xs text-gray-dark dark:text-gray-light">
+                            Starts {dayjs(activation.activationDate).format("ddd, MMM D")} at midnight
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handleCancelScheduled(activation.id)}
+                          disabled={scheduleFetcher.state !== "idle"}
+                          className="text-xs text-red-500 hover:text-red-600 hover:underline shrink-0"
+                        >
+                          Cancel
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </Card>
 
             {/* Workout Compliance Calendar */}
@@ -1861,6 +2068,10 @@ export default function ClientWorkouts() {
                 })}
               </div>
             </Card>
+
+            {/* PBs and per-set performance the client logged */}
+            {client?.id && <PersonalBestsCard clientId={client.id} />}
+            {client?.id && <WorkoutSessionLogsCard clientId={client.id} />}
           </div>
         </div>
 
@@ -2469,6 +2680,7 @@ export default function ClientWorkouts() {
               builderMode: selectedWorkout.builderMode || 'week',
               workoutDaysPerWeek: selectedWorkout.workoutDaysPerWeek || 4,
               week: buildWeekFromPlan(selectedWorkout),
+              program: selectedWorkout.program || null,
             }}
             title="Edit Workout Plan"
             submitLabel="Save Changes"
@@ -2485,6 +2697,11 @@ export default function ClientWorkouts() {
           }}
         />
 
+        <ExerciseLibraryModal
+          isOpen={isExerciseLibraryOpen}
+          onClose={() => setIsExerciseLibraryOpen(false)}
+        />
+
         <ActivationDateModal
           isOpen={isActivationModalOpen}
           onClose={() => {
@@ -2492,6 +2709,7 @@ export default function ClientWorkouts() {
             setPlanToActivate(null);
           }}
           onConfirm={handleActivationConfirm}
+          onSchedule={handleScheduleConfirm}
           planName={planToActivate?.title || ""}
           isLoading={fetcher.state !== "idle"}
         />
@@ -1,6 +1,7 @@
 import type { LoaderFunction, MetaFunction } from "@remix-run/node";
 import Button from "~/components/ui/Button";
 import ClientInviteModal from "~/components/coach/ClientInviteModal";
+import BulkCheckInFormModal from "~/components/coach/BulkCheckInFormModal";
 import { useEffect, useState } from "react";
 import { json } from "@remix-run/node";
 import { createClient } from "@supabase/supabase-js";
@@ -223,6 +224,7 @@ export const loader: LoaderFunction = async ({ request }) => {
 export default function ClientsIndex() {
   const initialData = useLoaderData<ClientsLoaderResult>();
   const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
+  const [isBulkFormModalOpen, setIsBulkFormModalOpen] = useState(false);
   const [search, setSearch] = useState("");
   const [clients, setClients] = useState(initialData.clients);
   const [page, setPage] = useState(initialData.page);
@@ -340,9 +342,14 @@ export default function ClientsIndex() {
         <h1 className="text-2xl font-bold text-secondary dark:text-alabaster">
           Clients
         </h1>
-        <Button variant="primary" onClick={() => setIsInviteModalOpen(true)}>
-          Add New Client
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => setIsBulkFormModalOpen(true)}>
+            Send Check-In Form
+          </Button>
+          <Button variant="primary" onClick={() => setIsInviteModalOpen(true)}>
+            Add New Client
+          </Button>
+        </div>
       </div>
 
       <div className="mb-6">
@@ -428,6 +435,11 @@ export default function ClientsIndex() {
         onClose={() => setIsInviteModalOpen(false)}
         coachId={user.id}
       />
+
+      <BulkCheckInFormModal
+        isOpen={isBulkFormModalOpen}
+        onClose={() => setIsBulkFormModalOpen(false)}
+      />
     </div>
   );
 }
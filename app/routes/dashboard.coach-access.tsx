@@ -5,7 +5,7 @@ import { useState, useEffect, useRef } from "react";
 import { useLoaderData, useFetcher, useSearchParams } from "@remix-run/react";
 import { json } from "@remix-run/node";
 import { createClient } from "@supabase/supabase-js";
-import type { Database } from "~/lib/supabase";
+import type { CheckInQuestionType, Database } from "~/lib/supabase";
 import { parse } from "cookie";
 import jwt from "jsonwebtoken";
 import { Buffer } from "buffer";
@@ -14,12 +14,18 @@ import UpdateHistoryModal from "~/components/coach/UpdateHistoryModal";
 import MediaPlayerModal from "~/components/ui/MediaPlayerModal";
 import TakeProgressPhotoModal from "~/components/coach/TakeProgressPhotoModal";
 import ProgressPhotosModal from "~/components/coach/ProgressPhotosModal";
+import BodyMeasurementsCard from "~/components/coach/BodyMeasurementsCard";
 import CheckInFormResponse from "~/components/client/CheckInFormResponse";
 import LineChart from "~/components/ui/LineChart";
 import Modal from "~/components/ui/Modal";
 import { ResponsiveContainer } from "recharts";
 import dayjs from "dayjs";
 import { getCurrentDate } from "~/lib/timezone";
+import { getWeightGoal } from "~/lib/weightGoals.server";
+import { summarizeWeightTrend, weightTrendChartData } from "~/lib/weightTrend";
+import WeightTrendPanel from "~/components/coach/WeightTrendPanel";
+import type { WeightGoal } from "~/types/measurements";
+import type { QuestionVisibilityRule } from "~/lib/checkInFormUtils";
 import { useToast } from "~/context/ToastContext";
 
 export const meta: MetaFunction = () => {
@@ -71,6 +77,7 @@ interface LoaderData {
   allCheckIns: CheckIn[];
   allUpdates: Array<{ id: string; message: string; created_at: string }>;
   weightLogs: Array<{ id: string; weight: number; logged_at: string }>;
+  weightGoal?: WeightGoal | null;
   paginatedCheckIns: CheckIn[];
   hasMorePaginatedCheckIns: boolean;
   paginatedUpdates: Array<{ id: string; message: string; created_at: string }>;
@@ -170,7 +177,7 @@ export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response>
   const mealLogOffset = (mealLogPage - 1) * MEAL_LOGS_PER_PAGE;
 
   // Fetch coach_updates, check_ins, weight_logs, meal logs, and progress photos in parallel
-  const [updatesRes, checkInsRes, weightLogsRes, paginatedCheckInsRes, paginatedUpdatesRes, mealLogsRes, paginatedMealLogsRes] = await Promise.all([
+  const [updatesRes, checkInsRes, weightLogsRes, paginatedCheckInsRes, paginatedUpdatesRes, mealLogsRes, paginatedMealLogsRes, weightGoal] = await Promise.all([
     supabase
       .from("coach_updates")
       .select("id, message, created_at")
@@ -209,7 +216,7 @@ export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response>
       .eq("user_id", clientUser.id)
       .order("completed_at", { ascending: false })
       .range(mealLogOffset, mealLogOffset + MEAL_LOGS_PER_PAGE - 1),
-
+    getWeightGoal({ supabase, clientId: clientUser.id }).catch(() => null),
   ]);
 
   const updates = updatesRes.data || [];
@@ -289,6 +296,7 @@ export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response>
     allCheckIns: checkIns || [],
     allUpdates: updates || [],
     weightLogs,
+    weightGoal,
     paginatedCheckIns,
     hasMorePaginatedCheckIns,
     paginatedUpdates,
@@ -306,7 +314,7 @@ export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response>
 
 export default function CoachAccess() {
   const toast = useToast();
-  const { updates, goal, checkInNotes, allCheckIns = [], allUpdates = [], weightLogs: initialWeightLogs = [], paginatedCheckIns = [], hasMorePaginatedCheckIns = false, paginatedUpdates = [], hasMorePaginatedUpdates = false, mealLogs = [], paginatedMealLogs = [], hasMorePaginatedMealLogs = false, clientId, clientName } = useLoaderData<LoaderData>();
+  const { updates, goal, checkInNotes, allCheckIns = [], allUpdates = [], weightLogs: initialWeightLogs = [], weightGoal = null, paginatedCheckIns = [], hasMorePaginatedCheckIns = false, paginatedUpdates = [], hasMorePaginatedUpdates = false, mealLogs = [], paginatedMealLogs = [], hasMorePaginatedMealLogs = false, clientId, clientName } = useLoaderData<LoaderData>();
   const fetcher = useFetcher();
   const [searchParams] = useSearchParams();
   const [showUpdateHistory, setShowUpdateHistory] = useState(false);
@@ -347,10 +355,11 @@ export default function CoachAccess() {
     questions: Array<{
       id: string;
       question_text: string;
-      question_type: 'text' | 'textarea' | 'number' | 'select' | 'radio' | 'checkbox';
+      question_type: CheckInQuestionType;
       is_required: boolean;
       options?: string[];
       order_index: number;
+      visibility_rule?: QuestionVisibilityRule | null;
     }>;
   }>>([]);
   const [showCheckInForm, setShowCheckInForm] = useState(false);
@@ -363,10 +372,11 @@ export default function CoachAccess() {
     questions: Array<{
       id: string;
       question_text: string;
-      question_type: 'text' | 'textarea' | 'number' | 'select' | 'radio' | 'checkbox';
+      question_type: CheckInQuestionType;
       is_required: boolean;
       options?: string[];
       order_index: number;
+      visibility_rule?: QuestionVisibilityRule | null;
     }>;
   } | null>(null);
 
@@ -515,10 +525,11 @@ useEffect(() => {
     questions: Array<{
       id: string;
       question_text: string;
-      question_type: 'text' | 'textarea' | 'number' | 'select' | 'radio' | 'checkbox';
+      question_type: CheckInQuestionType;
       is_required: boolean;
       options?: string[];
       order_index: number;
+      visibility_rule?: QuestionVisibilityRule | null;
     }>;
   }) => {
     setCurrentFormInstance(formInstance);
@@ -604,6 +615,7 @@ useEffect(() => {
         })
       )
     : [];
+  const weightTrend = summarizeWeightTrend(chartData, weightGoal);
   const startWeight = hasWeightLogs ? chartData[0].weight : 0;
   const currentWeight = hasWeightLogs ? chartData[chartData.length - 1].weight : 0;
   const totalChange = hasWeightLogs ? currentWeight - startWeight : 0;
@@ -838,6 +850,7 @@ useEffect(() => {
             onLoadMore={handleLoadMoreCheckIns}
             hasMore={hasMoreCheckIns}
             emptyMessage="No history yet."
+            clientId={clientId}
           />
 
 
@@ -880,6 +893,9 @@ useEffect(() => {
               </div>
             </div>
           }>
+            {!showAddWeight && (
+              <WeightTrendPanel summary={weightTrend} goalText={goal} viewer="client" />
+            )}
             <div className="w-full" style={{ height: 350 }}>
               {showAddWeight ? (
                 <div className="flex flex-col items-center gap-4 bg-gray-50 dark:bg-night rounded-xl p-6 shadow-md w-full max-w-xs mx-auto mt-12">
@@ -968,7 +984,7 @@ useEffect(() => {
               ) : hasWeightLogs ? (
                 <ResponsiveContainer width="100%" height="100%">
                   <LineChart
-                    data={chartData}
+                    data={weightTrendChartData(chartData, weightTrend)}
                     onDataPointClick={(entry) => {
                       const log = weightLogs.find(
                         (w: { id: string }) => w.id === entry.id
@@ -1033,6 +1049,10 @@ useEffect(() => {
               </div>
             )}
           </Card>
+
+          <div className="mt-6">
+            <BodyMeasurementsCard viewer="client" />
+          </div>
         </div>
       </div>
 
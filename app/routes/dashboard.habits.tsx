@@ -12,7 +12,10 @@ import dayjs from "dayjs";
 import Card from "~/components/ui/Card";
 import Button from "~/components/ui/Button";
 import { useState, useEffect, useRef } from "react";
-import { FireIcon } from "@heroicons/react/24/solid";
+import HabitScorecard from "~/components/coach/HabitScorecard";
+import { getHabitScores } from "~/lib/habitScoring.server";
+import { completionCredit, formatHabitTarget, resolveHabitTarget } from "~/lib/habitTargets";
+import type { HabitScore } from "~/types/habits";
 
 export interface HabitPresetRow {
   id: string;
@@ -35,6 +38,7 @@ export interface AssignedHabitRow {
   frequency: string;
   times_per_week: number | null;
   schedule_days: number[] | null;
+  assigned_at: string;
   preset: HabitPresetRow;
 }
 
@@ -83,6 +87,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       assignedHabits: [],
       completionsToday: [],
       completionsLast7: [],
+      scores: {} as Record<string, HabitScore>,
       notes: [],
       todayStr: getCurrentDate().format("YYYY-MM-DD"),
       weekStartStr: getCurrentDate().startOf("week").format("YYYY-MM-DD"),
@@ -101,7 +106,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     supabase
       .from("client_habits")
       .select(`
-        id, client_id, habit_preset_id, custom_name, custom_description, target_value, target_unit, frequency, times_per_week, schedule_days,
+        id, client_id, habit_preset_id, custom_name, custom_description, target_value, target_unit, frequency, times_per_week, schedule_days, assigned_at,
         habit_presets ( id, name, description, preset_type, target_default, target_unit, created_at )
       `)
       .eq("client_id", user.id)
@@ -149,14 +154,22 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     frequency: row.frequency,
     times_per_week: row.times_per_week ?? null,
     schedule_days: row.schedule_days ?? null,
+    assigned_at: row.assigned_at,
     preset: row.habit_presets,
   }));
   const notes = (notesRes.data || []) as HabitNoteRow[];
+  const scores = await getHabitScores({
+    supabase,
+    habits: assignedHabits,
+    today: todayStr,
+    weekStart: weekStartStr,
+  }).catch(() => ({} as Record<string, HabitScore>));
 
   return json({
     assignedHabits,
     completionsToday,
     completionsLast7,
+    scores,
     notes,
     todayStr,
     weekStartStr,
@@ -167,34 +180,8 @@ function displayName(assigned: AssignedHabitRow) {
   return assigned.custom_name?.trim() || assigned.preset?.name || "Habit";
 }
 
-function formatTarget(assigned: AssignedHabitRow) {
-  if (assigned.target_unit) return assigned.target_unit;
-  const value = assigned.target_value ?? assigned.preset?.target_default;
-  const unit = assigned.preset?.target_unit;
-  if (value != null && unit) return `${value} ${unit}`;
-  return null;
-}
-
-function computeStreak(completedDates: Set<string>, todayStr: string): number {
-  let streak = 0;
-  let d = dayjs(todayStr);
-  for (let i = 0; i < 365; i++) {
-    const key = d.format("YYYY-MM-DD");
-    if (completedDates.has(key)) streak++;
-    else break;
-    d = d.subtract(1, "day");
-  }
-  return streak;
-}
-
-function completionsThisWeek(completedDates: Set<string>): number {
-  const weekStart = dayjs().startOf("isoWeek").format("YYYY-MM-DD");
-  const weekEnd = dayjs().endOf("isoWeek").format("YYYY-MM-DD");
-  return [...completedDates].filter((d) => d >= weekStart && d <= weekEnd).length;
-}
-
 export default function DashboardHabits() {
-  const { assignedHabits, completionsToday, completionsLast7, notes, todayStr, weekStartStr } =
+  const { assignedHabits, completionsToday, completionsLast7, scores, notes, todayStr, weekStartStr } =
     useLoaderData<typeof loader>();
   const revalidator = useRevalidator();
   const [checked, setChecked] = useState<Record<string, boolean>>({});
@@ -207,16 +194,27 @@ export default function DashboardHabits() {
 
   useEffect(() => {
     const next: Record<string, boolean> = {};
+    const nextValues: Record<string, string> = {};
     for (const c of completionsToday) {
       next[c.client_habit_id] = true;
+      if (c.value != null) nextValues[c.client_habit_id] = String(c.value);
     }
     setChecked(next);
+    setValues(nextValues);
   }, [completionsToday]);
 
   const handleToggle = (clientHabitId: string) => {
     setChecked((prev) => ({ ...prev, [clientHabitId]: !prev[clientHabitId] }));
   };
 
+  const handleValueChange = (clientHabitId: string, value: string) => {
+    setValues((v) => ({ ...v, [clientHabitId]: value }));
+    // Logging an amount counts as doing the habit, even if it's short of the target
+    if (parseFloat(value) > 0) {
+      setChecked((prev) => ({ ...prev, [clientHabitId]: true }));
+    }
+  };
+
   const handleSubmitHabits = (e: React.FormEvent) => {
     e.preventDefault();
     if (submitFetcher.state !== "idle") return;
@@ -277,10 +275,15 @@ export default function DashboardHabits() {
   const completedTodayForDisplay = habitsForToday.filter((a) => checked[a.id]).length;
   const totalToday = habitsForToday.length;
 
-  const last7ByHabit: Record<string, Set<string>> = {};
+  // Credit (0–1) earned on each day this week, per habit
+  const last7ByHabit: Record<string, Map<string, number>> = {};
   for (const c of completionsLast7) {
-    if (!last7ByHabit[c.client_habit_id]) last7ByHabit[c.client_habit_id] = new Set();
-    last7ByHabit[c.client_habit_id].add(c.completed_at);
+    const assigned = assignedHabits.find((a) => a.id === c.client_habit_id);
+    if (!last7ByHabit[c.client_habit_id]) last7ByHabit[c.client_habit_id] = new Map();
+    last7ByHabit[c.client_habit_id].set(
+      c.completed_at,
+      completionCredit(c.value, assigned ? resolveHabitTarget(assigned) : null)
+    );
   }
 
   // Current week Sun–Sat (weekStartStr is Sunday)
@@ -321,8 +324,9 @@ export default function DashboardHabits() {
               <ul className="space-y-4">
                 {habitsForToday.map((assigned) => {
                   const isChecked = checked[assigned.id] ?? false;
-                  const targetStr = formatTarget(assigned);
-                  const hasTarget = assigned.preset?.preset_type === "steps" || assigned.preset?.preset_type === "water";
+                  const targetStr = formatHabitTarget(assigned);
+                  const target = resolveHabitTarget(assigned);
+                  const loggedValue = parseFloat(values[assigned.id] ?? "");
                   return (
                     <li
                       key={assigned.id}
@@ -368,14 +372,29 @@ export default function DashboardHabits() {
                                 ? "Weekly"
                                 : assigned.frequency}
                         </span>
-                        {hasTarget && (
-                          <input
-                            type="number"
-                            placeholder={assigned.preset?.target_default?.toString() || ""}
-                            value={values[assigned.id] ?? ""}
-                            onChange={(e) => setValues((v) => ({ ...v, [assigned.id]: e.target.value }))}
-                            className="w-20 px-2 py-1 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-secondary dark:text-alabaster"
-                          />
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          placeholder={target ? String(target.value) : "Amount"}
+                          aria-label={`Amount for ${displayName(assigned)}`}
+                          value={values[assigned.id] ?? ""}
+                          onChange={(e) => handleValueChange(assigned.id, e.target.value)}
+                          className="w-20 px-2 py-1 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-secondary dark:text-alabaster"
+                        />
+                        {target?.unit && (
+                          <span className="text-xs text-gray-500 dark:text-gray-400">{target.unit}</span>
+                        )}
+                        {target && loggedValue >= 0 && (
+                          <span
+                            className={`text-xs font-medium ${
+                              loggedValue >= target.value
+                                ? "text-green-600 dark:text-green-400"
+                                : "text-orange-600 dark:text-orange-400"
+                            }`}
+                          >
+                            {Math.round(completionCredit(loggedValue, target) * 100)}%
+                          </span>
                         )}
                         <button
                           type="button"
@@ -414,44 +433,32 @@ export default function DashboardHabits() {
           ) : (
             <ul className="space-y-4">
               {assignedHabits.map((assigned) => {
-                const completedDates = last7ByHabit[assigned.id] || new Set<string>();
-                const streak = computeStreak(completedDates, todayStr);
-                const isTimesPerWeek = assigned.frequency === "times_per_week" && assigned.times_per_week;
-                const weekCount = completionsThisWeek(completedDates);
+                const creditByDate = last7ByHabit[assigned.id] || new Map<string, number>();
                 return (
                   <li
                     key={assigned.id}
                     className="p-4 rounded-xl border border-gray-100 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50"
                   >
                     <div className="font-medium text-secondary dark:text-alabaster">{displayName(assigned)}</div>
-                    <div className="flex items-center gap-2 mt-2 flex-wrap">
-                      {isTimesPerWeek ? (
-                        <span
-                          className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-sm ${
-                            weekCount >= (assigned.times_per_week ?? 0)
-                              ? "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300"
-                              : "bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300"
-                          }`}
-                        >
-                          {weekCount}/{assigned.times_per_week} this week
-                        </span>
-                      ) : (
-                        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 text-sm">
-                          <FireIcon className="w-4 h-4" />
-                          {streak} day streak
-                        </span>
-                      )}
+                    <div className="mt-2">
+                      <HabitScorecard score={scores[assigned.id]} weekLabel="this week" />
                     </div>
                     <div className="flex gap-1 mt-3">
                       {sevenDayDates.map((d) => {
-                        const filled = completedDates.has(d);
+                        const credit = creditByDate.get(d);
                         return (
                           <div
                             key={d}
                             className={`w-8 h-8 rounded-full flex items-center justify-center text-xs ${
-                              filled ? "bg-primary text-white" : "bg-gray-200 dark:bg-gray-600 text-gray-500"
+                              credit === undefined
+                                ? "bg-gray-200 dark:bg-gray-600 text-gray-500"
+                                : credit >= 1
+                                  ? "bg-primary text-white"
+                                  : "bg-primary/40 text-secondary dark:text-alabaster"
+                            }`}
+                            title={`${dayjs(d).format("ddd MMM D")}${
+                              credit !== undefined && credit < 1 ? ` · ${Math.round(credit * 100)}% of target` : ""
                             }`}
-                            title={dayjs(d).format("ddd MMM D")}
                           >
                             {dayjs(d).format("D")}
                           </div>
@@ -4,6 +4,10 @@ import Card from "~/components/ui/Card";
 import Button from "~/components/ui/Button";
 import NABadge from "~/components/ui/NABadge";
 import MealOptionsCard from "~/components/client/MealOptionsCard";
+import GroceryListCard from "~/components/client/GroceryListCard";
+import FoodLogModal, { type FoodLogPayload, type FoodLogTarget } from "~/components/client/FoodLogModal";
+import { calculateMacrosWithCompleted } from "~/lib/utils";
+import type { FoodLogEntry } from "~/types/nutrition";
 import { json } from "@remix-run/node";
 import { useLoaderData, useFetcher } from "@remix-run/react";
 import { createClient } from "@supabase/supabase-js";
@@ -181,6 +185,7 @@ export const loader: LoaderFunction = async ({ request }) => {
 
           
           activeMealPlan = {
+            id: planToShow.id,
             name: planToShow.title,
             description: planToShow.description,
             date: "", // Could add date range formatting here if needed
@@ -331,6 +336,12 @@ export default function Meals() {
   // Track client's selected meal options for dynamic macro calculation
   const [selectedMealOptions, setSelectedMealOptions] = useState<Record<string, 'A' | 'B'>>({});
 
+  // What the client actually ate when it differs from the plan
+  const [foodLogs, setFoodLogs] = useState<FoodLogEntry[]>([]);
+  const [foodLogTarget, setFoodLogTarget] = useState<FoodLogTarget | null>(null);
+  const foodLogsFetcher = useFetcher<{ logs?: FoodLogEntry[]; error?: string }>();
+  const foodLogSaveFetcher = useFetcher<{ log?: FoodLogEntry; deletedId?: string; error?: string }>();
+
   // Use refs to prevent unnecessary re-renders
   const isInitializedRef = useRef(false);
   const lastDayOffsetRef = useRef(dayOffset);
@@ -498,6 +509,60 @@ export default function Meals() {
     }
   }, [currentDateApi, currentDayMealPlan]);
 
+  // Load the day's food logs whenever the viewed day changes
+  useEffect(() => {
+    setFoodLogs([]);
+    foodLogsFetcher.load(`/api/meal-food-logs?date=${currentDateApi}`);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentDateApi]);
+
+  useEffect(() => {
+    if (foodLogsFetcher.state === "idle" && foodLogsFetcher.data?.logs) {
+      setFoodLogs(foodLogsFetcher.data.logs);
+    }
+  }, [foodLogsFetcher.state, foodLogsFetcher.data]);
+
+  useEffect(() => {
+    if (foodLogSaveFetcher.state !== "idle" || !foodLogSaveFetcher.data) return;
+    const { log, deletedId, error } = foodLogSaveFetcher.data;
+    if (error) {
+      setSubmitError(error);
+      return;
+    }
+    if (log) {
+      // A change to a planned food replaces the earlier one for that food
+      setFoodLogs((prev) => [
+        ...prev.filter(
+          (entry) =>
+            entry.id !== log.id &&
+            (log.kind === "extra" || entry.kind === "extra" || entry.plannedFoodId !== log.plannedFoodId)
+        ),
+        log,
+      ]);
+      setFoodLogTarget(null);
+    } else if (deletedId) {
+      setFoodLogs((prev) => prev.filter((entry) => entry.id !== deletedId));
+    }
+  }, [foodLogSaveFetcher.state, foodLogSaveFetcher.data]);
+
+  const handleSaveFoodLog = useCallback((payload: FoodLogPayload) => {
+    setSubmitError(null);
+    foodLogSaveFetcher.submit(
+      { ...payload, date: currentDateApi },
+      { method: "POST", action: "/api/meal-food-logs", encType: "application/json" }
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentDateApi]);
+
+  const handleRemoveFoodLog = useCallback((log: FoodLogEntry) => {
+    setSubmitError(null);
+    foodLogSaveFetcher.submit(
+      { id: log.id },
+      { method: "DELETE", action: "/api/meal-food-logs", encType: "application/json" }
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   // Update completion status when day changes or week data loads - OPTIMIZED
   useEffect(() => {
     if (!isHydrated || !isMountedRef.current) return; // Wait for hydration and check if mounted
@@ -785,15 +850,8 @@ export default function Meals() {
   
   // Calculate macros based on client's selected meal options to avoid double-counting A/B options
   const calculateMacrosForUniqueMeals = (meals: any[], completedUniqueMealGroups: string[]) => {
-    let totalCalories = 0;
-    let totalProtein = 0;
-    let totalCarbs = 0;
-    let totalFat = 0;
-
-    let completedCalories = 0;
-    let completedProtein = 0;
-    let completedCarbs = 0;
-    let completedFat = 0;
+    const mealsToCount: any[] = [];
+    const completedIds: string[] = [];
 
     // Group meals by name and time
     const mealGroups = meals.reduce((groups: Record<string, any[]>, meal: any) => {
@@ -805,7 +863,7 @@ export default function Meals() {
       return groups;
     }, {});
 
-    // Calculate totals and completed macros based on client's selected options
+    // Pick the option to count for each group based on client's selection
     Object.entries(mealGroups).forEach(([groupKey, groupMeals]) => {
       const isGroupCompleted = completedUniqueMealGroups.includes(groupKey);
       
@@ -823,40 +881,22 @@ export default function Meals() {
       }
       
       if (mealToCount) {
-        // For totals, count the selected meal option
-        mealToCount.foods.forEach((food: any) => {
-          totalCalories += food.calories;
-          totalProtein += food.protein;
-          totalCarbs += food.carbs;
-          totalFat += food.fat;
-        });
-        
-        // For completed, only count if the group is completed
+        mealsToCount.push(mealToCount);
         if (isGroupCompleted) {
-          mealToCount.foods.forEach((food: any) => {
-            completedCalories += food.calories;
-            completedProtein += food.protein;
-            completedCarbs += food.carbs;
-            completedFat += food.fat;
-          });
+          completedIds.push(String(mealToCount.id));
         }
       }
     });
 
-    return {
-      total: {
-        calories: Math.round(totalCalories),
-        protein: Math.round(totalProtein),
-        carbs: Math.round(totalCarbs),
-        fat: Math.round(totalFat),
-      },
-      completed: {
-        calories: Math.round(completedCalories),
-        protein: Math.round(completedProtein),
-        carbs: Math.round(completedCarbs),
-        fat: Math.round(completedFat),
-      },
-    };
+    // Extras logged against the option not being counted still count; changes to its foods don't
+    const countedFoodIds = new Set(
+      mealsToCount.flatMap((meal) => (meal.foods || []).map((food: any) => String(food.id)))
+    );
+    const logsToCount = foodLogs.filter(
+      (log) => log.kind === "extra" || (log.plannedFoodId && countedFoodIds.has(log.plannedFoodId))
+    );
+
+    return calculateMacrosWithCompleted(mealsToCount, completedIds, logsToCount);
   };
 
   const calculatedMacros = calculateMacrosForUniqueMeals(currentDayMealPlan?.meals || [], completedUniqueMealGroups);
@@ -864,6 +904,10 @@ export default function Meals() {
   // Use the current day's meal plan
   const mealPlan = currentDayMealPlan;
 
+  // Food can be logged for today and earlier days, but not before the plan is being tracked
+  const canLogFood = dayOffset <= 0 && !isActivationDay;
+  const offPlanLogs = foodLogs.filter((log) => log.kind === "extra" && !log.mealId);
+
   return (
     <div className="p-6">
       {/* Success Message */}
@@ -1007,10 +1051,93 @@ export default function Meals() {
                   createMealKey={createMealKey}
                   checkedMeals={checkedMeals}
                   toggleMealCheck={toggleMealCheck}
+                  foodLogs={foodLogs}
+                  onLogFood={canLogFood ? (meal, food) => {
+                    const existing = foodLogs.find(
+                      (log) => log.kind !== "extra" && log.plannedFoodId === String(food.id)
+                    );
+                    setFoodLogTarget({
+                      mode: "change",
+                      mealId: String(meal.id),
+                      mealName: meal.name,
+                      food: {
+                        id: String(food.id),
+                        name: food.name,
+                        portion: food.portion,
+                        calories: food.calories,
+                        protein: food.protein,
+                        carbs: food.carbs,
+                        fat: food.fat,
+                      },
+                      existing,
+                    });
+                  } : undefined}
+                  onAddFood={canLogFood ? (meal) => setFoodLogTarget({
+                    mode: "extra",
+                    mealId: String(meal.id),
+                    mealName: meal.name,
+                  }) : undefined}
+                  onRemoveLog={canLogFood ? handleRemoveFoodLog : undefined}
                 />
               )}
               </div>
 
+              {/* Food eaten outside any planned meal */}
+              {(canLogFood || offPlanLogs.length > 0) && (
+                <div className="mt-6 pt-6 border-t border-gray-light dark:border-davyGray">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-sm font-semibold text-secondary dark:text-alabaster">
+                      Off-plan food
+                    </h3>
+                    {canLogFood && (
+                      <button
+                        type="button"
+                        onClick={() => setFoodLogTarget({ mode: "extra", mealId: null, mealName: null })}
+                        className="text-xs sm:text-sm text-primary hover:underline"
+                      >
+                        + Add off-plan food
+                      </button>
+                    )}
+                  </div>
+                  {offPlanLogs.length === 0 ? (
+                    <p className="text-xs text-gray-dark dark:text-gray-light">
+                      Ate something that wasn&apos;t on your plan? Log it so your macros stay accurate.
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {offPlanLogs.map((log) => (
+                        <div
+                          key={log.id}
+                          className="grid grid-cols-3 gap-2 sm:gap-4 py-2 text-xs sm:text-sm"
+                        >
+                          <div className="font-medium text-secondary dark:text-alabaster">{log.name}</div>
+                          <div className="text-gray-dark dark:text-gray-light">{log.portion}</div>
+                          <div className="text-gray-dark dark:text-gray-light flex items-start justify-between gap-2">
+                            <span>{Math.round(log.calories)}</span>
+                            {canLogFood && (
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveFoodLog(log)}
+                                className="text-xs text-red-500 hover:underline"
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <FoodLogModal
+                target={foodLogTarget}
+                onClose={() => setFoodLogTarget(null)}
+                onSave={handleSaveFoodLog}
+                isSaving={foodLogSaveFetcher.state !== "idle"}
+              />
+
               {/* Submit Completed Meals Button */}
               <div className="flex justify-end mt-6 pt-6 border-t border-gray-light dark:border-davyGray">
                 <Button
@@ -1141,27 +1268,27 @@ export default function Meals() {
                 <div className="grid grid-cols-1 gap-4">
                   <MacroProgressCard
                     label="Calories"
-                    completed={calculatedMacros.completed.calories}
+                    completed={calculatedMacros.actual.calories}
                     total={calculatedMacros.total.calories}
                     colorClass="bg-primary"
                   />
                   <MacroProgressCard
                     label="Protein"
-                    completed={calculatedMacros.completed.protein}
+                    completed={calculatedMacros.actual.protein}
                     total={calculatedMacros.total.protein}
                     colorClass="bg-blue-500"
                     unit="g"
                   />
                   <MacroProgressCard
                     label="Carbs"
-                    completed={calculatedMacros.completed.carbs}
+                    completed={calculatedMacros.actual.carbs}
                     total={calculatedMacros.total.carbs}
                     colorClass="bg-purple-500"
                     unit="g"
                   />
                   <MacroProgressCard
                     label="Fat"
-                    completed={calculatedMacros.completed.fat}
+                    completed={calculatedMacros.actual.fat}
                     total={calculatedMacros.total.fat}
                     colorClass="bg-yellow-500"
                     unit="g"
@@ -1237,6 +1364,16 @@ export default function Meals() {
               </div>
             </Card>
 
+            {todaysMealPlan?.id && todaysMealPlan.meals?.length > 0 && (
+              <GroceryListCard
+                planId={todaysMealPlan.id}
+                planName={todaysMealPlan.name}
+                meals={todaysMealPlan.meals}
+                weekStart={getStartOfWeek().format("YYYY-MM-DD")}
+                weekLabel={`Week of ${getStartOfWeek().format("MMM D, YYYY")}`}
+              />
+            )}
+
             {/* Compliance Calendar */}
             <Card title="Meal Compliance">
               <div className="space-y-3">
@@ -1,10 +1,23 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import type { MetaFunction , LoaderFunction } from "@remix-run/node";
 import Card from "~/components/ui/Card";
 import Button from "~/components/ui/Button";
 import NABadge from "~/components/ui/NABadge";
 import WorkoutCard from "~/components/workout/WorkoutCard";
-import { DailyWorkout, Exercise } from "~/types/workout";
+import GuidedWorkoutPlayer from "~/components/workout/GuidedWorkoutPlayer";
+import { DailyWorkout, Exercise, PersonalBestRecord, WorkoutSetLog } from "~/types/workout";
+import type { GuidedWorkoutSession, ProgramWeek, WorkoutProgram } from "~/types/workout";
+import { formatPersonalBest, formatPersonalBestGain } from "~/lib/personalBests";
+import { getPersonalBestSummary } from "~/lib/personalBests.server";
+import { applyProgramWeek, formatProgramWeek, getProgramWeek } from "~/lib/workoutProgram";
+import {
+  clearGuidedSession,
+  createGuidedSession,
+  guidedWorkoutKey,
+  loadGuidedSession,
+  pruneGuidedSessions,
+  saveGuidedSession,
+} from "~/utils/guidedWorkoutStorage";
 import { json } from "@remix-run/node";
 import { useLoaderData, useFetcher } from "@remix-run/react";
 import { createClient } from "@supabase/supabase-js";
@@ -91,7 +104,7 @@ export const loader: LoaderFunction = async ({ request }) => {
   // Get ALL workout plans for this user (both active and recently deactivated)
   const { data: allPlans, error: plansError } = await supabase
     .from("workout_plans")
-    .select("id, title, description, created_at, is_active, activated_at, deactivated_at, builder_mode")
+    .select("id, title, description, created_at, is_active, activated_at, deactivated_at, builder_mode, program")
     .eq("user_id", user.id)
     .eq("is_template", false)
     .order("activated_at", { ascending: false, nullsFirst: false });
@@ -135,6 +148,13 @@ export const loader: LoaderFunction = async ({ request }) => {
     }
     
     if (planToShow) {
+      const program = (planToShow.program as WorkoutProgram | null) || null;
+      const programWeek = getProgramWeek(
+        program,
+        planToShow.activated_at,
+        getCurrentDate().format("YYYY-MM-DD")
+      );
+
       // Get the full plan details with workout days
       const { data: workoutDaysRaw } = await supabase
         .from("workout_days")
@@ -161,7 +181,7 @@ export const loader: LoaderFunction = async ({ request }) => {
           const exercises = (exercisesRaw || []).map((exercise) => ({
             name: exercise.exercise_name,
             description: exercise.exercise_description || "",
-            sets: exercise.sets_data || [],
+            sets: applyProgramWeek(exercise.sets_data || [], program, programWeek),
             groupType: exercise.group_type,
             groupNotes: exercise.group_notes || "",
           }));
@@ -182,6 +202,7 @@ export const loader: LoaderFunction = async ({ request }) => {
         description: planToShow.description || "",
         days: workoutDays,
         builderMode: planToShow.builder_mode || 'week', // Add builder mode to the plan
+        programWeek,
       };
     }
   }
@@ -286,6 +307,16 @@ export const loader: LoaderFunction = async ({ request }) => {
     }
   }
 
+  // Heaviest load per exercise for the PB badges. Submitting a workout
+  // revalidates this loader, so new PBs show up without a separate fetch.
+  const pbSummary = await getPersonalBestSummary({ supabase, userId: user.id }).catch(() => []);
+  const personalBests: Record<string, number> = {};
+  for (const pb of pbSummary) {
+    if (pb.heaviestLoad !== null) {
+      personalBests[pb.exerciseKey] = pb.heaviestLoad;
+    }
+  }
+
   return json({
     user: {
       id: user.id,
@@ -296,6 +327,7 @@ export const loader: LoaderFunction = async ({ request }) => {
     },
     workoutPlan: activeWorkoutPlan,
     complianceData,
+    personalBests,
     todaysWorkout: null, // This will be calculated in the component
     todaysCompletedGroups: [], // This will be calculated in the component
     timestamp: Date.now(), // Force fresh data
@@ -303,7 +335,7 @@ export const loader: LoaderFunction = async ({ request }) => {
 };
 
 export default function Workouts() {
-  const { user, workoutPlan, todaysWorkout, complianceData: initialComplianceData, todaysCompletedGroups } = useLoaderData<{ 
+  const { user, workoutPlan, todaysWorkout, complianceData: initialComplianceData, todaysCompletedGroups, personalBests } = useLoaderData<{ 
     user: any;
     workoutPlan: any;
     todaysWorkout: null | {
@@ -313,17 +345,19 @@ export default function Workouts() {
       allExercises: Exercise[];
       uniqueTypes: string[];
       isRest: boolean;
+      programWeek?: ProgramWeek | null;
     };
     complianceData: number[];
+    personalBests: Record<string, number>;
     todaysCompletedGroups: string[];
   }>();
   
   const [dayOffset, setDayOffset] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
-  const [updatePersonalBests, setUpdatePersonalBests] = useState<((weights: Record<string, string>) => void) | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [completedGroups, setCompletedGroups] = useState<Record<string, boolean>>({});
+  const [setLogsByGroup, setSetLogsByGroup] = useState<Record<string, WorkoutSetLog[]>>({});
   const [complianceData, setComplianceData] = useState<number[]>(initialComplianceData);
   const [isWorkoutSubmitted, setIsWorkoutSubmitted] = useState(false);
   const [isActivationDay, setIsActivationDay] = useState(false);
@@ -340,6 +374,8 @@ export default function Workouts() {
   const [previewTemplate, setPreviewTemplate] = useState<any>(null);
   const [showPreviewModal, setShowPreviewModal] = useState(false);
   const [isFlexibleSchedule, setIsFlexibleSchedule] = useState(false);
+  const [guidedSession, setGuidedSession] = useState<GuidedWorkoutSession | null>(null);
+  const [isGuidedPlayerOpen, setIsGuidedPlayerOpen] = useState(false);
   
   const weekFetcher = useFetcher<{ 
     workouts: Record<string, any>, 
@@ -349,9 +385,17 @@ export default function Workouts() {
     availableTemplates?: any[],
     restDaysAllowed?: number,
     restDaysUsed?: number,
-    workoutDaysPerWeek?: number
+    workoutDaysPerWeek?: number,
+    programWeek?: ProgramWeek | null
+  }>();
+  const submitFetcher = useFetcher<{
+    success?: boolean;
+    personalBests?: PersonalBestRecord[];
+    error?: string;
   }>();
-  const submitFetcher = useFetcher();
+  const shareFetcher = useFetcher<{ success?: boolean; error?: string }>();
+  const [newPersonalBests, setNewPersonalBests] = useState<PersonalBestRecord[]>([]);
+  const [personalBestsShared, setPersonalBestsShared] = useState(false);
   const complianceFetcher = useFetcher<{ complianceData: number[] }>();
   
   // Track current week and cached workout data
@@ -361,6 +405,43 @@ export default function Workouts() {
   const [weekWorkouts, setWeekWorkouts] = useState<Record<string, any>>({});
   const [weekCompletions, setWeekCompletions] = useState<Record<string, string[]>>({});
 
+  // Guided session whose sets are in flight; it stays stored until the save succeeds
+  const pendingGuidedKeyRef = useRef<string | null>(null);
+
+  // PBs are detected when the submission is saved; celebrate them. The PB badges
+  // come from the loader, which revalidates after the submit.
+  // A failed save undoes the optimistic submit so the client can retry with their sets.
+  useEffect(() => {
+    if (submitFetcher.state !== "idle" || !submitFetcher.data) return;
+    const pendingGuidedKey = pendingGuidedKeyRef.current;
+    pendingGuidedKeyRef.current = null;
+    if (!submitFetcher.data.success) {
+      setSubmitError(submitFetcher.data.error || "Failed to submit workout. Please try again.");
+      setShowSuccess(false);
+      setIsWorkoutSubmitted(false);
+      return;
+    }
+    if (pendingGuidedKey) {
+      clearGuidedSession(pendingGuidedKey);
+      setGuidedSession((current) => (current?.workoutKey === pendingGuidedKey ? null : current));
+    }
+    setNewPersonalBests(submitFetcher.data.personalBests || []);
+    setPersonalBestsShared(false);
+  }, [submitFetcher.state, submitFetcher.data]);
+
+  useEffect(() => {
+    if (shareFetcher.state === "idle" && shareFetcher.data?.success) {
+      setPersonalBestsShared(true);
+    }
+  }, [shareFetcher.state, shareFetcher.data]);
+
+  const handleSharePersonalBests = () => {
+    shareFetcher.submit(
+      { recordIds: newPersonalBests.map((pb) => pb.id) },
+      { method: "POST", action: "/api/personal-best", encType: "application/json" }
+    );
+  };
+
   // Remove the API call since compliance data now comes from loader
 
   // Update compliance data when initial data changes
@@ -570,6 +651,9 @@ export default function Workouts() {
     }
   };
   const dateDisplay = getDateDisplay(dayOffset);
+  const displayedProgramWeek: ProgramWeek | null = isFlexibleSchedule
+    ? weekFetcher.data?.programWeek ?? null
+    : currentDayWorkout?.programWeek ?? null;
 
   // Handle group completion toggle
   const toggleGroupCompletion = (groupId: string) => {
@@ -582,6 +666,56 @@ export default function Workouts() {
     }));
   };
 
+  // Guided player: only today's workout, and only until it has been submitted
+  const guidedWorkout = isFlexibleSchedule ? selectedTemplate : currentDayWorkout;
+  const guidedGroups = Array.isArray(guidedWorkout?.groups) ? guidedWorkout.groups : null;
+  const guidedKey =
+    dayOffset === 0 && guidedWorkout?.id && !guidedWorkout.isRest
+      ? guidedWorkoutKey(currentDateApi, guidedWorkout.id)
+      : null;
+  const canStartGuidedWorkout =
+    !!guidedKey && !!guidedGroups?.length && !isWorkoutSubmitted && !isActivationDay;
+
+  useEffect(() => {
+    pruneGuidedSessions(getCurrentDate().format("YYYY-MM-DD"));
+  }, []);
+
+  // Pick up a session left running before a reload or the phone locking
+  useEffect(() => {
+    setGuidedSession(guidedKey ? loadGuidedSession(guidedKey) : null);
+  }, [guidedKey]);
+
+  // Groups finished in the player count as completed; reapply after day/template resets
+  useEffect(() => {
+    if (!guidedSession || isWorkoutSubmitted || guidedSession.completedGroupIds.length === 0) return;
+    setCompletedGroups((prev) => {
+      const next = { ...prev };
+      guidedSession.completedGroupIds.forEach((groupId) => {
+        next[groupId] = true;
+      });
+      return next;
+    });
+  }, [guidedSession, currentDayWorkout, selectedTemplate, isWorkoutSubmitted]);
+
+  const handleGuidedSessionChange = useCallback((session: GuidedWorkoutSession) => {
+    setGuidedSession(session);
+    saveGuidedSession(session);
+  }, []);
+
+  const handleStartGuidedWorkout = () => {
+    if (!guidedKey) return;
+    if (!guidedSession) {
+      handleGuidedSessionChange(createGuidedSession(guidedKey));
+    }
+    setIsGuidedPlayerOpen(true);
+  };
+
+  const endGuidedSession = () => {
+    if (guidedKey) clearGuidedSession(guidedKey);
+    setGuidedSession(null);
+    setIsGuidedPlayerOpen(false);
+  };
+
   // Handle template selection for flexible schedules
   const handleTemplateSelection = (template: any) => {
     // Toggle selection - if clicking the same template, deselect it
@@ -638,6 +772,12 @@ export default function Workouts() {
     }
   };
 
+  // Flatten the per-set logs for the groups of the workout being submitted
+  const collectSetLogs = (groupIds: Set<unknown>) =>
+    Object.entries(setLogsByGroup)
+      .filter(([groupId]) => groupIds.has(groupId))
+      .flatMap(([, logs]) => logs);
+
   // Handle workout submission
   const handleSubmitWorkout = async () => {
     if (isFlexibleSchedule) {
@@ -705,15 +845,6 @@ export default function Workouts() {
     const validCompletedGroups = Object.keys(completedGroups)
       .filter(id => completedGroups[id] && validTemplateGroupIds.has(id));
     
-    // Update personal bests before submitting
-    if (updatePersonalBests) {
-      // Get current weights from all WorkoutCard components
-      // This is a simplified approach - in a real app you might want to collect weights differently
-      const currentWeights: Record<string, string> = {};
-      // For now, we'll let the WorkoutCard handle the PB update internally
-      // The PB update will happen when the workout is submitted
-    }
-    
     // Optimistically update UI
     setShowSuccess(true);
     setIsWorkoutSubmitted(true);
@@ -723,10 +854,14 @@ export default function Workouts() {
     submitFetcher.submit(
       { 
         completedAt: dateToSubmit,
-        completedGroups: JSON.stringify(validCompletedGroups)
+        completedGroups: JSON.stringify(validCompletedGroups),
+        workoutDayId: templateToSubmit.id,
+        setLogs: JSON.stringify(collectSetLogs(validTemplateGroupIds))
       },
       { method: "POST", action: "/api/submit-workout-completion", encType: "application/json" }
     );
+    pendingGuidedKeyRef.current = guidedSession?.workoutKey ?? null;
+    setIsGuidedPlayerOpen(false);
     
     // Refresh week data to update available templates
     fetchWorkoutWeek(currentWeekStart);
@@ -769,10 +904,14 @@ export default function Workouts() {
     submitFetcher.submit(
       { 
         completedAt: dateToSubmit,
-        completedGroups: JSON.stringify(validCompletedGroups)
+        completedGroups: JSON.stringify(validCompletedGroups),
+        workoutDayId: workoutToSubmit.id,
+        setLogs: JSON.stringify(collectSetLogs(validWorkoutGroupIds))
       },
       { method: "POST", action: "/api/submit-workout-completion", encType: "application/json" }
     );
+    pendingGuidedKeyRef.current = guidedSession?.workoutKey ?? null;
+    setIsGuidedPlayerOpen(false);
     
     // Dispatch event to refresh dashboard
     window.dispatchEvent(new CustomEvent("workouts:completed"));
@@ -845,6 +984,38 @@ export default function Workouts() {
 
   const safeComplianceData = Array.isArray(complianceData) ? complianceData : [];
 
+  const guidedLoggedCount = guidedSession ? Object.keys(guidedSession.entries).length : 0;
+  const guidedStartBanner = canStartGuidedWorkout ? (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-primary/5 border border-primary/20 rounded-xl p-4">
+      <div>
+        <p className="font-semibold text-secondary dark:text-alabaster">
+          {guidedSession ? "Workout in progress" : "Guided workout"}
+        </p>
+        <p className="text-sm text-gray-dark dark:text-gray-light">
+          {guidedSession
+            ? `${guidedLoggedCount} ${guidedLoggedCount === 1 ? "set" : "sets"} logged so far. Pick up where you left off.`
+            : "Step through each set with rest timers and log as you go."}
+        </p>
+      </div>
+      <div className="flex gap-2">
+        {guidedSession && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              if (confirm("Discard the sets logged in this guided workout?")) endGuidedSession();
+            }}
+          >
+            Discard
+          </Button>
+        )}
+        <Button variant="primary" size="sm" onClick={handleStartGuidedWorkout}>
+          {guidedSession ? "Resume Workout" : "Start Workout"}
+        </Button>
+      </div>
+    </div>
+  ) : null;
+
   return (
     <div className="space-y-8 animate-fade-in">
       {/* Success Message */}
@@ -867,6 +1038,48 @@ export default function Workouts() {
         </div>
       )}
 
+      {/* New Personal Bests */}
+      {newPersonalBests.length > 0 && (
+        <div className="bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 rounded-xl p-4 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+          <div>
+            <h2 className="font-semibold text-green-700 dark:text-green-300 mb-1">
+              🏆 New personal best{newPersonalBests.length === 1 ? "" : "s"}!
+            </h2>
+            <ul className="text-sm text-secondary dark:text-alabaster space-y-0.5">
+              {newPersonalBests.map((pb) => (
+                <li key={pb.id}>
+                  {pb.exerciseName}: {formatPersonalBest(pb)}
+                  <span className="ml-2 text-xs text-green-600 dark:text-green-400">
+                    {formatPersonalBestGain(pb)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {shareFetcher.data?.error && (
+              <p className="text-xs text-red-500 mt-1">{shareFetcher.data.error}</p>
+            )}
+          </div>
+          <div className="flex gap-2 shrink-0">
+            {personalBestsShared ? (
+              <span className="text-sm text-green-700 dark:text-green-300 font-medium">
+                Shared with your coach
+              </span>
+            ) : (
+              <Button
+                size="sm"
+                onClick={handleSharePersonalBests}
+                disabled={shareFetcher.state !== "idle"}
+              >
+                {shareFetcher.state !== "idle" ? "Sharing..." : "Share with coach"}
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={() => setNewPersonalBests([])}>
+              Dismiss
+            </Button>
+          </div>
+        </div>
+      )}
+
       <div className="flex items-center gap-4">
         <div className="w-12 h-12 bg-gradient-to-br from-primary to-primary-light rounded-xl flex items-center justify-center shadow-soft">
           <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -960,6 +1173,17 @@ export default function Workouts() {
                         ? "No Workouts"
                         : "No Workouts"}
               </h2>
+              {displayedProgramWeek && !isLoadingWorkout && (
+                <div
+                  className={`inline-flex items-center text-xs font-medium px-2.5 py-1 rounded-full ${
+                    displayedProgramWeek.isDeload
+                      ? "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300"
+                      : "bg-primary/10 text-primary"
+                  }`}
+                >
+                  {formatProgramWeek(displayedProgramWeek)}
+                </div>
+              )}
             </div>
             
             {/* Flexible Schedule UI */}
@@ -1149,6 +1373,7 @@ export default function Workouts() {
                             Complete the exercises below and submit your workout
                           </p>
                         </div>
+                        {guidedStartBanner}
                         
                         {(Array.isArray(selectedTemplate?.groups) ? selectedTemplate.groups : []).map((group: any, idx: number) => (
                           <div
@@ -1207,7 +1432,11 @@ export default function Workouts() {
                               exercises={group.exercises || []}
                               type={group.type === "Super Set" || group.type === "SuperSet" ? "Super" : group.type === "Giant Set" || group.type === "GiantSet" ? "Giant" : "Single"}
                               dayOffset={0}
-                              onWeightSubmit={setUpdatePersonalBests}
+                              personalBests={personalBests}
+                              onSetLogsChange={(logs) =>
+                                setSetLogsByGroup((prev) => ({ ...prev, [group.id]: logs }))
+                              }
+                              loggedEntries={guidedSession?.entries}
                             />
                           </div>
                         ))}
@@ -1238,6 +1467,7 @@ export default function Workouts() {
             {/* Fixed Schedule UI */}
             {!isFlexibleSchedule && (
               <div className="space-y-4 sm:space-y-6">
+                {!isLoadingWorkout && guidedStartBanner}
                 {isLoadingWorkout ? (
                   <div className="flex items-center justify-center py-8">
                     <svg
@@ -1347,7 +1577,11 @@ export default function Workouts() {
                         exercises={group.exercises || []}
                         type={group.type === "Super Set" || group.type === "SuperSet" ? "Super" : group.type === "Giant Set" || group.type === "GiantSet" ? "Giant" : "Single"}
                         dayOffset={0}
-                        onWeightSubmit={setUpdatePersonalBests}
+                        personalBests={personalBests}
+                        onSetLogsChange={(logs) =>
+                          setSetLogsByGroup((prev) => ({ ...prev, [group.id]: logs }))
+                        }
+                        loggedEntries={guidedSession?.entries}
                       />
                     </div>
                   ))
@@ -1778,7 +2012,7 @@ export default function Workouts() {
                       exercises={group.exercises || []}
                       type={group.type === "Super Set" || group.type === "SuperSet" ? "Super" : group.type === "Giant Set" || group.type === "GiantSet" ? "Giant" : "Single"}
                       dayOffset={0}
-                      onWeightSubmit={setUpdatePersonalBests}
+                      personalBests={personalBests}
                     />
                   </div>
                 ))}
@@ -1810,6 +2044,17 @@ export default function Workouts() {
           </div>
         </div>
       )}
+
+      {guidedSession && guidedGroups && (
+        <GuidedWorkoutPlayer
+          isOpen={isGuidedPlayerOpen}
+          onClose={() => setIsGuidedPlayerOpen(false)}
+          title={guidedWorkout?.name || "Workout"}
+          groups={guidedGroups}
+          session={guidedSession}
+          onSessionChange={handleGuidedSessionChange}
+        />
+      )}
     </div>
   );
 }
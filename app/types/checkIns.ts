@@ -0,0 +1,104 @@
+import type { CheckInQuestionType } from "~/lib/supabase";
+
+/** One answer charted on a trend line. Choice answers are plotted by option position (1 = first option). */
+export interface CheckInTrendPoint {
+  instanceId: string;
+  /** YYYY-MM-DD the form was completed. */
+  date: string;
+  value: number;
+  /** The answer as the client gave it, e.g. "Good" for a select question. */
+  label: string;
+}
+
+/** The change between the last answers of two consecutive weeks. */
+export interface CheckInTrendChange {
+  /** YYYY-MM-DD start of the later week. */
+  weekStart: string;
+  date: string;
+  previous: CheckInTrendPoint;
+  current: CheckInTrendPoint;
+  delta: number;
+  direction: "up" | "down";
+  /** True when the change is big enough to call out to the coach. */
+  isLarge: boolean;
+}
+
+/** Every answer a client gave to one question across form instances. */
+export interface CheckInTrendSeries {
+  /** source_question_id when the question came from a saved form, otherwise its text. */
+  key: string;
+  questionText: string;
+  questionType: CheckInQuestionType;
+  /** Choice labels in order, for select and radio questions. */
+  options: string[];
+  points: CheckInTrendPoint[];
+  changes: CheckInTrendChange[];
+}
+
+/** One question and the client's answer, as text. */
+export interface CheckInSummaryAnswer {
+  question: string;
+  answer: string;
+}
+
+/** Everything the weekly summary is written from. */
+export interface CheckInSummaryInput {
+  clientName: string;
+  goal: string | null;
+  /** YYYY-MM-DD, the first and last day covered. */
+  periodStart: string;
+  periodEnd: string;
+  /** The client's most recently completed check-in form, if any. */
+  latestForm: {
+    title: string;
+    completedAt: string;
+    answers: CheckInSummaryAnswer[];
+  } | null;
+  /** Transcripts of check-in recordings made during the period. */
+  transcripts: { date: string; text: string }[];
+  weight: {
+    /** Last weight logged before the period, or the first one in it. */
+    start: number | null;
+    latest: number | null;
+    change: number | null;
+    logCount: number;
+  };
+  /** Percent of the week's planned items completed; null when there is no plan. */
+  compliance: {
+    workouts: number | null;
+    meals: number | null;
+    supplements: number | null;
+  };
+}
+
+/** A short, coach-facing read on a client's week. */
+export interface CheckInSummary {
+  summary: string;
+  concerns: string[];
+  /** Which provider wrote it, e.g. "openai" or "stub". */
+  provider: string;
+  generatedAt: string;
+  periodStart: string;
+  periodEnd: string;
+}
+
+/** A timed piece of a recording's transcript. Times are seconds from the start. */
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** A check-in whose notes or transcript matched a history search. */
+export interface CheckInSearchResult {
+  id: string;
+  created_at: string;
+  notes: string | null;
+  transcript: string | null;
+  recording_type?: "video" | "audio" | "text" | "video_audio";
+  video_url?: string | null;
+  audio_url?: string | null;
+  recording_duration?: number | null;
+  /** Transcript segments containing the search, when the transcript has timings. */
+  matchingSegments: TranscriptSegment[];
+}
@@ -0,0 +1,48 @@
+/** Daily and day-scheduled habits streak by scheduled day; times-per-week and flexible habits by week. */
+export type HabitStreakUnit = "day" | "week";
+
+export interface HabitBadge {
+  key: string;
+  label: string;
+  description: string;
+}
+
+/** The cadence and target fields scoring needs from a client_habits row. */
+export interface ScoredHabit {
+  id: string;
+  frequency: string;
+  times_per_week: number | null;
+  /** 0 = Mon … 6 = Sun */
+  schedule_days: number[] | null;
+  assigned_at: string;
+  target_value: number | null;
+  target_unit: string | null;
+  preset?: { target_default: number | null; target_unit: string | null } | null;
+}
+
+export interface HabitScore {
+  clientHabitId: string;
+  unit: HabitStreakUnit;
+  /**
+   * Consecutive scheduled days (or weeks) that met the target, not broken by
+   * today or this week still being open.
+   */
+  currentStreak: number;
+  bestStreak: number;
+  /** Days logged, including partial ones. */
+  totalCompletions: number;
+  /**
+   * Credit earned in the scored week against what the cadence asks for. A
+   * logged value below the target earns that share of a day, so this can be
+   * fractional.
+   */
+  weekHits: number;
+  weekTarget: number;
+  /** weekHits against the part of weekTarget due so far, capped at 1. */
+  weeklyHitRate: number;
+  /** Hit rate over the four weeks ending with the scored week. */
+  fourWeekHitRate: number;
+  badges: HabitBadge[];
+  /** The next milestone and how many days, weeks or completions away it is. */
+  nextBadge: { badge: HabitBadge; remaining: number } | null;
+}
@@ -0,0 +1,53 @@
+import type { BodyMetric } from "~/lib/supabase";
+
+/** One logged value, e.g. a 32.5 in waist on 2026-10-18. */
+export interface BodyMeasurementEntry {
+  id: string;
+  metric: BodyMetric;
+  value: number;
+  /** YYYY-MM-DD */
+  date: string;
+}
+
+/** A metric's label, unit and the range a logged value must fall in. */
+export interface BodyMetricDefinition {
+  key: BodyMetric;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  /** Y axis tick spacing on trend charts. */
+  tickStep: number;
+}
+
+/** A coach-set weight target. The pace line runs from the start point to the target. */
+export interface WeightGoal {
+  targetWeight: number;
+  /** YYYY-MM-DD */
+  targetDate: string;
+  /** The client's trend weight when the target was set. */
+  startWeight: number;
+  /** YYYY-MM-DD */
+  startDate: string;
+}
+
+export type WeightPace = "ahead" | "on_pace" | "behind" | "reached";
+
+/** Where a client's smoothed weight stands and, with a target, whether they're keeping pace. */
+export interface WeightTrendSummary {
+  /** Smoothed weight as of the latest log. */
+  trendWeight: number;
+  latestWeight: number;
+  /** Change in trend weight per week over the recent window; negative is losing. null until there's enough history. */
+  weeklyRate: number | null;
+  goal: WeightGoal | null;
+  /** Where the pace line says the client should be today. */
+  expectedWeight: number | null;
+  /** How far past the pace line toward the target the trend is; negative is behind. */
+  paceDifference: number | null;
+  pace: WeightPace | null;
+  /** Weekly rate needed from here to hit the target on its date. */
+  requiredWeeklyRate: number | null;
+  /** YYYY-MM-DD the current rate reaches the target, or null if it isn't heading there. */
+  projectedDate: string | null;
+}
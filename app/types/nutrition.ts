@@ -0,0 +1,74 @@
+export interface MacroValues {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+/** A household measure for a food, e.g. { label: "1 cup", grams: 240 }. */
+export interface FoodPortion {
+  label: string;
+  grams: number;
+}
+
+/**
+ * A food_library row. `perServing` is what linked foods have always read;
+ * `per100g` is only known for gram-based entries such as imported datasets.
+ */
+export interface FoodLibraryEntry {
+  id: string;
+  name: string;
+  brand: string | null;
+  barcode: string | null;
+  source: string;
+  /** Null for shared dataset entries, the coach's id for their custom foods. */
+  coachId: string | null;
+  perServing: MacroValues;
+  per100g: MacroValues | null;
+  /** Grams in one serving, when known. */
+  servingSize: number | null;
+  servingLabel: string | null;
+  portions: FoodPortion[];
+}
+
+/** Daily targets a coach sets for a client. A 0 means no target for that value. */
+export type MacroTargets = MacroValues;
+
+/**
+ * How a client's day differed from the plan: a planned food eaten in another
+ * amount, swapped for something else, or skipped, or an off-plan extra.
+ */
+export type FoodLogKind = "portion" | "swap" | "skip" | "extra";
+
+export interface FoodLogEntry extends MacroValues {
+  id: string;
+  /** YYYY-MM-DD in the user's timezone. */
+  date: string;
+  kind: FoodLogKind;
+  mealId: string | null;
+  /** The planned food this replaces; null for extras. */
+  plannedFoodId: string | null;
+  foodLibraryId: string | null;
+  name: string;
+  portion: string;
+}
+
+/** Which option of an A/B meal the client plans to eat this week; "both" splits the days. */
+export type GroceryOptionChoice = "A" | "B" | "both";
+
+export interface GroceryQuantity {
+  amount: number;
+  /** Display unit, e.g. "g", "lb", "cups" or a count like "slices". Empty for plain counts. */
+  unit: string;
+}
+
+export interface GroceryItem {
+  /** Normalized food name; stable across weeks so checked items can be remembered. */
+  key: string;
+  name: string;
+  quantities: GroceryQuantity[];
+  /** Portions that couldn't be measured, such as "to taste", with how often they appear. */
+  unmeasured: string[];
+  /** Meals the item is used in. */
+  meals: string[];
+}
@@ -0,0 +1,21 @@
+export type ProgressPhotoPose = "front" | "side" | "back";
+
+export interface ProgressPhoto {
+  id: string;
+  photo_url: string;
+  notes?: string | null;
+  created_at: string;
+  /** null for photos uploaded before poses were tracked. */
+  pose: ProgressPhotoPose | null;
+  /** YYYY-MM-DD, the set the photo belongs to. */
+  taken_on: string;
+}
+
+/** Every photo a client took on one date, with the latest photo of each pose. */
+export interface ProgressPhotoSet {
+  /** YYYY-MM-DD */
+  date: string;
+  poses: Partial<Record<ProgressPhotoPose, ProgressPhoto>>;
+  /** Photos without a pose, oldest first. */
+  untagged: ProgressPhoto[];
+}
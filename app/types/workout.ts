@@ -6,6 +6,155 @@ export interface WorkoutSet {
   reps: number;
   completed: boolean;
   notes?: string;
+  rpe?: number;
+}
+
+/** What the client actually did on one set, next to what was prescribed. */
+export interface WorkoutSetLog {
+  workoutExerciseId: string | null;
+  exerciseName: string;
+  setNumber: number;
+  prescribedReps?: number | null;
+  prescribedWeight?: number | null;
+  actualWeight?: number | null;
+  actualReps?: number | null;
+  rpe?: number | null;
+  notes?: string | null;
+}
+
+export interface WorkoutSessionLog {
+  id: string;
+  workoutDayId: string | null;
+  performedAt: string;
+  notes?: string | null;
+  sets: WorkoutSetLog[];
+}
+
+/** A coach's canonical exercise, linked from workout_exercises.exercise_library_id. */
+export interface ExerciseLibraryEntry {
+  id: string;
+  name: string;
+  aliases: string[];
+  muscleGroups: string[];
+  equipment: string[];
+  videoUrl: string | null;
+  cues: string | null;
+}
+
+/** A plan queued in workout_plan_activations to go live at local midnight on `activationDate`. */
+export interface ScheduledPlanActivation {
+  id: string;
+  planId: string;
+  planTitle: string;
+  activationDate: string;
+}
+
+/** Seconds of rest the guided player counts down after each kind of step. */
+export interface RestTimerSettings {
+  /** Between sets of a single exercise. */
+  betweenSets: number;
+  /** Between exercises inside one super/giant set round; 0 goes straight on. */
+  betweenExercises: number;
+  /** After a full super/giant set round, and between groups. */
+  betweenRounds: number;
+}
+
+/** Raw input for one set in the guided player, keyed like WorkoutCard's inputs. */
+export interface GuidedSetEntry {
+  weight: string;
+  reps: string;
+  rpe: string;
+}
+
+/**
+ * In-progress guided workout, kept in localStorage so it survives a reload or
+ * the phone locking. `restEndsAt` is a wall-clock timestamp rather than a
+ * countdown so the timer stays right while the page is suspended.
+ */
+export interface GuidedWorkoutSession {
+  workoutKey: string;
+  stepIndex: number;
+  /** Keyed by `${exerciseId}-${setNumber}` */
+  entries: Record<string, GuidedSetEntry>;
+  completedGroupIds: string[];
+  restEndsAt: number | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export type LoadIncrementUnit = "lbs" | "kg" | "percent";
+
+/** How a block changes the base week each week; loads are stored in lbs. */
+export interface ProgressionRules {
+  loadIncrement?: number;
+  loadIncrementUnit?: LoadIncrementUnit;
+  repsIncrement?: number;
+  setsIncrement?: number;
+  /** Every Nth week of the block is a deload, e.g. 4 for "deload every 4th week". */
+  deloadEvery?: number;
+  /** Share of the working load kept on deload weeks (default 90). */
+  deloadLoadPercent?: number;
+  /** Share of the sets kept on deload weeks (default 50). */
+  deloadSetsPercent?: number;
+}
+
+export interface ProgramBlock {
+  name: string;
+  weeks: number;
+  rules: ProgressionRules;
+}
+
+/**
+ * Multi-week program stored on workout_plans.program. The plan's days are
+ * week 1; later weeks are derived from it through each block's rules.
+ */
+export interface WorkoutProgram {
+  blocks: ProgramBlock[];
+  /** Start over from week 1 after the last block instead of holding the final week. */
+  repeat?: boolean;
+}
+
+export interface ProgramWeek {
+  weekNumber: number;
+  totalWeeks: number;
+  blockName: string;
+  weekInBlock: number;
+  blockWeeks: number;
+  isDeload: boolean;
+}
+
+export type PersonalBestType = "heaviest_load" | "estimated_1rm" | "reps_at_load";
+
+/**
+ * A PB detected from logged sets. `previousValue` is null for the first
+ * record of its kind, which sets the baseline rather than beating anything.
+ */
+export interface PersonalBestRecord {
+  id: string;
+  exerciseKey: string;
+  exerciseName: string;
+  recordType: PersonalBestType;
+  value: number;
+  weight: number | null;
+  reps: number | null;
+  previousValue: number | null;
+  achievedAt: string;
+  sharedAt: string | null;
+}
+
+export interface PersonalBestSummary {
+  exerciseKey: string;
+  exerciseName: string;
+  heaviestLoad: number | null;
+  estimatedOneRepMax: number | null;
+  lastAchievedAt: string;
+}
+
+export interface ExerciseHistoryPoint {
+  date: string;
+  topWeight: number | null;
+  estimatedOneRepMax: number | null;
+  totalReps: number;
 }
 
 export interface Exercise {
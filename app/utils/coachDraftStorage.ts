@@ -50,6 +50,8 @@ export type WorkoutDraftPayload = {
   instructions: string;
   builderMode: "week" | "day";
   workoutDaysPerWeek: number;
+  /** Absent in drafts saved before multi-week programs */
+  program?: unknown;
   weekPlans: Record<string, unknown>;
   workoutTemplates: unknown[];
   savedDays: Record<string, boolean>;
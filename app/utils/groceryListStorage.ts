@@ -0,0 +1,42 @@
+/**
+ * Client-side persistence for the grocery list (localStorage only). Option
+ * choices stick to a meal plan; checked items only last for the week they
+ * were ticked off in.
+ */
+
+import type { GroceryOptionChoice } from "~/types/nutrition";
+
+const LS_PREFIX = "vf:groceryList:v1:";
+
+export interface GroceryListState {
+  /** YYYY-MM-DD start of the week the checked items belong to. */
+  weekStart: string;
+  checked: string[];
+  choices: Record<string, GroceryOptionChoice>;
+}
+
+export function loadGroceryListState(planId: string, weekStart: string): GroceryListState {
+  const empty: GroceryListState = { weekStart, checked: [], choices: {} };
+  if (typeof window === "undefined") return empty;
+  try {
+    const raw = localStorage.getItem(`${LS_PREFIX}${planId}`);
+    if (!raw) return empty;
+    const parsed = JSON.parse(raw) as GroceryListState;
+    const choices = parsed?.choices && typeof parsed.choices === "object" ? parsed.choices : {};
+    if (parsed?.weekStart !== weekStart || !Array.isArray(parsed.checked)) {
+      return { ...empty, choices };
+    }
+    return { weekStart, checked: parsed.checked, choices };
+  } catch {
+    return empty;
+  }
+}
+
+export function saveGroceryListState(planId: string, state: GroceryListState): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(`${LS_PREFIX}${planId}`, JSON.stringify(state));
+  } catch (e) {
+    console.warn("[groceryList] Failed to save state", e);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Client-side persistence for the guided workout player (localStorage only).
+ * A session lives until the workout is submitted; sessions from earlier days
+ * are pruned the next time the page loads.
+ */
+
+import { DEFAULT_REST_SETTINGS, parseRestSettings } from "~/lib/guidedWorkout";
+import type { GuidedWorkoutSession, RestTimerSettings } from "~/types/workout";
+
+const LS_PREFIX = "vf:guidedWorkout:v1:";
+const REST_SETTINGS_KEY = "vf:guidedWorkout:rest";
+
+/** `date` is the YYYY-MM-DD the workout is for, which also scopes pruning. */
+export function guidedWorkoutKey(date: string, workoutId: string): string {
+  return `${date}:${workoutId}`;
+}
+
+function sessionStorageKey(workoutKey: string): string {
+  return `${LS_PREFIX}${workoutKey}`;
+}
+
+export function createGuidedSession(workoutKey: string): GuidedWorkoutSession {
+  return {
+    workoutKey,
+    stepIndex: 0,
+    entries: {},
+    completedGroupIds: [],
+    restEndsAt: null,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+  };
+}
+
+export function loadGuidedSession(workoutKey: string): GuidedWorkoutSession | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = localStorage.getItem(sessionStorageKey(workoutKey));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as GuidedWorkoutSession;
+    if (
+      parsed?.workoutKey !== workoutKey ||
+      typeof parsed.stepIndex !== "number" ||
+      !parsed.entries ||
+      !Array.isArray(parsed.completedGroupIds)
+    ) {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+export function saveGuidedSession(session: GuidedWorkoutSession): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(sessionStorageKey(session.workoutKey), JSON.stringify(session));
+  } catch (e) {
+    console.warn("[guidedWorkout] Failed to save session", e);
+  }
+}
+
+export function clearGuidedSession(workoutKey: string): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.removeItem(sessionStorageKey(workoutKey));
+  } catch {
+    /* ignore */
+  }
+}
+
+/** Drops sessions for days before `today` (YYYY-MM-DD). */
+export function pruneGuidedSessions(today: string): void {
+  if (typeof window === "undefined") return;
+  try {
+    const stale: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(LS_PREFIX) && key.slice(LS_PREFIX.length, LS_PREFIX.length + 10) < today) {
+        stale.push(key);
+      }
+    }
+    stale.forEach((key) => localStorage.removeItem(key));
+  } catch {
+    /* ignore */
+  }
+}
+
+export function loadRestSettings(): RestTimerSettings {
+  if (typeof window === "undefined") return DEFAULT_REST_SETTINGS;
+  try {
+    const raw = localStorage.getItem(REST_SETTINGS_KEY);
+    return raw ? parseRestSettings(JSON.parse(raw)) : DEFAULT_REST_SETTINGS;
+  } catch {
+    return DEFAULT_REST_SETTINGS;
+  }
+}
+
+export function saveRestSettings(settings: RestTimerSettings): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(REST_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("[guidedWorkout] Failed to save rest settings", e);
+  }
+}
@@ -0,0 +1,394 @@
+/**
+ * Script to seed food_library from a local nutrition dataset
+ *
+ * Usage: npx tsx scripts/import-food-library.ts <path> [--source usda] [--limit N] [--dry-run]
+ *
+ * <path> can be:
+ *   - a FoodData Central JSON download (Foundation, SR Legacy, Survey or Branded foods)
+ *   - a FoodData Central CSV download folder (food.csv, food_nutrient.csv, and optionally
+ *     food_portion.csv, measure_unit.csv, branded_food.csv)
+ *   - a flat CSV with a header row of: name, brand, barcode, source_id, calories_per_100g,
+ *     protein_per_100g, carbs_per_100g, fat_per_100g, serving_size, serving_label
+ *
+ * Rows are upserted on (source, source_id), so re-running with a newer download updates
+ * existing foods instead of duplicating them. Meal plan foods keep their own macros, so
+ * updating the library never changes a saved plan.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "../app/lib/supabase";
+import { upsertDatasetFoods } from "../app/lib/foodLibrary.server";
+import type { FoodLibraryInsert } from "../app/lib/foodLibrary.server";
+import type { FoodPortion, MacroValues } from "../app/types/nutrition";
+import { config } from "dotenv";
+import { createReadStream, existsSync, readFileSync, statSync } from "fs";
+import { resolve, dirname, join } from "path";
+import { createInterface } from "readline";
+import { fileURLToPath } from "url";
+
+// Load environment variables
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+config({ path: resolve(__dirname, "../.env") });
+
+const BATCH_SIZE = 500;
+
+// FoodData Central nutrient ids, with the legacy nutrient numbers used by older downloads
+const ENERGY_KCAL = new Set(["1008", "208", "2047", "2048"]);
+const PROTEIN = new Set(["1003", "203"]);
+const FAT = new Set(["1004", "204"]);
+const CARBS = new Set(["1005", "205"]);
+
+type DatasetFood = {
+  sourceId: string;
+  name: string;
+  brand?: string | null;
+  barcode?: string | null;
+  per100g: Partial<MacroValues>;
+  servingSize?: number | null;
+  servingLabel?: string | null;
+  portions?: FoodPortion[];
+};
+
+// The fields read from a FoodData Central JSON download
+type FdcJsonFood = {
+  fdcId: number | string;
+  description?: string;
+  brandName?: string;
+  brandOwner?: string;
+  gtinUpc?: string;
+  servingSize?: number;
+  servingSizeUnit?: string;
+  householdServingFullText?: string;
+  foodNutrients?: { amount?: number; nutrient?: { id?: number; number?: string } }[];
+  foodPortions?: {
+    amount?: number;
+    gramWeight?: number;
+    portionDescription?: string;
+    modifier?: string;
+    measureUnit?: { name?: string };
+  }[];
+};
+
+type FdcJsonDownload =
+  | FdcJsonFood[]
+  | {
+      FoundationFoods?: FdcJsonFood[];
+      SRLegacyFoods?: FdcJsonFood[];
+      SurveyFoods?: FdcJsonFood[];
+      BrandedFoods?: FdcJsonFood[];
+    };
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/** Splits one CSV line, honouring double-quoted fields with embedded commas and quotes. */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+/** Streams a CSV file as header-keyed records, so multi-GB nutrient files never sit in memory. */
+async function* readCsv(path: string): AsyncGenerator<Record<string, string>> {
+  const lines = createInterface({ input: createReadStream(path), crlfDelay: Infinity });
+  let header: string[] | null = null;
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const fields = parseCsvLine(line);
+    if (!header) {
+      header = fields.map((h) => h.trim().toLowerCase());
+      continue;
+    }
+    const record: Record<string, string> = {};
+    header.forEach((key, i) => {
+      record[key] = (fields[i] ?? "").trim();
+    });
+    yield record;
+  }
+}
+
+function applyNutrient(per100g: Partial<MacroValues>, nutrientId: string, amount: number | null) {
+  if (amount === null) return;
+  if (ENERGY_KCAL.has(nutrientId)) {
+    // Prefer the labelled kcal value (1008/208) over Atwater estimates when both are present
+    if (per100g.calories === undefined || nutrientId === "1008" || nutrientId === "208") {
+      per100g.calories = amount;
+    }
+  } else if (PROTEIN.has(nutrientId)) per100g.protein = amount;
+  else if (FAT.has(nutrientId)) per100g.fat = amount;
+  else if (CARBS.has(nutrientId)) per100g.carbs = amount;
+}
+
+function portionLabel(amount: number | null, unit: string, description: string): string {
+  const text = description || unit;
+  if (!text || text.toLowerCase() === "undetermined") return "";
+  return `${amount && amount !== 1 ? round(amount) : 1} ${text}`.trim();
+}
+
+/** Serving weight in grams; FDC reports ml for drinks, which is close enough to grams here. */
+function servingGrams(size: unknown, unit: unknown): number | null {
+  const grams = toNumber(size);
+  if (!grams || grams <= 0) return null;
+  return typeof unit === "string" && /^(g|grm|ml|mlt)$/i.test(unit.trim()) ? grams : null;
+}
+
+function toInsert(food: DatasetFood, source: string): FoodLibraryInsert | null {
+  const { protein, carbs, fat } = food.per100g;
+  if (!food.name || (protein === undefined && carbs === undefined && fat === undefined)) {
+    return null;
+  }
+  const per100g: MacroValues = {
+    protein: round(protein ?? 0),
+    carbs: round(carbs ?? 0),
+    fat: round(fat ?? 0),
+    calories: round(
+      food.per100g.calories ?? (protein ?? 0) * 4 + (carbs ?? 0) * 4 + (fat ?? 0) * 9,
+      0
+    ),
+  };
+  const servingSize = food.servingSize && food.servingSize > 0 ? food.servingSize : null;
+  const factor = servingSize ? servingSize / 100 : 1;
+
+  return {
+    name: food.name,
+    brand: food.brand || null,
+    barcode: food.barcode || null,
+    source,
+    source_id: food.sourceId,
+    coach_id: null,
+    calories_per_100g: per100g.calories,
+    protein_per_100g: per100g.protein,
+    carbs_per_100g: per100g.carbs,
+    fat_per_100g: per100g.fat,
+    serving_size: servingSize,
+    serving_label: servingSize ? food.servingLabel || `${round(servingSize)} g` : "100 g",
+    calories: round(per100g.calories * factor, 0),
+    protein: round(per100g.protein * factor),
+    carbs: round(per100g.carbs * factor),
+    fat: round(per100g.fat * factor),
+    portions: food.portions || [],
+    updated_at: new Date().toISOString(),
+  };
+}
+
+async function* readFdcJson(path: string): AsyncGenerator<DatasetFood> {
+  const parsed = JSON.parse(readFileSync(path, "utf8")) as FdcJsonDownload;
+  const foods: FdcJsonFood[] = Array.isArray(parsed)
+    ? parsed
+    : parsed.FoundationFoods ||
+      parsed.SRLegacyFoods ||
+      parsed.SurveyFoods ||
+      parsed.BrandedFoods ||
+      [];
+
+  for (const food of foods) {
+    const per100g: Partial<MacroValues> = {};
+    for (const entry of food.foodNutrients || []) {
+      const nutrient = entry.nutrient || {};
+      const amount = toNumber(entry.amount);
+      applyNutrient(per100g, String(nutrient.id ?? ""), amount);
+      applyNutrient(per100g, String(nutrient.number ?? ""), amount);
+    }
+    const portions: FoodPortion[] = (food.foodPortions || [])
+      .map((p) => ({
+        label: portionLabel(
+          toNumber(p.amount),
+          p.measureUnit?.name && p.measureUnit.name !== "undetermined" ? p.measureUnit.name : "",
+          p.portionDescription || p.modifier || ""
+        ),
+        grams: toNumber(p.gramWeight) ?? 0,
+      }))
+      .filter((p: FoodPortion) => p.label && p.grams > 0);
+
+    yield {
+      sourceId: String(food.fdcId),
+      name: String(food.description || "").trim(),
+      brand: food.brandName || food.brandOwner || null,
+      barcode: food.gtinUpc || null,
+      per100g,
+      servingSize: servingGrams(food.servingSize, food.servingSizeUnit),
+      servingLabel: food.householdServingFullText || null,
+      portions,
+    };
+  }
+}
+
+async function* readFdcCsvFolder(folder: string): AsyncGenerator<DatasetFood> {
+  const nutrients = new Map<string, Partial<MacroValues>>();
+  const wanted = new Set([...ENERGY_KCAL, ...PROTEIN, ...FAT, ...CARBS]);
+  console.log("Reading food_nutrient.csv...");
+  for await (const row of readCsv(join(folder, "food_nutrient.csv"))) {
+    if (!wanted.has(row.nutrient_id)) continue;
+    const per100g = nutrients.get(row.fdc_id) || {};
+    applyNutrient(per100g, row.nutrient_id, toNumber(row.amount));
+    nutrients.set(row.fdc_id, per100g);
+  }
+
+  const units = new Map<string, string>();
+  if (existsSync(join(folder, "measure_unit.csv"))) {
+    for await (const row of readCsv(join(folder, "measure_unit.csv"))) {
+      units.set(row.id, row.name === "undetermined" ? "" : row.name);
+    }
+  }
+
+  const portions = new Map<string, FoodPortion[]>();
+  if (existsSync(join(folder, "food_portion.csv"))) {
+    for await (const row of readCsv(join(folder, "food_portion.csv"))) {
+      const grams = toNumber(row.gram_weight) ?? 0;
+      const label = portionLabel(
+        toNumber(row.amount),
+        units.get(row.measure_unit_id) || "",
+        row.portion_description || row.modifier || ""
+      );
+      if (!label || grams <= 0) continue;
+      portions.set(row.fdc_id, [...(portions.get(row.fdc_id) || []), { label, grams }]);
+    }
+  }
+
+  const branded = new Map<string, Record<string, string>>();
+  if (existsSync(join(folder, "branded_food.csv"))) {
+    for await (const row of readCsv(join(folder, "branded_food.csv"))) {
+      branded.set(row.fdc_id, row);
+    }
+  }
+
+  for await (const row of readCsv(join(folder, "food.csv"))) {
+    const per100g = nutrients.get(row.fdc_id);
+    if (!per100g) continue;
+    const brand = branded.get(row.fdc_id);
+    yield {
+      sourceId: row.fdc_id,
+      name: row.description,
+      brand: brand?.brand_name || brand?.brand_owner || null,
+      barcode: brand?.gtin_upc || null,
+      per100g,
+      servingSize: brand ? servingGrams(brand.serving_size, brand.serving_size_unit) : null,
+      servingLabel: brand?.household_serving_fulltext || null,
+      portions: portions.get(row.fdc_id),
+    };
+  }
+}
+
+async function* readFlatCsv(path: string): AsyncGenerator<DatasetFood> {
+  let line = 0;
+  for await (const row of readCsv(path)) {
+    line++;
+    const per100g: Partial<MacroValues> = {};
+    const calories = toNumber(row.calories_per_100g);
+    const protein = toNumber(row.protein_per_100g);
+    const carbs = toNumber(row.carbs_per_100g);
+    const fat = toNumber(row.fat_per_100g);
+    if (calories !== null) per100g.calories = calories;
+    if (protein !== null) per100g.protein = protein;
+    if (carbs !== null) per100g.carbs = carbs;
+    if (fat !== null) per100g.fat = fat;
+    yield {
+      sourceId: row.source_id || row.barcode || `${row.name}:${line}`,
+      name: row.name,
+      brand: row.brand || null,
+      barcode: row.barcode || null,
+      per100g,
+      servingSize: toNumber(row.serving_size),
+      servingLabel: row.serving_label || null,
+    };
+  }
+}
+
+function readDataset(path: string): AsyncGenerator<DatasetFood> {
+  if (statSync(path).isDirectory()) return readFdcCsvFolder(path);
+  if (path.toLowerCase().endsWith(".json")) return readFdcJson(path);
+  return readFlatCsv(path);
+}
+
+async function importFoodLibrary() {
+  const args = process.argv.slice(2);
+  const path = args.find((arg) => !arg.startsWith("--"));
+  const flag = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const dryRun = args.includes("--dry-run");
+  const source = flag("source") || "usda";
+  const limit = toNumber(flag("limit"));
+
+  if (!path || !existsSync(path)) {
+    console.error(
+      "Usage: npx tsx scripts/import-food-library.ts <path> [--source usda] [--limit N] [--dry-run]"
+    );
+    process.exit(1);
+  }
+
+  const SUPABASE_URL = process.env.SUPABASE_URL;
+  const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY;
+  if (!dryRun && (!SUPABASE_URL || !SUPABASE_SERVICE_KEY)) {
+    console.error("Error: SUPABASE_URL and SUPABASE_SERVICE_KEY must be set");
+    process.exit(1);
+  }
+  const supabase = dryRun ? null : createClient<Database>(SUPABASE_URL!, SUPABASE_SERVICE_KEY!);
+
+  let read = 0;
+  let skipped = 0;
+  let written = 0;
+  let batch: FoodLibraryInsert[] = [];
+  const flush = async () => {
+    if (supabase) written += await upsertDatasetFoods({ supabase, rows: batch });
+    else written += batch.length;
+    batch = [];
+    console.log(`  ${written} foods ${dryRun ? "parsed" : "imported"}...`);
+  };
+
+  console.log(`\nImporting ${resolve(path)} as source "${source}"${dryRun ? " (dry run)" : ""}`);
+  for await (const food of readDataset(path)) {
+    if (limit !== null && read >= limit) break;
+    read++;
+    const row = toInsert(food, source);
+    if (!row) {
+      skipped++;
+      continue;
+    }
+    if (dryRun && written + batch.length < 3) {
+      console.log(JSON.stringify(row));
+    }
+    batch.push(row);
+    if (batch.length >= BATCH_SIZE) await flush();
+  }
+  if (batch.length > 0) await flush();
+
+  console.log(`\n✅ Done: ${written} foods ${dryRun ? "parsed" : "imported"}, ${skipped} skipped without macros`);
+}
+
+importFoodLibrary().catch((error) => {
+  console.error("❌ Import failed:", error);
+  process.exit(1);
+});
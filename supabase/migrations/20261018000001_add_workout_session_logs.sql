@@ -0,0 +1,70 @@
+-- workout_session_logs: one row per client per logged workout day
+CREATE TABLE workout_session_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  workout_day_id UUID REFERENCES workout_days(id) ON DELETE SET NULL,
+  performed_at DATE NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_workout_session_logs_user_performed
+  ON workout_session_logs(user_id, performed_at DESC);
+CREATE INDEX idx_workout_session_logs_workout_day_id
+  ON workout_session_logs(workout_day_id);
+
+-- workout_set_logs: actual load / reps / RPE per set, alongside what was prescribed in sets_data
+CREATE TABLE workout_set_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES workout_session_logs(id) ON DELETE CASCADE,
+  workout_exercise_id UUID REFERENCES workout_exercises(id) ON DELETE SET NULL,
+  exercise_name TEXT NOT NULL,
+  set_number INTEGER NOT NULL CHECK (set_number >= 1),
+  prescribed_reps INTEGER,
+  prescribed_weight NUMERIC,
+  actual_weight NUMERIC CHECK (actual_weight IS NULL OR actual_weight >= 0),
+  actual_reps INTEGER CHECK (actual_reps IS NULL OR actual_reps >= 0),
+  rpe NUMERIC(3, 1) CHECK (rpe IS NULL OR (rpe >= 1 AND rpe <= 10)),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_workout_set_logs_session_id ON workout_set_logs(session_id);
+CREATE INDEX idx_workout_set_logs_workout_exercise_id ON workout_set_logs(workout_exercise_id);
+
+-- RLS
+ALTER TABLE workout_session_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workout_set_logs ENABLE ROW LEVEL SECURITY;
+
+-- Clients manage their own logs; coaches read logs for their clients
+CREATE POLICY "Client can manage own workout_session_logs" ON workout_session_logs
+  FOR ALL USING (user_id = current_user_id());
+
+CREATE POLICY "Coach can read workout_session_logs for their clients" ON workout_session_logs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = workout_session_logs.user_id
+      AND u.coach_id = current_user_id()
+    )
+  );
+
+CREATE POLICY "Client can manage own workout_set_logs" ON workout_set_logs
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM workout_session_logs s
+      WHERE s.id = workout_set_logs.session_id
+      AND s.user_id = current_user_id()
+    )
+  );
+
+CREATE POLICY "Coach can read workout_set_logs for their clients" ON workout_set_logs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM workout_session_logs s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.id = workout_set_logs.session_id
+      AND u.coach_id = current_user_id()
+    )
+  );
@@ -0,0 +1,59 @@
+-- personal_best_records: PB history detected from workout_set_logs.
+-- One row per record broken, so the latest row per (exercise_key, record_type) is the current PB.
+CREATE TABLE personal_best_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  exercise_key TEXT NOT NULL,
+  exercise_name TEXT NOT NULL,
+  record_type TEXT NOT NULL CHECK (record_type IN ('heaviest_load', 'estimated_1rm', 'reps_at_load')),
+  value NUMERIC NOT NULL,
+  weight NUMERIC,
+  reps INTEGER,
+  previous_value NUMERIC,
+  -- Re-logging a day replaces its session, which drops the PBs it set so they can be re-detected
+  session_id UUID REFERENCES workout_session_logs(id) ON DELETE CASCADE,
+  achieved_at DATE NOT NULL,
+  shared_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_personal_best_records_user_exercise
+  ON personal_best_records(user_id, exercise_key, record_type, achieved_at DESC);
+CREATE INDEX idx_personal_best_records_session_id ON personal_best_records(session_id);
+
+-- RLS
+ALTER TABLE personal_best_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Client can read own personal_best_records" ON personal_best_records
+  FOR SELECT USING (user_id = current_user_id());
+
+CREATE POLICY "Coach can read personal_best_records for their clients" ON personal_best_records
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = personal_best_records.user_id
+      AND u.coach_id = current_user_id()
+    )
+  );
+
+-- Carry over manually entered PBs as heaviest-load baselines
+DO $$
+BEGIN
+  IF to_regclass('public.workouts_personal_bests') IS NOT NULL THEN
+    INSERT INTO personal_best_records (
+      user_id, exercise_key, exercise_name, record_type, value, weight, achieved_at
+    )
+    SELECT DISTINCT ON (pb.user_id, lower(regexp_replace(trim(we.exercise_name), '\s+', ' ', 'g')))
+      pb.user_id,
+      lower(regexp_replace(trim(we.exercise_name), '\s+', ' ', 'g')),
+      trim(we.exercise_name),
+      'heaviest_load',
+      pb.weight,
+      pb.weight,
+      COALESCE(pb.date_achieved::date, CURRENT_DATE)
+    FROM workouts_personal_bests pb
+    JOIN workout_exercises we ON we.id = pb.exercise_id
+    WHERE pb.weight > 0
+    ORDER BY pb.user_id, lower(regexp_replace(trim(we.exercise_name), '\s+', ' ', 'g')), pb.weight DESC;
+  END IF;
+END $$;
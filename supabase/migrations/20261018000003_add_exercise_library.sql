@@ -0,0 +1,97 @@
+-- exercise_library: coach-owned canonical exercises that workout_exercises link to
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE exercise_library (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  coach_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  muscle_groups TEXT[] NOT NULL DEFAULT '{}',
+  equipment TEXT[] NOT NULL DEFAULT '{}',
+  video_url TEXT,
+  cues TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_exercise_library_coach_name ON exercise_library(coach_id, lower(name));
+CREATE INDEX idx_exercise_library_name_trgm ON exercise_library USING GIN (name gin_trgm_ops);
+
+-- workout_exercises keep their own name/video so plans render unchanged; the link is the stable ID
+ALTER TABLE workout_exercises
+ADD COLUMN exercise_library_id UUID REFERENCES exercise_library(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_workout_exercises_exercise_library_id ON workout_exercises(exercise_library_id);
+
+COMMENT ON COLUMN workout_exercises.exercise_library_id IS 'Canonical exercise this row was picked from (NULL for free-text exercises)';
+
+-- RLS
+ALTER TABLE exercise_library ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coach can manage own exercise_library" ON exercise_library
+  FOR ALL USING (coach_id = current_user_id());
+
+CREATE POLICY "Client can read their coach's exercise_library" ON exercise_library
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = current_user_id()
+      AND u.coach_id = exercise_library.coach_id
+    )
+  );
+
+-- One-off backfill: build each coach's library from the names already used in their plans,
+-- folding spelling variants (case, punctuation, plurals, "DB"/"BB") into one entry with aliases.
+CREATE FUNCTION pg_temp.normalize_exercise_name(raw TEXT) RETURNS TEXT AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(lower(raw), '[^a-z0-9]+', ' ', 'g'),
+        '\mdb\M', 'dumbbell', 'g'),
+      '\mbb\M', 'barbell', 'g'),
+    '([a-z]{3,})s\M', '\1', 'g'));
+$$ LANGUAGE SQL IMMUTABLE;
+
+CREATE TEMP TABLE exercise_name_usage AS
+SELECT
+  we.id AS workout_exercise_id,
+  trim(we.exercise_name) AS exercise_name,
+  NULLIF(we.video_url, '') AS video_url,
+  pg_temp.normalize_exercise_name(we.exercise_name) AS normalized,
+  CASE WHEN wp.is_template THEN wp.user_id ELSE u.coach_id END AS coach_id
+FROM workout_exercises we
+JOIN workout_days wd ON wd.id = we.workout_day_id
+JOIN workout_plans wp ON wp.id = wd.workout_plan_id
+LEFT JOIN users u ON u.id = wp.user_id
+WHERE trim(coalesce(we.exercise_name, '')) <> '';
+
+DELETE FROM exercise_name_usage WHERE coach_id IS NULL OR normalized = '';
+
+-- Only names that normalize to the same text are merged: fuzzy matching would
+-- fold distinct movements like "Incline" and "Decline Dumbbell Press" together.
+-- The most-used spelling in each group becomes the canonical name.
+INSERT INTO exercise_library (coach_id, name, aliases, video_url)
+SELECT
+  coach_id,
+  canonical,
+  array_remove(spellings, canonical),
+  video_url
+FROM (
+  SELECT
+    coach_id,
+    mode() WITHIN GROUP (ORDER BY exercise_name) AS canonical,
+    array_agg(DISTINCT exercise_name) AS spellings,
+    max(video_url) AS video_url
+  FROM exercise_name_usage
+  GROUP BY coach_id, normalized
+) variants;
+
+UPDATE workout_exercises we
+SET exercise_library_id = el.id
+FROM exercise_name_usage usage
+JOIN exercise_library el
+  ON el.coach_id = usage.coach_id
+  AND pg_temp.normalize_exercise_name(el.name) = usage.normalized
+WHERE usage.workout_exercise_id = we.id;
+
+DROP TABLE exercise_name_usage;
@@ -0,0 +1,9 @@
+-- Multi-week programs: blocks of weeks with progression rules, layered on top of the plan's base week
+ALTER TABLE workout_plans
+ADD COLUMN program JSONB;
+
+COMMENT ON COLUMN workout_plans.program IS 'Blocks of weeks with progression rules (+load/reps/sets per week, deload every Nth week). NULL = the base week repeats';
+
+-- The v2 assignments count program weeks from their own activation day
+ALTER TABLE IF EXISTS user_workout_assignments_v2
+ADD COLUMN IF NOT EXISTS activated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
@@ -0,0 +1,37 @@
+-- Queue of future-dated workout plan activations, swapped in by the activate-scheduled-workout-plans cron at local midnight
+CREATE TABLE workout_plan_activations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  coach_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  workout_plan_id UUID NOT NULL REFERENCES workout_plans(id) ON DELETE CASCADE,
+  activation_date DATE NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'America/Denver',
+  activate_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'activated', 'skipped', 'cancelled')),
+  previous_plan_id UUID REFERENCES workout_plans(id) ON DELETE SET NULL,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_workout_plan_activations_pending_activate_at
+  ON workout_plan_activations (activate_at)
+  WHERE status = 'pending';
+
+-- A plan is queued at most once, and a client gets at most one plan per day
+CREATE UNIQUE INDEX idx_workout_plan_activations_pending_plan
+  ON workout_plan_activations (workout_plan_id)
+  WHERE status = 'pending';
+
+CREATE UNIQUE INDEX idx_workout_plan_activations_pending_client_date
+  ON workout_plan_activations (client_id, activation_date)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_workout_plan_activations_client_id ON workout_plan_activations(client_id);
+
+ALTER TABLE workout_plan_activations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coach can manage workout_plan_activations for their clients" ON workout_plan_activations
+  FOR ALL USING (coach_id = current_user_id());
+
+CREATE POLICY "Client can read own workout_plan_activations" ON workout_plan_activations
+  FOR SELECT USING (client_id = current_user_id());
@@ -0,0 +1,63 @@
+-- food_library: searchable foods that meal plan foods link to through foods.food_library_id.
+-- The table predates the migrations folder, so create it only where it is missing and add
+-- the new columns idempotently.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS food_library (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  calories NUMERIC NOT NULL DEFAULT 0,
+  protein NUMERIC NOT NULL DEFAULT 0,
+  carbs NUMERIC NOT NULL DEFAULT 0,
+  fat NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE food_library
+  ADD COLUMN IF NOT EXISTS coach_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS brand TEXT,
+  ADD COLUMN IF NOT EXISTS barcode TEXT,
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'custom',
+  ADD COLUMN IF NOT EXISTS source_id TEXT,
+  ADD COLUMN IF NOT EXISTS serving_size NUMERIC,
+  ADD COLUMN IF NOT EXISTS serving_label TEXT,
+  ADD COLUMN IF NOT EXISTS calories_per_100g NUMERIC,
+  ADD COLUMN IF NOT EXISTS protein_per_100g NUMERIC,
+  ADD COLUMN IF NOT EXISTS carbs_per_100g NUMERIC,
+  ADD COLUMN IF NOT EXISTS fat_per_100g NUMERIC,
+  ADD COLUMN IF NOT EXISTS portions JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+COMMENT ON COLUMN food_library.coach_id IS 'Coach who added a custom food; NULL for shared entries from an imported dataset';
+COMMENT ON COLUMN food_library.calories IS 'Per serving (serving_label, serving_size grams); protein, carbs and fat likewise';
+COMMENT ON COLUMN food_library.serving_size IS 'Grams in one serving, when known';
+COMMENT ON COLUMN food_library.portions IS 'Household measures as [{"label": "1 cup", "grams": 240}]';
+
+CREATE INDEX IF NOT EXISTS idx_food_library_name_trgm ON food_library USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_food_library_coach_id ON food_library(coach_id);
+CREATE INDEX IF NOT EXISTS idx_food_library_barcode ON food_library(barcode) WHERE barcode IS NOT NULL;
+-- Lets the import script upsert a dataset again without duplicating rows.
+-- Custom foods have a NULL source_id, which never conflicts.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_food_library_source_source_id
+  ON food_library(source, source_id);
+
+-- RLS
+ALTER TABLE food_library ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read shared food_library" ON food_library;
+CREATE POLICY "Anyone can read shared food_library" ON food_library
+  FOR SELECT USING (coach_id IS NULL);
+
+DROP POLICY IF EXISTS "Coach can manage own food_library" ON food_library;
+CREATE POLICY "Coach can manage own food_library" ON food_library
+  FOR ALL USING (coach_id = current_user_id());
+
+DROP POLICY IF EXISTS "Client can read their coach's food_library" ON food_library;
+CREATE POLICY "Client can read their coach's food_library" ON food_library
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = current_user_id()
+      AND u.coach_id = food_library.coach_id
+    )
+  );
@@ -0,0 +1,31 @@
+-- client_macro_targets: daily calorie and macro targets a coach sets for a client.
+-- One row per client; the meal plan builder measures plans against it.
+CREATE TABLE client_macro_targets (
+  client_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  coach_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  calories INTEGER NOT NULL CHECK (calories >= 0),
+  protein INTEGER NOT NULL CHECK (protein >= 0),
+  carbs INTEGER NOT NULL CHECK (carbs >= 0),
+  fat INTEGER NOT NULL CHECK (fat >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON COLUMN client_macro_targets.calories IS 'kcal per day; protein, carbs and fat are grams per day. 0 means no target for that value';
+
+CREATE INDEX idx_client_macro_targets_coach_id ON client_macro_targets(coach_id);
+
+-- RLS
+ALTER TABLE client_macro_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Client can read own client_macro_targets" ON client_macro_targets
+  FOR SELECT USING (client_id = current_user_id());
+
+CREATE POLICY "Coach can manage client_macro_targets for their clients" ON client_macro_targets
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = client_macro_targets.client_id
+      AND u.coach_id = current_user_id()
+    )
+  );
@@ -0,0 +1,40 @@
+-- meal_food_logs: what a client actually ate when it differs from the plan.
+-- 'portion', 'swap' and 'skip' rows replace one planned food (planned_food_id) for the day;
+-- 'extra' rows are off-plan items, optionally attached to the meal they were eaten with.
+CREATE TABLE meal_food_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  log_date DATE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('portion', 'swap', 'skip', 'extra')),
+  meal_id UUID REFERENCES meals(id) ON DELETE SET NULL,
+  planned_food_id UUID REFERENCES foods(id) ON DELETE SET NULL,
+  food_library_id UUID REFERENCES food_library(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  portion TEXT NOT NULL DEFAULT '',
+  calories NUMERIC NOT NULL DEFAULT 0,
+  protein NUMERIC NOT NULL DEFAULT 0,
+  carbs NUMERIC NOT NULL DEFAULT 0,
+  fat NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_meal_food_logs_user_date ON meal_food_logs(user_id, log_date);
+-- One change per planned food per day; logging another replaces it
+CREATE UNIQUE INDEX idx_meal_food_logs_planned_food_day
+  ON meal_food_logs(user_id, log_date, planned_food_id)
+  WHERE kind <> 'extra';
+
+-- RLS
+ALTER TABLE meal_food_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Client can manage own meal_food_logs" ON meal_food_logs
+  FOR ALL USING (user_id = current_user_id());
+
+CREATE POLICY "Coach can read meal_food_logs for their clients" ON meal_food_logs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = meal_food_logs.user_id
+      AND u.coach_id = current_user_id()
+    )
+  );
@@ -0,0 +1,28 @@
+-- New check-in question types: a 1-10 scale, photo upload, a body-measurement
+-- block, date and yes/no. Answers reuse the existing response columns:
+--   scale             -> response_number (1-10)
+--   photo             -> response_text (progress photo URL)
+--   body_measurements -> response_options ({"waist": 32, ..., "unit": "in"})
+--   date              -> response_text (YYYY-MM-DD)
+--   yes_no            -> response_text ('Yes' or 'No')
+ALTER TABLE check_in_form_questions
+  DROP CONSTRAINT IF EXISTS check_in_form_questions_question_type_check;
+
+ALTER TABLE check_in_form_questions
+  ADD CONSTRAINT check_in_form_questions_question_type_check CHECK (
+    question_type IN (
+      'text', 'textarea', 'number', 'select', 'radio', 'checkbox',
+      'scale', 'photo', 'body_measurements', 'date', 'yes_no'
+    )
+  );
+
+ALTER TABLE check_in_form_instance_questions
+  DROP CONSTRAINT IF EXISTS check_in_form_instance_questions_question_type_check;
+
+ALTER TABLE check_in_form_instance_questions
+  ADD CONSTRAINT check_in_form_instance_questions_question_type_check CHECK (
+    question_type IN (
+      'text', 'textarea', 'number', 'select', 'radio', 'checkbox',
+      'scale', 'photo', 'body_measurements', 'date', 'yes_no'
+    )
+  );
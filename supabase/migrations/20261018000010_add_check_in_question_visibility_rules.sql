@@ -0,0 +1,12 @@
+-- Conditional questions: show a question only when an earlier answer matches,
+-- e.g. {"question_index": 2, "operator": "equals", "value": "Yes"}.
+-- question_index is the order_index of the controlling question in the same
+-- form (or instance snapshot); NULL means the question is always shown.
+ALTER TABLE check_in_form_questions
+  ADD COLUMN visibility_rule JSONB;
+
+ALTER TABLE check_in_form_instance_questions
+  ADD COLUMN visibility_rule JSONB;
+
+COMMENT ON COLUMN check_in_form_questions.visibility_rule IS 'Show only when the question at question_index matches operator/value; NULL = always shown';
+COMMENT ON COLUMN check_in_form_instance_questions.visibility_rule IS 'Snapshot of check_in_form_questions.visibility_rule, re-indexed to the snapshot order';
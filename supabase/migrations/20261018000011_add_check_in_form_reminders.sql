@@ -0,0 +1,28 @@
+-- Reminders before a check-in form expires, and the coach's missed check-in digest.
+-- reminder_offsets_hours lists how many hours before expires_at to nudge the
+-- client; reminders_sent_hours records which of those have gone out.
+ALTER TABLE check_in_form_instances
+  ADD COLUMN reminder_offsets_hours INTEGER[] NOT NULL DEFAULT '{24}',
+  ADD COLUMN reminders_sent_hours INTEGER[] NOT NULL DEFAULT '{}',
+  ADD COLUMN missed_digest_sent_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE check_in_form_schedules
+  ADD COLUMN reminder_offsets_hours INTEGER[] NOT NULL DEFAULT '{24}';
+
+COMMENT ON COLUMN check_in_form_instances.reminder_offsets_hours IS 'Hours before expires_at to remind the client, e.g. {48,2}';
+COMMENT ON COLUMN check_in_form_instances.reminders_sent_hours IS 'Offsets from reminder_offsets_hours already handled';
+COMMENT ON COLUMN check_in_form_instances.missed_digest_sent_at IS 'When the coach was told this form expired unanswered';
+COMMENT ON COLUMN check_in_form_schedules.reminder_offsets_hours IS 'Copied to each instance the schedule sends';
+
+CREATE INDEX idx_check_in_form_instances_status_expires_at
+  ON check_in_form_instances (status, expires_at)
+  WHERE status = 'sent';
+
+-- Nothing marked forms expired before, so close out the backlog without
+-- reminding anyone or sending coaches a digest of old misses
+UPDATE check_in_form_instances
+SET status = 'expired',
+    missed_digest_sent_at = NOW()
+WHERE status = 'sent'
+  AND completed_at IS NULL
+  AND expires_at <= NOW();
@@ -0,0 +1,37 @@
+-- Richer recurrence for check-in form schedules: every N weeks on several
+-- weekdays, the last day of the month, N days after a workout plan starts,
+-- and pause windows for client vacations.
+ALTER TABLE check_in_form_schedules
+  DROP CONSTRAINT IF EXISTS check_in_form_schedules_frequency_check,
+  DROP CONSTRAINT IF EXISTS check_in_form_schedules_day_of_month_check;
+
+ALTER TABLE check_in_form_schedules
+  ADD CONSTRAINT check_in_form_schedules_frequency_check
+    CHECK (frequency IN ('daily', 'weekly', 'monthly', 'after_activation')),
+  ADD CONSTRAINT check_in_form_schedules_day_of_month_check
+    CHECK (day_of_month IS NULL OR day_of_month = -1 OR (day_of_month >= 1 AND day_of_month <= 28));
+
+ALTER TABLE check_in_form_schedules
+  ADD COLUMN days_of_week SMALLINT[],
+  ADD COLUMN interval_weeks SMALLINT NOT NULL DEFAULT 1 CHECK (interval_weeks >= 1 AND interval_weeks <= 12),
+  ADD COLUMN days_after_activation SMALLINT CHECK (days_after_activation IS NULL OR (days_after_activation >= 0 AND days_after_activation <= 365)),
+  ADD COLUMN paused_from DATE,
+  ADD COLUMN paused_until DATE,
+  ADD CONSTRAINT check_in_form_schedules_pause_window_check
+    CHECK ((paused_from IS NULL AND paused_until IS NULL) OR paused_until >= paused_from);
+
+-- after_activation schedules wait here until the client starts a new plan
+ALTER TABLE check_in_form_schedules
+  ALTER COLUMN next_send_at DROP NOT NULL;
+
+COMMENT ON COLUMN check_in_form_schedules.day_of_month IS '1-28, or -1 for the last day of the month';
+COMMENT ON COLUMN check_in_form_schedules.days_of_week IS 'Weekly send days, 0 = Monday; day_of_week holds the first of them';
+COMMENT ON COLUMN check_in_form_schedules.interval_weeks IS 'Weekly schedules send every N weeks';
+COMMENT ON COLUMN check_in_form_schedules.days_after_activation IS 'after_activation schedules send this many days after each workout plan starts';
+COMMENT ON COLUMN check_in_form_schedules.paused_from IS 'First day of a pause window, in the schedule timezone';
+COMMENT ON COLUMN check_in_form_schedules.paused_until IS 'Last day of a pause window; sends resume the day after';
+
+UPDATE check_in_form_schedules
+SET days_of_week = ARRAY[day_of_week]
+WHERE frequency = 'weekly'
+  AND day_of_week IS NOT NULL;
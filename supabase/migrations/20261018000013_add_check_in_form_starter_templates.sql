@@ -0,0 +1,74 @@
+-- Built-in check-in form templates: like system habit_presets, they have no
+-- coach_id. Coaches copy one into their own forms from the starter gallery.
+ALTER TABLE check_in_forms
+  ALTER COLUMN coach_id DROP NOT NULL;
+
+CREATE POLICY "Anyone can read built-in check-in forms" ON check_in_forms
+  FOR SELECT USING (coach_id IS NULL);
+
+CREATE POLICY "Anyone can read built-in check-in form questions" ON check_in_form_questions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM check_in_forms
+      WHERE check_in_forms.id = check_in_form_questions.form_id
+      AND check_in_forms.coach_id IS NULL
+    )
+  );
+
+WITH form AS (
+  INSERT INTO check_in_forms (coach_id, title, description)
+  VALUES (NULL, 'Weekly Check-In', 'A quick look at training, nutrition, recovery and how the week felt.')
+  RETURNING id
+)
+INSERT INTO check_in_form_questions (form_id, question_text, question_type, is_required, options, order_index, visibility_rule)
+SELECT form.id, q.question_text, q.question_type, q.is_required, q.options::jsonb, q.order_index, q.visibility_rule::jsonb
+FROM form, (VALUES
+  ('How would you rate your week overall?', 'scale', true, NULL, 0, NULL),
+  ('Current body weight', 'number', true, NULL, 1, NULL),
+  ('How many workouts did you complete this week?', 'number', true, NULL, 2, NULL),
+  ('How closely did you follow your meal plan?', 'radio', true, '["Fully", "Mostly", "About half", "Barely"]', 3, NULL),
+  ('Sleep quality this week', 'scale', false, NULL, 4, NULL),
+  ('Energy levels this week', 'scale', false, NULL, 5, NULL),
+  ('Did you have any pain or injuries?', 'yes_no', true, NULL, 6, NULL),
+  ('Describe the pain or injury', 'textarea', true, NULL, 7, '{"question_index": 6, "operator": "equals", "value": "Yes"}'),
+  ('Biggest win this week', 'textarea', false, NULL, 8, NULL),
+  ('What do you need more help with?', 'textarea', false, NULL, 9, NULL)
+) AS q(question_text, question_type, is_required, options, order_index, visibility_rule);
+
+WITH form AS (
+  INSERT INTO check_in_forms (coach_id, title, description)
+  VALUES (NULL, 'Monthly Review', 'Measurements, photos and a look back at the month before setting new goals.')
+  RETURNING id
+)
+INSERT INTO check_in_form_questions (form_id, question_text, question_type, is_required, options, order_index, visibility_rule)
+SELECT form.id, q.question_text, q.question_type, q.is_required, q.options::jsonb, q.order_index, q.visibility_rule::jsonb
+FROM form, (VALUES
+  ('How do you rate your progress this month?', 'scale', true, NULL, 0, NULL),
+  ('Body measurements', 'body_measurements', false, NULL, 1, NULL),
+  ('Progress photo', 'photo', false, NULL, 2, NULL),
+  ('Which areas improved the most?', 'checkbox', false, '["Strength", "Endurance", "Body composition", "Nutrition habits", "Sleep", "Stress management"]', 3, NULL),
+  ('What got in the way of your goals?', 'textarea', false, NULL, 4, NULL),
+  ('Are you happy with your current program?', 'yes_no', true, NULL, 5, NULL),
+  ('What would you change?', 'textarea', false, NULL, 6, '{"question_index": 5, "operator": "equals", "value": "No"}'),
+  ('Goals for next month', 'textarea', true, NULL, 7, NULL)
+) AS q(question_text, question_type, is_required, options, order_index, visibility_rule);
+
+WITH form AS (
+  INSERT INTO check_in_forms (coach_id, title, description)
+  VALUES (NULL, 'Onboarding Questionnaire', 'Background, goals and starting point for a new client.')
+  RETURNING id
+)
+INSERT INTO check_in_form_questions (form_id, question_text, question_type, is_required, options, order_index, visibility_rule)
+SELECT form.id, q.question_text, q.question_type, q.is_required, q.options::jsonb, q.order_index, q.visibility_rule::jsonb
+FROM form, (VALUES
+  ('Date of birth', 'date', false, NULL, 0, NULL),
+  ('What is your main goal?', 'select', true, '["Lose fat", "Build muscle", "Improve performance", "General health"]', 1, NULL),
+  ('Training experience', 'radio', true, '["Beginner (under 1 year)", "Intermediate (1-3 years)", "Advanced (3+ years)"]', 2, NULL),
+  ('How many days per week can you train?', 'number', true, NULL, 3, NULL),
+  ('Do you have any injuries or medical conditions?', 'yes_no', true, NULL, 4, NULL),
+  ('Please describe them', 'textarea', true, NULL, 5, '{"question_index": 4, "operator": "equals", "value": "Yes"}'),
+  ('Any dietary restrictions or allergies?', 'textarea', false, NULL, 6, NULL),
+  ('Typical hours of sleep per night', 'number', false, NULL, 7, NULL),
+  ('Starting body measurements', 'body_measurements', false, NULL, 8, NULL),
+  ('Starting progress photo', 'photo', false, NULL, 9, NULL)
+) AS q(question_text, question_type, is_required, options, order_index, visibility_rule);
@@ -0,0 +1,37 @@
+-- Intake questionnaires: a coach can attach one of their check-in forms to an
+-- invitation, and the client answers it as the last step of registration.
+ALTER TABLE client_invitations
+  ADD COLUMN intake_form_id UUID REFERENCES check_in_forms(id) ON DELETE SET NULL;
+
+-- Answers to questions with a profile_field are copied onto the client's
+-- users row when the intake is submitted.
+ALTER TABLE check_in_form_questions
+  ADD COLUMN profile_field TEXT
+  CHECK (profile_field IN ('goal', 'starting_weight', 'allergies', 'equipment_available'));
+
+ALTER TABLE users
+  ADD COLUMN allergies TEXT,
+  ADD COLUMN equipment_available TEXT;
+
+-- Point the onboarding starter template's answers at the profile and ask
+-- for the rest of what the profile shows.
+UPDATE check_in_form_questions
+SET profile_field = CASE question_text
+  WHEN 'What is your main goal?' THEN 'goal'
+  WHEN 'Any dietary restrictions or allergies?' THEN 'allergies'
+END
+WHERE question_text IN ('What is your main goal?', 'Any dietary restrictions or allergies?')
+AND form_id IN (
+  SELECT id FROM check_in_forms
+  WHERE coach_id IS NULL AND title = 'Onboarding Questionnaire'
+);
+
+INSERT INTO check_in_form_questions (form_id, question_text, question_type, is_required, options, order_index, profile_field)
+SELECT forms.id, q.question_text, q.question_type, q.is_required, q.options::jsonb, q.order_index, q.profile_field
+FROM (
+  SELECT id FROM check_in_forms
+  WHERE coach_id IS NULL AND title = 'Onboarding Questionnaire'
+) AS forms, (VALUES
+  ('Current body weight (lbs)', 'number', true, NULL, 10, 'starting_weight'),
+  ('What equipment do you have access to?', 'checkbox', false, '["Full gym", "Dumbbells", "Barbell and rack", "Kettlebells", "Resistance bands", "Cardio machine", "Bodyweight only"]', 11, 'equipment_available')
+) AS q(question_text, question_type, is_required, options, order_index, profile_field);
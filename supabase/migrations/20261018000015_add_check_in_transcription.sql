@@ -0,0 +1,28 @@
+-- Server-side transcription of check-in recordings. Uploads without a
+-- browser transcript are queued as 'pending' and picked up by the
+-- transcription cron job.
+ALTER TABLE check_ins
+  ADD COLUMN transcript_segments JSONB,
+  ADD COLUMN transcription_status TEXT
+    CHECK (transcription_status IN ('pending', 'processing', 'completed', 'failed')),
+  ADD COLUMN transcription_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN transcription_error TEXT,
+  ADD COLUMN transcription_started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN transcribed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN check_ins.transcript_segments IS 'Timed transcript pieces: [{"start": seconds, "end": seconds, "text": "..."}]';
+COMMENT ON COLUMN check_ins.transcription_status IS 'NULL when there is nothing to transcribe or the browser sent the transcript';
+COMMENT ON COLUMN check_ins.transcription_attempts IS 'Failed runs are retried until this reaches the job''s limit';
+COMMENT ON COLUMN check_ins.transcription_started_at IS 'When a run claimed the row; processing rows older than the job''s timeout are re-queued';
+
+CREATE INDEX idx_check_ins_transcription_status
+  ON check_ins (transcription_status, created_at)
+  WHERE transcription_status IN ('pending', 'processing', 'failed');
+
+-- Queue recent recordings uploaded without a transcript. Older history is
+-- left alone so the job doesn't send it all to the paid provider.
+UPDATE check_ins
+SET transcription_status = 'pending'
+WHERE transcript IS NULL
+  AND (video_url IS NOT NULL OR audio_url IS NOT NULL)
+  AND created_at >= NOW() - INTERVAL '14 days';
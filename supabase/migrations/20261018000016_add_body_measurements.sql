@@ -0,0 +1,54 @@
+-- body_measurements: one value per metric per day that a client logs alongside
+-- their weight. Circumferences are inches, body_fat is percent and
+-- resting_heart_rate is beats per minute.
+CREATE TABLE body_measurements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  metric TEXT NOT NULL CHECK (metric IN ('waist', 'hips', 'chest', 'arms', 'thighs', 'body_fat', 'resting_heart_rate')),
+  value NUMERIC NOT NULL CHECK (value > 0),
+  measured_on DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, metric, measured_on)
+);
+
+CREATE INDEX idx_body_measurements_user_metric ON body_measurements(user_id, metric, measured_on);
+
+-- client_measurement_settings: which metrics a coach asks a client to track.
+-- No row means the client tracks nothing beyond weight.
+CREATE TABLE client_measurement_settings (
+  client_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  coach_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  metrics TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_client_measurement_settings_coach_id ON client_measurement_settings(coach_id);
+
+-- RLS
+ALTER TABLE body_measurements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE client_measurement_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Client can manage own body_measurements" ON body_measurements
+  FOR ALL USING (user_id = current_user_id());
+
+CREATE POLICY "Coach can read body_measurements for their clients" ON body_measurements
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = body_measurements.user_id
+      AND u.coach_id = current_user_id()
+    )
+  );
+
+CREATE POLICY "Client can read own client_measurement_settings" ON client_measurement_settings
+  FOR SELECT USING (client_id = current_user_id());
+
+CREATE POLICY "Coach can manage client_measurement_settings for their clients" ON client_measurement_settings
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = client_measurement_settings.client_id
+      AND u.coach_id = current_user_id()
+    )
+  );
@@ -0,0 +1,20 @@
+-- Progress photos are tagged by pose and grouped into dated sets so the
+-- same pose can be compared across dates.
+ALTER TABLE progress_photos
+  ADD COLUMN pose TEXT CHECK (pose IN ('front', 'side', 'back')),
+  ADD COLUMN taken_on DATE;
+
+COMMENT ON COLUMN progress_photos.pose IS 'NULL for photos uploaded before poses were tracked';
+COMMENT ON COLUMN progress_photos.taken_on IS 'The set a photo belongs to: one set per client per date';
+
+-- Existing photos form one set per upload day
+UPDATE progress_photos
+SET taken_on = (created_at AT TIME ZONE 'America/Denver')::DATE
+WHERE taken_on IS NULL;
+
+ALTER TABLE progress_photos
+  ALTER COLUMN taken_on SET NOT NULL,
+  ALTER COLUMN taken_on SET DEFAULT CURRENT_DATE;
+
+CREATE INDEX idx_progress_photos_client_taken_on
+  ON progress_photos (client_id, taken_on);
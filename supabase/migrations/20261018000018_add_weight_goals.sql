@@ -0,0 +1,31 @@
+-- weight_goals: the target weight and date a coach sets for a client. The
+-- start point is the client's trend weight when the target was set, so the
+-- expected pace runs in a straight line from there to the target.
+CREATE TABLE weight_goals (
+  client_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  coach_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  target_weight NUMERIC NOT NULL CHECK (target_weight > 0),
+  target_date DATE NOT NULL,
+  start_weight NUMERIC NOT NULL CHECK (start_weight > 0),
+  start_date DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (target_date > start_date)
+);
+
+CREATE INDEX idx_weight_goals_coach_id ON weight_goals(coach_id);
+
+-- RLS
+ALTER TABLE weight_goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Client can read own weight_goals" ON weight_goals
+  FOR SELECT USING (client_id = current_user_id());
+
+CREATE POLICY "Coach can manage weight_goals for their clients" ON weight_goals
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = weight_goals.client_id
+      AND u.coach_id = current_user_id()
+    )
+  );